@@ -0,0 +1,30 @@
+CREATE TABLE IF NOT EXISTS tenant_invitations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  email VARCHAR(160) NOT NULL,
+  role tenant_role NOT NULL,
+  network_ids UUID[] NOT NULL DEFAULT '{}',
+  cell_ids UUID[] NOT NULL DEFAULT '{}',
+  token_hash TEXT NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  sent_count INTEGER NOT NULL DEFAULT 1,
+  last_sent_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  invited_by_user_id UUID NOT NULL REFERENCES users(id),
+  accepted_at TIMESTAMPTZ,
+  accepted_by_user_id UUID REFERENCES users(id),
+  revoked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS tenant_invitations_token_hash_unique
+  ON tenant_invitations (token_hash);
+
+CREATE INDEX IF NOT EXISTS tenant_invitations_tenant_email_idx
+  ON tenant_invitations (tenant_id, LOWER(email));
+
+DROP TRIGGER IF EXISTS trg_tenant_invitations_updated_at ON tenant_invitations;
+CREATE TRIGGER trg_tenant_invitations_updated_at
+BEFORE UPDATE ON tenant_invitations
+FOR EACH ROW
+EXECUTE FUNCTION set_updated_at();
@@ -0,0 +1,22 @@
+CREATE TABLE IF NOT EXISTS user_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  refresh_token_hash TEXT NOT NULL,
+  previous_refresh_token_hash TEXT,
+  user_agent VARCHAR(300),
+  ip_address VARCHAR(64),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL,
+  revoked_at TIMESTAMPTZ
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS user_sessions_refresh_token_hash_unique
+  ON user_sessions (refresh_token_hash);
+
+CREATE INDEX IF NOT EXISTS user_sessions_previous_refresh_token_hash_idx
+  ON user_sessions (previous_refresh_token_hash);
+
+CREATE INDEX IF NOT EXISTS user_sessions_user_idx
+  ON user_sessions (user_id, last_seen_at DESC);
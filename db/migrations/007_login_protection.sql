@@ -0,0 +1,24 @@
+CREATE TABLE IF NOT EXISTS login_attempt_counters (
+  key VARCHAR(200) PRIMARY KEY,
+  failures INTEGER NOT NULL DEFAULT 0,
+  last_failed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  locked_until TIMESTAMPTZ
+);
+
+CREATE TABLE IF NOT EXISTS login_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES users(id),
+  tenant_id UUID REFERENCES tenants(id),
+  email VARCHAR(160) NOT NULL,
+  success BOOLEAN NOT NULL,
+  failure_reason VARCHAR(40),
+  ip_address VARCHAR(64),
+  user_agent VARCHAR(300),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS login_history_user_idx
+  ON login_history (user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS login_history_created_idx
+  ON login_history (created_at DESC);
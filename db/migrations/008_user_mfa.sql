@@ -0,0 +1,33 @@
+CREATE TABLE IF NOT EXISTS user_mfa (
+  user_id UUID PRIMARY KEY REFERENCES users(id),
+  secret_encrypted TEXT NOT NULL,
+  enabled_at TIMESTAMPTZ,
+  last_used_step BIGINT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS user_mfa_recovery_codes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id),
+  code_hash TEXT NOT NULL,
+  used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS user_mfa_recovery_codes_user_idx
+  ON user_mfa_recovery_codes (user_id);
+
+CREATE TABLE IF NOT EXISTS tenant_mfa_required_roles (
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  role tenant_role NOT NULL,
+  updated_by_user_id UUID REFERENCES users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (tenant_id, role)
+);
+
+DROP TRIGGER IF EXISTS trg_user_mfa_updated_at ON user_mfa;
+CREATE TRIGGER trg_user_mfa_updated_at
+BEFORE UPDATE ON user_mfa
+FOR EACH ROW
+EXECUTE FUNCTION set_updated_at();
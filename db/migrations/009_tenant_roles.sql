@@ -0,0 +1,31 @@
+CREATE TABLE IF NOT EXISTS tenant_roles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  key VARCHAR(60) NOT NULL,
+  name VARCHAR(120) NOT NULL,
+  base_role tenant_role NOT NULL,
+  scope VARCHAR(20) NOT NULL CHECK (scope IN ('all', 'network', 'cell')),
+  permissions JSONB NOT NULL DEFAULT '{}'::jsonb,
+  is_system BOOLEAN NOT NULL DEFAULT FALSE,
+  created_by_user_id UUID REFERENCES users(id),
+  updated_by_user_id UUID REFERENCES users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (tenant_id, key)
+);
+
+ALTER TABLE tenant_members
+  ADD COLUMN IF NOT EXISTS role_id UUID REFERENCES tenant_roles(id);
+
+ALTER TABLE tenant_invitations
+  ADD COLUMN IF NOT EXISTS role_id UUID REFERENCES tenant_roles(id);
+
+CREATE INDEX IF NOT EXISTS tenant_members_role_id_idx
+  ON tenant_members (role_id)
+  WHERE role_id IS NOT NULL;
+
+DROP TRIGGER IF EXISTS trg_tenant_roles_updated_at ON tenant_roles;
+CREATE TRIGGER trg_tenant_roles_updated_at
+BEFORE UPDATE ON tenant_roles
+FOR EACH ROW
+EXECUTE FUNCTION set_updated_at();
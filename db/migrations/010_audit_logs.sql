@@ -0,0 +1,21 @@
+CREATE TABLE IF NOT EXISTS audit_logs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID REFERENCES tenants(id),
+  actor_user_id UUID REFERENCES users(id),
+  action VARCHAR(80) NOT NULL,
+  entity_type VARCHAR(60) NOT NULL,
+  entity_id VARCHAR(120),
+  changes JSONB NOT NULL DEFAULT '{}'::jsonb,
+  ip_address VARCHAR(64),
+  user_agent VARCHAR(300),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS audit_logs_tenant_created_idx
+  ON audit_logs (tenant_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS audit_logs_tenant_entity_idx
+  ON audit_logs (tenant_id, entity_type, entity_id);
+
+CREATE INDEX IF NOT EXISTS audit_logs_actor_idx
+  ON audit_logs (actor_user_id, created_at DESC);
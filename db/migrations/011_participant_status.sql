@@ -0,0 +1,8 @@
+ALTER TABLE participants
+  ADD COLUMN IF NOT EXISTS is_active BOOLEAN NOT NULL DEFAULT TRUE;
+
+ALTER TABLE participants
+  ADD COLUMN IF NOT EXISTS deactivated_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS participant_cell_links_participant_idx
+  ON participant_cell_links (participant_id);
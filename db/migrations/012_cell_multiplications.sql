@@ -0,0 +1,23 @@
+CREATE TABLE IF NOT EXISTS cell_multiplications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  network_id UUID NOT NULL REFERENCES church_networks(id),
+  parent_cell_id UUID NOT NULL REFERENCES cells(id),
+  child_cell_id UUID NOT NULL REFERENCES cells(id),
+  parent_leader_user_id UUID REFERENCES users(id),
+  child_leader_user_id UUID NOT NULL REFERENCES users(id),
+  transfer_log_id UUID REFERENCES transfer_logs(id),
+  participants_moved INTEGER NOT NULL DEFAULT 0,
+  multiplied_on DATE NOT NULL DEFAULT CURRENT_DATE,
+  notes TEXT,
+  created_by_user_id UUID NOT NULL REFERENCES users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (child_cell_id),
+  CHECK (parent_cell_id <> child_cell_id)
+);
+
+CREATE INDEX IF NOT EXISTS cell_multiplications_tenant_parent_idx
+  ON cell_multiplications (tenant_id, parent_cell_id);
+
+CREATE INDEX IF NOT EXISTS cell_multiplications_tenant_date_idx
+  ON cell_multiplications (tenant_id, multiplied_on DESC);
@@ -0,0 +1,35 @@
+CREATE TABLE IF NOT EXISTS cell_meeting_reports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  cell_id UUID NOT NULL REFERENCES cells(id),
+  week_start DATE NOT NULL,
+  meeting_date DATE NOT NULL,
+  visitors_count INTEGER NOT NULL DEFAULT 0 CHECK (visitors_count >= 0),
+  offering_amount NUMERIC(12, 2) NOT NULL DEFAULT 0 CHECK (offering_amount >= 0),
+  lesson_title VARCHAR(200),
+  notes TEXT,
+  submitted_by_user_id UUID NOT NULL REFERENCES users(id),
+  updated_by_user_id UUID REFERENCES users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (tenant_id, cell_id, week_start)
+);
+
+CREATE INDEX IF NOT EXISTS cell_meeting_reports_tenant_week_idx
+  ON cell_meeting_reports (tenant_id, week_start DESC);
+
+CREATE TABLE IF NOT EXISTS cell_meeting_attendees (
+  report_id UUID NOT NULL REFERENCES cell_meeting_reports(id) ON DELETE CASCADE,
+  participant_id UUID NOT NULL REFERENCES participants(id),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  PRIMARY KEY (report_id, participant_id)
+);
+
+CREATE INDEX IF NOT EXISTS cell_meeting_attendees_participant_idx
+  ON cell_meeting_attendees (participant_id);
+
+DROP TRIGGER IF EXISTS trg_cell_meeting_reports_updated_at ON cell_meeting_reports;
+CREATE TRIGGER trg_cell_meeting_reports_updated_at
+BEFORE UPDATE ON cell_meeting_reports
+FOR EACH ROW
+EXECUTE FUNCTION set_updated_at();
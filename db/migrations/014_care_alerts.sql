@@ -0,0 +1,52 @@
+CREATE TABLE IF NOT EXISTS tenant_care_settings (
+  tenant_id UUID PRIMARY KEY REFERENCES tenants(id),
+  absence_threshold INTEGER NOT NULL DEFAULT 3 CHECK (absence_threshold BETWEEN 1 AND 52),
+  visitor_return_days INTEGER NOT NULL DEFAULT 21 CHECK (visitor_return_days BETWEEN 1 AND 365),
+  regression_lookback_days INTEGER NOT NULL DEFAULT 30 CHECK (regression_lookback_days BETWEEN 1 AND 365),
+  updated_by_user_id UUID REFERENCES users(id),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS care_alerts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  participant_id UUID NOT NULL REFERENCES participants(id),
+  cell_id UUID NOT NULL REFERENCES cells(id),
+  kind VARCHAR(30) NOT NULL CHECK (
+    kind IN ('consecutive_absence', 'visitor_not_returned', 'type_regression')
+  ),
+  status VARCHAR(20) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'acknowledged', 'closed')),
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  detected_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  acknowledged_by_user_id UUID REFERENCES users(id),
+  acknowledged_at TIMESTAMPTZ,
+  closed_by_user_id UUID REFERENCES users(id),
+  closed_at TIMESTAMPTZ,
+  resolution TEXT,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS care_alerts_open_unique_idx
+  ON care_alerts (tenant_id, participant_id, kind)
+  WHERE status <> 'closed';
+
+CREATE INDEX IF NOT EXISTS care_alerts_tenant_status_idx
+  ON care_alerts (tenant_id, status, detected_at DESC);
+
+CREATE TABLE IF NOT EXISTS care_alert_notes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  alert_id UUID NOT NULL REFERENCES care_alerts(id),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  author_user_id UUID NOT NULL REFERENCES users(id),
+  note TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS care_alert_notes_alert_idx
+  ON care_alert_notes (alert_id, created_at);
+
+DROP TRIGGER IF EXISTS trg_care_alerts_updated_at ON care_alerts;
+CREATE TRIGGER trg_care_alerts_updated_at
+BEFORE UPDATE ON care_alerts
+FOR EACH ROW
+EXECUTE FUNCTION set_updated_at();
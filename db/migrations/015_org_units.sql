@@ -0,0 +1,52 @@
+ALTER TYPE tenant_role ADD VALUE IF NOT EXISTS 'supervisor';
+
+CREATE TABLE IF NOT EXISTS org_units (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  network_id UUID NOT NULL REFERENCES church_networks(id),
+  parent_id UUID REFERENCES org_units(id),
+  level_name VARCHAR(60) NOT NULL,
+  name VARCHAR(120) NOT NULL,
+  code VARCHAR(30) NOT NULL,
+  supervisor_user_id UUID REFERENCES users(id),
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (tenant_id, code),
+  CHECK (parent_id IS NULL OR parent_id <> id)
+);
+
+CREATE INDEX IF NOT EXISTS org_units_tenant_network_idx
+  ON org_units (tenant_id, network_id);
+
+CREATE INDEX IF NOT EXISTS org_units_parent_idx
+  ON org_units (parent_id)
+  WHERE parent_id IS NOT NULL;
+
+ALTER TABLE cells
+  ADD COLUMN IF NOT EXISTS org_unit_id UUID REFERENCES org_units(id);
+
+CREATE INDEX IF NOT EXISTS cells_org_unit_idx
+  ON cells (org_unit_id)
+  WHERE org_unit_id IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS user_unit_scopes (
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  user_id UUID NOT NULL REFERENCES users(id),
+  org_unit_id UUID NOT NULL REFERENCES org_units(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (tenant_id, user_id, org_unit_id)
+);
+
+ALTER TABLE tenant_roles
+  DROP CONSTRAINT IF EXISTS tenant_roles_scope_check;
+
+ALTER TABLE tenant_roles
+  ADD CONSTRAINT tenant_roles_scope_check
+  CHECK (scope IN ('all', 'network', 'supervisor', 'cell'));
+
+DROP TRIGGER IF EXISTS trg_org_units_updated_at ON org_units;
+CREATE TRIGGER trg_org_units_updated_at
+BEFORE UPDATE ON org_units
+FOR EACH ROW
+EXECUTE FUNCTION set_updated_at();
@@ -0,0 +1,34 @@
+CREATE TABLE IF NOT EXISTS transfer_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  source_cell_id UUID NOT NULL REFERENCES cells(id),
+  destination_cell_id UUID NOT NULL REFERENCES cells(id),
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  reason TEXT,
+  requested_by_user_id UUID NOT NULL REFERENCES users(id),
+  decided_by_user_id UUID REFERENCES users(id),
+  decided_at TIMESTAMPTZ,
+  decision_note TEXT,
+  transfer_log_id UUID REFERENCES transfer_logs(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (source_cell_id <> destination_cell_id)
+);
+
+CREATE INDEX IF NOT EXISTS transfer_requests_tenant_status_idx
+  ON transfer_requests (tenant_id, status, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS transfer_requests_destination_idx
+  ON transfer_requests (destination_cell_id, status);
+
+CREATE TABLE IF NOT EXISTS transfer_request_participants (
+  request_id UUID NOT NULL REFERENCES transfer_requests(id) ON DELETE CASCADE,
+  participant_id UUID NOT NULL REFERENCES participants(id),
+  PRIMARY KEY (request_id, participant_id)
+);
+
+DROP TRIGGER IF EXISTS trg_transfer_requests_updated_at ON transfer_requests;
+CREATE TRIGGER trg_transfer_requests_updated_at
+BEFORE UPDATE ON transfer_requests
+FOR EACH ROW
+EXECUTE FUNCTION set_updated_at();
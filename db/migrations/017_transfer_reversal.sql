@@ -0,0 +1,39 @@
+ALTER TABLE transfer_logs
+  ADD COLUMN IF NOT EXISTS reverts_transfer_log_id UUID REFERENCES transfer_logs(id);
+
+ALTER TABLE transfer_logs
+  ADD COLUMN IF NOT EXISTS reverted_at TIMESTAMPTZ;
+
+ALTER TABLE transfer_logs
+  ADD COLUMN IF NOT EXISTS reverted_by_user_id UUID REFERENCES users(id);
+
+CREATE INDEX IF NOT EXISTS transfer_logs_tenant_date_idx
+  ON transfer_logs (tenant_id, transferred_at DESC);
+
+CREATE UNIQUE INDEX IF NOT EXISTS transfer_logs_reverts_unique
+  ON transfer_logs (reverts_transfer_log_id)
+  WHERE reverts_transfer_log_id IS NOT NULL;
+
+ALTER TABLE transfer_log_participants
+  ADD COLUMN IF NOT EXISTS participant_type participant_type;
+
+ALTER TABLE transfer_log_participants
+  ADD COLUMN IF NOT EXISTS destination_link_created BOOLEAN;
+
+ALTER TABLE transfer_log_participants
+  ADD COLUMN IF NOT EXISTS previous_destination_type participant_type;
+
+ALTER TABLE transfer_log_participants
+  ADD COLUMN IF NOT EXISTS previous_destination_active BOOLEAN;
+
+CREATE INDEX IF NOT EXISTS transfer_log_participants_participant_idx
+  ON transfer_log_participants (participant_id);
+
+UPDATE transfer_log_participants tlp
+   SET participant_type = pcl.type
+  FROM transfer_logs tl
+  JOIN participant_cell_links pcl
+    ON pcl.cell_id = tl.source_cell_id
+ WHERE tl.id = tlp.transfer_log_id
+   AND pcl.participant_id = tlp.participant_id
+   AND tlp.participant_type IS NULL;
@@ -0,0 +1,14 @@
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+ALTER TABLE participants
+  ADD COLUMN IF NOT EXISTS merged_into_participant_id UUID REFERENCES participants(id);
+
+ALTER TABLE participants
+  ADD COLUMN IF NOT EXISTS merged_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS participants_name_trgm_idx
+  ON participants USING GIN (LOWER(full_name) gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS participants_tenant_email_idx
+  ON participants (tenant_id, LOWER(email))
+  WHERE email IS NOT NULL;
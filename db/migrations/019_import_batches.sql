@@ -0,0 +1,15 @@
+CREATE TABLE IF NOT EXISTS import_batches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  kind VARCHAR(20) NOT NULL CHECK (kind IN ('participants', 'cells')),
+  file_format VARCHAR(10) NOT NULL CHECK (file_format IN ('csv', 'xlsx')),
+  file_name VARCHAR(200),
+  total_rows INTEGER NOT NULL DEFAULT 0,
+  imported_rows INTEGER NOT NULL DEFAULT 0,
+  skipped_rows INTEGER NOT NULL DEFAULT 0,
+  created_by_user_id UUID NOT NULL REFERENCES users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS import_batches_tenant_idx
+  ON import_batches (tenant_id, created_at DESC);
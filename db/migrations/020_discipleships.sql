@@ -0,0 +1,48 @@
+CREATE TABLE IF NOT EXISTS discipleships (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  disciple_participant_id UUID NOT NULL REFERENCES participants(id),
+  discipler_participant_id UUID REFERENCES participants(id),
+  discipler_user_id UUID REFERENCES users(id),
+  started_on DATE NOT NULL DEFAULT CURRENT_DATE,
+  ended_on DATE,
+  end_reason TEXT,
+  created_by_user_id UUID NOT NULL REFERENCES users(id),
+  ended_by_user_id UUID REFERENCES users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK ((discipler_participant_id IS NULL) <> (discipler_user_id IS NULL)),
+  CHECK (discipler_participant_id IS NULL OR discipler_participant_id <> disciple_participant_id),
+  CHECK (ended_on IS NULL OR ended_on >= started_on)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS discipleships_active_disciple_idx
+  ON discipleships (tenant_id, disciple_participant_id)
+  WHERE ended_on IS NULL;
+
+CREATE INDEX IF NOT EXISTS discipleships_discipler_participant_idx
+  ON discipleships (discipler_participant_id)
+  WHERE discipler_participant_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS discipleships_discipler_user_idx
+  ON discipleships (tenant_id, discipler_user_id)
+  WHERE discipler_user_id IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS discipleship_meetings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  discipleship_id UUID NOT NULL REFERENCES discipleships(id),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  met_on DATE NOT NULL,
+  notes TEXT NOT NULL,
+  author_user_id UUID NOT NULL REFERENCES users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS discipleship_meetings_discipleship_idx
+  ON discipleship_meetings (discipleship_id, met_on DESC);
+
+DROP TRIGGER IF EXISTS trg_discipleships_updated_at ON discipleships;
+CREATE TRIGGER trg_discipleships_updated_at
+BEFORE UPDATE ON discipleships
+FOR EACH ROW
+EXECUTE FUNCTION set_updated_at();
@@ -0,0 +1,131 @@
+CREATE TABLE IF NOT EXISTS school_courses (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  name VARCHAR(160) NOT NULL,
+  description TEXT,
+  passing_grade NUMERIC(4, 2) NOT NULL DEFAULT 7 CHECK (passing_grade BETWEEN 0 AND 10),
+  min_attendance_percent INTEGER NOT NULL DEFAULT 75 CHECK (min_attendance_percent BETWEEN 0 AND 100),
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_by_user_id UUID NOT NULL REFERENCES users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS school_courses_tenant_name_idx
+  ON school_courses (tenant_id, LOWER(name));
+
+CREATE TABLE IF NOT EXISTS school_course_modules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  course_id UUID NOT NULL REFERENCES school_courses(id),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  position INTEGER NOT NULL CHECK (position > 0),
+  title VARCHAR(160) NOT NULL,
+  description TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT school_course_modules_position_key
+    UNIQUE (course_id, position) DEFERRABLE INITIALLY DEFERRED
+);
+
+CREATE TABLE IF NOT EXISTS school_classes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  course_id UUID NOT NULL REFERENCES school_courses(id),
+  name VARCHAR(160) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'planned' CHECK (
+    status IN ('planned', 'in_progress', 'finished', 'cancelled')
+  ),
+  starts_on DATE NOT NULL,
+  ends_on DATE,
+  weekday SMALLINT CHECK (weekday BETWEEN 0 AND 6),
+  start_time TIME,
+  location VARCHAR(160),
+  finished_at TIMESTAMPTZ,
+  created_by_user_id UUID NOT NULL REFERENCES users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (ends_on IS NULL OR ends_on >= starts_on)
+);
+
+CREATE INDEX IF NOT EXISTS school_classes_tenant_status_idx
+  ON school_classes (tenant_id, status, starts_on DESC);
+
+CREATE TABLE IF NOT EXISTS school_class_teachers (
+  class_id UUID NOT NULL REFERENCES school_classes(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id),
+  PRIMARY KEY (class_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS school_enrollments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  class_id UUID NOT NULL REFERENCES school_classes(id),
+  participant_id UUID NOT NULL REFERENCES participants(id),
+  status VARCHAR(20) NOT NULL DEFAULT 'enrolled' CHECK (
+    status IN ('enrolled', 'passed', 'failed', 'dropped')
+  ),
+  final_grade NUMERIC(4, 2),
+  attendance_percent INTEGER,
+  completed_at TIMESTAMPTZ,
+  enrolled_by_user_id UUID NOT NULL REFERENCES users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (class_id, participant_id)
+);
+
+CREATE INDEX IF NOT EXISTS school_enrollments_participant_idx
+  ON school_enrollments (tenant_id, participant_id, status);
+
+CREATE TABLE IF NOT EXISTS school_lessons (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  class_id UUID NOT NULL REFERENCES school_classes(id),
+  module_id UUID REFERENCES school_course_modules(id),
+  lesson_date DATE NOT NULL,
+  topic VARCHAR(200),
+  recorded_by_user_id UUID NOT NULL REFERENCES users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS school_lessons_class_idx
+  ON school_lessons (class_id, lesson_date);
+
+CREATE TABLE IF NOT EXISTS school_lesson_attendance (
+  lesson_id UUID NOT NULL REFERENCES school_lessons(id) ON DELETE CASCADE,
+  enrollment_id UUID NOT NULL REFERENCES school_enrollments(id) ON DELETE CASCADE,
+  present BOOLEAN NOT NULL,
+  PRIMARY KEY (lesson_id, enrollment_id)
+);
+
+CREATE TABLE IF NOT EXISTS school_grades (
+  enrollment_id UUID NOT NULL REFERENCES school_enrollments(id) ON DELETE CASCADE,
+  module_id UUID NOT NULL REFERENCES school_course_modules(id),
+  grade NUMERIC(4, 2) NOT NULL CHECK (grade BETWEEN 0 AND 10),
+  graded_by_user_id UUID NOT NULL REFERENCES users(id),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (enrollment_id, module_id)
+);
+
+DROP TRIGGER IF EXISTS trg_school_courses_updated_at ON school_courses;
+CREATE TRIGGER trg_school_courses_updated_at
+BEFORE UPDATE ON school_courses
+FOR EACH ROW
+EXECUTE FUNCTION set_updated_at();
+
+DROP TRIGGER IF EXISTS trg_school_course_modules_updated_at ON school_course_modules;
+CREATE TRIGGER trg_school_course_modules_updated_at
+BEFORE UPDATE ON school_course_modules
+FOR EACH ROW
+EXECUTE FUNCTION set_updated_at();
+
+DROP TRIGGER IF EXISTS trg_school_classes_updated_at ON school_classes;
+CREATE TRIGGER trg_school_classes_updated_at
+BEFORE UPDATE ON school_classes
+FOR EACH ROW
+EXECUTE FUNCTION set_updated_at();
+
+DROP TRIGGER IF EXISTS trg_school_enrollments_updated_at ON school_enrollments;
+CREATE TRIGGER trg_school_enrollments_updated_at
+BEFORE UPDATE ON school_enrollments
+FOR EACH ROW
+EXECUTE FUNCTION set_updated_at();
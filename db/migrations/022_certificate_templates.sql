@@ -0,0 +1,11 @@
+CREATE TABLE IF NOT EXISTS certificate_templates (
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  kind VARCHAR(30) NOT NULL CHECK (kind IN ('school_completion', 'encounter', 'baptism')),
+  title VARCHAR(120) NOT NULL,
+  body TEXT NOT NULL,
+  signer_name VARCHAR(160),
+  signer_role VARCHAR(120),
+  updated_by_user_id UUID REFERENCES users(id),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (tenant_id, kind)
+);
@@ -0,0 +1,96 @@
+CREATE TABLE IF NOT EXISTS consolidation_stage_defaults (
+  key VARCHAR(60) PRIMARY KEY,
+  label VARCHAR(120) NOT NULL,
+  position INTEGER NOT NULL UNIQUE
+);
+
+CREATE TABLE IF NOT EXISTS consolidation_stages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  key VARCHAR(60) NOT NULL,
+  label VARCHAR(120) NOT NULL,
+  position INTEGER NOT NULL CHECK (position > 0),
+  requires_date BOOLEAN NOT NULL DEFAULT FALSE,
+  prerequisite_stage_id UUID REFERENCES consolidation_stages(id),
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (tenant_id, key),
+  CONSTRAINT consolidation_stages_position_key
+    UNIQUE (tenant_id, position) DEFERRABLE INITIALLY DEFERRED,
+  CHECK (prerequisite_stage_id IS NULL OR prerequisite_stage_id <> id)
+);
+
+CREATE TABLE IF NOT EXISTS consolidation_record_stages (
+  consolidation_id UUID NOT NULL REFERENCES consolidation_records(id),
+  stage_id UUID NOT NULL REFERENCES consolidation_stages(id),
+  done BOOLEAN NOT NULL,
+  completed_on DATE,
+  updated_by_user_id UUID REFERENCES users(id),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (consolidation_id, stage_id)
+);
+
+CREATE INDEX IF NOT EXISTS consolidation_record_stages_stage_idx
+  ON consolidation_record_stages (stage_id, done);
+
+INSERT INTO consolidation_stage_defaults (key, label, position)
+VALUES
+  ('accepted_in_church', 'Aceito na Igreja', 1),
+  ('fono_visit', 'Fono-Visita', 2),
+  ('first_visit', 'Primeira visita', 3),
+  ('pre_encounter', 'Pre-Encontro', 4),
+  ('encounter', 'Encontro', 5),
+  ('post_encounter', 'Pos-Encontro', 6),
+  ('reencounter', 'Reencontro', 7),
+  ('consolidation', 'Concluiu consolidacao', 8),
+  ('baptized', 'Batismo', 9)
+ON CONFLICT (key) DO NOTHING;
+
+INSERT INTO consolidation_stages (tenant_id, key, label, position)
+SELECT t.id, d.key, d.label, d.position
+  FROM tenants t
+ CROSS JOIN consolidation_stage_defaults d
+ON CONFLICT (tenant_id, key) DO NOTHING;
+
+DO $$
+BEGIN
+  IF to_regclass('consolidation_steps') IS NOT NULL THEN
+    INSERT INTO consolidation_record_stages (consolidation_id, stage_id, done, completed_on, updated_at)
+    SELECT
+      s.consolidation_id,
+      st.id,
+      COALESCE(v.done, v.completed_on IS NOT NULL),
+      v.completed_on,
+      s.updated_at
+    FROM consolidation_steps s
+    JOIN consolidation_records r ON r.id = s.consolidation_id
+    CROSS JOIN LATERAL (
+      VALUES
+        ('accepted_in_church', s.accepted_in_church, s.accepted_in_church_date),
+        ('fono_visit', s.fono_visit_done, s.fono_visit_done_date),
+        ('first_visit', s.first_visit_done, s.first_visit_done_date),
+        ('pre_encounter', s.pre_encounter_done, s.pre_encounter_done_date),
+        ('encounter', s.encounter_done, s.encounter_done_date),
+        ('post_encounter', s.post_encounter_done, s.post_encounter_done_date),
+        ('reencounter', s.reencounter_done, s.reencounter_done_date),
+        ('consolidation', s.consolidation_done, s.consolidation_done_date),
+        ('baptized', s.baptized, s.baptized_date)
+    ) AS v(key, done, completed_on)
+    JOIN consolidation_stages st
+      ON st.tenant_id = r.tenant_id
+     AND st.key = v.key
+    WHERE v.done IS NOT NULL
+       OR v.completed_on IS NOT NULL
+    ON CONFLICT (consolidation_id, stage_id) DO NOTHING;
+
+    DROP TABLE consolidation_steps;
+  END IF;
+END
+$$;
+
+DROP TRIGGER IF EXISTS trg_consolidation_stages_updated_at ON consolidation_stages;
+CREATE TRIGGER trg_consolidation_stages_updated_at
+BEFORE UPDATE ON consolidation_stages
+FOR EACH ROW
+EXECUTE FUNCTION set_updated_at();
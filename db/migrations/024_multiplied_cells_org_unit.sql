@@ -0,0 +1,8 @@
+UPDATE cells c
+   SET org_unit_id = p.org_unit_id,
+       updated_at = NOW()
+  FROM cell_multiplications m
+  JOIN cells p ON p.id = m.parent_cell_id
+ WHERE m.child_cell_id = c.id
+   AND c.org_unit_id IS NULL
+   AND p.org_unit_id IS NOT NULL;
@@ -0,0 +1,2 @@
+ALTER TABLE certificate_templates
+  ADD COLUMN IF NOT EXISTS stage_key VARCHAR(60);
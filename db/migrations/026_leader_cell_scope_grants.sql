@@ -0,0 +1,9 @@
+ALTER TABLE user_cell_scopes
+  ADD COLUMN IF NOT EXISTS granted_as_leader BOOLEAN NOT NULL DEFAULT FALSE;
+
+UPDATE user_cell_scopes s
+   SET granted_as_leader = TRUE
+  FROM cells c
+ WHERE c.id = s.cell_id
+   AND c.tenant_id = s.tenant_id
+   AND c.leader_user_id = s.user_id;
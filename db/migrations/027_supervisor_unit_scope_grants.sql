@@ -0,0 +1,9 @@
+ALTER TABLE user_unit_scopes
+  ADD COLUMN IF NOT EXISTS granted_as_supervisor BOOLEAN NOT NULL DEFAULT FALSE;
+
+UPDATE user_unit_scopes s
+   SET granted_as_supervisor = TRUE
+  FROM org_units u
+ WHERE u.id = s.org_unit_id
+   AND u.tenant_id = s.tenant_id
+   AND u.supervisor_user_id = s.user_id;
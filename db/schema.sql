@@ -1,4 +1,5 @@
 CREATE EXTENSION IF NOT EXISTS pgcrypto;
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
 
 CREATE TABLE IF NOT EXISTS schema_migrations (
   version TEXT PRIMARY KEY,
@@ -26,7 +27,8 @@ CREATE TABLE IF NOT EXISTS users (
   is_active BOOLEAN NOT NULL DEFAULT TRUE,
   created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
   updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
-  deleted_at TIMESTAMPTZ
+  deleted_at TIMESTAMPTZ,
+  sessions_revoked_at TIMESTAMPTZ
 );
 
 CREATE UNIQUE INDEX IF NOT EXISTS users_email_unique_active
@@ -47,7 +49,8 @@ BEGIN
       'pastor_presidente',
       'pastor_rede',
       'lider_celula',
-      'secretaria'
+      'secretaria',
+      'supervisor'
     );
   END IF;
 END
@@ -77,10 +80,34 @@ CREATE TABLE IF NOT EXISTS church_networks (
   UNIQUE (tenant_id, code)
 );
 
+CREATE TABLE IF NOT EXISTS org_units (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  network_id UUID NOT NULL REFERENCES church_networks(id),
+  parent_id UUID REFERENCES org_units(id),
+  level_name VARCHAR(60) NOT NULL,
+  name VARCHAR(120) NOT NULL,
+  code VARCHAR(30) NOT NULL,
+  supervisor_user_id UUID REFERENCES users(id),
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (tenant_id, code),
+  CHECK (parent_id IS NULL OR parent_id <> id)
+);
+
+CREATE INDEX IF NOT EXISTS org_units_tenant_network_idx
+  ON org_units (tenant_id, network_id);
+
+CREATE INDEX IF NOT EXISTS org_units_parent_idx
+  ON org_units (parent_id)
+  WHERE parent_id IS NOT NULL;
+
 CREATE TABLE IF NOT EXISTS cells (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
   tenant_id UUID NOT NULL REFERENCES tenants(id),
   network_id UUID NOT NULL REFERENCES church_networks(id),
+  org_unit_id UUID REFERENCES org_units(id),
   name VARCHAR(120) NOT NULL,
   code VARCHAR(30) NOT NULL,
   leader_user_id UUID REFERENCES users(id),
@@ -95,6 +122,10 @@ CREATE TABLE IF NOT EXISTS cells (
 CREATE INDEX IF NOT EXISTS cells_tenant_network_idx
   ON cells (tenant_id, network_id);
 
+CREATE INDEX IF NOT EXISTS cells_org_unit_idx
+  ON cells (org_unit_id)
+  WHERE org_unit_id IS NOT NULL;
+
 CREATE TABLE IF NOT EXISTS user_network_scopes (
   tenant_id UUID NOT NULL REFERENCES tenants(id),
   user_id UUID NOT NULL REFERENCES users(id),
@@ -107,10 +138,20 @@ CREATE TABLE IF NOT EXISTS user_cell_scopes (
   tenant_id UUID NOT NULL REFERENCES tenants(id),
   user_id UUID NOT NULL REFERENCES users(id),
   cell_id UUID NOT NULL REFERENCES cells(id),
+  granted_as_leader BOOLEAN NOT NULL DEFAULT FALSE,
   created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
   PRIMARY KEY (tenant_id, user_id, cell_id)
 );
 
+CREATE TABLE IF NOT EXISTS user_unit_scopes (
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  user_id UUID NOT NULL REFERENCES users(id),
+  org_unit_id UUID NOT NULL REFERENCES org_units(id),
+  granted_as_supervisor BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (tenant_id, user_id, org_unit_id)
+);
+
 DO $$
 BEGIN
   IF NOT EXISTS (
@@ -129,6 +170,10 @@ CREATE TABLE IF NOT EXISTS participants (
   phone_home VARCHAR(30),
   phone_mobile VARCHAR(30),
   birth_date DATE,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  deactivated_at TIMESTAMPTZ,
+  merged_into_participant_id UUID REFERENCES participants(id),
+  merged_at TIMESTAMPTZ,
   created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
   updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
 );
@@ -136,6 +181,13 @@ CREATE TABLE IF NOT EXISTS participants (
 CREATE INDEX IF NOT EXISTS participants_tenant_name_idx
   ON participants (tenant_id, full_name);
 
+CREATE INDEX IF NOT EXISTS participants_name_trgm_idx
+  ON participants USING GIN (LOWER(full_name) gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS participants_tenant_email_idx
+  ON participants (tenant_id, LOWER(email))
+  WHERE email IS NOT NULL;
+
 CREATE TABLE IF NOT EXISTS participant_cell_links (
   participant_id UUID NOT NULL REFERENCES participants(id),
   cell_id UUID NOT NULL REFERENCES cells(id),
@@ -150,6 +202,9 @@ CREATE TABLE IF NOT EXISTS participant_cell_links (
 CREATE INDEX IF NOT EXISTS participant_cell_links_tenant_cell_idx
   ON participant_cell_links (tenant_id, cell_id);
 
+CREATE INDEX IF NOT EXISTS participant_cell_links_participant_idx
+  ON participant_cell_links (participant_id);
+
 CREATE TABLE IF NOT EXISTS participant_status_history (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
   tenant_id UUID NOT NULL REFERENCES tenants(id),
@@ -167,15 +222,32 @@ CREATE TABLE IF NOT EXISTS transfer_logs (
   source_cell_id UUID NOT NULL REFERENCES cells(id),
   destination_cell_id UUID NOT NULL REFERENCES cells(id),
   transferred_by_user_id UUID NOT NULL REFERENCES users(id),
-  transferred_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+  transferred_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  reverts_transfer_log_id UUID REFERENCES transfer_logs(id),
+  reverted_at TIMESTAMPTZ,
+  reverted_by_user_id UUID REFERENCES users(id)
 );
 
+CREATE INDEX IF NOT EXISTS transfer_logs_tenant_date_idx
+  ON transfer_logs (tenant_id, transferred_at DESC);
+
+CREATE UNIQUE INDEX IF NOT EXISTS transfer_logs_reverts_unique
+  ON transfer_logs (reverts_transfer_log_id)
+  WHERE reverts_transfer_log_id IS NOT NULL;
+
 CREATE TABLE IF NOT EXISTS transfer_log_participants (
   transfer_log_id UUID NOT NULL REFERENCES transfer_logs(id),
   participant_id UUID NOT NULL REFERENCES participants(id),
+  participant_type participant_type,
+  destination_link_created BOOLEAN,
+  previous_destination_type participant_type,
+  previous_destination_active BOOLEAN,
   PRIMARY KEY (transfer_log_id, participant_id)
 );
 
+CREATE INDEX IF NOT EXISTS transfer_log_participants_participant_idx
+  ON transfer_log_participants (participant_id);
+
 DO $$
 BEGIN
   IF NOT EXISTS (
@@ -268,38 +340,526 @@ CREATE TABLE IF NOT EXISTS consolidation_records (
 CREATE INDEX IF NOT EXISTS consolidation_records_tenant_idx
   ON consolidation_records (tenant_id, created_at DESC);
 
-CREATE TABLE IF NOT EXISTS consolidation_steps (
-  consolidation_id UUID PRIMARY KEY REFERENCES consolidation_records(id),
-  accepted_in_church BOOLEAN,
-  accepted_in_church_date DATE,
-  fono_visit_done BOOLEAN,
-  fono_visit_done_date DATE,
-  first_visit_done BOOLEAN,
-  first_visit_done_date DATE,
-  pre_encounter_done BOOLEAN,
-  pre_encounter_done_date DATE,
-  encounter_done BOOLEAN,
-  encounter_done_date DATE,
-  post_encounter_done BOOLEAN,
-  post_encounter_done_date DATE,
-  reencounter_done BOOLEAN,
-  reencounter_done_date DATE,
-  consolidation_done BOOLEAN,
-  consolidation_done_date DATE,
-  baptized BOOLEAN,
-  baptized_date DATE,
+CREATE TABLE IF NOT EXISTS consolidation_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  consolidation_id UUID NOT NULL REFERENCES consolidation_records(id),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  created_by_user_id UUID NOT NULL REFERENCES users(id),
+  note TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS tenant_invitations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  email VARCHAR(160) NOT NULL,
+  role tenant_role NOT NULL,
+  network_ids UUID[] NOT NULL DEFAULT '{}',
+  cell_ids UUID[] NOT NULL DEFAULT '{}',
+  token_hash TEXT NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  sent_count INTEGER NOT NULL DEFAULT 1,
+  last_sent_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  invited_by_user_id UUID NOT NULL REFERENCES users(id),
+  accepted_at TIMESTAMPTZ,
+  accepted_by_user_id UUID REFERENCES users(id),
+  revoked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
   updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
 );
 
-CREATE TABLE IF NOT EXISTS consolidation_history (
+CREATE UNIQUE INDEX IF NOT EXISTS tenant_invitations_token_hash_unique
+  ON tenant_invitations (token_hash);
+
+CREATE INDEX IF NOT EXISTS tenant_invitations_tenant_email_idx
+  ON tenant_invitations (tenant_id, LOWER(email));
+
+CREATE TABLE IF NOT EXISTS password_reset_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id),
+  token_hash TEXT NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  used_at TIMESTAMPTZ,
+  requested_ip VARCHAR(64),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS password_reset_tokens_token_hash_unique
+  ON password_reset_tokens (token_hash);
+
+CREATE INDEX IF NOT EXISTS password_reset_tokens_user_idx
+  ON password_reset_tokens (user_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS user_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  refresh_token_hash TEXT NOT NULL,
+  previous_refresh_token_hash TEXT,
+  user_agent VARCHAR(300),
+  ip_address VARCHAR(64),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL,
+  revoked_at TIMESTAMPTZ
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS user_sessions_refresh_token_hash_unique
+  ON user_sessions (refresh_token_hash);
+
+CREATE INDEX IF NOT EXISTS user_sessions_previous_refresh_token_hash_idx
+  ON user_sessions (previous_refresh_token_hash);
+
+CREATE INDEX IF NOT EXISTS user_sessions_user_idx
+  ON user_sessions (user_id, last_seen_at DESC);
+
+CREATE TABLE IF NOT EXISTS login_attempt_counters (
+  key VARCHAR(200) PRIMARY KEY,
+  failures INTEGER NOT NULL DEFAULT 0,
+  last_failed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  locked_until TIMESTAMPTZ
+);
+
+CREATE TABLE IF NOT EXISTS login_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES users(id),
+  tenant_id UUID REFERENCES tenants(id),
+  email VARCHAR(160) NOT NULL,
+  success BOOLEAN NOT NULL,
+  failure_reason VARCHAR(40),
+  ip_address VARCHAR(64),
+  user_agent VARCHAR(300),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS login_history_user_idx
+  ON login_history (user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS login_history_created_idx
+  ON login_history (created_at DESC);
+
+CREATE TABLE IF NOT EXISTS user_mfa (
+  user_id UUID PRIMARY KEY REFERENCES users(id),
+  secret_encrypted TEXT NOT NULL,
+  enabled_at TIMESTAMPTZ,
+  last_used_step BIGINT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS user_mfa_recovery_codes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id),
+  code_hash TEXT NOT NULL,
+  used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS user_mfa_recovery_codes_user_idx
+  ON user_mfa_recovery_codes (user_id);
+
+CREATE TABLE IF NOT EXISTS tenant_mfa_required_roles (
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  role tenant_role NOT NULL,
+  updated_by_user_id UUID REFERENCES users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (tenant_id, role)
+);
+
+CREATE TABLE IF NOT EXISTS tenant_roles (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-  consolidation_id UUID NOT NULL REFERENCES consolidation_records(id),
   tenant_id UUID NOT NULL REFERENCES tenants(id),
+  key VARCHAR(60) NOT NULL,
+  name VARCHAR(120) NOT NULL,
+  base_role tenant_role NOT NULL,
+  scope VARCHAR(20) NOT NULL CHECK (scope IN ('all', 'network', 'supervisor', 'cell')),
+  permissions JSONB NOT NULL DEFAULT '{}'::jsonb,
+  is_system BOOLEAN NOT NULL DEFAULT FALSE,
+  created_by_user_id UUID REFERENCES users(id),
+  updated_by_user_id UUID REFERENCES users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (tenant_id, key)
+);
+
+ALTER TABLE tenant_members
+  ADD COLUMN IF NOT EXISTS role_id UUID REFERENCES tenant_roles(id);
+
+ALTER TABLE tenant_invitations
+  ADD COLUMN IF NOT EXISTS role_id UUID REFERENCES tenant_roles(id);
+
+CREATE INDEX IF NOT EXISTS tenant_members_role_id_idx
+  ON tenant_members (role_id)
+  WHERE role_id IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS audit_logs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID REFERENCES tenants(id),
+  actor_user_id UUID REFERENCES users(id),
+  action VARCHAR(80) NOT NULL,
+  entity_type VARCHAR(60) NOT NULL,
+  entity_id VARCHAR(120),
+  changes JSONB NOT NULL DEFAULT '{}'::jsonb,
+  ip_address VARCHAR(64),
+  user_agent VARCHAR(300),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS audit_logs_tenant_created_idx
+  ON audit_logs (tenant_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS audit_logs_tenant_entity_idx
+  ON audit_logs (tenant_id, entity_type, entity_id);
+
+CREATE INDEX IF NOT EXISTS audit_logs_actor_idx
+  ON audit_logs (actor_user_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS cell_multiplications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  network_id UUID NOT NULL REFERENCES church_networks(id),
+  parent_cell_id UUID NOT NULL REFERENCES cells(id),
+  child_cell_id UUID NOT NULL REFERENCES cells(id),
+  parent_leader_user_id UUID REFERENCES users(id),
+  child_leader_user_id UUID NOT NULL REFERENCES users(id),
+  transfer_log_id UUID REFERENCES transfer_logs(id),
+  participants_moved INTEGER NOT NULL DEFAULT 0,
+  multiplied_on DATE NOT NULL DEFAULT CURRENT_DATE,
+  notes TEXT,
   created_by_user_id UUID NOT NULL REFERENCES users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (child_cell_id),
+  CHECK (parent_cell_id <> child_cell_id)
+);
+
+CREATE INDEX IF NOT EXISTS cell_multiplications_tenant_parent_idx
+  ON cell_multiplications (tenant_id, parent_cell_id);
+
+CREATE INDEX IF NOT EXISTS cell_multiplications_tenant_date_idx
+  ON cell_multiplications (tenant_id, multiplied_on DESC);
+
+CREATE TABLE IF NOT EXISTS cell_meeting_reports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  cell_id UUID NOT NULL REFERENCES cells(id),
+  week_start DATE NOT NULL,
+  meeting_date DATE NOT NULL,
+  visitors_count INTEGER NOT NULL DEFAULT 0 CHECK (visitors_count >= 0),
+  offering_amount NUMERIC(12, 2) NOT NULL DEFAULT 0 CHECK (offering_amount >= 0),
+  lesson_title VARCHAR(200),
+  notes TEXT,
+  submitted_by_user_id UUID NOT NULL REFERENCES users(id),
+  updated_by_user_id UUID REFERENCES users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (tenant_id, cell_id, week_start)
+);
+
+CREATE INDEX IF NOT EXISTS cell_meeting_reports_tenant_week_idx
+  ON cell_meeting_reports (tenant_id, week_start DESC);
+
+CREATE TABLE IF NOT EXISTS cell_meeting_attendees (
+  report_id UUID NOT NULL REFERENCES cell_meeting_reports(id) ON DELETE CASCADE,
+  participant_id UUID NOT NULL REFERENCES participants(id),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  PRIMARY KEY (report_id, participant_id)
+);
+
+CREATE INDEX IF NOT EXISTS cell_meeting_attendees_participant_idx
+  ON cell_meeting_attendees (participant_id);
+
+CREATE TABLE IF NOT EXISTS tenant_care_settings (
+  tenant_id UUID PRIMARY KEY REFERENCES tenants(id),
+  absence_threshold INTEGER NOT NULL DEFAULT 3 CHECK (absence_threshold BETWEEN 1 AND 52),
+  visitor_return_days INTEGER NOT NULL DEFAULT 21 CHECK (visitor_return_days BETWEEN 1 AND 365),
+  regression_lookback_days INTEGER NOT NULL DEFAULT 30 CHECK (regression_lookback_days BETWEEN 1 AND 365),
+  updated_by_user_id UUID REFERENCES users(id),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS care_alerts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  participant_id UUID NOT NULL REFERENCES participants(id),
+  cell_id UUID NOT NULL REFERENCES cells(id),
+  kind VARCHAR(30) NOT NULL CHECK (
+    kind IN ('consecutive_absence', 'visitor_not_returned', 'type_regression')
+  ),
+  status VARCHAR(20) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'acknowledged', 'closed')),
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  detected_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  acknowledged_by_user_id UUID REFERENCES users(id),
+  acknowledged_at TIMESTAMPTZ,
+  closed_by_user_id UUID REFERENCES users(id),
+  closed_at TIMESTAMPTZ,
+  resolution TEXT,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS care_alerts_open_unique_idx
+  ON care_alerts (tenant_id, participant_id, kind)
+  WHERE status <> 'closed';
+
+CREATE INDEX IF NOT EXISTS care_alerts_tenant_status_idx
+  ON care_alerts (tenant_id, status, detected_at DESC);
+
+CREATE TABLE IF NOT EXISTS care_alert_notes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  alert_id UUID NOT NULL REFERENCES care_alerts(id),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  author_user_id UUID NOT NULL REFERENCES users(id),
   note TEXT NOT NULL,
   created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
 );
 
+CREATE INDEX IF NOT EXISTS care_alert_notes_alert_idx
+  ON care_alert_notes (alert_id, created_at);
+
+CREATE TABLE IF NOT EXISTS transfer_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  source_cell_id UUID NOT NULL REFERENCES cells(id),
+  destination_cell_id UUID NOT NULL REFERENCES cells(id),
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  reason TEXT,
+  requested_by_user_id UUID NOT NULL REFERENCES users(id),
+  decided_by_user_id UUID REFERENCES users(id),
+  decided_at TIMESTAMPTZ,
+  decision_note TEXT,
+  transfer_log_id UUID REFERENCES transfer_logs(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (source_cell_id <> destination_cell_id)
+);
+
+CREATE INDEX IF NOT EXISTS transfer_requests_tenant_status_idx
+  ON transfer_requests (tenant_id, status, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS transfer_requests_destination_idx
+  ON transfer_requests (destination_cell_id, status);
+
+CREATE TABLE IF NOT EXISTS transfer_request_participants (
+  request_id UUID NOT NULL REFERENCES transfer_requests(id) ON DELETE CASCADE,
+  participant_id UUID NOT NULL REFERENCES participants(id),
+  PRIMARY KEY (request_id, participant_id)
+);
+
+CREATE TABLE IF NOT EXISTS import_batches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  kind VARCHAR(20) NOT NULL CHECK (kind IN ('participants', 'cells')),
+  file_format VARCHAR(10) NOT NULL CHECK (file_format IN ('csv', 'xlsx')),
+  file_name VARCHAR(200),
+  total_rows INTEGER NOT NULL DEFAULT 0,
+  imported_rows INTEGER NOT NULL DEFAULT 0,
+  skipped_rows INTEGER NOT NULL DEFAULT 0,
+  created_by_user_id UUID NOT NULL REFERENCES users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS import_batches_tenant_idx
+  ON import_batches (tenant_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS discipleships (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  disciple_participant_id UUID NOT NULL REFERENCES participants(id),
+  discipler_participant_id UUID REFERENCES participants(id),
+  discipler_user_id UUID REFERENCES users(id),
+  started_on DATE NOT NULL DEFAULT CURRENT_DATE,
+  ended_on DATE,
+  end_reason TEXT,
+  created_by_user_id UUID NOT NULL REFERENCES users(id),
+  ended_by_user_id UUID REFERENCES users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK ((discipler_participant_id IS NULL) <> (discipler_user_id IS NULL)),
+  CHECK (discipler_participant_id IS NULL OR discipler_participant_id <> disciple_participant_id),
+  CHECK (ended_on IS NULL OR ended_on >= started_on)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS discipleships_active_disciple_idx
+  ON discipleships (tenant_id, disciple_participant_id)
+  WHERE ended_on IS NULL;
+
+CREATE INDEX IF NOT EXISTS discipleships_discipler_participant_idx
+  ON discipleships (discipler_participant_id)
+  WHERE discipler_participant_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS discipleships_discipler_user_idx
+  ON discipleships (tenant_id, discipler_user_id)
+  WHERE discipler_user_id IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS discipleship_meetings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  discipleship_id UUID NOT NULL REFERENCES discipleships(id),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  met_on DATE NOT NULL,
+  notes TEXT NOT NULL,
+  author_user_id UUID NOT NULL REFERENCES users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS discipleship_meetings_discipleship_idx
+  ON discipleship_meetings (discipleship_id, met_on DESC);
+
+CREATE TABLE IF NOT EXISTS school_courses (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  name VARCHAR(160) NOT NULL,
+  description TEXT,
+  passing_grade NUMERIC(4, 2) NOT NULL DEFAULT 7 CHECK (passing_grade BETWEEN 0 AND 10),
+  min_attendance_percent INTEGER NOT NULL DEFAULT 75 CHECK (min_attendance_percent BETWEEN 0 AND 100),
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_by_user_id UUID NOT NULL REFERENCES users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS school_courses_tenant_name_idx
+  ON school_courses (tenant_id, LOWER(name));
+
+CREATE TABLE IF NOT EXISTS school_course_modules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  course_id UUID NOT NULL REFERENCES school_courses(id),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  position INTEGER NOT NULL CHECK (position > 0),
+  title VARCHAR(160) NOT NULL,
+  description TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT school_course_modules_position_key
+    UNIQUE (course_id, position) DEFERRABLE INITIALLY DEFERRED
+);
+
+CREATE TABLE IF NOT EXISTS school_classes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  course_id UUID NOT NULL REFERENCES school_courses(id),
+  name VARCHAR(160) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'planned' CHECK (
+    status IN ('planned', 'in_progress', 'finished', 'cancelled')
+  ),
+  starts_on DATE NOT NULL,
+  ends_on DATE,
+  weekday SMALLINT CHECK (weekday BETWEEN 0 AND 6),
+  start_time TIME,
+  location VARCHAR(160),
+  finished_at TIMESTAMPTZ,
+  created_by_user_id UUID NOT NULL REFERENCES users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (ends_on IS NULL OR ends_on >= starts_on)
+);
+
+CREATE INDEX IF NOT EXISTS school_classes_tenant_status_idx
+  ON school_classes (tenant_id, status, starts_on DESC);
+
+CREATE TABLE IF NOT EXISTS school_class_teachers (
+  class_id UUID NOT NULL REFERENCES school_classes(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id),
+  PRIMARY KEY (class_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS school_enrollments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  class_id UUID NOT NULL REFERENCES school_classes(id),
+  participant_id UUID NOT NULL REFERENCES participants(id),
+  status VARCHAR(20) NOT NULL DEFAULT 'enrolled' CHECK (
+    status IN ('enrolled', 'passed', 'failed', 'dropped')
+  ),
+  final_grade NUMERIC(4, 2),
+  attendance_percent INTEGER,
+  completed_at TIMESTAMPTZ,
+  enrolled_by_user_id UUID NOT NULL REFERENCES users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (class_id, participant_id)
+);
+
+CREATE INDEX IF NOT EXISTS school_enrollments_participant_idx
+  ON school_enrollments (tenant_id, participant_id, status);
+
+CREATE TABLE IF NOT EXISTS school_lessons (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  class_id UUID NOT NULL REFERENCES school_classes(id),
+  module_id UUID REFERENCES school_course_modules(id),
+  lesson_date DATE NOT NULL,
+  topic VARCHAR(200),
+  recorded_by_user_id UUID NOT NULL REFERENCES users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS school_lessons_class_idx
+  ON school_lessons (class_id, lesson_date);
+
+CREATE TABLE IF NOT EXISTS school_lesson_attendance (
+  lesson_id UUID NOT NULL REFERENCES school_lessons(id) ON DELETE CASCADE,
+  enrollment_id UUID NOT NULL REFERENCES school_enrollments(id) ON DELETE CASCADE,
+  present BOOLEAN NOT NULL,
+  PRIMARY KEY (lesson_id, enrollment_id)
+);
+
+CREATE TABLE IF NOT EXISTS school_grades (
+  enrollment_id UUID NOT NULL REFERENCES school_enrollments(id) ON DELETE CASCADE,
+  module_id UUID NOT NULL REFERENCES school_course_modules(id),
+  grade NUMERIC(4, 2) NOT NULL CHECK (grade BETWEEN 0 AND 10),
+  graded_by_user_id UUID NOT NULL REFERENCES users(id),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (enrollment_id, module_id)
+);
+
+CREATE TABLE IF NOT EXISTS certificate_templates (
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  kind VARCHAR(30) NOT NULL CHECK (kind IN ('school_completion', 'encounter', 'baptism')),
+  title VARCHAR(120) NOT NULL,
+  body TEXT NOT NULL,
+  signer_name VARCHAR(160),
+  signer_role VARCHAR(120),
+  stage_key VARCHAR(60),
+  updated_by_user_id UUID REFERENCES users(id),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (tenant_id, kind)
+);
+
+CREATE TABLE IF NOT EXISTS consolidation_stage_defaults (
+  key VARCHAR(60) PRIMARY KEY,
+  label VARCHAR(120) NOT NULL,
+  position INTEGER NOT NULL UNIQUE
+);
+
+CREATE TABLE IF NOT EXISTS consolidation_stages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  key VARCHAR(60) NOT NULL,
+  label VARCHAR(120) NOT NULL,
+  position INTEGER NOT NULL CHECK (position > 0),
+  requires_date BOOLEAN NOT NULL DEFAULT FALSE,
+  prerequisite_stage_id UUID REFERENCES consolidation_stages(id),
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (tenant_id, key),
+  CONSTRAINT consolidation_stages_position_key
+    UNIQUE (tenant_id, position) DEFERRABLE INITIALLY DEFERRED,
+  CHECK (prerequisite_stage_id IS NULL OR prerequisite_stage_id <> id)
+);
+
+CREATE TABLE IF NOT EXISTS consolidation_record_stages (
+  consolidation_id UUID NOT NULL REFERENCES consolidation_records(id),
+  stage_id UUID NOT NULL REFERENCES consolidation_stages(id),
+  done BOOLEAN NOT NULL,
+  completed_on DATE,
+  updated_by_user_id UUID REFERENCES users(id),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (consolidation_id, stage_id)
+);
+
+CREATE INDEX IF NOT EXISTS consolidation_record_stages_stage_idx
+  ON consolidation_record_stages (stage_id, done);
+
 INSERT INTO module_name_defaults (code, default_label)
 VALUES
   ('cells', 'Celulas'),
@@ -311,6 +871,19 @@ VALUES
   ('reports', 'Relatorios')
 ON CONFLICT (code) DO NOTHING;
 
+INSERT INTO consolidation_stage_defaults (key, label, position)
+VALUES
+  ('accepted_in_church', 'Aceito na Igreja', 1),
+  ('fono_visit', 'Fono-Visita', 2),
+  ('first_visit', 'Primeira visita', 3),
+  ('pre_encounter', 'Pre-Encontro', 4),
+  ('encounter', 'Encontro', 5),
+  ('post_encounter', 'Pos-Encontro', 6),
+  ('reencounter', 'Reencontro', 7),
+  ('consolidation', 'Concluiu consolidacao', 8),
+  ('baptized', 'Batismo', 9)
+ON CONFLICT (key) DO NOTHING;
+
 CREATE OR REPLACE FUNCTION set_updated_at()
 RETURNS TRIGGER AS $$
 BEGIN
@@ -367,8 +940,80 @@ BEFORE UPDATE ON consolidation_records
 FOR EACH ROW
 EXECUTE FUNCTION set_updated_at();
 
-DROP TRIGGER IF EXISTS trg_consolidation_steps_updated_at ON consolidation_steps;
-CREATE TRIGGER trg_consolidation_steps_updated_at
-BEFORE UPDATE ON consolidation_steps
+DROP TRIGGER IF EXISTS trg_tenant_invitations_updated_at ON tenant_invitations;
+CREATE TRIGGER trg_tenant_invitations_updated_at
+BEFORE UPDATE ON tenant_invitations
+FOR EACH ROW
+EXECUTE FUNCTION set_updated_at();
+
+DROP TRIGGER IF EXISTS trg_user_mfa_updated_at ON user_mfa;
+CREATE TRIGGER trg_user_mfa_updated_at
+BEFORE UPDATE ON user_mfa
+FOR EACH ROW
+EXECUTE FUNCTION set_updated_at();
+
+DROP TRIGGER IF EXISTS trg_tenant_roles_updated_at ON tenant_roles;
+CREATE TRIGGER trg_tenant_roles_updated_at
+BEFORE UPDATE ON tenant_roles
+FOR EACH ROW
+EXECUTE FUNCTION set_updated_at();
+
+DROP TRIGGER IF EXISTS trg_cell_meeting_reports_updated_at ON cell_meeting_reports;
+CREATE TRIGGER trg_cell_meeting_reports_updated_at
+BEFORE UPDATE ON cell_meeting_reports
+FOR EACH ROW
+EXECUTE FUNCTION set_updated_at();
+
+DROP TRIGGER IF EXISTS trg_care_alerts_updated_at ON care_alerts;
+CREATE TRIGGER trg_care_alerts_updated_at
+BEFORE UPDATE ON care_alerts
+FOR EACH ROW
+EXECUTE FUNCTION set_updated_at();
+
+DROP TRIGGER IF EXISTS trg_org_units_updated_at ON org_units;
+CREATE TRIGGER trg_org_units_updated_at
+BEFORE UPDATE ON org_units
+FOR EACH ROW
+EXECUTE FUNCTION set_updated_at();
+
+DROP TRIGGER IF EXISTS trg_transfer_requests_updated_at ON transfer_requests;
+CREATE TRIGGER trg_transfer_requests_updated_at
+BEFORE UPDATE ON transfer_requests
+FOR EACH ROW
+EXECUTE FUNCTION set_updated_at();
+
+DROP TRIGGER IF EXISTS trg_discipleships_updated_at ON discipleships;
+CREATE TRIGGER trg_discipleships_updated_at
+BEFORE UPDATE ON discipleships
+FOR EACH ROW
+EXECUTE FUNCTION set_updated_at();
+
+DROP TRIGGER IF EXISTS trg_school_courses_updated_at ON school_courses;
+CREATE TRIGGER trg_school_courses_updated_at
+BEFORE UPDATE ON school_courses
+FOR EACH ROW
+EXECUTE FUNCTION set_updated_at();
+
+DROP TRIGGER IF EXISTS trg_school_course_modules_updated_at ON school_course_modules;
+CREATE TRIGGER trg_school_course_modules_updated_at
+BEFORE UPDATE ON school_course_modules
+FOR EACH ROW
+EXECUTE FUNCTION set_updated_at();
+
+DROP TRIGGER IF EXISTS trg_school_classes_updated_at ON school_classes;
+CREATE TRIGGER trg_school_classes_updated_at
+BEFORE UPDATE ON school_classes
+FOR EACH ROW
+EXECUTE FUNCTION set_updated_at();
+
+DROP TRIGGER IF EXISTS trg_school_enrollments_updated_at ON school_enrollments;
+CREATE TRIGGER trg_school_enrollments_updated_at
+BEFORE UPDATE ON school_enrollments
+FOR EACH ROW
+EXECUTE FUNCTION set_updated_at();
+
+DROP TRIGGER IF EXISTS trg_consolidation_stages_updated_at ON consolidation_stages;
+CREATE TRIGGER trg_consolidation_stages_updated_at
+BEFORE UPDATE ON consolidation_stages
 FOR EACH ROW
 EXECUTE FUNCTION set_updated_at();
@@ -1,4 +1,5 @@
 const storageKey = "sgi_access_token";
+const refreshStorageKey = "sgi_refresh_token";
 
 const alertEl = document.getElementById("alert");
 const tabs = Array.from(document.querySelectorAll(".tab"));
@@ -39,6 +40,14 @@ function saveToken(token) {
   localStorage.setItem(storageKey, token);
 }
 
+function saveRefreshToken(token) {
+  if (!token) {
+    localStorage.removeItem(refreshStorageKey);
+    return;
+  }
+  localStorage.setItem(refreshStorageKey, token);
+}
+
 function getToken() {
   return localStorage.getItem(storageKey);
 }
@@ -85,6 +94,48 @@ async function request(path, options = {}) {
   return data;
 }
 
+async function completeMfaChallenge(data) {
+  if (data.mfaRequired) {
+    const code = window.prompt("Informe o codigo do aplicativo autenticador (ou um codigo de recuperacao):");
+    if (!code) {
+      throw new Error("Verificacao em duas etapas cancelada.");
+    }
+    const isRecovery = code.trim().length > 8;
+    return request("/auth/login/mfa", {
+      method: "POST",
+      body: JSON.stringify({
+        challengeToken: data.challengeToken,
+        ...(isRecovery ? { recoveryCode: code } : { code })
+      })
+    });
+  }
+
+  if (data.mfaSetupRequired) {
+    const setup = await request("/auth/login/mfa/setup", {
+      method: "POST",
+      body: JSON.stringify({ challengeToken: data.challengeToken })
+    });
+    const code = window.prompt(
+      `Sua igreja exige verificacao em duas etapas.\n` +
+        `Cadastre no seu aplicativo autenticador a chave ${setup.secret}\n` +
+        `(ou o endereco ${setup.otpauthUri}) e informe o codigo gerado:`
+    );
+    if (!code) {
+      throw new Error("Verificacao em duas etapas cancelada.");
+    }
+    const enabled = await request("/auth/login/mfa/enable", {
+      method: "POST",
+      body: JSON.stringify({ challengeToken: data.challengeToken, code })
+    });
+    window.alert(
+      `Guarde estes codigos de recuperacao em local seguro:\n${enabled.recoveryCodes.join("\n")}`
+    );
+    return enabled;
+  }
+
+  return data;
+}
+
 function goToPanel() {
   window.location.href = "/panel.html";
 }
@@ -96,11 +147,14 @@ loginForm.addEventListener("submit", async (event) => {
 
   try {
     const body = normalizePayload(toJson(new FormData(loginForm)));
-    const data = await request("/auth/login", {
-      method: "POST",
-      body: JSON.stringify(body)
-    });
+    const data = await completeMfaChallenge(
+      await request("/auth/login", {
+        method: "POST",
+        body: JSON.stringify(body)
+      })
+    );
     saveToken(data.accessToken);
+    saveRefreshToken(data.refreshToken);
     goToPanel();
   } catch (error) {
     setAlert("error", error.message);
@@ -121,6 +175,7 @@ registerForm.addEventListener("submit", async (event) => {
       body: JSON.stringify(body)
     });
     saveToken(data.accessToken);
+    saveRefreshToken(data.refreshToken);
     goToPanel();
   } catch (error) {
     setAlert("error", error.message);
@@ -1,21 +1,50 @@
 const storageKey = "sgi_access_token";
+const refreshStorageKey = "sgi_refresh_token";
 const appState = {
   session: null,
   currentPage: "dashboard",
   transfer: {
     cells: [],
+    destinations: [],
     originItems: [],
     selectedItems: []
   },
-  moduleNames: []
+  moduleNames: [],
+  consolidationStages: []
 };
 
 function getToken() {
   return localStorage.getItem(storageKey);
 }
 
+function saveToken(token) {
+  localStorage.setItem(storageKey, token);
+}
+
 function clearToken() {
   localStorage.removeItem(storageKey);
+  localStorage.removeItem(refreshStorageKey);
+}
+
+async function refreshSession() {
+  const refreshToken = localStorage.getItem(refreshStorageKey);
+  if (!refreshToken) {
+    return false;
+  }
+
+  const response = await fetch("/auth/refresh", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ refreshToken })
+  });
+  if (!response.ok) {
+    return false;
+  }
+
+  const data = await response.json();
+  saveToken(data.accessToken);
+  localStorage.setItem(refreshStorageKey, data.refreshToken);
+  return true;
 }
 
 function toLogin() {
@@ -30,7 +59,7 @@ function showToast(message, isError = false) {
   window.setTimeout(() => toast.classList.add("hidden"), 3000);
 }
 
-async function api(path, options = {}) {
+async function api(path, options = {}, retry = true) {
   const token = getToken();
   if (!token) {
     toLogin();
@@ -50,6 +79,9 @@ async function api(path, options = {}) {
 
   const data = response.status === 204 ? null : await response.json();
   if (!response.ok) {
+    if (response.status === 401 && retry && (await refreshSession())) {
+      return api(path, options, false);
+    }
     if (response.status === 401) {
       clearToken();
       toLogin();
@@ -59,6 +91,45 @@ async function api(path, options = {}) {
   return data;
 }
 
+async function downloadExport(dataset, format, retry = true) {
+  const token = getToken();
+  if (!token) {
+    toLogin();
+    throw new Error("Sessao ausente.");
+  }
+
+  const params = new URLSearchParams({ format });
+  if (dataset === "consolidation") {
+    params.set("name", document.getElementById("consolidation-filter").value || "");
+  }
+
+  const printWindow = format === "pdf" ? window.open("", "_blank") : null;
+  const response = await fetch(`/panel/exports/${dataset}?${params.toString()}`, {
+    headers: { Authorization: `Bearer ${token}` }
+  });
+  if (!response.ok) {
+    printWindow?.close();
+    if (response.status === 401 && retry && (await refreshSession())) {
+      return downloadExport(dataset, format, false);
+    }
+    const data = await response.json().catch(() => null);
+    throw new Error(data?.message || "Falha ao exportar dados.");
+  }
+
+  const url = URL.createObjectURL(await response.blob());
+  if (printWindow) {
+    printWindow.location.href = url;
+    return;
+  }
+
+  const disposition = response.headers.get("Content-Disposition") || "";
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = disposition.match(/filename="([^"]+)"/)?.[1] || `${dataset}.${format}`;
+  link.click();
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
 function mapMenuByRole(role) {
   const base = [
     {
@@ -230,8 +301,23 @@ function fillCellSelects() {
   const options = appState.transfer.cells
     .map((cell) => `<option value="${cell.id}">${cell.name} (${cell.code})</option>`)
     .join("");
+  const selectedSource = source.value;
+  const selectedDestination = destination.value;
   source.innerHTML = options;
-  destination.innerHTML = options;
+  destination.innerHTML = appState.transfer.destinations
+    .map(
+      (cell) =>
+        `<option value="${cell.id}">${cell.name} (${cell.code})${
+          cell.requiresApproval ? " - requer aprovacao" : ""
+        }</option>`
+    )
+    .join("");
+  if (selectedSource) {
+    source.value = selectedSource;
+  }
+  if (selectedDestination) {
+    destination.value = selectedDestination;
+  }
 }
 
 function renderTransferLists() {
@@ -255,6 +341,7 @@ async function loadTransferContext() {
   );
 
   appState.transfer.cells = data.cells;
+  appState.transfer.destinations = data.destinations || [];
   fillCellSelects();
 
   if (!source.value && data.cells[0]) {
@@ -305,7 +392,7 @@ async function saveTransfer() {
     throw new Error("Preencha origem, destino e selecione participantes.");
   }
 
-  await api("/panel/transfers", {
+  const result = await api("/panel/transfers", {
     method: "POST",
     body: JSON.stringify({
       sourceCellId: source,
@@ -313,7 +400,7 @@ async function saveTransfer() {
       participantIds
     })
   });
-  showToast("Transferencia realizada.");
+  showToast(result.message);
   await loadTransferContext();
 }
 
@@ -339,6 +426,28 @@ async function loadModuleNames() {
   renderModuleNames(data.rows);
 }
 
+function renderUnitOutline(units) {
+  if (!units.length) {
+    return "";
+  }
+
+  return `
+    <ul>
+      ${units
+        .map(
+          (unit) => `
+            <li>
+              ${unit.levelName} => ${unit.name} (${unit.cellsCount})
+              ${unit.supervisorName ? ` - ${unit.supervisorName}` : ""}
+              ${renderUnitOutline(unit.children)}
+            </li>
+          `
+        )
+        .join("")}
+    </ul>
+  `;
+}
+
 function renderPresidentTree(groups) {
   const wrap = document.getElementById("president-tree");
   wrap.innerHTML = groups
@@ -347,10 +456,12 @@ function renderPresidentTree(groups) {
         <div class="card">
           <h3>Rede => ${group.networkName}</h3>
           <p>Quant. de Cel. => ${group.cellsCount}</p>
+          ${renderUnitOutline(group.units)}
           <table>
             <thead>
               <tr>
                 <th>Celula</th>
+                <th>Unidade</th>
                 <th>Telefone</th>
                 <th>E-mail</th>
                 <th>Membros</th>
@@ -364,6 +475,7 @@ function renderPresidentTree(groups) {
                   (row) => `
                     <tr>
                       <td>${row.cell}</td>
+                      <td>${row.unitPath ?? "-"}</td>
                       <td>${row.phone ?? "-"}</td>
                       <td>${row.email ?? "-"}</td>
                       <td>${row.members}</td>
@@ -513,6 +625,38 @@ async function loadLeaderComponents() {
   });
 }
 
+async function loadConsolidationStages() {
+  const data = await api("/panel/consolidation-stages");
+  appState.consolidationStages = data.stages;
+  renderConsolidationStages([]);
+}
+
+function renderConsolidationStages(progress) {
+  const wrap = document.getElementById("consolidation-stages");
+  const byKey = new Map(progress.map((item) => [item.key, item]));
+  const stages = [
+    ...appState.consolidationStages,
+    ...progress.filter(
+      (item) => !appState.consolidationStages.some((stage) => stage.key === item.key)
+    )
+  ];
+  wrap.innerHTML = stages
+    .map((stage) => {
+      const current = byKey.get(stage.key);
+      const disabled = stage.isActive === false ? "disabled" : "";
+      return `
+        <label data-stage-key="${stage.key}">
+          <span>
+            <input type="checkbox" data-stage-done ${current?.done ? "checked" : ""} ${disabled} />
+            ${stage.label}${stage.requiresDate ? " *" : ""}
+          </span>
+          <input type="date" data-stage-date value="${current?.completedOn || ""}" ${disabled} />
+        </label>
+      `;
+    })
+    .join("");
+}
+
 async function loadConsolidationList() {
   const name = document.getElementById("consolidation-filter").value || "";
   const data = await api(`/panel/consolidation?name=${encodeURIComponent(name)}`);
@@ -558,7 +702,7 @@ async function loadConsolidationList() {
   wrap.querySelectorAll("[data-open-consolidation]").forEach((button) => {
     button.addEventListener("click", async () => {
       const detail = await api(`/panel/consolidation/${button.dataset.openConsolidation}`);
-      fillConsolidationForm(detail.record, detail.steps);
+      fillConsolidationForm(detail.record, detail.stages);
       document.getElementById("consolidation-form").dataset.editingId =
         button.dataset.openConsolidation;
       showToast("Registro carregado para edicao.");
@@ -566,7 +710,7 @@ async function loadConsolidationList() {
   });
 }
 
-function fillConsolidationForm(record, steps) {
+function fillConsolidationForm(record, stages) {
   const form = document.getElementById("consolidation-form");
   form.participantName.value = record.participant_name || "";
   form.congregationName.value = record.congregation_name || "";
@@ -574,20 +718,21 @@ function fillConsolidationForm(record, steps) {
   form.knownBy.value = record.known_by || "friends";
   form.knownByOther.value = record.known_by_other || "";
 
-  form.acceptedInChurchDate.value = steps?.accepted_in_church_date || "";
-  form.fonoVisitDoneDate.value = steps?.fono_visit_done_date || "";
-  form.firstVisitDoneDate.value = steps?.first_visit_done_date || "";
-  form.preEncounterDoneDate.value = steps?.pre_encounter_done_date || "";
-  form.encounterDoneDate.value = steps?.encounter_done_date || "";
-  form.postEncounterDoneDate.value = steps?.post_encounter_done_date || "";
-  form.reencounterDoneDate.value = steps?.reencounter_done_date || "";
-  form.consolidationDoneDate.value = steps?.consolidation_done_date || "";
-  form.baptizedDate.value = steps?.baptized_date || "";
+  renderConsolidationStages(stages || []);
 }
 
 function buildConsolidationPayload(form) {
   const get = (name) => form[name].value.trim();
-  const stepDate = (name) => get(name) || undefined;
+  const stages = [...form.querySelectorAll("[data-stage-key]")]
+    .filter((item) => !item.querySelector("[data-stage-done]").disabled)
+    .map((item) => {
+      const completedOn = item.querySelector("[data-stage-date]").value || null;
+      return {
+        key: item.dataset.stageKey,
+        done: item.querySelector("[data-stage-done]").checked || Boolean(completedOn),
+        completedOn
+      };
+    });
   return {
     participantName: get("participantName"),
     congregationName: get("congregationName") || undefined,
@@ -595,26 +740,7 @@ function buildConsolidationPayload(form) {
     knownBy: get("knownBy") || "friends",
     knownByOther: get("knownByOther") || undefined,
     historyNote: get("historyNote") || undefined,
-    steps: {
-      acceptedInChurch: Boolean(stepDate("acceptedInChurchDate")),
-      acceptedInChurchDate: stepDate("acceptedInChurchDate"),
-      fonoVisitDone: Boolean(stepDate("fonoVisitDoneDate")),
-      fonoVisitDoneDate: stepDate("fonoVisitDoneDate"),
-      firstVisitDone: Boolean(stepDate("firstVisitDoneDate")),
-      firstVisitDoneDate: stepDate("firstVisitDoneDate"),
-      preEncounterDone: Boolean(stepDate("preEncounterDoneDate")),
-      preEncounterDoneDate: stepDate("preEncounterDoneDate"),
-      encounterDone: Boolean(stepDate("encounterDoneDate")),
-      encounterDoneDate: stepDate("encounterDoneDate"),
-      postEncounterDone: Boolean(stepDate("postEncounterDoneDate")),
-      postEncounterDoneDate: stepDate("postEncounterDoneDate"),
-      reencounterDone: Boolean(stepDate("reencounterDoneDate")),
-      reencounterDoneDate: stepDate("reencounterDoneDate"),
-      consolidationDone: Boolean(stepDate("consolidationDoneDate")),
-      consolidationDoneDate: stepDate("consolidationDoneDate"),
-      baptized: Boolean(stepDate("baptizedDate")),
-      baptizedDate: stepDate("baptizedDate")
-    }
+    stages
   };
 }
 
@@ -634,6 +760,7 @@ async function loadPage(page) {
   } else if (page === "leader") {
     await loadLeaderComponents();
   } else if (page === "consolidation") {
+    await loadConsolidationStages();
     await loadConsolidationList();
   }
 }
@@ -780,6 +907,7 @@ function setupConsolidationForm() {
     const form = document.getElementById("consolidation-form");
     form.reset();
     delete form.dataset.editingId;
+    renderConsolidationStages([]);
   });
 
   document.getElementById("consolidation-form").addEventListener("submit", async (event) => {
@@ -803,6 +931,7 @@ function setupConsolidationForm() {
       }
       form.reset();
       delete form.dataset.editingId;
+      renderConsolidationStages([]);
       await loadConsolidationList();
     } catch (error) {
       showToast(error.message, true);
@@ -810,6 +939,19 @@ function setupConsolidationForm() {
   });
 }
 
+function setupExportActions() {
+  document.querySelectorAll("[data-export]").forEach((button) => {
+    button.addEventListener("click", () => {
+      downloadExport(button.dataset.export, "xlsx").catch((error) => showToast(error.message, true));
+    });
+  });
+  document.querySelectorAll("[data-print]").forEach((button) => {
+    button.addEventListener("click", () => {
+      downloadExport(button.dataset.print, "pdf").catch((error) => showToast(error.message, true));
+    });
+  });
+}
+
 function setupSearch() {
   const input = document.getElementById("global-search");
   const box = document.getElementById("search-results");
@@ -859,7 +1001,8 @@ function setupGlobalActions() {
     loadLeaderComponents().catch((error) => showToast(error.message, true));
   });
 
-  document.getElementById("logout-action").addEventListener("click", () => {
+  document.getElementById("logout-action").addEventListener("click", async () => {
+    await api("/auth/logout", { method: "POST" }, false).catch(() => null);
     clearToken();
     toLogin();
   });
@@ -890,6 +1033,35 @@ function setupGlobalActions() {
   });
 }
 
+function renderTenantSwitcher() {
+  const switcher = document.getElementById("tenant-switcher");
+  const others = appState.session.availableTenants || [];
+  if (others.length === 0) {
+    switcher.classList.add("hidden");
+    return;
+  }
+
+  switcher.innerHTML = [
+    `<option value="${appState.session.tenant.id}">${appState.session.tenant.name}</option>`,
+    ...others.map((tenant) => `<option value="${tenant.id}">${tenant.name}</option>`)
+  ].join("");
+  switcher.classList.remove("hidden");
+
+  switcher.addEventListener("change", async () => {
+    try {
+      const data = await api("/auth/switch-tenant", {
+        method: "POST",
+        body: JSON.stringify({ tenantId: switcher.value })
+      });
+      saveToken(data.accessToken);
+      window.location.reload();
+    } catch (error) {
+      switcher.value = appState.session.tenant.id;
+      showToast(error.message, true);
+    }
+  });
+}
+
 async function bootstrap() {
   try {
     appState.session = await api("/panel/me");
@@ -901,12 +1073,14 @@ async function bootstrap() {
 
   document.getElementById("welcome-user").textContent = `Bem-vindo, ${appState.session.user.name}`;
   renderSidebar();
+  renderTenantSwitcher();
 
   setupTransferActions();
   setupConfigActions();
   setupGdActions();
   setupEmailForms();
   setupConsolidationForm();
+  setupExportActions();
   setupSearch();
   setupGlobalActions();
 
@@ -1,14 +1,32 @@
 import express from "express";
 import helmet from "helmet";
 import path from "path";
+import { auditRoutes } from "./routes/audit.routes";
 import { authRoutes } from "./routes/auth.routes";
+import { careRoutes } from "./routes/care.routes";
+import { cellReportRoutes } from "./routes/cell-reports.routes";
+import { cellsAdminRoutes } from "./routes/cells-admin.routes";
+import { certificateRoutes } from "./routes/certificates.routes";
+import { consolidationStageRoutes } from "./routes/consolidation-stages.routes";
+import { discipleshipRoutes } from "./routes/discipleship.routes";
+import { exportRoutes } from "./routes/exports.routes";
+import { importRoutes } from "./routes/imports.routes";
+import { invitationRoutes } from "./routes/invitation.routes";
+import { multiplicationRoutes } from "./routes/multiplications.routes";
 import { panelRoutes } from "./routes/panel.routes";
+import { participantRoutes } from "./routes/participants.routes";
+import { roleRoutes } from "./routes/roles.routes";
+import { schoolRoutes } from "./routes/school.routes";
+import { securityRoutes } from "./routes/security.routes";
+import { teamRoutes } from "./routes/team.routes";
+import { transferRoutes } from "./routes/transfers.routes";
 import { errorMiddleware } from "./middlewares/error.middleware";
 
 export const app = express();
 const publicPath = path.resolve(process.cwd(), "public");
 
 app.use(helmet());
+app.use("/panel/imports", importRoutes);
 app.use(express.json());
 app.use(express.static(publicPath));
 
@@ -17,5 +35,21 @@ app.get("/health", (_request, response) => {
 });
 
 app.use("/auth", authRoutes);
+app.use("/panel/audit", auditRoutes);
+app.use("/panel/care", careRoutes);
+app.use("/panel/cell-reports", cellReportRoutes);
+app.use("/panel/cells-admin", cellsAdminRoutes);
+app.use("/panel/certificates", certificateRoutes);
+app.use("/panel/consolidation-stages", consolidationStageRoutes);
+app.use("/panel/discipleship", discipleshipRoutes);
+app.use("/panel/exports", exportRoutes);
+app.use("/panel/invitations", invitationRoutes);
+app.use("/panel/multiplications", multiplicationRoutes);
+app.use("/panel/participants", participantRoutes);
+app.use("/panel/roles", roleRoutes);
+app.use("/panel/school", schoolRoutes);
+app.use("/panel/security", securityRoutes);
+app.use("/panel/team", teamRoutes);
+app.use("/panel/transfers", transferRoutes);
 app.use("/panel", panelRoutes);
 app.use(errorMiddleware);
@@ -15,7 +15,24 @@ const envSchema = z.object({
     .optional()
     .transform((value) => value === "true"),
   JWT_SECRET: z.string().min(32, "JWT_SECRET must be at least 32 chars"),
-  JWT_EXPIRES_IN: z.string().default("1d")
+  JWT_EXPIRES_IN: z.string().default("15m"),
+  MFA_CHALLENGE_EXPIRES_IN: z.string().default("5m"),
+  MFA_ENCRYPTION_KEY: z
+    .string()
+    .min(32, "MFA_ENCRYPTION_KEY must be at least 32 chars")
+    .optional(),
+  REFRESH_TOKEN_TTL_DAYS: z.coerce.number().int().positive().default(30),
+  APP_URL: z.string().url().default("http://localhost:3000"),
+  INVITATION_TTL_HOURS: z.coerce.number().int().positive().default(72),
+  PASSWORD_RESET_TTL_MINUTES: z.coerce.number().int().positive().default(60),
+  MAIL_TRANSPORT: z.enum(["console", "file"]).default("console"),
+  MAIL_FROM: z.string().min(3).default("Sistema Igreja <nao-responda@localhost>"),
+  MAIL_OUTBOX_DIR: z.string().min(1).default("tmp/mail"),
+  LOGIN_LIMITER_STORE: z.enum(["postgres", "memory"]).default("postgres"),
+  LOGIN_MAX_FAILURES: z.coerce.number().int().positive().default(5),
+  LOGIN_MAX_FAILURES_PER_IP: z.coerce.number().int().positive().default(20),
+  LOGIN_FAILURE_WINDOW_MINUTES: z.coerce.number().int().positive().default(15),
+  LOGIN_LOCKOUT_MINUTES: z.coerce.number().int().positive().default(15)
 });
 
 export const env = envSchema.parse(process.env);
@@ -0,0 +1,66 @@
+import { Request } from "express";
+import { Pool, PoolClient } from "pg";
+
+export type AuditValues = Record<string, unknown>;
+
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+export type AuditEntry = {
+  tenantId: string | null;
+  actorUserId: string | null;
+  action: string;
+  entityType: string;
+  entityId?: string | null;
+  before?: AuditValues | null;
+  after?: AuditValues | null;
+};
+
+export function diffAuditValues(
+  before: AuditValues | null | undefined,
+  after: AuditValues | null | undefined
+): AuditChanges {
+  const keys = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+  const changes: AuditChanges = {};
+
+  for (const key of keys) {
+    const previous = before?.[key] ?? null;
+    const next = after?.[key] ?? null;
+    if (JSON.stringify(previous) !== JSON.stringify(next)) {
+      changes[key] = { before: previous, after: next };
+    }
+  }
+
+  return changes;
+}
+
+export async function recordAudit(
+  db: Pool | PoolClient,
+  request: Request | null,
+  entry: AuditEntry
+): Promise<void> {
+  await db.query(
+    `
+      INSERT INTO audit_logs (
+        tenant_id,
+        actor_user_id,
+        action,
+        entity_type,
+        entity_id,
+        changes,
+        ip_address,
+        user_agent
+      )
+      VALUES ($1, $2, $3, $4, $5, $6::jsonb, $7, $8);
+    `,
+    [
+      entry.tenantId,
+      entry.actorUserId,
+      entry.action,
+      entry.entityType,
+      entry.entityId ?? null,
+      JSON.stringify(diffAuditValues(entry.before, entry.after)),
+      request?.ip ?? null,
+      request?.get("user-agent")?.slice(0, 300) ?? null
+    ]
+  );
+}
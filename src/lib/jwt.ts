@@ -1,11 +1,20 @@
 import jwt from "jsonwebtoken";
 import { AppError } from "../common/errors";
 import { env } from "../config/env";
-import { AuthPayload, tenantRoles, TenantRole } from "../types/auth";
+import {
+  AccessTokenClaims,
+  AuthPayload,
+  MfaChallengePayload,
+  MfaChallengePurpose,
+  tenantRoles,
+  TenantRole
+} from "../types/auth";
 
 type JwtClaims = jwt.JwtPayload & {
   tenantId?: string;
   role?: string;
+  sid?: string;
+  purpose?: string;
 };
 
 function isTenantRole(value: string): value is TenantRole {
@@ -21,14 +30,15 @@ export function signAccessToken(payload: AuthPayload): string {
   return jwt.sign(
     {
       tenantId: payload.tenantId,
-      role: payload.role
+      role: payload.role,
+      sid: payload.sessionId
     },
     env.JWT_SECRET,
     options
   );
 }
 
-export function verifyAccessToken(token: string): AuthPayload {
+export function verifyAccessToken(token: string): AccessTokenClaims {
   let decoded: string | JwtClaims;
   try {
     decoded = jwt.verify(token, env.JWT_SECRET);
@@ -43,14 +53,62 @@ export function verifyAccessToken(token: string): AuthPayload {
   const userId = decoded.sub;
   const tenantId = decoded.tenantId;
   const role = decoded.role;
+  const sessionId = decoded.sid;
+  const issuedAt = decoded.iat;
 
-  if (!userId || !tenantId || !role || !isTenantRole(role)) {
+  if (!userId || !tenantId || !role || !isTenantRole(role) || !sessionId || !issuedAt) {
     throw new AppError("Token invalido.", 401);
   }
 
   return {
     userId,
     tenantId,
-    role
+    role,
+    sessionId,
+    issuedAt
+  };
+}
+
+export function signMfaChallengeToken(payload: MfaChallengePayload): string {
+  const options: jwt.SignOptions = {
+    expiresIn: env.MFA_CHALLENGE_EXPIRES_IN as jwt.SignOptions["expiresIn"],
+    subject: payload.userId
+  };
+
+  return jwt.sign(
+    {
+      tenantId: payload.tenantId,
+      purpose: payload.purpose
+    },
+    env.JWT_SECRET,
+    options
+  );
+}
+
+export function verifyMfaChallengeToken(
+  token: string,
+  purpose: MfaChallengePurpose
+): MfaChallengePayload {
+  let decoded: string | JwtClaims;
+  try {
+    decoded = jwt.verify(token, env.JWT_SECRET);
+  } catch (_error) {
+    throw new AppError("Desafio de verificacao invalido ou expirado.", 401);
+  }
+
+  if (typeof decoded === "string" || decoded.purpose !== purpose) {
+    throw new AppError("Desafio de verificacao invalido.", 401);
+  }
+
+  const userId = decoded.sub;
+  const tenantId = decoded.tenantId;
+  if (!userId || !tenantId) {
+    throw new AppError("Desafio de verificacao invalido.", 401);
+  }
+
+  return {
+    userId,
+    tenantId,
+    purpose
   };
 }
@@ -0,0 +1,225 @@
+import { AppError } from "../common/errors";
+import { env } from "../config/env";
+import { pool } from "../db/pool";
+
+export type LoginAttemptState = {
+  failures: number;
+  lastFailedAt: Date;
+  lockedUntil: Date | null;
+};
+
+type FailurePolicy = {
+  maxFailures: number;
+  windowMs: number;
+  lockoutMs: number;
+};
+
+export interface LoginAttemptStore {
+  get(key: string): Promise<LoginAttemptState | null>;
+  registerFailure(key: string, policy: FailurePolicy): Promise<LoginAttemptState>;
+  reset(key: string): Promise<void>;
+}
+
+class MemoryLoginAttemptStore implements LoginAttemptStore {
+  private readonly entries = new Map<string, LoginAttemptState>();
+
+  async get(key: string): Promise<LoginAttemptState | null> {
+    return this.entries.get(key) ?? null;
+  }
+
+  async registerFailure(key: string, policy: FailurePolicy): Promise<LoginAttemptState> {
+    const now = Date.now();
+    const current = this.entries.get(key);
+    const isFresh =
+      current &&
+      current.lastFailedAt.getTime() >= now - policy.windowMs &&
+      (!current.lockedUntil || current.lockedUntil.getTime() > now);
+    const failures = isFresh ? current.failures + 1 : 1;
+
+    const next: LoginAttemptState = {
+      failures,
+      lastFailedAt: new Date(now),
+      lockedUntil: failures >= policy.maxFailures ? new Date(now + policy.lockoutMs) : null
+    };
+    this.entries.set(key, next);
+    return next;
+  }
+
+  async reset(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
+
+class PostgresLoginAttemptStore implements LoginAttemptStore {
+  async get(key: string): Promise<LoginAttemptState | null> {
+    const result = await pool.query<{
+      failures: number;
+      last_failed_at: Date;
+      locked_until: Date | null;
+    }>(
+      `
+        SELECT failures, last_failed_at, locked_until
+          FROM login_attempt_counters
+         WHERE key = $1
+         LIMIT 1;
+      `,
+      [key]
+    );
+
+    if (!result.rowCount) {
+      return null;
+    }
+
+    const row = result.rows[0];
+    return {
+      failures: row.failures,
+      lastFailedAt: row.last_failed_at,
+      lockedUntil: row.locked_until
+    };
+  }
+
+  async registerFailure(key: string, policy: FailurePolicy): Promise<LoginAttemptState> {
+    const result = await pool.query<{
+      failures: number;
+      last_failed_at: Date;
+      locked_until: Date | null;
+    }>(
+      `
+        WITH attempt AS (
+          SELECT
+            CASE
+              WHEN c.key IS NULL
+                OR c.last_failed_at < NOW() - ($2::int * INTERVAL '1 millisecond')
+                OR c.locked_until <= NOW()
+              THEN 1
+              ELSE c.failures + 1
+            END AS failures
+          FROM (SELECT $1::varchar AS key) k
+          LEFT JOIN login_attempt_counters c ON c.key = k.key
+        )
+        INSERT INTO login_attempt_counters (key, failures, last_failed_at, locked_until)
+        SELECT
+          $1,
+          attempt.failures,
+          NOW(),
+          CASE
+            WHEN attempt.failures >= $3
+            THEN NOW() + ($4::int * INTERVAL '1 millisecond')
+          END
+        FROM attempt
+        ON CONFLICT (key)
+        DO UPDATE SET
+          failures = EXCLUDED.failures,
+          last_failed_at = EXCLUDED.last_failed_at,
+          locked_until = EXCLUDED.locked_until
+        RETURNING failures, last_failed_at, locked_until;
+      `,
+      [key, policy.windowMs, policy.maxFailures, policy.lockoutMs]
+    );
+
+    const row = result.rows[0];
+    return {
+      failures: row.failures,
+      lastFailedAt: row.last_failed_at,
+      lockedUntil: row.locked_until
+    };
+  }
+
+  async reset(key: string): Promise<void> {
+    await pool.query("DELETE FROM login_attempt_counters WHERE key = $1;", [key]);
+  }
+}
+
+function createLoginAttemptStore(): LoginAttemptStore {
+  if (env.LOGIN_LIMITER_STORE === "memory") {
+    return new MemoryLoginAttemptStore();
+  }
+  return new PostgresLoginAttemptStore();
+}
+
+const store = createLoginAttemptStore();
+
+const windowMs = env.LOGIN_FAILURE_WINDOW_MINUTES * 60_000;
+const lockoutMs = env.LOGIN_LOCKOUT_MINUTES * 60_000;
+
+function getRules(
+  ip: string,
+  email: string,
+  prefix = ""
+): Array<{ key: string; policy: FailurePolicy }> {
+  return [
+    {
+      key: `${prefix}email:${email.toLowerCase()}`,
+      policy: { maxFailures: env.LOGIN_MAX_FAILURES, windowMs, lockoutMs }
+    },
+    {
+      key: `${prefix}ip:${ip}`,
+      policy: { maxFailures: env.LOGIN_MAX_FAILURES_PER_IP, windowMs, lockoutMs }
+    }
+  ];
+}
+
+function getProgressiveDelayMs(failures: number): number {
+  return Math.min(1000 * 2 ** (failures - 1), 30_000);
+}
+
+function getWaitMs(state: LoginAttemptState, now: number): number {
+  if (state.lockedUntil && state.lockedUntil.getTime() > now) {
+    return state.lockedUntil.getTime() - now;
+  }
+  if (state.lastFailedAt.getTime() < now - windowMs) {
+    return 0;
+  }
+  return Math.max(0, state.lastFailedAt.getTime() + getProgressiveDelayMs(state.failures) - now);
+}
+
+async function assertRulesAllowed(
+  rules: Array<{ key: string; policy: FailurePolicy }>,
+  message: string
+): Promise<void> {
+  const now = Date.now();
+  let waitMs = 0;
+  for (const rule of rules) {
+    const state = await store.get(rule.key);
+    if (state) {
+      waitMs = Math.max(waitMs, getWaitMs(state, now));
+    }
+  }
+
+  if (waitMs > 0) {
+    throw new AppError(`${message} Tente novamente em ${Math.ceil(waitMs / 1000)} segundos.`, 429);
+  }
+}
+
+async function registerRules(rules: Array<{ key: string; policy: FailurePolicy }>): Promise<void> {
+  for (const rule of rules) {
+    await store.registerFailure(rule.key, rule.policy);
+  }
+}
+
+export const loginLimiter = {
+  async assertAllowed(ip: string, email: string): Promise<void> {
+    await assertRulesAllowed(getRules(ip, email), "Muitas tentativas de login.");
+  },
+
+  async registerFailure(ip: string, email: string): Promise<void> {
+    await registerRules(getRules(ip, email));
+  },
+
+  async registerSuccess(email: string): Promise<void> {
+    await store.reset(`email:${email.toLowerCase()}`);
+  },
+
+  // Password reset requests are counted under their own keys so that
+  // requesting resets never locks the account's regular login.
+  async assertResetAllowed(ip: string, email: string): Promise<void> {
+    await assertRulesAllowed(
+      getRules(ip, email, "reset:"),
+      "Muitos pedidos de redefinicao de senha."
+    );
+  },
+
+  async registerResetRequest(ip: string, email: string): Promise<void> {
+    await registerRules(getRules(ip, email, "reset:"));
+  }
+};
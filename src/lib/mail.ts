@@ -0,0 +1,53 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { env } from "../config/env";
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+};
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+class ConsoleMailTransport implements MailTransport {
+  async send(message: MailMessage): Promise<void> {
+    console.log(
+      [
+        "----- e-mail -----",
+        `From: ${env.MAIL_FROM}`,
+        `To: ${message.to}`,
+        `Subject: ${message.subject}`,
+        "",
+        message.text,
+        "------------------"
+      ].join("\n")
+    );
+  }
+}
+
+class FileMailTransport implements MailTransport {
+  constructor(private readonly directory: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, "-")}-${message.to}.json`;
+    await fs.writeFile(
+      path.resolve(this.directory, fileName),
+      JSON.stringify({ from: env.MAIL_FROM, ...message }, null, 2),
+      "utf8"
+    );
+  }
+}
+
+function createMailTransport(): MailTransport {
+  if (env.MAIL_TRANSPORT === "file") {
+    return new FileMailTransport(path.resolve(process.cwd(), env.MAIL_OUTBOX_DIR));
+  }
+  return new ConsoleMailTransport();
+}
+
+export const mailer: MailTransport = createMailTransport();
@@ -0,0 +1,199 @@
+export type PdfText = {
+  x: number;
+  y: number;
+  text: string;
+  size: number;
+  bold?: boolean;
+  align?: "left" | "center" | "right";
+};
+
+export type PdfLine = {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  width?: number;
+};
+
+export type PdfPage = {
+  width: number;
+  height: number;
+  texts: PdfText[];
+  lines?: PdfLine[];
+};
+
+export type PdfTable = {
+  title: string;
+  subtitle?: string;
+  columns: string[];
+  rows: (string | number | null)[][];
+};
+
+const A4_LANDSCAPE = { width: 842, height: 595 };
+const MARGIN = 36;
+const ROW_HEIGHT = 16;
+
+function toLatin1(value: string): string {
+  return value
+    .normalize("NFC")
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, "?")
+    .replace(/\\/g, "\\\\")
+    .replace(/\(/g, "\\(")
+    .replace(/\)/g, "\\)");
+}
+
+export function estimateTextWidth(text: string, size: number, bold = false): number {
+  return text.length * size * (bold ? 0.55 : 0.5);
+}
+
+export function wrapText(text: string, size: number, maxWidth: number, bold = false): string[] {
+  const lines: string[] = [];
+  let current = "";
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (current && estimateTextWidth(candidate, size, bold) > maxWidth) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = candidate;
+    }
+  }
+  if (current) {
+    lines.push(current);
+  }
+  return lines;
+}
+
+function fitText(text: string, size: number, maxWidth: number): string {
+  if (estimateTextWidth(text, size) <= maxWidth) {
+    return text;
+  }
+  const length = Math.max(1, Math.floor(maxWidth / (size * 0.5)) - 3);
+  return `${text.slice(0, length)}...`;
+}
+
+function renderPageContent(page: PdfPage): string {
+  const commands: string[] = [];
+  for (const line of page.lines ?? []) {
+    commands.push(
+      `${line.width ?? 0.5} w ${line.x1} ${line.y1} m ${line.x2} ${line.y2} l S`
+    );
+  }
+  for (const item of page.texts) {
+    const width = estimateTextWidth(item.text, item.size, item.bold);
+    const x =
+      item.align === "center" ? item.x - width / 2 : item.align === "right" ? item.x - width : item.x;
+    commands.push(
+      `BT /${item.bold ? "F2" : "F1"} ${item.size} Tf ${x.toFixed(2)} ${item.y.toFixed(2)} Td (${toLatin1(item.text)}) Tj ET`
+    );
+  }
+  return commands.join("\n");
+}
+
+export function buildPdf(pages: PdfPage[]): Buffer {
+  const objects: string[] = [];
+  const fontRegular = 3;
+  const fontBold = 4;
+  const pageIds = pages.map((_page, index) => 5 + index * 2);
+
+  objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`;
+  objects[fontRegular] =
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>";
+  objects[fontBold] =
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>";
+
+  pages.forEach((page, index) => {
+    const pageId = pageIds[index];
+    const content = renderPageContent(page);
+    objects[pageId] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${page.width} ${page.height}] ` +
+      `/Resources << /Font << /F1 ${fontRegular} 0 R /F2 ${fontBold} 0 R >> >> ` +
+      `/Contents ${pageId + 1} 0 R >>`;
+    objects[pageId + 1] =
+      `<< /Length ${Buffer.byteLength(content, "latin1")} >>\nstream\n${content}\nendstream`;
+  });
+
+  let output = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id += 1) {
+    offsets[id] = Buffer.byteLength(output, "latin1");
+    output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = Buffer.byteLength(output, "latin1");
+  output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id += 1) {
+    output += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`;
+  }
+  output += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(output, "latin1");
+}
+
+export function renderTablePdf(table: PdfTable): Buffer {
+  const { width, height } = A4_LANDSCAPE;
+  const usableWidth = width - MARGIN * 2;
+  const columnWidth = usableWidth / Math.max(1, table.columns.length);
+  const headerTop = height - MARGIN - (table.subtitle ? 40 : 26);
+  const rowsPerPage = Math.max(1, Math.floor((headerTop - MARGIN - ROW_HEIGHT * 2) / ROW_HEIGHT));
+  const pageCount = Math.max(1, Math.ceil(table.rows.length / rowsPerPage));
+  const pages: PdfPage[] = [];
+
+  for (let pageIndex = 0; pageIndex < pageCount; pageIndex += 1) {
+    const texts: PdfText[] = [
+      { x: MARGIN, y: height - MARGIN - 14, text: table.title, size: 14, bold: true }
+    ];
+    if (table.subtitle) {
+      texts.push({ x: MARGIN, y: height - MARGIN - 30, text: table.subtitle, size: 9 });
+    }
+    texts.push({
+      x: width - MARGIN,
+      y: MARGIN - 14,
+      text: `Pagina ${pageIndex + 1} de ${pageCount}`,
+      size: 8,
+      align: "right"
+    });
+
+    table.columns.forEach((column, columnIndex) => {
+      texts.push({
+        x: MARGIN + columnIndex * columnWidth + 2,
+        y: headerTop - 12,
+        text: fitText(column, 9, columnWidth - 4),
+        size: 9,
+        bold: true
+      });
+    });
+    const lines: PdfLine[] = [
+      { x1: MARGIN, y1: headerTop - ROW_HEIGHT, x2: width - MARGIN, y2: headerTop - ROW_HEIGHT, width: 1 }
+    ];
+
+    const pageRows = table.rows.slice(pageIndex * rowsPerPage, (pageIndex + 1) * rowsPerPage);
+    pageRows.forEach((row, rowIndex) => {
+      const baseline = headerTop - ROW_HEIGHT * (rowIndex + 2) + 4;
+      row.forEach((value, columnIndex) => {
+        texts.push({
+          x: MARGIN + columnIndex * columnWidth + 2,
+          y: baseline,
+          text: fitText(value === null ? "" : String(value), 8, columnWidth - 4),
+          size: 8
+        });
+      });
+      lines.push({
+        x1: MARGIN,
+        y1: baseline - 5,
+        x2: width - MARGIN,
+        y2: baseline - 5,
+        width: 0.25
+      });
+    });
+
+    if (pageRows.length === 0) {
+      texts.push({ x: MARGIN, y: headerTop - ROW_HEIGHT * 2 + 4, text: "Nenhum registro.", size: 9 });
+    }
+
+    pages.push({ width, height, texts, lines });
+  }
+
+  return buildPdf(pages);
+}
@@ -0,0 +1,21 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+import { env } from "../config/env";
+
+const key = createHash("sha256")
+  .update(env.MFA_ENCRYPTION_KEY ?? env.JWT_SECRET)
+  .digest();
+
+export function sealSecret(plainText: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  const encrypted = Buffer.concat([cipher.update(plainText, "utf8"), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return [iv, tag, encrypted].map((part) => part.toString("base64url")).join(".");
+}
+
+export function openSecret(sealed: string): string {
+  const [iv, tag, encrypted] = sealed.split(".").map((part) => Buffer.from(part, "base64url"));
+  const decipher = createDecipheriv("aes-256-gcm", key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString("utf8");
+}
@@ -0,0 +1,369 @@
+import { inflateRawSync } from "zlib";
+import { AppError } from "../common/errors";
+import { writeZip } from "./zip";
+
+export const spreadsheetFormats = ["csv", "xlsx"] as const;
+export type SpreadsheetFormat = (typeof spreadsheetFormats)[number];
+
+const MAX_ROWS = 5000;
+const MAX_ROW_INDEX = MAX_ROWS * 4;
+const MAX_COLUMNS = 256;
+const MAX_ZIP_ENTRIES = 1000;
+const MAX_INFLATED_BYTES = 64 * 1024 * 1024;
+
+export type SpreadsheetValue = string | number | null;
+
+function detectDelimiter(text: string): string {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const semicolons = firstLine.split(";").length;
+  const commas = firstLine.split(",").length;
+  return semicolons > commas ? ";" : ",";
+}
+
+export function parseCsv(input: string): string[][] {
+  const text = input.replace(/^\uFEFF/, "");
+  const delimiter = detectDelimiter(text);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[index + 1] === "\n") {
+        index += 1;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new AppError("Arquivo CSV invalido: aspas nao fechadas.", 400);
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+function invalidXlsx(): AppError {
+  return new AppError("Arquivo XLSX invalido.", 400);
+}
+
+function assertInside(buffer: Buffer, offset: number, length: number): void {
+  if (offset < 0 || length < 0 || offset + length > buffer.length) {
+    throw invalidXlsx();
+  }
+}
+
+function readZipEntries(buffer: Buffer): Map<string, Buffer> {
+  let end = -1;
+  for (let offset = buffer.length - 22; offset >= 0; offset -= 1) {
+    if (buffer.readUInt32LE(offset) === 0x06054b50) {
+      end = offset;
+      break;
+    }
+  }
+  if (end === -1) {
+    throw invalidXlsx();
+  }
+
+  const entries = new Map<string, Buffer>();
+  const total = buffer.readUInt16LE(end + 10);
+  if (total > MAX_ZIP_ENTRIES) {
+    throw invalidXlsx();
+  }
+  let cursor = buffer.readUInt32LE(end + 16);
+  let inflatedBytes = 0;
+
+  for (let index = 0; index < total; index += 1) {
+    assertInside(buffer, cursor, 46);
+    if (buffer.readUInt32LE(cursor) !== 0x02014b50) {
+      throw invalidXlsx();
+    }
+    const method = buffer.readUInt16LE(cursor + 10);
+    const compressedSize = buffer.readUInt32LE(cursor + 20);
+    const nameLength = buffer.readUInt16LE(cursor + 28);
+    const extraLength = buffer.readUInt16LE(cursor + 30);
+    const commentLength = buffer.readUInt16LE(cursor + 32);
+    const localOffset = buffer.readUInt32LE(cursor + 42);
+    assertInside(buffer, cursor + 46, nameLength);
+    const name = buffer.toString("utf8", cursor + 46, cursor + 46 + nameLength);
+
+    assertInside(buffer, localOffset, 30);
+    const dataStart =
+      localOffset +
+      30 +
+      buffer.readUInt16LE(localOffset + 26) +
+      buffer.readUInt16LE(localOffset + 28);
+    assertInside(buffer, dataStart, compressedSize);
+    const data = buffer.subarray(dataStart, dataStart + compressedSize);
+    let content: Buffer | null = null;
+    if (method === 0) {
+      content = data;
+    } else if (method === 8) {
+      try {
+        content = inflateRawSync(data, {
+          maxOutputLength: Math.max(1, MAX_INFLATED_BYTES - inflatedBytes)
+        });
+      } catch {
+        throw new AppError("Arquivo XLSX invalido ou grande demais.", 400);
+      }
+    }
+    if (content) {
+      inflatedBytes += content.length;
+      if (inflatedBytes > MAX_INFLATED_BYTES) {
+        throw new AppError("Arquivo XLSX invalido ou grande demais.", 400);
+      }
+      entries.set(name, content);
+    }
+
+    cursor += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_match, code: string) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-fA-F]+);/g, (_match, code: string) =>
+      String.fromCodePoint(parseInt(code, 16))
+    )
+    .replace(/&amp;/g, "&");
+}
+
+function readTextRuns(xml: string): string {
+  const runs = xml.match(/<t(?:\s[^>]*)?>[\s\S]*?<\/t>/g) ?? [];
+  return runs.map((run) => decodeXml(run.replace(/^<t[^>]*>|<\/t>$/g, ""))).join("");
+}
+
+function columnIndex(reference: string): number {
+  const letters = reference.replace(/\d+$/, "");
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+function firstWorksheetPath(entries: Map<string, Buffer>): string {
+  const workbook = entries.get("xl/workbook.xml")?.toString("utf8") ?? "";
+  const rels = entries.get("xl/_rels/workbook.xml.rels")?.toString("utf8") ?? "";
+  const sheetRelation = workbook.match(/<sheet\b[^>]*\br:id="([^"]+)"/)?.[1];
+  if (sheetRelation) {
+    const relation = rels.match(
+      new RegExp(`<Relationship\\b[^>]*\\bId="${sheetRelation}"[^>]*>`)
+    )?.[0];
+    const target = relation?.match(/\bTarget="([^"]+)"/)?.[1];
+    if (target) {
+      return target.startsWith("/") ? target.slice(1) : `xl/${target}`;
+    }
+  }
+
+  const fallback = Array.from(entries.keys())
+    .filter((name) => name.startsWith("xl/worksheets/") && name.endsWith(".xml"))
+    .sort()[0];
+  if (!fallback) {
+    throw new AppError("Planilha XLSX sem abas.", 400);
+  }
+  return fallback;
+}
+
+export function parseXlsx(buffer: Buffer): string[][] {
+  const entries = readZipEntries(buffer);
+  const sharedStrings = (
+    entries.get("xl/sharedStrings.xml")?.toString("utf8").match(/<si>[\s\S]*?<\/si>/g) ?? []
+  ).map(readTextRuns);
+  const sheet = entries.get(firstWorksheetPath(entries))?.toString("utf8");
+  if (!sheet) {
+    throw new AppError("Planilha XLSX sem abas.", 400);
+  }
+
+  const rows: string[][] = [];
+  for (const rowXml of sheet.match(/<row\b[^>]*?(?:\/>|>[\s\S]*?<\/row>)/g) ?? []) {
+    const rowNumber = Number(rowXml.match(/\br="(\d+)"/)?.[1] ?? rows.length + 1);
+    if (rowNumber < 1 || rowNumber > MAX_ROW_INDEX) {
+      throw new AppError(`A planilha pode ter no maximo ${MAX_ROWS} linhas.`, 400);
+    }
+    const row: string[] = [];
+    for (const cell of rowXml.match(/<c\b[^>]*?(?:\/>|>[\s\S]*?<\/c>)/g) ?? []) {
+      const attributes = cell.match(/^<c\b([^>]*?)\/?>/)?.[1] ?? "";
+      const reference = attributes.match(/\br="([A-Z]+\d+)"/)?.[1];
+      const type = attributes.match(/\bt="([^"]+)"/)?.[1];
+      const rawValue = cell.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+      let value = "";
+      if (type === "s" && rawValue !== undefined) {
+        value = sharedStrings[Number(rawValue)] ?? "";
+      } else if (type === "inlineStr") {
+        value = readTextRuns(cell);
+      } else if (rawValue !== undefined) {
+        value = decodeXml(rawValue);
+      }
+      const column = reference ? columnIndex(reference) : row.length;
+      if (column < 0 || column >= MAX_COLUMNS) {
+        throw new AppError(`A planilha pode ter no maximo ${MAX_COLUMNS} colunas.`, 400);
+      }
+      row[column] = value;
+    }
+    rows[rowNumber - 1] = Array.from(row, (value) => value ?? "");
+  }
+
+  return Array.from(rows, (row) => row ?? []);
+}
+
+export type SpreadsheetRow = {
+  line: number;
+  values: string[];
+};
+
+export function readSpreadsheet(
+  format: SpreadsheetFormat,
+  content: string
+): { header: string[]; rows: SpreadsheetRow[] } {
+  const parsed =
+    format === "csv" ? parseCsv(content) : parseXlsx(Buffer.from(content, "base64"));
+  const filled = parsed
+    .map((values, index) => ({ line: index + 1, values: values.map((value) => value.trim()) }))
+    .filter((row) => row.values.some((value) => value !== ""));
+
+  if (filled.length < 2) {
+    throw new AppError("A planilha precisa de um cabecalho e ao menos uma linha.", 400);
+  }
+  if (filled.length - 1 > MAX_ROWS) {
+    throw new AppError(`A planilha pode ter no maximo ${MAX_ROWS} linhas.`, 400);
+  }
+
+  return { header: filled[0].values, rows: filled.slice(1) };
+}
+
+function encodeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "");
+}
+
+function columnName(index: number): string {
+  let name = "";
+  for (let value = index + 1; value > 0; value = Math.floor((value - 1) / 26)) {
+    name = String.fromCharCode(65 + ((value - 1) % 26)) + name;
+  }
+  return name;
+}
+
+// Phone numbers and signed numbers start with + or - too; only other values
+// that a spreadsheet would evaluate as a formula get the leading quote.
+function isFormulaLike(value: string): boolean {
+  return /^[=+\-@\t\r]/.test(value) && !/^[+-]?[\d\s().-]+$/.test(value);
+}
+
+export function writeCsv(rows: SpreadsheetValue[][]): string {
+  const lines = rows.map((row) =>
+    row
+      .map((value) => {
+        const raw = value === null ? "" : String(value);
+        const text = typeof value === "string" && isFormulaLike(raw) ? `'${raw}` : raw;
+        return /[";\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+      })
+      .join(";")
+  );
+  return `\uFEFF${lines.join("\r\n")}\r\n`;
+}
+
+export function writeXlsx(rows: SpreadsheetValue[][], sheetName: string): Buffer {
+  const sheetRows = rows
+    .map((row, rowIndex) => {
+      const cells = row
+        .map((value, columnIndex) => {
+          const reference = `${columnName(columnIndex)}${rowIndex + 1}`;
+          if (value === null || value === "") {
+            return "";
+          }
+          if (typeof value === "number") {
+            return `<c r="${reference}"><v>${value}</v></c>`;
+          }
+          return `<c r="${reference}" t="inlineStr"><is><t xml:space="preserve">${encodeXml(value)}</t></is></c>`;
+        })
+        .join("");
+      return `<row r="${rowIndex + 1}">${cells}</row>`;
+    })
+    .join("");
+
+  return writeZip([
+    {
+      name: "[Content_Types].xml",
+      content:
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+        "</Types>"
+    },
+    {
+      name: "_rels/.rels",
+      content:
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+        "</Relationships>"
+    },
+    {
+      name: "xl/workbook.xml",
+      content:
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+        `<sheets><sheet name="${encodeXml(sheetName.slice(0, 31))}" sheetId="1" r:id="rId1"/></sheets>` +
+        "</workbook>"
+    },
+    {
+      name: "xl/_rels/workbook.xml.rels",
+      content:
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+        "</Relationships>"
+    },
+    {
+      name: "xl/worksheets/sheet1.xml",
+      content:
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+        `<sheetData>${sheetRows}</sheetData>` +
+        "</worksheet>"
+    }
+  ]);
+}
@@ -0,0 +1,9 @@
+import { createHash, randomBytes } from "crypto";
+
+export function generateOpaqueToken(): string {
+  return randomBytes(32).toString("base64url");
+}
+
+export function hashOpaqueToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
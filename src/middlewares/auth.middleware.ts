@@ -1,12 +1,9 @@
-import { NextFunction, Request, Response } from "express";
+import { asyncHandler } from "../common/async-handler";
 import { AppError } from "../common/errors";
+import { pool } from "../db/pool";
 import { verifyAccessToken } from "../lib/jwt";
 
-export function requireAuth(
-  request: Request,
-  _response: Response,
-  next: NextFunction
-): void {
+export const requireAuth = asyncHandler(async (request, _response, next) => {
   const authorization = request.headers.authorization;
 
   if (!authorization) {
@@ -18,6 +15,50 @@ export function requireAuth(
     throw new AppError("Authorization header invalido.", 401);
   }
 
-  request.auth = verifyAccessToken(token);
+  const claims = verifyAccessToken(token);
+
+  const session = await pool.query<{
+    sessions_revoked_at: Date | null;
+    is_stale: boolean;
+  }>(
+    `
+      SELECT
+        u.sessions_revoked_at,
+        s.last_seen_at < NOW() - INTERVAL '1 minute' AS is_stale
+      FROM user_sessions s
+      JOIN users u ON u.id = s.user_id
+      WHERE s.id = $1
+        AND s.user_id = $2
+        AND s.tenant_id = $3
+        AND s.revoked_at IS NULL
+        AND s.expires_at > NOW()
+      LIMIT 1;
+    `,
+    [claims.sessionId, claims.userId, claims.tenantId]
+  );
+
+  // A session switched to another tenant no longer accepts access tokens
+  // issued for the previous one.
+  if (!session.rowCount) {
+    throw new AppError("Sessao encerrada. Entre novamente.", 401);
+  }
+
+  const revokedAt = session.rows[0].sessions_revoked_at;
+  if (revokedAt && claims.issuedAt < Math.floor(revokedAt.getTime() / 1000)) {
+    throw new AppError("Sessao encerrada. Entre novamente.", 401);
+  }
+
+  if (session.rows[0].is_stale) {
+    await pool.query("UPDATE user_sessions SET last_seen_at = NOW() WHERE id = $1;", [
+      claims.sessionId
+    ]);
+  }
+
+  request.auth = {
+    userId: claims.userId,
+    tenantId: claims.tenantId,
+    role: claims.role,
+    sessionId: claims.sessionId
+  };
   next();
-}
+});
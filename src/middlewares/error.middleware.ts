@@ -2,6 +2,10 @@ import { NextFunction, Request, Response } from "express";
 import { ZodError } from "zod";
 import { AppError } from "../common/errors";
 
+export function reportError(error: unknown): void {
+  console.error(error);
+}
+
 export function errorMiddleware(
   error: unknown,
   _request: Request,
@@ -21,7 +25,7 @@ export function errorMiddleware(
     });
   }
 
-  console.error(error);
+  reportError(error);
   return response.status(500).json({
     message: "Erro interno do servidor."
   });
@@ -0,0 +1,307 @@
+import { PoolClient } from "pg";
+import { AppError } from "../common/errors";
+import {
+  ActionKey,
+  canAccess,
+  grantsBuiltInRole,
+  ModuleKey,
+  normalizePanelRole,
+  PanelRole,
+  PermissionMatrix,
+  ScopeKind
+} from "./permissions";
+import { resolveMemberRole } from "./roles";
+import { resolveUnitScope, unitDescendantsCte } from "./units";
+
+export type AccessContext = {
+  userId: string;
+  userName: string;
+  userEmail: string;
+  tenantId: string;
+  tenantName: string;
+  role: PanelRole;
+  roleKey: string;
+  roleName: string;
+  scope: ScopeKind;
+  permissions: PermissionMatrix;
+  networkIds: string[];
+  unitIds: string[];
+  cellIds: string[];
+};
+
+export type VisibleCell = {
+  id: string;
+  name: string;
+  code: string;
+  network_id: string;
+  network_name: string;
+  leader_name: string | null;
+  email: string | null;
+  phone: string | null;
+};
+
+export function assertPermission(
+  ctx: AccessContext,
+  module: ModuleKey,
+  action: ActionKey
+): void {
+  if (!canAccess(ctx.permissions, module, action)) {
+    throw new AppError("Voce nao possui permissao para esta acao.", 403);
+  }
+}
+
+// A custom role only passes when its effective matrix and scope still cover
+// the built-in role it was based on, not merely because of its base role.
+export function assertRole(ctx: AccessContext, roles: PanelRole[]): void {
+  if (!roles.some((role) => grantsBuiltInRole(ctx, role))) {
+    throw new AppError("Voce nao possui permissao para esta acao.", 403);
+  }
+}
+
+export function assertNetworkInScope(ctx: AccessContext, networkId: string): void {
+  if (ctx.scope === "all" || (ctx.scope === "network" && ctx.networkIds.includes(networkId))) {
+    return;
+  }
+  throw new AppError("Rede fora do seu escopo.", 403);
+}
+
+export function assertCellInScope(
+  ctx: AccessContext,
+  cell: { id: string; network_id: string }
+): void {
+  if (
+    ctx.scope === "all" ||
+    (ctx.scope === "network" && ctx.networkIds.includes(cell.network_id)) ||
+    ((ctx.scope === "supervisor" || ctx.scope === "cell") && ctx.cellIds.includes(cell.id))
+  ) {
+    return;
+  }
+  throw new AppError("Celula fora do seu escopo.", 403);
+}
+
+export function getScopedCellIds(ctx: AccessContext): string[] | null {
+  return ctx.scope === "supervisor" || ctx.scope === "cell" ? ctx.cellIds : null;
+}
+
+export async function loadAccessContext(
+  client: PoolClient,
+  userId: string,
+  tenantId: string
+): Promise<AccessContext> {
+  const membership = await client.query<{
+    user_id: string;
+    full_name: string;
+    email: string;
+    tenant_id: string;
+    tenant_name: string;
+    role: string;
+    role_id: string | null;
+  }>(
+    `
+      SELECT
+        u.id AS user_id,
+        u.full_name,
+        u.email,
+        t.id AS tenant_id,
+        t.name AS tenant_name,
+        tm.role::text AS role,
+        tm.role_id
+      FROM users u
+      JOIN tenant_members tm
+        ON tm.user_id = u.id
+       AND tm.tenant_id = $2
+       AND tm.is_active = TRUE
+      JOIN tenants t
+        ON t.id = tm.tenant_id
+       AND t.is_active = TRUE
+      WHERE u.id = $1
+        AND u.is_active = TRUE
+        AND u.deleted_at IS NULL
+      LIMIT 1;
+    `,
+    [userId, tenantId]
+  );
+
+  if (!membership.rowCount) {
+    throw new AppError("Sessao invalida para a igreja selecionada.", 401);
+  }
+
+  const row = membership.rows[0];
+  const definition = await resolveMemberRole(
+    client,
+    tenantId,
+    normalizePanelRole(row.role as never),
+    row.role_id
+  );
+  const scope = definition.scope;
+
+  const networkRows =
+    scope === "network"
+      ? await client.query<{ network_id: string }>(
+          `
+            SELECT network_id
+              FROM user_network_scopes
+             WHERE tenant_id = $1
+               AND user_id = $2;
+          `,
+          [tenantId, userId]
+        )
+      : { rows: [] as { network_id: string }[] };
+
+  const cellRows =
+    scope === "cell"
+      ? await client.query<{ cell_id: string }>(
+          `
+            SELECT cell_id
+              FROM user_cell_scopes
+             WHERE tenant_id = $1
+               AND user_id = $2;
+          `,
+          [tenantId, userId]
+        )
+      : { rows: [] as { cell_id: string }[] };
+
+  const unitRows =
+    scope === "supervisor"
+      ? await client.query<{ org_unit_id: string }>(
+          `
+            SELECT org_unit_id
+              FROM user_unit_scopes
+             WHERE tenant_id = $1
+               AND user_id = $2;
+          `,
+          [tenantId, userId]
+        )
+      : { rows: [] as { org_unit_id: string }[] };
+  const unitIds = unitRows.rows.map((item) => item.org_unit_id);
+  const unitScope =
+    scope === "supervisor" ? await resolveUnitScope(client, tenantId, unitIds) : null;
+
+  return {
+    userId: row.user_id,
+    userName: row.full_name,
+    userEmail: row.email,
+    tenantId: row.tenant_id,
+    tenantName: row.tenant_name,
+    role: definition.baseRole,
+    roleKey: definition.key,
+    roleName: definition.name,
+    scope,
+    permissions: definition.permissions,
+    networkIds: unitScope?.networkIds ?? networkRows.rows.map((item) => item.network_id),
+    unitIds,
+    cellIds: unitScope?.cellIds ?? cellRows.rows.map((item) => item.cell_id)
+  };
+}
+
+export async function getVisibleCells(client: PoolClient, ctx: AccessContext): Promise<VisibleCell[]> {
+  if (ctx.scope === "network") {
+    if (ctx.networkIds.length === 0) {
+      return [];
+    }
+
+    const result = await client.query<VisibleCell>(
+      `
+        SELECT
+          c.id,
+          c.name,
+          c.code,
+          c.network_id,
+          n.name AS network_name,
+          u.full_name AS leader_name,
+          c.email,
+          c.phone
+        FROM cells c
+        JOIN church_networks n ON n.id = c.network_id
+        LEFT JOIN users u ON u.id = c.leader_user_id
+        WHERE c.tenant_id = $1
+          AND c.is_active = TRUE
+          AND c.network_id = ANY($2::uuid[])
+        ORDER BY n.name, c.name;
+      `,
+      [ctx.tenantId, ctx.networkIds]
+    );
+    return result.rows;
+  }
+
+  if (ctx.scope === "supervisor") {
+    if (ctx.unitIds.length === 0) {
+      return [];
+    }
+
+    const result = await client.query<VisibleCell>(
+      `
+        ${unitDescendantsCte}
+        SELECT
+          c.id,
+          c.name,
+          c.code,
+          c.network_id,
+          n.name AS network_name,
+          u.full_name AS leader_name,
+          c.email,
+          c.phone
+        FROM cells c
+        JOIN church_networks n ON n.id = c.network_id
+        LEFT JOIN users u ON u.id = c.leader_user_id
+        WHERE c.tenant_id = $1
+          AND c.is_active = TRUE
+          AND c.org_unit_id IN (SELECT id FROM unit_tree)
+        ORDER BY n.name, c.name;
+      `,
+      [ctx.tenantId, ctx.unitIds]
+    );
+    return result.rows;
+  }
+
+  if (ctx.scope === "cell") {
+    if (ctx.cellIds.length === 0) {
+      return [];
+    }
+
+    const result = await client.query<VisibleCell>(
+      `
+        SELECT
+          c.id,
+          c.name,
+          c.code,
+          c.network_id,
+          n.name AS network_name,
+          u.full_name AS leader_name,
+          c.email,
+          c.phone
+        FROM cells c
+        JOIN church_networks n ON n.id = c.network_id
+        LEFT JOIN users u ON u.id = c.leader_user_id
+        WHERE c.tenant_id = $1
+          AND c.is_active = TRUE
+          AND c.id = ANY($2::uuid[])
+        ORDER BY n.name, c.name;
+      `,
+      [ctx.tenantId, ctx.cellIds]
+    );
+    return result.rows;
+  }
+
+  const result = await client.query<VisibleCell>(
+    `
+      SELECT
+        c.id,
+        c.name,
+        c.code,
+        c.network_id,
+        n.name AS network_name,
+        u.full_name AS leader_name,
+        c.email,
+        c.phone
+      FROM cells c
+      JOIN church_networks n ON n.id = c.network_id
+      LEFT JOIN users u ON u.id = c.leader_user_id
+      WHERE c.tenant_id = $1
+        AND c.is_active = TRUE
+      ORDER BY n.name, c.name;
+    `,
+    [ctx.tenantId]
+  );
+  return result.rows;
+}
@@ -0,0 +1,236 @@
+import { PoolClient } from "pg";
+import { z } from "zod";
+
+export const careAlertKinds = [
+  "consecutive_absence",
+  "visitor_not_returned",
+  "type_regression"
+] as const;
+export type CareAlertKind = (typeof careAlertKinds)[number];
+
+export const careAlertStatuses = ["open", "acknowledged", "closed"] as const;
+export type CareAlertStatus = (typeof careAlertStatuses)[number];
+
+export const careSettingsSchema = z.object({
+  absenceThreshold: z.coerce.number().int().min(1).max(52),
+  visitorReturnDays: z.coerce.number().int().min(1).max(365),
+  regressionLookbackDays: z.coerce.number().int().min(1).max(365)
+});
+export type CareSettings = z.infer<typeof careSettingsSchema>;
+
+export const defaultCareSettings: CareSettings = {
+  absenceThreshold: 3,
+  visitorReturnDays: 21,
+  regressionLookbackDays: 30
+};
+
+type CareRule = {
+  kind: CareAlertKind;
+  threshold: (settings: CareSettings) => number;
+  sql: string;
+};
+
+const activeLinkJoins = `
+  JOIN participants p
+    ON p.id = pcl.participant_id
+   AND p.is_active = TRUE
+  JOIN cells c
+    ON c.id = pcl.cell_id
+   AND c.is_active = TRUE
+`;
+
+const careRules: CareRule[] = [
+  {
+    kind: "consecutive_absence",
+    threshold: (settings) => settings.absenceThreshold,
+    sql: `
+      INSERT INTO care_alerts (tenant_id, participant_id, cell_id, kind, details)
+      SELECT
+        pcl.tenant_id,
+        pcl.participant_id,
+        pcl.cell_id,
+        'consecutive_absence',
+        jsonb_build_object(
+          'missedMeetings', recent.meetings,
+          'firstMissedOn', recent.first_missed_on,
+          'lastMissedOn', recent.last_missed_on,
+          'lastPresentOn', seen.last_present_on
+        )
+      FROM participant_cell_links pcl
+      ${activeLinkJoins}
+      CROSS JOIN LATERAL (
+        SELECT
+          COUNT(*)::int AS meetings,
+          COUNT(a.participant_id)::int AS presences,
+          MIN(r.meeting_date)::text AS first_missed_on,
+          MAX(r.meeting_date)::text AS last_missed_on,
+          MAX(r.meeting_date) AS last_meeting
+        FROM (
+          SELECT id, meeting_date
+            FROM cell_meeting_reports
+           WHERE tenant_id = pcl.tenant_id
+             AND cell_id = pcl.cell_id
+             AND meeting_date >= pcl.created_at::date
+           ORDER BY week_start DESC
+           LIMIT $3
+        ) r
+        LEFT JOIN cell_meeting_attendees a
+          ON a.report_id = r.id
+         AND a.participant_id = pcl.participant_id
+      ) recent
+      CROSS JOIN LATERAL (
+        SELECT MAX(r.meeting_date)::text AS last_present_on
+          FROM cell_meeting_attendees a
+          JOIN cell_meeting_reports r ON r.id = a.report_id
+         WHERE a.participant_id = pcl.participant_id
+           AND r.cell_id = pcl.cell_id
+      ) seen
+      WHERE pcl.tenant_id = $1
+        AND pcl.is_active = TRUE
+        AND pcl.type <> 'visitor'
+        AND ($2::uuid[] IS NULL OR pcl.cell_id = ANY($2::uuid[]))
+        AND recent.meetings = $3
+        AND recent.presences = 0
+        AND NOT EXISTS (
+          SELECT 1
+            FROM care_alerts ca
+           WHERE ca.tenant_id = pcl.tenant_id
+             AND ca.participant_id = pcl.participant_id
+             AND ca.kind = 'consecutive_absence'
+             AND ca.closed_at::date >= recent.last_meeting
+        )
+      ON CONFLICT (tenant_id, participant_id, kind) WHERE status <> 'closed'
+      DO NOTHING;
+    `
+  },
+  {
+    kind: "visitor_not_returned",
+    threshold: (settings) => settings.visitorReturnDays,
+    sql: `
+      INSERT INTO care_alerts (tenant_id, participant_id, cell_id, kind, details)
+      SELECT
+        pcl.tenant_id,
+        pcl.participant_id,
+        pcl.cell_id,
+        'visitor_not_returned',
+        jsonb_build_object(
+          'linkedSince', pcl.created_at::date::text,
+          'presences', seen.presences,
+          'lastPresentOn', seen.last_present_on
+        )
+      FROM participant_cell_links pcl
+      ${activeLinkJoins}
+      CROSS JOIN LATERAL (
+        SELECT
+          COUNT(*)::int AS presences,
+          MAX(r.meeting_date)::text AS last_present_on
+        FROM cell_meeting_attendees a
+        JOIN cell_meeting_reports r ON r.id = a.report_id
+        WHERE a.participant_id = pcl.participant_id
+          AND r.cell_id = pcl.cell_id
+      ) seen
+      WHERE pcl.tenant_id = $1
+        AND pcl.is_active = TRUE
+        AND pcl.type = 'visitor'
+        AND ($2::uuid[] IS NULL OR pcl.cell_id = ANY($2::uuid[]))
+        AND pcl.created_at <= NOW() - make_interval(days => $3)
+        AND seen.presences <= 1
+        AND NOT EXISTS (
+          SELECT 1
+            FROM care_alerts ca
+           WHERE ca.tenant_id = pcl.tenant_id
+             AND ca.participant_id = pcl.participant_id
+             AND ca.cell_id = pcl.cell_id
+             AND ca.kind = 'visitor_not_returned'
+        )
+      ON CONFLICT (tenant_id, participant_id, kind) WHERE status <> 'closed'
+      DO NOTHING;
+    `
+  },
+  {
+    kind: "type_regression",
+    threshold: (settings) => settings.regressionLookbackDays,
+    sql: `
+      INSERT INTO care_alerts (tenant_id, participant_id, cell_id, kind, details)
+      SELECT DISTINCT ON (h.participant_id)
+        h.tenant_id,
+        h.participant_id,
+        pcl.cell_id,
+        'type_regression',
+        jsonb_build_object(
+          'fromType', h.from_type::text,
+          'toType', h.to_type::text,
+          'changedAt', h.changed_at::text
+        )
+      FROM participant_status_history h
+      JOIN participant_cell_links pcl
+        ON pcl.participant_id = h.participant_id
+       AND pcl.tenant_id = h.tenant_id
+       AND pcl.is_active = TRUE
+      ${activeLinkJoins}
+      WHERE h.tenant_id = $1
+        AND ($2::uuid[] IS NULL OR pcl.cell_id = ANY($2::uuid[]))
+        AND h.from_type IS NOT NULL
+        AND array_position(ARRAY['visitor', 'congregated', 'member'], h.to_type::text)
+          < array_position(ARRAY['visitor', 'congregated', 'member'], h.from_type::text)
+        AND h.changed_at >= NOW() - make_interval(days => $3)
+        AND NOT EXISTS (
+          SELECT 1
+            FROM care_alerts ca
+           WHERE ca.tenant_id = h.tenant_id
+             AND ca.participant_id = h.participant_id
+             AND ca.kind = 'type_regression'
+             AND ca.detected_at >= h.changed_at
+        )
+      ORDER BY h.participant_id, h.changed_at DESC
+      ON CONFLICT (tenant_id, participant_id, kind) WHERE status <> 'closed'
+      DO NOTHING;
+    `
+  }
+];
+
+export async function loadCareSettings(
+  client: PoolClient,
+  tenantId: string
+): Promise<CareSettings> {
+  const result = await client.query<{
+    absence_threshold: number;
+    visitor_return_days: number;
+    regression_lookback_days: number;
+  }>(
+    `
+      SELECT absence_threshold, visitor_return_days, regression_lookback_days
+        FROM tenant_care_settings
+       WHERE tenant_id = $1
+       LIMIT 1;
+    `,
+    [tenantId]
+  );
+
+  const row = result.rows[0];
+  if (!row) {
+    return { ...defaultCareSettings };
+  }
+
+  return {
+    absenceThreshold: row.absence_threshold,
+    visitorReturnDays: row.visitor_return_days,
+    regressionLookbackDays: row.regression_lookback_days
+  };
+}
+
+export async function evaluateCareAlerts(
+  client: PoolClient,
+  tenantId: string,
+  cellIds: string[] | null
+): Promise<Record<CareAlertKind, number>> {
+  const settings = await loadCareSettings(client, tenantId);
+  const created = {} as Record<CareAlertKind, number>;
+
+  for (const rule of careRules) {
+    const result = await client.query(rule.sql, [tenantId, cellIds, rule.threshold(settings)]);
+    created[rule.kind] = result.rowCount ?? 0;
+  }
+
+  return created;
+}
@@ -0,0 +1,210 @@
+import { PoolClient } from "pg";
+import { z } from "zod";
+import { AppError } from "../common/errors";
+import { buildPdf, PdfLine, PdfPage, PdfText, wrapText } from "../lib/pdf";
+import { ModuleKey } from "./permissions";
+
+export const certificateKinds = ["school_completion", "encounter", "baptism"] as const;
+export type CertificateKind = (typeof certificateKinds)[number];
+
+export const certificatePlaceholders = ["igreja", "participante", "curso", "data", "assinante"] as const;
+
+export const certificateModules: Record<CertificateKind, ModuleKey> = {
+  school_completion: "leadership_school",
+  encounter: "consolidation",
+  baptism: "consolidation"
+};
+
+export const certificateTemplateSchema = z
+  .object({
+    title: z.string().trim().min(2).max(120),
+    body: z.string().trim().min(10).max(2000),
+    signerName: z.string().trim().max(160).nullable().default(null),
+    signerRole: z.string().trim().max(120).nullable().default(null),
+    stageKey: z.string().trim().min(2).max(60).nullable().default(null)
+  })
+  .superRefine((data, context) => {
+    const used = [...data.body.matchAll(/\{\{\s*([a-z]+)\s*\}\}/g)].map((match) => match[1]);
+    const unknown = used.filter(
+      (key) => !(certificatePlaceholders as readonly string[]).includes(key)
+    );
+    if (unknown.length > 0) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["body"],
+        message: `Marcadores desconhecidos: ${unknown.join(", ")}.`
+      });
+    }
+    if (!used.includes("participante")) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["body"],
+        message: "O texto precisa conter o marcador {{participante}}."
+      });
+    }
+  });
+export type CertificateTemplate = z.infer<typeof certificateTemplateSchema>;
+
+export const defaultCertificateTemplates: Record<CertificateKind, CertificateTemplate> = {
+  school_completion: {
+    title: "Certificado de Conclusao",
+    body: "Certificamos que {{participante}} concluiu o curso {{curso}} da Escola de Lideres da {{igreja}} em {{data}}.",
+    signerName: null,
+    signerRole: null,
+    stageKey: null
+  },
+  encounter: {
+    title: "Certificado de Encontro",
+    body: "Certificamos que {{participante}} participou do {{curso}} promovido pela {{igreja}} em {{data}}.",
+    signerName: null,
+    signerRole: null,
+    stageKey: "encounter"
+  },
+  baptism: {
+    title: "Certificado de Batismo",
+    body: "Certificamos que {{participante}} foi batizado(a) nas aguas pela {{igreja}} em {{data}}.",
+    signerName: null,
+    signerRole: null,
+    stageKey: "baptized"
+  }
+};
+
+export function isMilestoneCertificate(kind: CertificateKind): boolean {
+  return certificateModules[kind] === "consolidation";
+}
+
+export async function assertCertificateStage(
+  client: PoolClient,
+  tenantId: string,
+  stageKey: string
+): Promise<void> {
+  const stage = await client.query(
+    "SELECT 1 FROM consolidation_stages WHERE tenant_id = $1 AND key = $2 AND is_active = TRUE LIMIT 1;",
+    [tenantId, stageKey]
+  );
+  if (!stage.rowCount) {
+    throw new AppError(`Etapa de consolidacao "${stageKey}" nao encontrada ou inativa.`, 400);
+  }
+}
+
+export type CertificateData = {
+  participantName: string;
+  course: string;
+  date: string;
+};
+
+const A4_LANDSCAPE = { width: 842, height: 595 };
+
+export async function loadCertificateTemplate(
+  client: PoolClient,
+  tenantId: string,
+  kind: CertificateKind
+): Promise<CertificateTemplate & { isDefault: boolean }> {
+  const result = await client.query<{
+    title: string;
+    body: string;
+    signer_name: string | null;
+    signer_role: string | null;
+    stage_key: string | null;
+  }>(
+    `
+      SELECT title, body, signer_name, signer_role, stage_key
+        FROM certificate_templates
+       WHERE tenant_id = $1
+         AND kind = $2
+       LIMIT 1;
+    `,
+    [tenantId, kind]
+  );
+
+  const row = result.rows[0];
+  if (!row) {
+    return { ...defaultCertificateTemplates[kind], isDefault: true };
+  }
+
+  return {
+    title: row.title,
+    body: row.body,
+    signerName: row.signer_name,
+    signerRole: row.signer_role,
+    stageKey: row.stage_key ?? defaultCertificateTemplates[kind].stageKey,
+    isDefault: false
+  };
+}
+
+function formatCertificateDate(value: string): string {
+  const [year, month, day] = value.slice(0, 10).split("-");
+  return `${day}/${month}/${year}`;
+}
+
+function fillTemplate(text: string, values: Record<string, string>): string {
+  return text.replace(/\{\{\s*([a-z]+)\s*\}\}/g, (_match, key: string) => values[key] ?? "");
+}
+
+function renderCertificatePage(
+  template: CertificateTemplate,
+  tenantName: string,
+  certificate: CertificateData
+): PdfPage {
+  const { width, height } = A4_LANDSCAPE;
+  const center = width / 2;
+  const body = fillTemplate(template.body, {
+    igreja: tenantName,
+    participante: certificate.participantName,
+    curso: certificate.course,
+    data: formatCertificateDate(certificate.date),
+    assinante: template.signerName ?? ""
+  });
+
+  const texts: PdfText[] = [
+    { x: center, y: height - 90, text: tenantName, size: 16, bold: true, align: "center" },
+    { x: center, y: height - 160, text: template.title, size: 30, bold: true, align: "center" }
+  ];
+  wrapText(body, 14, width - 220).forEach((line, index) => {
+    texts.push({ x: center, y: height - 230 - index * 22, text: line, size: 14, align: "center" });
+  });
+  if (template.signerName) {
+    texts.push({ x: center, y: 112, text: template.signerName, size: 11, bold: true, align: "center" });
+  }
+  if (template.signerRole) {
+    texts.push({ x: center, y: 98, text: template.signerRole, size: 10, align: "center" });
+  }
+
+  const frame = (inset: number, lineWidth: number): PdfLine[] => [
+    { x1: inset, y1: inset, x2: width - inset, y2: inset, width: lineWidth },
+    { x1: width - inset, y1: inset, x2: width - inset, y2: height - inset, width: lineWidth },
+    { x1: width - inset, y1: height - inset, x2: inset, y2: height - inset, width: lineWidth },
+    { x1: inset, y1: height - inset, x2: inset, y2: inset, width: lineWidth }
+  ];
+
+  return {
+    width,
+    height,
+    texts,
+    lines: [
+      ...frame(24, 2),
+      ...frame(32, 0.5),
+      { x1: center - 120, y1: 128, x2: center + 120, y2: 128, width: 0.75 }
+    ]
+  };
+}
+
+export function renderCertificates(
+  template: CertificateTemplate,
+  tenantName: string,
+  certificates: CertificateData[]
+): Buffer {
+  return buildPdf(
+    certificates.map((certificate) => renderCertificatePage(template, tenantName, certificate))
+  );
+}
+
+export function certificateFileName(kind: CertificateKind, participantName: string): string {
+  const slug = participantName
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+  return `certificado-${kind.replace("_", "-")}-${slug || "participante"}.pdf`;
+}
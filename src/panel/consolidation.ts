@@ -0,0 +1,539 @@
+import { PoolClient } from "pg";
+import { z } from "zod";
+import { AppError } from "../common/errors";
+
+export type ConsolidationStage = {
+  id: string;
+  key: string;
+  label: string;
+  position: number;
+  requiresDate: boolean;
+  prerequisiteKey: string | null;
+  isActive: boolean;
+};
+
+export type ConsolidationStageProgress = {
+  key: string;
+  label: string;
+  position: number;
+  requiresDate: boolean;
+  prerequisiteKey: string | null;
+  isActive: boolean;
+  done: boolean;
+  completedOn: string | null;
+};
+
+export type FunnelStage = {
+  key: string;
+  label: string;
+  reached: number;
+  droppedFromPrevious: number | null;
+  skippedPrevious: number | null;
+  conversionFromPrevious: number | null;
+  conversionFromEntry: number | null;
+  medianDaysFromPrevious: number | null;
+};
+
+export type FunnelGroup = {
+  cohort: number;
+  stages: FunnelStage[];
+};
+
+type FunnelRecord = {
+  id: string;
+  knownBy: string;
+  networkId: string | null;
+  networkName: string | null;
+  cellId: string | null;
+  cellName: string | null;
+  progress: Map<string, string | null>;
+};
+
+export const stageProgressSchema = z.array(
+  z.object({
+    key: z.string().trim().min(1).max(60),
+    done: z.boolean(),
+    completedOn: z.string().date().nullable().optional()
+  })
+);
+export type StageProgressInput = z.infer<typeof stageProgressSchema>;
+
+export const stageDefinitionsSchema = z
+  .array(
+    z.object({
+      key: z
+        .string()
+        .trim()
+        .regex(/^[a-z][a-z0-9_]{1,59}$/, "Use letras minusculas, numeros e _ na chave."),
+      label: z.string().trim().min(2).max(120),
+      requiresDate: z.boolean().default(false),
+      prerequisiteKey: z.string().trim().max(60).nullable().default(null),
+      isActive: z.boolean().default(true)
+    })
+  )
+  .min(1)
+  .max(30)
+  .superRefine((stages, context) => {
+    const seen = new Set<string>();
+    stages.forEach((stage, index) => {
+      if (seen.has(stage.key)) {
+        context.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [index, "key"],
+          message: `Chave repetida: ${stage.key}.`
+        });
+      }
+      if (stage.prerequisiteKey && !seen.has(stage.prerequisiteKey)) {
+        context.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [index, "prerequisiteKey"],
+          message: "O pre-requisito precisa ser uma etapa anterior da lista."
+        });
+      }
+      seen.add(stage.key);
+    });
+  });
+export type StageDefinitionsInput = z.infer<typeof stageDefinitionsSchema>;
+
+export async function ensureConsolidationStages(
+  client: PoolClient,
+  tenantId: string
+): Promise<void> {
+  await client.query(
+    `
+      INSERT INTO consolidation_stages (tenant_id, key, label, position)
+      SELECT $1, d.key, d.label, d.position
+        FROM consolidation_stage_defaults d
+       WHERE NOT EXISTS (
+         SELECT 1
+           FROM consolidation_stages s
+          WHERE s.tenant_id = $1
+       )
+      ON CONFLICT (tenant_id, key) DO NOTHING;
+    `,
+    [tenantId]
+  );
+}
+
+export async function loadConsolidationStages(
+  client: PoolClient,
+  tenantId: string,
+  includeInactive = false
+): Promise<ConsolidationStage[]> {
+  const rows = await client.query<{
+    id: string;
+    key: string;
+    label: string;
+    position: number;
+    requires_date: boolean;
+    prerequisite_key: string | null;
+    is_active: boolean;
+  }>(
+    `
+      SELECT
+        s.id,
+        s.key,
+        s.label,
+        s.position,
+        s.requires_date,
+        p.key AS prerequisite_key,
+        s.is_active
+      FROM consolidation_stages s
+      LEFT JOIN consolidation_stages p ON p.id = s.prerequisite_stage_id
+      WHERE s.tenant_id = $1
+        AND ($2::boolean OR s.is_active = TRUE)
+      ORDER BY s.position;
+    `,
+    [tenantId, includeInactive]
+  );
+
+  return rows.rows.map((row) => ({
+    id: row.id,
+    key: row.key,
+    label: row.label,
+    position: row.position,
+    requiresDate: row.requires_date,
+    prerequisiteKey: row.prerequisite_key,
+    isActive: row.is_active
+  }));
+}
+
+export async function loadConsolidationProgress(
+  client: PoolClient,
+  tenantId: string,
+  consolidationId: string
+): Promise<ConsolidationStageProgress[]> {
+  const stages = await loadConsolidationStages(client, tenantId, true);
+  const rows = await client.query<{ stage_id: string; done: boolean; completed_on: string | null }>(
+    `
+      SELECT stage_id, done, completed_on::text
+        FROM consolidation_record_stages
+       WHERE consolidation_id = $1;
+    `,
+    [consolidationId]
+  );
+  const progress = new Map(rows.rows.map((row) => [row.stage_id, row]));
+
+  return stages
+    .filter((stage) => stage.isActive || progress.has(stage.id))
+    .map((stage) => ({
+      key: stage.key,
+      label: stage.label,
+      position: stage.position,
+      requiresDate: stage.requiresDate,
+      prerequisiteKey: stage.prerequisiteKey,
+      isActive: stage.isActive,
+      done: progress.get(stage.id)?.done ?? false,
+      completedOn: progress.get(stage.id)?.completed_on ?? null
+    }));
+}
+
+export async function saveConsolidationProgress(
+  client: PoolClient,
+  input: {
+    tenantId: string;
+    consolidationId: string;
+    stages: StageProgressInput;
+    userId: string;
+  }
+): Promise<void> {
+  const definitions = await loadConsolidationStages(client, input.tenantId, true);
+  const current = await loadConsolidationProgress(client, input.tenantId, input.consolidationId);
+  const byKey = new Map(definitions.map((stage) => [stage.key, stage]));
+  const previous = new Map(current.map((stage) => [stage.key, stage]));
+  const merged = new Map(current.map((stage) => [stage.key, stage.done]));
+
+  for (const item of input.stages) {
+    const stage = byKey.get(item.key);
+    if (!stage) {
+      throw new AppError(`Etapa de consolidacao desconhecida: ${item.key}.`, 400);
+    }
+    const before = previous.get(item.key);
+    const changed =
+      (before?.done ?? false) !== item.done ||
+      (before?.completedOn ?? null) !== (item.completedOn ?? null);
+    if (!stage.isActive && changed) {
+      throw new AppError(`A etapa "${stage.label}" esta desativada.`, 400);
+    }
+    if (item.done && stage.requiresDate && !item.completedOn) {
+      throw new AppError(`Informe a data da etapa "${stage.label}".`, 400);
+    }
+    merged.set(item.key, item.done);
+  }
+
+  const touched = new Set(input.stages.map((item) => item.key));
+  for (const stage of definitions) {
+    if (
+      stage.prerequisiteKey &&
+      (touched.has(stage.key) || touched.has(stage.prerequisiteKey)) &&
+      merged.get(stage.key) &&
+      !merged.get(stage.prerequisiteKey)
+    ) {
+      throw new AppError(
+        `A etapa "${stage.label}" depende de "${byKey.get(stage.prerequisiteKey)?.label}".`,
+        400
+      );
+    }
+  }
+
+  for (const item of input.stages) {
+    const stage = byKey.get(item.key)!;
+    if (!item.done && !item.completedOn) {
+      await client.query(
+        "DELETE FROM consolidation_record_stages WHERE consolidation_id = $1 AND stage_id = $2;",
+        [input.consolidationId, stage.id]
+      );
+      continue;
+    }
+    await client.query(
+      `
+        INSERT INTO consolidation_record_stages (
+          consolidation_id,
+          stage_id,
+          done,
+          completed_on,
+          updated_by_user_id
+        )
+        VALUES ($1, $2, $3, $4, $5)
+        ON CONFLICT (consolidation_id, stage_id)
+        DO UPDATE SET
+          done = EXCLUDED.done,
+          completed_on = EXCLUDED.completed_on,
+          updated_by_user_id = EXCLUDED.updated_by_user_id,
+          updated_at = NOW();
+      `,
+      [input.consolidationId, stage.id, item.done, item.completedOn ?? null, input.userId]
+    );
+  }
+}
+
+export async function replaceConsolidationStages(
+  client: PoolClient,
+  tenantId: string,
+  stages: StageDefinitionsInput
+): Promise<void> {
+  const keys = stages.map((stage) => stage.key);
+  const removed = await client.query<{ label: string }>(
+    `
+      SELECT s.label
+        FROM consolidation_stages s
+       WHERE s.tenant_id = $1
+         AND NOT (s.key = ANY($2::text[]))
+         AND EXISTS (
+           SELECT 1
+             FROM consolidation_record_stages rs
+            WHERE rs.stage_id = s.id
+         )
+       ORDER BY s.position;
+    `,
+    [tenantId, keys]
+  );
+  if (removed.rowCount) {
+    throw new AppError(
+      `Etapas com progresso registrado nao podem ser removidas, apenas desativadas: ${removed.rows
+        .map((row) => row.label)
+        .join(", ")}.`,
+      409
+    );
+  }
+
+  await client.query(
+    "UPDATE consolidation_stages SET prerequisite_stage_id = NULL WHERE tenant_id = $1;",
+    [tenantId]
+  );
+  await client.query(
+    "DELETE FROM consolidation_stages WHERE tenant_id = $1 AND NOT (key = ANY($2::text[]));",
+    [tenantId, keys]
+  );
+
+  for (const [index, stage] of stages.entries()) {
+    await client.query(
+      `
+        INSERT INTO consolidation_stages (
+          tenant_id,
+          key,
+          label,
+          position,
+          requires_date,
+          is_active
+        )
+        VALUES ($1, $2, $3, $4, $5, $6)
+        ON CONFLICT (tenant_id, key)
+        DO UPDATE SET
+          label = EXCLUDED.label,
+          position = EXCLUDED.position,
+          requires_date = EXCLUDED.requires_date,
+          is_active = EXCLUDED.is_active,
+          updated_at = NOW();
+      `,
+      [tenantId, stage.key, stage.label, index + 1, stage.requiresDate, stage.isActive]
+    );
+  }
+
+  for (const stage of stages.filter((item) => item.prerequisiteKey)) {
+    await client.query(
+      `
+        UPDATE consolidation_stages s
+           SET prerequisite_stage_id = p.id
+          FROM consolidation_stages p
+         WHERE s.tenant_id = $1
+           AND s.key = $2
+           AND p.tenant_id = $1
+           AND p.key = $3;
+      `,
+      [tenantId, stage.key, stage.prerequisiteKey]
+    );
+  }
+}
+
+function toPercent(value: number, base: number): number | null {
+  return base > 0 ? Math.round((value * 1000) / base) / 10 : null;
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) {
+    return null;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / 86400000);
+}
+
+// Each stage counts every record that reached it, even when an earlier stage
+// was skipped; the drop-off against the previous stage is reported apart.
+function buildFunnel(stages: ConsolidationStage[], records: FunnelRecord[]): FunnelGroup {
+  let previousReached = records;
+  const funnel = stages.map((stage, index) => {
+    const reached = records.filter((record) => record.progress.has(stage.id));
+    const previous = index > 0 ? stages[index - 1] : null;
+    const continued = previous
+      ? previousReached.filter((record) => record.progress.has(stage.id))
+      : reached;
+    const intervals = previous
+      ? continued.flatMap((record) => {
+          const start = record.progress.get(previous.id);
+          const end = record.progress.get(stage.id);
+          return start && end ? [daysBetween(start, end)] : [];
+        })
+      : [];
+    const result = {
+      key: stage.key,
+      label: stage.label,
+      reached: reached.length,
+      droppedFromPrevious: previous ? previousReached.length - continued.length : null,
+      skippedPrevious: previous ? reached.length - continued.length : null,
+      conversionFromPrevious: toPercent(continued.length, previousReached.length),
+      conversionFromEntry: toPercent(reached.length, records.length),
+      medianDaysFromPrevious: median(intervals)
+    };
+    previousReached = reached;
+    return result;
+  });
+
+  return { cohort: records.length, stages: funnel };
+}
+
+function groupFunnel<T extends Record<string, unknown>>(
+  stages: ConsolidationStage[],
+  records: FunnelRecord[],
+  keyOf: (record: FunnelRecord) => string,
+  describe: (record: FunnelRecord) => T
+): (T & FunnelGroup)[] {
+  const groups = new Map<string, FunnelRecord[]>();
+  for (const record of records) {
+    const key = keyOf(record);
+    if (!groups.has(key)) {
+      groups.set(key, []);
+    }
+    groups.get(key)!.push(record);
+  }
+
+  return Array.from(groups.values())
+    .map((items) => ({ ...describe(items[0]), ...buildFunnel(stages, items) }))
+    .sort((a, b) => b.cohort - a.cohort);
+}
+
+export async function loadConsolidationFunnel(
+  client: PoolClient,
+  input: {
+    tenantId: string;
+    visibleCellIds: string[] | null;
+    from: string;
+    to: string;
+  }
+) {
+  const stages = await loadConsolidationStages(client, input.tenantId);
+  const rows = await client.query<{
+    consolidation_id: string;
+    known_by: string;
+    network_id: string | null;
+    network_name: string | null;
+    cell_id: string | null;
+    cell_name: string | null;
+    stage_id: string | null;
+    completed_on: string | null;
+  }>(
+    `
+      WITH cohort AS (
+        SELECT
+          cr.id,
+          cr.known_by,
+          link.cell_id,
+          COALESCE(entry.completed_on, cr.created_at::date) AS entry_on
+        FROM consolidation_records cr
+        LEFT JOIN LATERAL (
+          SELECT l.cell_id
+            FROM participant_cell_links l
+           WHERE l.participant_id = cr.participant_id
+             AND l.tenant_id = cr.tenant_id
+             AND l.is_active = TRUE
+             AND ($2::uuid[] IS NULL OR l.cell_id = ANY($2::uuid[]))
+           ORDER BY l.created_at DESC
+           LIMIT 1
+        ) link ON TRUE
+        LEFT JOIN consolidation_record_stages entry
+          ON entry.consolidation_id = cr.id
+         AND entry.stage_id = $5
+         AND entry.done = TRUE
+        WHERE cr.tenant_id = $1
+          AND ($2::uuid[] IS NULL OR link.cell_id IS NOT NULL)
+      )
+      SELECT
+        co.id AS consolidation_id,
+        co.known_by,
+        n.id AS network_id,
+        n.name AS network_name,
+        c.id AS cell_id,
+        c.name AS cell_name,
+        rs.stage_id,
+        rs.completed_on::text
+      FROM cohort co
+      LEFT JOIN cells c ON c.id = co.cell_id
+      LEFT JOIN church_networks n ON n.id = c.network_id
+      LEFT JOIN consolidation_record_stages rs
+        ON rs.consolidation_id = co.id
+       AND rs.done = TRUE
+       AND rs.stage_id = ANY($6::uuid[])
+      WHERE co.entry_on BETWEEN $3::date AND $4::date;
+    `,
+    [
+      input.tenantId,
+      input.visibleCellIds,
+      input.from,
+      input.to,
+      stages[0]?.id ?? null,
+      stages.map((stage) => stage.id)
+    ]
+  );
+
+  const records = new Map<string, FunnelRecord>();
+  for (const row of rows.rows) {
+    if (!records.has(row.consolidation_id)) {
+      records.set(row.consolidation_id, {
+        id: row.consolidation_id,
+        knownBy: row.known_by,
+        networkId: row.network_id,
+        networkName: row.network_name,
+        cellId: row.cell_id,
+        cellName: row.cell_name,
+        progress: new Map()
+      });
+    }
+    if (row.stage_id) {
+      records.get(row.consolidation_id)!.progress.set(row.stage_id, row.completed_on);
+    }
+  }
+  const cohort = Array.from(records.values());
+
+  return {
+    period: { from: input.from, to: input.to },
+    stages: stages.map((stage) => ({ key: stage.key, label: stage.label })),
+    overall: buildFunnel(stages, cohort),
+    bySource: groupFunnel(
+      stages,
+      cohort,
+      (record) => record.knownBy,
+      (record) => ({ knownBy: record.knownBy })
+    ),
+    byNetwork: groupFunnel(
+      stages,
+      cohort,
+      (record) => record.networkId ?? "",
+      (record) => ({ networkId: record.networkId, networkName: record.networkName })
+    ),
+    byCell: groupFunnel(
+      stages,
+      cohort,
+      (record) => record.cellId ?? "",
+      (record) => ({
+        cellId: record.cellId,
+        cellName: record.cellName,
+        networkName: record.networkName
+      })
+    )
+  };
+}
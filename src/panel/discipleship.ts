@@ -0,0 +1,311 @@
+import { PoolClient } from "pg";
+import { AppError } from "../common/errors";
+
+export const discipleshipStatuses = ["active", "ended", "all"] as const;
+
+export type DiscipleshipRow = {
+  id: string;
+  disciple_participant_id: string;
+  disciple_name: string;
+  disciple_active: boolean;
+  cell_id: string | null;
+  cell_name: string | null;
+  discipler_participant_id: string | null;
+  discipler_user_id: string | null;
+  discipler_name: string;
+  started_on: string;
+  ended_on: string | null;
+  end_reason: string | null;
+  created_at: string;
+  meetings_count: number;
+  last_met_on: string | null;
+};
+
+export type DiscipleshipLeader = {
+  kind: "user" | "participant";
+  id: string;
+};
+
+export type DiscipleshipTreeNode = {
+  discipleshipId: string;
+  participantId: string;
+  name: string;
+  cellId: string | null;
+  cellName: string | null;
+  startedOn: string;
+  meetingsCount: number;
+  lastMeetingOn: string | null;
+  disciples: DiscipleshipTreeNode[];
+};
+
+export type DiscipleshipTreeRoot = {
+  kind: DiscipleshipLeader["kind"];
+  id: string;
+  name: string;
+  disciples: DiscipleshipTreeNode[];
+};
+
+export const discipleshipColumns = `
+  d.id,
+  d.disciple_participant_id,
+  dp.full_name AS disciple_name,
+  dp.is_active AS disciple_active,
+  link.cell_id,
+  c.name AS cell_name,
+  d.discipler_participant_id,
+  d.discipler_user_id,
+  COALESCE(rp.full_name, ru.full_name) AS discipler_name,
+  d.started_on::text,
+  d.ended_on::text,
+  d.end_reason,
+  d.created_at::text,
+  meetings.total AS meetings_count,
+  meetings.last_met_on
+`;
+
+export const discipleshipJoins = `
+  JOIN participants dp ON dp.id = d.disciple_participant_id
+  LEFT JOIN participants rp ON rp.id = d.discipler_participant_id
+  LEFT JOIN users ru ON ru.id = d.discipler_user_id
+  LEFT JOIN LATERAL (
+    SELECT l.cell_id
+      FROM participant_cell_links l
+     WHERE l.participant_id = dp.id
+     ORDER BY l.is_active DESC, l.updated_at DESC
+     LIMIT 1
+  ) link ON TRUE
+  LEFT JOIN cells c ON c.id = link.cell_id
+  LEFT JOIN LATERAL (
+    SELECT COUNT(*)::int AS total, MAX(m.met_on)::text AS last_met_on
+      FROM discipleship_meetings m
+     WHERE m.discipleship_id = d.id
+  ) meetings ON TRUE
+`;
+
+export function toDiscipleship(row: DiscipleshipRow) {
+  return {
+    id: row.id,
+    discipleId: row.disciple_participant_id,
+    discipleName: row.disciple_name,
+    discipleActive: row.disciple_active,
+    cellId: row.cell_id,
+    cellName: row.cell_name,
+    discipler: {
+      kind: row.discipler_user_id ? "user" : "participant",
+      id: row.discipler_user_id ?? row.discipler_participant_id,
+      name: row.discipler_name
+    },
+    startedOn: row.started_on,
+    endedOn: row.ended_on,
+    endReason: row.end_reason,
+    createdAt: row.created_at,
+    meetingsCount: row.meetings_count,
+    lastMeetingOn: row.last_met_on
+  };
+}
+
+export async function findDiscipleship(
+  client: PoolClient,
+  tenantId: string,
+  discipleshipId: string,
+  visibleCellIds: string[] | null,
+  forUpdate = false
+): Promise<DiscipleshipRow | null> {
+  const result = await client.query<DiscipleshipRow>(
+    `
+      SELECT ${discipleshipColumns}
+        FROM discipleships d
+        ${discipleshipJoins}
+       WHERE d.tenant_id = $1
+         AND d.id = $2
+         AND ($3::uuid[] IS NULL OR link.cell_id = ANY($3::uuid[]))
+       LIMIT 1
+       ${forUpdate ? "FOR UPDATE OF d" : ""};
+    `,
+    [tenantId, discipleshipId, visibleCellIds]
+  );
+
+  return result.rows[0] ?? null;
+}
+
+export async function assertNoDiscipleshipCycle(
+  client: PoolClient,
+  tenantId: string,
+  discipleId: string,
+  disciplerParticipantId: string
+): Promise<void> {
+  const result = await client.query(
+    `
+      WITH RECURSIVE chain AS (
+        SELECT $2::uuid AS participant_id, 0 AS depth
+        UNION
+        SELECT d.discipler_participant_id, chain.depth + 1
+          FROM discipleships d
+          JOIN chain ON chain.participant_id = d.disciple_participant_id
+         WHERE d.tenant_id = $1
+           AND d.ended_on IS NULL
+           AND d.discipler_participant_id IS NOT NULL
+           AND chain.depth < 100
+      )
+      SELECT 1
+        FROM chain
+       WHERE participant_id = $3
+       LIMIT 1;
+    `,
+    [tenantId, disciplerParticipantId, discipleId]
+  );
+
+  if (result.rowCount) {
+    throw new AppError("O discipulador ja e discipulo desta pessoa na mesma linha.", 409);
+  }
+}
+
+export async function listWithoutDiscipler(
+  client: PoolClient,
+  filters: {
+    tenantId: string;
+    visibleCellIds: string[] | null;
+    cellId?: string | null;
+    type?: string | null;
+    limit: number;
+    offset: number;
+  }
+) {
+  const rows = await client.query<{
+    id: string;
+    full_name: string;
+    cell_id: string;
+    cell_name: string;
+    type: string;
+    joined_at: string;
+    total: string;
+  }>(
+    `
+      SELECT
+        p.id,
+        p.full_name,
+        link.cell_id,
+        c.name AS cell_name,
+        link.type,
+        link.created_at::text AS joined_at,
+        COUNT(*) OVER()::text AS total
+      FROM participants p
+      JOIN LATERAL (
+        SELECT l.cell_id, l.type::text AS type, l.created_at
+          FROM participant_cell_links l
+         WHERE l.participant_id = p.id
+           AND l.is_active = TRUE
+         ORDER BY l.updated_at DESC
+         LIMIT 1
+      ) link ON TRUE
+      JOIN cells c ON c.id = link.cell_id
+      WHERE p.tenant_id = $1
+        AND p.is_active = TRUE
+        AND ($2::uuid[] IS NULL OR link.cell_id = ANY($2::uuid[]))
+        AND ($3::uuid IS NULL OR link.cell_id = $3)
+        AND (($4::text IS NULL AND link.type <> 'visitor') OR link.type = $4)
+        AND NOT EXISTS (
+          SELECT 1
+            FROM discipleships d
+           WHERE d.tenant_id = p.tenant_id
+             AND d.disciple_participant_id = p.id
+             AND d.ended_on IS NULL
+        )
+      ORDER BY c.name, p.full_name
+      LIMIT $5
+     OFFSET $6;
+    `,
+    [
+      filters.tenantId,
+      filters.visibleCellIds,
+      filters.cellId ?? null,
+      filters.type ?? null,
+      filters.limit,
+      filters.offset
+    ]
+  );
+
+  return {
+    total: Number(rows.rows[0]?.total ?? "0"),
+    rows: rows.rows.map((row) => ({
+      participantId: row.id,
+      name: row.full_name,
+      cellId: row.cell_id,
+      cellName: row.cell_name,
+      type: row.type,
+      joinedAt: row.joined_at
+    }))
+  };
+}
+
+function leaderKey(kind: DiscipleshipLeader["kind"], id: string): string {
+  return `${kind}:${id}`;
+}
+
+export async function buildDiscipleshipTree(
+  client: PoolClient,
+  tenantId: string,
+  visibleCellIds: string[] | null,
+  leader?: DiscipleshipLeader
+): Promise<DiscipleshipTreeRoot[]> {
+  const result = await client.query<DiscipleshipRow>(
+    `
+      SELECT ${discipleshipColumns}
+        FROM discipleships d
+        ${discipleshipJoins}
+       WHERE d.tenant_id = $1
+         AND d.ended_on IS NULL
+         AND dp.is_active = TRUE
+         AND ($2::uuid[] IS NULL OR link.cell_id = ANY($2::uuid[]))
+       ORDER BY dp.full_name;
+    `,
+    [tenantId, visibleCellIds]
+  );
+
+  const childrenByLeader = new Map<string, DiscipleshipRow[]>();
+  for (const row of result.rows) {
+    const key = row.discipler_user_id
+      ? leaderKey("user", row.discipler_user_id)
+      : leaderKey("participant", row.discipler_participant_id!);
+    childrenByLeader.set(key, [...(childrenByLeader.get(key) ?? []), row]);
+  }
+
+  const buildNodes = (key: string, visited: Set<string>): DiscipleshipTreeNode[] =>
+    (childrenByLeader.get(key) ?? [])
+      .filter((row) => !visited.has(row.disciple_participant_id))
+      .map((row) => ({
+        discipleshipId: row.id,
+        participantId: row.disciple_participant_id,
+        name: row.disciple_name,
+        cellId: row.cell_id,
+        cellName: row.cell_name,
+        startedOn: row.started_on,
+        meetingsCount: row.meetings_count,
+        lastMeetingOn: row.last_met_on,
+        disciples: buildNodes(
+          leaderKey("participant", row.disciple_participant_id),
+          new Set([...visited, row.disciple_participant_id])
+        )
+      }));
+
+  const discipleIds = new Set(result.rows.map((row) => row.disciple_participant_id));
+  const roots = new Map<string, DiscipleshipTreeRoot>();
+  for (const row of result.rows) {
+    const kind = row.discipler_user_id ? "user" : "participant";
+    const id = row.discipler_user_id ?? row.discipler_participant_id!;
+    const key = leaderKey(kind, id);
+    const isTopLevel = kind === "user" || !discipleIds.has(id);
+    const selected = leader ? leaderKey(leader.kind, leader.id) === key : isTopLevel;
+    if (!selected || roots.has(key)) {
+      continue;
+    }
+    roots.set(key, {
+      kind,
+      id,
+      name: row.discipler_name,
+      disciples: buildNodes(key, new Set(kind === "participant" ? [id] : []))
+    });
+  }
+
+  return [...roots.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
@@ -0,0 +1,535 @@
+import { PoolClient } from "pg";
+import { AppError } from "../common/errors";
+
+export type DuplicateCandidate = {
+  participantId: string;
+  participantName: string;
+  candidateId: string;
+  candidateName: string;
+  nameScore: number;
+  sameEmail: boolean;
+  samePhone: boolean;
+};
+
+export type DuplicateSearch = {
+  tenantId: string;
+  visibleCellIds: string[] | null;
+  participantId?: string | null;
+  minScore: number;
+  limit: number;
+  offset: number;
+};
+
+export type MergeSummary = {
+  cellLinks: number;
+  sharedCells: number;
+  statusHistory: number;
+  consolidations: number;
+  transfers: number;
+  transferRequests: number;
+  meetingAttendance: number;
+  schoolEnrollments: number;
+  sharedSchoolEnrollments: number;
+  careAlerts: number;
+  discipleships: number;
+  filledFields: string[];
+};
+
+type ParticipantReference = {
+  key:
+    | "statusHistory"
+    | "consolidations"
+    | "transfers"
+    | "transferRequests"
+    | "meetingAttendance";
+  table: string;
+  conflictColumn: string | null;
+};
+
+const participantReferences: ParticipantReference[] = [
+  { key: "statusHistory", table: "participant_status_history", conflictColumn: null },
+  { key: "consolidations", table: "consolidation_records", conflictColumn: null },
+  { key: "transfers", table: "transfer_log_participants", conflictColumn: "transfer_log_id" },
+  {
+    key: "transferRequests",
+    table: "transfer_request_participants",
+    conflictColumn: "request_id"
+  },
+  { key: "meetingAttendance", table: "cell_meeting_attendees", conflictColumn: "report_id" }
+];
+
+const mergeableFields = [
+  { column: "email", label: "email" },
+  { column: "phone_home", label: "phoneHome" },
+  { column: "phone_mobile", label: "phoneMobile" },
+  { column: "birth_date", label: "birthDate" }
+];
+
+const candidateParticipants = `
+  SELECT
+    p.id,
+    p.full_name,
+    LOWER(p.full_name) AS name_key,
+    LOWER(p.email) AS email_key,
+    ARRAY_REMOVE(
+      ARRAY[
+        NULLIF(REGEXP_REPLACE(COALESCE(p.phone_mobile, ''), '\\D', '', 'g'), ''),
+        NULLIF(REGEXP_REPLACE(COALESCE(p.phone_home, ''), '\\D', '', 'g'), '')
+      ],
+      NULL
+    ) AS phones
+  FROM participants p
+  LEFT JOIN LATERAL (
+    SELECT l.cell_id
+      FROM participant_cell_links l
+     WHERE l.participant_id = p.id
+     ORDER BY l.is_active DESC, l.updated_at DESC
+     LIMIT 1
+  ) link ON TRUE
+  WHERE p.tenant_id = $1
+    AND p.is_active = TRUE
+    AND p.merged_into_participant_id IS NULL
+    AND ($2::uuid[] IS NULL OR link.cell_id = ANY($2::uuid[]))
+`;
+
+export async function findDuplicateCandidates(
+  client: PoolClient,
+  search: DuplicateSearch
+): Promise<{ total: number; rows: DuplicateCandidate[] }> {
+  // Transaction-local so the threshold does not leak to other requests on the
+  // pooled connection; callers run this inside BEGIN/COMMIT.
+  await client.query("SELECT set_config('pg_trgm.similarity_threshold', $1::text, TRUE);", [
+    search.minScore
+  ]);
+  const result = await client.query<{
+    participant_id: string;
+    participant_name: string;
+    candidate_id: string;
+    candidate_name: string;
+    name_score: number;
+    same_email: boolean;
+    same_phone: boolean;
+    total: string;
+  }>(
+    `
+      WITH candidates AS (${candidateParticipants}),
+      phone_keys AS (
+        SELECT c.id, candidate_phone.phone
+          FROM candidates c
+          CROSS JOIN UNNEST(c.phones) AS candidate_phone(phone)
+      ),
+      matches AS (
+        SELECT a.id AS participant_id, p.id AS candidate_id
+          FROM candidates a
+          JOIN participants p
+            ON p.tenant_id = $1
+           AND LOWER(p.full_name) % a.name_key
+         WHERE $3::uuid IS NULL OR a.id = $3
+        UNION
+        SELECT a.id, b.id
+          FROM candidates a
+          JOIN candidates b ON b.email_key = a.email_key
+         WHERE $3::uuid IS NULL OR a.id = $3
+        UNION
+        SELECT a.id, b.id
+          FROM phone_keys a
+          JOIN phone_keys b ON b.phone = a.phone
+         WHERE $3::uuid IS NULL OR a.id = $3
+      ),
+      pairs AS (
+        SELECT
+          a.id AS participant_id,
+          a.full_name AS participant_name,
+          b.id AS candidate_id,
+          b.full_name AS candidate_name,
+          ROUND(SIMILARITY(a.name_key, b.name_key)::numeric, 2)::float AS name_score,
+          COALESCE(a.email_key = b.email_key, FALSE) AS same_email,
+          a.phones && b.phones AS same_phone
+        FROM matches m
+        JOIN candidates a ON a.id = m.participant_id
+        JOIN candidates b ON b.id = m.candidate_id
+       WHERE b.id <> a.id
+         AND ($3::uuid IS NOT NULL OR a.id < b.id)
+      )
+      SELECT *, COUNT(*) OVER()::text AS total
+        FROM pairs
+       WHERE name_score >= $4
+          OR same_email
+          OR same_phone
+       ORDER BY (same_email OR same_phone) DESC, name_score DESC, participant_name
+       LIMIT $5
+      OFFSET $6;
+    `,
+    [
+      search.tenantId,
+      search.visibleCellIds,
+      search.participantId ?? null,
+      search.minScore,
+      search.limit,
+      search.offset
+    ]
+  );
+
+  return {
+    total: Number(result.rows[0]?.total ?? "0"),
+    rows: result.rows.map((row) => ({
+      participantId: row.participant_id,
+      participantName: row.participant_name,
+      candidateId: row.candidate_id,
+      candidateName: row.candidate_name,
+      nameScore: row.name_score,
+      sameEmail: row.same_email,
+      samePhone: row.same_phone
+    }))
+  };
+}
+
+export async function previewMerge(
+  client: PoolClient,
+  tenantId: string,
+  survivorId: string,
+  duplicateId: string
+): Promise<MergeSummary> {
+  const links = await client.query<{ cell_links: number; shared_cells: number }>(
+    `
+      SELECT
+        COUNT(*)::int AS cell_links,
+        COUNT(s.cell_id)::int AS shared_cells
+      FROM participant_cell_links d
+      LEFT JOIN participant_cell_links s
+        ON s.participant_id = $3
+       AND s.cell_id = d.cell_id
+      WHERE d.tenant_id = $1
+        AND d.participant_id = $2;
+    `,
+    [tenantId, duplicateId, survivorId]
+  );
+
+  const summary: MergeSummary = {
+    cellLinks: links.rows[0].cell_links,
+    sharedCells: links.rows[0].shared_cells,
+    statusHistory: 0,
+    consolidations: 0,
+    transfers: 0,
+    transferRequests: 0,
+    meetingAttendance: 0,
+    schoolEnrollments: 0,
+    sharedSchoolEnrollments: 0,
+    careAlerts: 0,
+    discipleships: 0,
+    filledFields: []
+  };
+
+  for (const reference of participantReferences) {
+    const count = await client.query<{ total: number }>(
+      `SELECT COUNT(*)::int AS total FROM ${reference.table} WHERE participant_id = $1;`,
+      [duplicateId]
+    );
+    summary[reference.key] = count.rows[0].total;
+  }
+
+  const enrollments = await client.query<{ moved: number; shared: number }>(
+    `
+      SELECT
+        COUNT(*) FILTER (WHERE s.id IS NULL)::int AS moved,
+        COUNT(s.id)::int AS shared
+      FROM school_enrollments d
+      LEFT JOIN school_enrollments s
+        ON s.participant_id = $3
+       AND s.class_id = d.class_id
+      WHERE d.tenant_id = $1
+        AND d.participant_id = $2;
+    `,
+    [tenantId, duplicateId, survivorId]
+  );
+  summary.schoolEnrollments = enrollments.rows[0].moved;
+  summary.sharedSchoolEnrollments = enrollments.rows[0].shared;
+
+  const alerts = await client.query<{ total: number }>(
+    "SELECT COUNT(*)::int AS total FROM care_alerts WHERE tenant_id = $1 AND participant_id = $2;",
+    [tenantId, duplicateId]
+  );
+  summary.careAlerts = alerts.rows[0].total;
+
+  const discipleships = await client.query<{ total: number }>(
+    `
+      SELECT COUNT(*)::int AS total
+        FROM discipleships
+       WHERE tenant_id = $1
+         AND (disciple_participant_id = $2 OR discipler_participant_id = $2);
+    `,
+    [tenantId, duplicateId]
+  );
+  summary.discipleships = discipleships.rows[0].total;
+
+  const fields = await client.query<Record<string, boolean>>(
+    `
+      SELECT
+        s.email IS NULL AND d.email IS NOT NULL AS email,
+        s.phone_home IS NULL AND d.phone_home IS NOT NULL AS phone_home,
+        s.phone_mobile IS NULL AND d.phone_mobile IS NOT NULL AS phone_mobile,
+        s.birth_date IS NULL AND d.birth_date IS NOT NULL AS birth_date
+      FROM participants s
+      JOIN participants d ON d.id = $3 AND d.tenant_id = s.tenant_id
+      WHERE s.tenant_id = $1
+        AND s.id = $2;
+    `,
+    [tenantId, survivorId, duplicateId]
+  );
+  summary.filledFields = mergeableFields
+    .filter((field) => fields.rows[0]?.[field.column] === true)
+    .map((field) => field.label);
+
+  return summary;
+}
+
+// Enrollments in a class both records attend are folded into the survivor's
+// enrollment before the duplicate's row (and its cascading attendance and
+// grades) is removed. The survivor's own attendance and grades win.
+async function mergeSchoolEnrollments(
+  client: PoolClient,
+  tenantId: string,
+  survivorId: string,
+  duplicateId: string
+): Promise<void> {
+  const sharedEnrollments = `
+    SELECT d.id AS duplicate_enrollment_id, s.id AS survivor_enrollment_id
+      FROM school_enrollments d
+      JOIN school_enrollments s
+        ON s.participant_id = $2
+       AND s.class_id = d.class_id
+     WHERE d.tenant_id = $1
+       AND d.participant_id = $3
+  `;
+
+  await client.query(
+    `
+      INSERT INTO school_lesson_attendance (lesson_id, enrollment_id, present)
+      SELECT a.lesson_id, shared.survivor_enrollment_id, a.present
+        FROM (${sharedEnrollments}) shared
+        JOIN school_lesson_attendance a ON a.enrollment_id = shared.duplicate_enrollment_id
+      ON CONFLICT (lesson_id, enrollment_id) DO NOTHING;
+    `,
+    [tenantId, survivorId, duplicateId]
+  );
+  await client.query(
+    `
+      INSERT INTO school_grades (enrollment_id, module_id, grade, graded_by_user_id, updated_at)
+      SELECT shared.survivor_enrollment_id, g.module_id, g.grade, g.graded_by_user_id, g.updated_at
+        FROM (${sharedEnrollments}) shared
+        JOIN school_grades g ON g.enrollment_id = shared.duplicate_enrollment_id
+      ON CONFLICT (enrollment_id, module_id) DO NOTHING;
+    `,
+    [tenantId, survivorId, duplicateId]
+  );
+  await client.query(
+    `
+      UPDATE school_enrollments s
+         SET status = d.status,
+             final_grade = d.final_grade,
+             attendance_percent = d.attendance_percent,
+             completed_at = d.completed_at
+        FROM school_enrollments d
+       WHERE s.tenant_id = $1
+         AND s.participant_id = $2
+         AND d.participant_id = $3
+         AND d.class_id = s.class_id
+         AND s.completed_at IS NULL
+         AND d.completed_at IS NOT NULL;
+    `,
+    [tenantId, survivorId, duplicateId]
+  );
+  await client.query(
+    `
+      DELETE FROM school_enrollments d
+       USING (${sharedEnrollments}) shared
+       WHERE d.id = shared.duplicate_enrollment_id;
+    `,
+    [tenantId, survivorId, duplicateId]
+  );
+  await client.query(
+    "UPDATE school_enrollments SET participant_id = $2 WHERE tenant_id = $1 AND participant_id = $3;",
+    [tenantId, survivorId, duplicateId]
+  );
+}
+
+export async function mergeParticipants(
+  client: PoolClient,
+  tenantId: string,
+  survivorId: string,
+  duplicateId: string,
+  userId: string
+): Promise<MergeSummary> {
+  if (survivorId === duplicateId) {
+    throw new AppError("Escolha dois cadastros diferentes para mesclar.", 400);
+  }
+
+  const summary = await previewMerge(client, tenantId, survivorId, duplicateId);
+
+  await client.query(
+    `
+      UPDATE participant_cell_links s
+         SET is_active = s.is_active OR d.is_active,
+             type = CASE WHEN s.is_active OR NOT d.is_active THEN s.type ELSE d.type END,
+             updated_at = NOW()
+        FROM participant_cell_links d
+       WHERE s.participant_id = $2
+         AND d.participant_id = $3
+         AND d.cell_id = s.cell_id
+         AND s.tenant_id = $1;
+    `,
+    [tenantId, survivorId, duplicateId]
+  );
+  await client.query(
+    `
+      DELETE FROM participant_cell_links d
+       WHERE d.tenant_id = $1
+         AND d.participant_id = $3
+         AND EXISTS (
+           SELECT 1
+             FROM participant_cell_links s
+            WHERE s.participant_id = $2
+              AND s.cell_id = d.cell_id
+         );
+    `,
+    [tenantId, survivorId, duplicateId]
+  );
+  await client.query(
+    `
+      UPDATE participant_cell_links
+         SET participant_id = $2,
+             updated_at = NOW()
+       WHERE tenant_id = $1
+         AND participant_id = $3;
+    `,
+    [tenantId, survivorId, duplicateId]
+  );
+
+  for (const reference of participantReferences) {
+    if (reference.conflictColumn) {
+      await client.query(
+        `
+          DELETE FROM ${reference.table} d
+           WHERE d.participant_id = $2
+             AND EXISTS (
+               SELECT 1
+                 FROM ${reference.table} s
+                WHERE s.participant_id = $1
+                  AND s.${reference.conflictColumn} = d.${reference.conflictColumn}
+             );
+        `,
+        [survivorId, duplicateId]
+      );
+    }
+    await client.query(
+      `UPDATE ${reference.table} SET participant_id = $1 WHERE participant_id = $2;`,
+      [survivorId, duplicateId]
+    );
+  }
+
+  await mergeSchoolEnrollments(client, tenantId, survivorId, duplicateId);
+
+  await client.query(
+    `
+      UPDATE care_alerts d
+         SET status = 'closed',
+             closed_by_user_id = $4,
+             closed_at = NOW(),
+             resolution = 'Cadastro mesclado com alerta equivalente em aberto.'
+       WHERE d.tenant_id = $1
+         AND d.participant_id = $3
+         AND d.status <> 'closed'
+         AND EXISTS (
+           SELECT 1
+             FROM care_alerts s
+            WHERE s.tenant_id = $1
+              AND s.participant_id = $2
+              AND s.kind = d.kind
+              AND s.status <> 'closed'
+         );
+    `,
+    [tenantId, survivorId, duplicateId, userId]
+  );
+  await client.query(
+    "UPDATE care_alerts SET participant_id = $2 WHERE tenant_id = $1 AND participant_id = $3;",
+    [tenantId, survivorId, duplicateId]
+  );
+
+  await client.query(
+    `
+      UPDATE discipleships d
+         SET ended_on = GREATEST(CURRENT_DATE, d.started_on),
+             end_reason = 'Cadastro mesclado.',
+             ended_by_user_id = $4
+       WHERE d.tenant_id = $1
+         AND d.ended_on IS NULL
+         AND (
+           (d.disciple_participant_id = $3 AND d.discipler_participant_id = $2)
+           OR (d.disciple_participant_id = $2 AND d.discipler_participant_id = $3)
+           OR (
+             d.disciple_participant_id = $3
+             AND EXISTS (
+               SELECT 1
+                 FROM discipleships s
+                WHERE s.tenant_id = $1
+                  AND s.disciple_participant_id = $2
+                  AND s.ended_on IS NULL
+                  AND s.discipler_participant_id IS DISTINCT FROM $3
+             )
+           )
+         );
+    `,
+    [tenantId, survivorId, duplicateId, userId]
+  );
+  await client.query(
+    `
+      UPDATE discipleships
+         SET disciple_participant_id = $2
+       WHERE tenant_id = $1
+         AND disciple_participant_id = $3
+         AND discipler_participant_id IS DISTINCT FROM $2;
+    `,
+    [tenantId, survivorId, duplicateId]
+  );
+  await client.query(
+    `
+      UPDATE discipleships
+         SET discipler_participant_id = $2
+       WHERE tenant_id = $1
+         AND discipler_participant_id = $3
+         AND disciple_participant_id <> $2;
+    `,
+    [tenantId, survivorId, duplicateId]
+  );
+
+  await client.query(
+    `
+      UPDATE participants s
+         SET email = COALESCE(s.email, d.email),
+             phone_home = COALESCE(s.phone_home, d.phone_home),
+             phone_mobile = COALESCE(s.phone_mobile, d.phone_mobile),
+             birth_date = COALESCE(s.birth_date, d.birth_date),
+             updated_at = NOW()
+        FROM participants d
+       WHERE s.tenant_id = $1
+         AND s.id = $2
+         AND d.id = $3;
+    `,
+    [tenantId, survivorId, duplicateId]
+  );
+  await client.query(
+    `
+      UPDATE participants
+         SET is_active = FALSE,
+             deactivated_at = COALESCE(deactivated_at, NOW()),
+             merged_into_participant_id = $2,
+             merged_at = NOW(),
+             updated_at = NOW()
+       WHERE tenant_id = $1
+         AND id = $3;
+    `,
+    [tenantId, survivorId, duplicateId]
+  );
+
+  return summary;
+}
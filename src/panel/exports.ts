@@ -0,0 +1,267 @@
+import { PoolClient } from "pg";
+import { SpreadsheetValue } from "../lib/spreadsheet";
+import { AccessContext, getVisibleCells } from "./access";
+import { ModuleKey } from "./permissions";
+
+export type ExportFilters = {
+  name?: string;
+};
+
+export type ExportDataset = {
+  key: string;
+  title: string;
+  module: (ctx: AccessContext) => ModuleKey;
+  columns: string[];
+  load: (client: PoolClient, ctx: AccessContext, filters: ExportFilters) => Promise<SpreadsheetValue[][]>;
+};
+
+const participantTypeLabels: Record<string, string> = {
+  member: "Membro",
+  congregated: "Congregado",
+  visitor: "Visitante"
+};
+
+const shortCode = (column: string) => `UPPER(LEFT(REPLACE(${column}::text, '-', ''), 8))`;
+
+async function visibleCellIds(client: PoolClient, ctx: AccessContext): Promise<string[]> {
+  return (await getVisibleCells(client, ctx)).map((cell) => cell.id);
+}
+
+export const exportDatasets: ExportDataset[] = [
+  {
+    key: "leader-components",
+    title: "Componentes das celulas",
+    module: () => "lider_celula",
+    columns: ["Celula", "Codigo", "Nome", "Categoria", "Telefone", "Celular", "Email", "Nascimento"],
+    load: async (client, ctx) => {
+      const rows = await client.query<{
+        cell_name: string;
+        cell_code: string;
+        full_name: string;
+        type: string;
+        phone_home: string | null;
+        phone_mobile: string | null;
+        email: string | null;
+        birth_date: string | null;
+      }>(
+        `
+          SELECT
+            c.name AS cell_name,
+            c.code AS cell_code,
+            p.full_name,
+            pcl.type::text AS type,
+            p.phone_home,
+            p.phone_mobile,
+            p.email,
+            p.birth_date::text
+          FROM participant_cell_links pcl
+          JOIN participants p ON p.id = pcl.participant_id
+          JOIN cells c ON c.id = pcl.cell_id
+          WHERE pcl.tenant_id = $1
+            AND pcl.cell_id = ANY($2::uuid[])
+            AND pcl.is_active = TRUE
+          ORDER BY c.name, pcl.type, p.full_name;
+        `,
+        [ctx.tenantId, await visibleCellIds(client, ctx)]
+      );
+      return rows.rows.map((row) => [
+        row.cell_name,
+        row.cell_code,
+        row.full_name,
+        participantTypeLabels[row.type] ?? row.type,
+        row.phone_home,
+        row.phone_mobile,
+        row.email,
+        row.birth_date
+      ]);
+    }
+  },
+  {
+    key: "consolidation",
+    title: "Consolidacao por congregacao",
+    module: () => "consolidation",
+    columns: ["Congregacao", "Codigo", "Nome", "Categoria", "Telefone", "Data"],
+    load: async (client, ctx, filters) => {
+      const nameFilter = filters.name?.trim() ?? "";
+      const rows = await client.query<{
+        congregation_name: string;
+        code: string;
+        participant_name: string;
+        participant_type: string;
+        phone_home: string | null;
+        created_at: string;
+      }>(
+        `
+          SELECT
+            COALESCE(cr.congregation_name, 'Sem congregacao') AS congregation_name,
+            ${shortCode("cr.id")} AS code,
+            p.full_name AS participant_name,
+            pcl.type::text AS participant_type,
+            p.phone_home,
+            cr.created_at::date::text AS created_at
+          FROM consolidation_records cr
+          JOIN participants p ON p.id = cr.participant_id
+          JOIN LATERAL (
+            SELECT l.type
+              FROM participant_cell_links l
+             WHERE l.participant_id = p.id
+               AND l.tenant_id = cr.tenant_id
+               AND l.is_active = TRUE
+               AND l.cell_id = ANY($2::uuid[])
+             ORDER BY l.updated_at DESC
+             LIMIT 1
+          ) pcl ON TRUE
+          WHERE cr.tenant_id = $1
+            AND ($3 = '' OR p.full_name ILIKE $4)
+          ORDER BY congregation_name, cr.created_at DESC;
+        `,
+        [ctx.tenantId, await visibleCellIds(client, ctx), nameFilter, `%${nameFilter}%`]
+      );
+      return rows.rows.map((row) => [
+        row.congregation_name,
+        row.code,
+        row.participant_name,
+        participantTypeLabels[row.participant_type] ?? row.participant_type,
+        row.phone_home,
+        row.created_at
+      ]);
+    }
+  },
+  {
+    key: "president-tree",
+    title: "Arvore de redes e celulas",
+    module: () => "pastor_presidente",
+    columns: ["Rede", "Unidade", "Celula", "Telefone", "Email", "Membros"],
+    load: async (client, ctx) => {
+      const rows = await client.query<{
+        network_name: string;
+        unit_path: string | null;
+        cell_name: string;
+        phone: string | null;
+        email: string | null;
+        members: number;
+      }>(
+        `
+          WITH RECURSIVE unit_paths AS (
+            SELECT u.id, u.name::text AS path
+              FROM org_units u
+             WHERE u.tenant_id = $1
+               AND u.parent_id IS NULL
+            UNION ALL
+            SELECT child.id, parent.path || ' > ' || child.name
+              FROM org_units child
+              JOIN unit_paths parent ON parent.id = child.parent_id
+          )
+          SELECT
+            n.name AS network_name,
+            up.path AS unit_path,
+            c.name AS cell_name,
+            c.phone,
+            c.email,
+            COUNT(pcl.participant_id)::int AS members
+          FROM cells c
+          JOIN church_networks n ON n.id = c.network_id
+          LEFT JOIN unit_paths up ON up.id = c.org_unit_id
+          LEFT JOIN participant_cell_links pcl
+            ON pcl.cell_id = c.id
+           AND pcl.is_active = TRUE
+           AND pcl.type = 'member'
+          WHERE c.tenant_id = $1
+            AND c.id = ANY($2::uuid[])
+            AND n.is_active = TRUE
+          GROUP BY n.name, up.path, c.id, c.name, c.phone, c.email
+          ORDER BY n.name, up.path NULLS FIRST, c.name;
+        `,
+        [ctx.tenantId, await visibleCellIds(client, ctx)]
+      );
+      return rows.rows.map((row) => [
+        row.network_name,
+        row.unit_path,
+        row.cell_name,
+        row.phone,
+        row.email,
+        row.members
+      ]);
+    }
+  },
+  {
+    key: "gd-controls",
+    title: "Controle de GD",
+    module: (ctx) => (ctx.scope === "all" ? "pastor_presidente" : "pastor_rede"),
+    columns: ["Codigo", "Tipo", "Lider", "Data", "Horario"],
+    load: async (client, ctx) => {
+      const rows = await client.query<{
+        code: string;
+        meeting_type: string;
+        leader_name: string;
+        meeting_date: string;
+        meeting_time: string | null;
+      }>(
+        `
+          SELECT
+            ${shortCode("id")} AS code,
+            meeting_type::text,
+            leader_name,
+            meeting_date::text,
+            meeting_time::text
+          FROM gd_controls
+          WHERE tenant_id = $1
+            AND (
+              $2::text = 'all'
+              OR ($2::text = 'network' AND network_id = ANY($3::uuid[]))
+              OR ($2::text IN ('supervisor', 'cell') AND cell_id = ANY($4::uuid[]))
+            )
+          ORDER BY meeting_date DESC, created_at DESC;
+        `,
+        [ctx.tenantId, ctx.scope, ctx.networkIds, ctx.cellIds]
+      );
+      return rows.rows.map((row) => [
+        row.code,
+        row.meeting_type,
+        row.leader_name,
+        row.meeting_date,
+        row.meeting_time
+      ]);
+    }
+  },
+  {
+    key: "email-logs",
+    title: "Envios de e-mail",
+    module: () => "email",
+    columns: ["Assunto", "Grupo", "Destinatarios", "Status", "Enviado em", "Remetente"],
+    load: async (client, ctx) => {
+      const rows = await client.query<{
+        subject: string;
+        target_group: string;
+        recipients_count: number;
+        status: string;
+        sent_at: string;
+        sender_name: string;
+      }>(
+        `
+          SELECT
+            e.subject,
+            e.target_group,
+            e.recipients_count,
+            e.status,
+            to_char(e.sent_at, 'YYYY-MM-DD HH24:MI') AS sent_at,
+            u.full_name AS sender_name
+          FROM email_logs e
+          JOIN users u ON u.id = e.sent_by_user_id
+          WHERE e.tenant_id = $1
+            AND ($2::boolean OR e.sent_by_user_id = $3)
+          ORDER BY e.sent_at DESC;
+        `,
+        [ctx.tenantId, ctx.scope === "all", ctx.userId]
+      );
+      return rows.rows.map((row) => [
+        row.subject,
+        row.target_group,
+        row.recipients_count,
+        row.status,
+        row.sent_at,
+        row.sender_name
+      ]);
+    }
+  }
+];
@@ -0,0 +1,226 @@
+import { PoolClient } from "pg";
+import { z } from "zod";
+import { AppError } from "../common/errors";
+import { spreadsheetFormats } from "../lib/spreadsheet";
+
+export type ImportField = {
+  key: string;
+  label: string;
+  required: boolean;
+  aliases: string[];
+};
+
+export type ImportRowReport = {
+  line: number;
+  status: "valid" | "invalid" | "duplicate";
+  errors: string[];
+  duplicates: { id: string | null; name: string; reason: string }[];
+  values: Record<string, string>;
+};
+
+export const importRequestSchema = z.object({
+  format: z.enum(spreadsheetFormats),
+  content: z.string().min(1),
+  fileName: z.string().trim().max(200).optional(),
+  mapping: z.record(z.string(), z.string().trim().max(120)).optional(),
+  dryRun: z.boolean().default(true),
+  skipDuplicates: z.boolean().default(true)
+});
+export type ImportRequest = z.infer<typeof importRequestSchema>;
+
+export const participantImportFields: ImportField[] = [
+  { key: "fullName", label: "Nome", required: true, aliases: ["nome", "nomecompleto", "name"] },
+  { key: "phoneHome", label: "Telefone", required: false, aliases: ["telefone", "fone", "phone"] },
+  { key: "phoneMobile", label: "Celular", required: false, aliases: ["celular", "whatsapp", "mobile"] },
+  { key: "email", label: "Email", required: false, aliases: ["email", "e-mail"] },
+  {
+    key: "birthDate",
+    label: "Nascimento",
+    required: false,
+    aliases: ["nascimento", "datanascimento", "datadenascimento", "birthdate"]
+  },
+  {
+    key: "cellCode",
+    label: "Codigo da celula",
+    required: true,
+    aliases: ["celula", "codigocelula", "codigodacelula", "cell", "cellcode"]
+  },
+  { key: "type", label: "Categoria", required: false, aliases: ["tipo", "categoria", "type"] }
+];
+
+export const cellImportFields: ImportField[] = [
+  {
+    key: "networkCode",
+    label: "Codigo da rede",
+    required: false,
+    aliases: ["codigorede", "codigodarede", "networkcode"]
+  },
+  { key: "networkName", label: "Rede", required: false, aliases: ["rede", "nomerede", "network"] },
+  { key: "cellName", label: "Celula", required: true, aliases: ["celula", "nomecelula", "nome", "cell"] },
+  {
+    key: "cellCode",
+    label: "Codigo da celula",
+    required: false,
+    aliases: ["codigo", "codigocelula", "codigodacelula", "cellcode"]
+  },
+  {
+    key: "unitCode",
+    label: "Codigo da unidade",
+    required: false,
+    aliases: ["unidade", "codigounidade", "codigodaunidade", "unitcode"]
+  },
+  {
+    key: "leaderEmail",
+    label: "Email do lider",
+    required: false,
+    aliases: ["lider", "emaillider", "emaildolider", "leaderemail"]
+  },
+  { key: "phone", label: "Telefone", required: false, aliases: ["telefone", "fone", "phone"] },
+  { key: "email", label: "Email", required: false, aliases: ["email", "e-mail"] }
+];
+
+const participantTypeAliases: Record<string, "member" | "congregated" | "visitor"> = {
+  member: "member",
+  membro: "member",
+  congregated: "congregated",
+  congregado: "congregated",
+  visitor: "visitor",
+  visitante: "visitor"
+};
+
+export function normalizeImportKey(value: string): string {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9-]/g, "");
+}
+
+export function resolveColumnMapping(
+  header: string[],
+  fields: ImportField[],
+  mapping: Record<string, string> = {}
+): Record<string, number> {
+  const normalizedHeader = header.map(normalizeImportKey);
+  const columns: Record<string, number> = {};
+  const missing: string[] = [];
+
+  for (const field of fields) {
+    const mapped = mapping[field.key];
+    const index = mapped
+      ? normalizedHeader.indexOf(normalizeImportKey(mapped))
+      : normalizedHeader.findIndex(
+          (column) => column === normalizeImportKey(field.key) || field.aliases.includes(column)
+        );
+    if (mapped && index === -1) {
+      throw new AppError(`Coluna "${mapped}" nao encontrada na planilha.`, 400);
+    }
+    if (index === -1 && field.required) {
+      missing.push(field.label);
+    }
+    columns[field.key] = index;
+  }
+
+  if (missing.length > 0) {
+    throw new AppError(`Colunas obrigatorias ausentes: ${missing.join(", ")}.`, 400);
+  }
+
+  return columns;
+}
+
+export function readMappedRow(
+  values: string[],
+  columns: Record<string, number>
+): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(columns).map(([key, index]) => [key, index === -1 ? "" : values[index] ?? ""])
+  );
+}
+
+export function parseImportDate(value: string): string | null {
+  if (/^\d{1,5}(\.\d+)?$/.test(value)) {
+    const serial = Math.floor(Number(value));
+    return new Date(Date.UTC(1899, 11, 30) + serial * 86400000).toISOString().slice(0, 10);
+  }
+
+  const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  const local = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (!iso && !local) {
+    return null;
+  }
+
+  const [year, month, day] = iso
+    ? [Number(iso[1]), Number(iso[2]), Number(iso[3])]
+    : [Number(local![3]), Number(local![2]), Number(local![1])];
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    return null;
+  }
+
+  return date.toISOString().slice(0, 10);
+}
+
+export function parseParticipantType(
+  value: string
+): "member" | "congregated" | "visitor" | null {
+  if (!value) {
+    return "visitor";
+  }
+  return participantTypeAliases[normalizeImportKey(value)] ?? null;
+}
+
+export function summarizeImport(rows: ImportRowReport[]) {
+  return {
+    total: rows.length,
+    valid: rows.filter((row) => row.status === "valid").length,
+    invalid: rows.filter((row) => row.status === "invalid").length,
+    duplicates: rows.filter((row) => row.status === "duplicate").length
+  };
+}
+
+export async function createImportBatch(
+  client: PoolClient,
+  input: {
+    tenantId: string;
+    kind: "participants" | "cells";
+    format: ImportRequest["format"];
+    fileName: string | null;
+    totalRows: number;
+    importedRows: number;
+    skippedRows: number;
+    userId: string;
+  }
+): Promise<string> {
+  const created = await client.query<{ id: string }>(
+    `
+      INSERT INTO import_batches (
+        tenant_id,
+        kind,
+        file_format,
+        file_name,
+        total_rows,
+        imported_rows,
+        skipped_rows,
+        created_by_user_id
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      RETURNING id;
+    `,
+    [
+      input.tenantId,
+      input.kind,
+      input.format,
+      input.fileName,
+      input.totalRows,
+      input.importedRows,
+      input.skippedRows,
+      input.userId
+    ]
+  );
+
+  return created.rows[0].id;
+}
@@ -1,26 +1,37 @@
+import { z } from "zod";
 import { TenantRole } from "../types/auth";
 
-export type PanelRole =
-  | "admin_geral"
-  | "pastor_presidente"
-  | "pastor_rede"
-  | "lider_celula"
-  | "secretaria";
+export const panelRoles = [
+  "admin_geral",
+  "pastor_presidente",
+  "pastor_rede",
+  "supervisor",
+  "lider_celula",
+  "secretaria"
+] as const;
+export type PanelRole = (typeof panelRoles)[number];
 
-export type ModuleKey =
-  | "dashboard"
-  | "cells_admin"
-  | "discipleship"
-  | "consolidation"
-  | "leadership_school"
-  | "pastor_presidente"
-  | "pastor_rede"
-  | "lider_celula"
-  | "email";
+export const moduleKeys = [
+  "dashboard",
+  "cells_admin",
+  "discipleship",
+  "consolidation",
+  "leadership_school",
+  "pastor_presidente",
+  "pastor_rede",
+  "lider_celula",
+  "email",
+  "team",
+  "participants",
+  "care"
+] as const;
+export type ModuleKey = (typeof moduleKeys)[number];
 
-export type ActionKey = "view" | "create" | "edit" | "delete" | "export" | "print";
+export const actionKeys = ["view", "create", "edit", "delete", "export", "print"] as const;
+export type ActionKey = (typeof actionKeys)[number];
 
-export type ScopeKind = "all" | "network" | "cell";
+export const scopeKinds = ["all", "network", "supervisor", "cell"] as const;
+export type ScopeKind = (typeof scopeKinds)[number];
 
 export type PermissionMatrix = Record<ModuleKey, ActionKey[]>;
 
@@ -45,7 +56,10 @@ const rolePermissions: Record<PanelRole, RolePermissions> = {
       pastor_presidente: allActions,
       pastor_rede: allActions,
       lider_celula: allActions,
-      email: allActions
+      email: allActions,
+      team: allActions,
+      participants: allActions,
+      care: allActions
     }
   },
   pastor_presidente: {
@@ -59,7 +73,10 @@ const rolePermissions: Record<PanelRole, RolePermissions> = {
       pastor_presidente: editorActions,
       pastor_rede: readActions,
       lider_celula: readActions,
-      email: editorActions
+      email: editorActions,
+      team: editorActions,
+      participants: editorActions,
+      care: editorActions
     }
   },
   pastor_rede: {
@@ -73,7 +90,27 @@ const rolePermissions: Record<PanelRole, RolePermissions> = {
       pastor_presidente: [],
       pastor_rede: editorActions,
       lider_celula: readActions,
-      email: editorActions
+      email: editorActions,
+      team: [],
+      participants: editorActions,
+      care: editorActions
+    }
+  },
+  supervisor: {
+    scope: "supervisor",
+    modules: {
+      dashboard: readActions,
+      cells_admin: ["view"],
+      discipleship: readActions,
+      consolidation: editorActions,
+      leadership_school: readActions,
+      pastor_presidente: [],
+      pastor_rede: readActions,
+      lider_celula: editorActions,
+      email: editorActions,
+      team: [],
+      participants: editorActions,
+      care: editorActions
     }
   },
   lider_celula: {
@@ -87,7 +124,10 @@ const rolePermissions: Record<PanelRole, RolePermissions> = {
       pastor_presidente: [],
       pastor_rede: [],
       lider_celula: editorActions,
-      email: editorActions
+      email: editorActions,
+      team: [],
+      participants: editorActions,
+      care: editorActions
     }
   },
   secretaria: {
@@ -101,11 +141,39 @@ const rolePermissions: Record<PanelRole, RolePermissions> = {
       pastor_presidente: readActions,
       pastor_rede: readActions,
       lider_celula: readActions,
-      email: editorActions
+      email: editorActions,
+      team: editorActions,
+      participants: allActions,
+      care: readActions
     }
   }
 };
 
+const roleLabels: Record<PanelRole, string> = {
+  admin_geral: "Admin geral",
+  pastor_presidente: "Pastor presidente",
+  pastor_rede: "Pastor de rede",
+  supervisor: "Supervisor",
+  lider_celula: "Lider de celula",
+  secretaria: "Secretaria"
+};
+
+const roleRank: Record<PanelRole, number> = {
+  admin_geral: 6,
+  pastor_presidente: 5,
+  secretaria: 4,
+  pastor_rede: 3,
+  supervisor: 2,
+  lider_celula: 1
+};
+
+const scopeRank: Record<ScopeKind, number> = {
+  all: 4,
+  network: 3,
+  supervisor: 2,
+  cell: 1
+};
+
 const roleAliases: Partial<Record<TenantRole, PanelRole>> = {
   owner: "admin_geral",
   admin: "admin_geral",
@@ -125,6 +193,88 @@ export function getRolePermissions(role: PanelRole): PermissionMatrix {
   return rolePermissions[role].modules;
 }
 
-export function canAccess(role: PanelRole, module: ModuleKey, action: ActionKey): boolean {
-  return rolePermissions[role].modules[module].includes(action);
+export function getRoleLabel(role: PanelRole): string {
+  return roleLabels[role];
+}
+
+export function isPanelRole(value: string): value is PanelRole {
+  return (panelRoles as readonly string[]).includes(value);
+}
+
+export function canAccess(
+  permissions: PermissionMatrix,
+  module: ModuleKey,
+  action: ActionKey
+): boolean {
+  return permissions[module]?.includes(action) ?? false;
+}
+
+export function toPermissionMatrix(
+  value: Partial<Record<string, string[]>>,
+  defaults?: PermissionMatrix
+): PermissionMatrix {
+  return Object.fromEntries(
+    moduleKeys.map((module) => [
+      module,
+      actionKeys.filter((action) =>
+        (value[module] ?? defaults?.[module] ?? []).includes(action)
+      )
+    ])
+  ) as PermissionMatrix;
+}
+
+export const permissionMatrixSchema = z
+  .record(z.array(z.enum(actionKeys)))
+  .superRefine((value, context) => {
+    for (const [module, actions] of Object.entries(value)) {
+      if (!(moduleKeys as readonly string[]).includes(module)) {
+        context.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [module],
+          message: `Modulo desconhecido: ${module}.`
+        });
+        continue;
+      }
+      if (actions.length > 0 && !actions.includes("view")) {
+        context.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [module],
+          message: "A acao view e obrigatoria quando o modulo possui outras acoes."
+        });
+      }
+    }
+  })
+  .transform((value) => toPermissionMatrix(value));
+
+export function outranks(role: PanelRole, other: PanelRole): boolean {
+  return roleRank[role] > roleRank[other];
+}
+
+export function coversRole(
+  actor: { role: PanelRole; scope: ScopeKind; permissions: PermissionMatrix },
+  target: { baseRole: PanelRole; scope: ScopeKind; permissions: PermissionMatrix }
+): boolean {
+  return (
+    !outranks(target.baseRole, actor.role) &&
+    scopeRank[target.scope] <= scopeRank[actor.scope] &&
+    moduleKeys.every((module) =>
+      (target.permissions[module] ?? []).every((action) =>
+        canAccess(actor.permissions, module, action)
+      )
+    )
+  );
+}
+
+export function grantsBuiltInRole(
+  holder: { role: PanelRole; scope: ScopeKind; permissions: PermissionMatrix },
+  role: PanelRole
+): boolean {
+  return (
+    holder.role === role &&
+    coversRole(holder, {
+      baseRole: role,
+      scope: getRoleScope(role),
+      permissions: getRolePermissions(role)
+    })
+  );
 }
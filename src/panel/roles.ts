@@ -0,0 +1,157 @@
+import { PoolClient } from "pg";
+import { AppError } from "../common/errors";
+import {
+  getRoleLabel,
+  getRolePermissions,
+  getRoleScope,
+  isPanelRole,
+  normalizePanelRole,
+  PanelRole,
+  panelRoles,
+  PermissionMatrix,
+  ScopeKind,
+  toPermissionMatrix
+} from "./permissions";
+
+export type TenantRoleDefinition = {
+  id: string | null;
+  key: string;
+  name: string;
+  baseRole: PanelRole;
+  scope: ScopeKind;
+  permissions: PermissionMatrix;
+  isSystem: boolean;
+  isCustomized: boolean;
+};
+
+type TenantRoleRow = {
+  id: string;
+  key: string;
+  name: string;
+  base_role: string;
+  scope: ScopeKind;
+  permissions: Partial<Record<string, string[]>>;
+  is_system: boolean;
+};
+
+const tenantRoleColumns = `
+  id,
+  key,
+  name,
+  base_role::text AS base_role,
+  scope,
+  permissions,
+  is_system
+`;
+
+function getBuiltInRole(role: PanelRole): TenantRoleDefinition {
+  return {
+    id: null,
+    key: role,
+    name: getRoleLabel(role),
+    baseRole: role,
+    scope: getRoleScope(role),
+    permissions: getRolePermissions(role),
+    isSystem: true,
+    isCustomized: false
+  };
+}
+
+// Modules added after a role was saved only inherit defaults on customized
+// built-in roles; custom roles get no access to them until edited.
+function toRoleDefinition(row: TenantRoleRow): TenantRoleDefinition {
+  const baseRole = normalizePanelRole(row.base_role as never);
+  return {
+    id: row.id,
+    key: row.key,
+    name: row.name,
+    baseRole,
+    scope: row.scope,
+    permissions: toPermissionMatrix(
+      row.permissions,
+      row.is_system ? getRolePermissions(baseRole) : undefined
+    ),
+    isSystem: row.is_system,
+    isCustomized: row.is_system
+  };
+}
+
+export async function listTenantRoles(
+  client: PoolClient,
+  tenantId: string
+): Promise<TenantRoleDefinition[]> {
+  const result = await client.query<TenantRoleRow>(
+    `
+      SELECT ${tenantRoleColumns}
+        FROM tenant_roles
+       WHERE tenant_id = $1
+       ORDER BY is_system DESC, name;
+    `,
+    [tenantId]
+  );
+
+  const stored = result.rows.map(toRoleDefinition);
+  const builtIns = panelRoles.map(
+    (role) => stored.find((item) => item.isSystem && item.key === role) ?? getBuiltInRole(role)
+  );
+
+  return [...builtIns, ...stored.filter((item) => !item.isSystem)];
+}
+
+export async function findTenantRole(
+  client: PoolClient,
+  tenantId: string,
+  key: string,
+  forUpdate = false
+): Promise<TenantRoleDefinition | null> {
+  const result = await client.query<TenantRoleRow>(
+    `
+      SELECT ${tenantRoleColumns}
+        FROM tenant_roles
+       WHERE tenant_id = $1
+         AND key = $2
+       LIMIT 1
+       ${forUpdate ? "FOR UPDATE" : ""};
+    `,
+    [tenantId, key]
+  );
+
+  if (result.rowCount) {
+    return toRoleDefinition(result.rows[0]);
+  }
+
+  return isPanelRole(key) ? getBuiltInRole(key) : null;
+}
+
+export async function resolveMemberRole(
+  client: PoolClient,
+  tenantId: string,
+  role: PanelRole,
+  roleId: string | null
+): Promise<TenantRoleDefinition> {
+  const result = await client.query<TenantRoleRow>(
+    `
+      SELECT ${tenantRoleColumns}
+        FROM tenant_roles
+       WHERE tenant_id = $1
+         AND (id = $2 OR (is_system = TRUE AND key = $3))
+       ORDER BY (id = $2) DESC NULLS LAST
+       LIMIT 1;
+    `,
+    [tenantId, roleId, role]
+  );
+
+  return result.rowCount ? toRoleDefinition(result.rows[0]) : getBuiltInRole(role);
+}
+
+export async function findAssignableRole(
+  client: PoolClient,
+  tenantId: string,
+  key: string
+): Promise<TenantRoleDefinition> {
+  const role = await findTenantRole(client, tenantId, key);
+  if (!role) {
+    throw new AppError("Perfil nao encontrado.", 400);
+  }
+  return role;
+}
@@ -0,0 +1,229 @@
+import { PoolClient } from "pg";
+import { AppError } from "../common/errors";
+
+export const schoolClassStatuses = ["planned", "in_progress", "finished", "cancelled"] as const;
+export type SchoolClassStatus = (typeof schoolClassStatuses)[number];
+
+export const enrollmentStatuses = ["enrolled", "passed", "failed", "dropped"] as const;
+export type EnrollmentStatus = (typeof enrollmentStatuses)[number];
+
+export type CourseModule = {
+  id: string;
+  position: number;
+  title: string;
+  description: string | null;
+};
+
+export type EnrollmentResult = {
+  enrollmentId: string;
+  participantId: string;
+  participantName: string;
+  status: EnrollmentStatus;
+  lessonsCount: number;
+  presentCount: number;
+  attendancePercent: number | null;
+  gradedModules: number;
+  averageGrade: number | null;
+  finalGrade: number | null;
+  completedAt: string | null;
+};
+
+export async function loadCourseModules(
+  client: PoolClient,
+  tenantId: string,
+  courseId: string
+): Promise<CourseModule[]> {
+  const rows = await client.query<CourseModule>(
+    `
+      SELECT id, position, title, description
+        FROM school_course_modules
+       WHERE tenant_id = $1
+         AND course_id = $2
+       ORDER BY position;
+    `,
+    [tenantId, courseId]
+  );
+
+  return rows.rows;
+}
+
+export async function assertActiveMembers(
+  client: PoolClient,
+  tenantId: string,
+  userIds: string[]
+): Promise<void> {
+  if (userIds.length === 0) {
+    return;
+  }
+
+  const rows = await client.query<{ total: number }>(
+    `
+      SELECT COUNT(*)::int AS total
+        FROM tenant_members tm
+        JOIN users u ON u.id = tm.user_id
+       WHERE tm.tenant_id = $1
+         AND tm.user_id = ANY($2::uuid[])
+         AND tm.is_active = TRUE
+         AND u.is_active = TRUE
+         AND u.deleted_at IS NULL;
+    `,
+    [tenantId, userIds]
+  );
+
+  if (rows.rows[0].total !== new Set(userIds).size) {
+    throw new AppError("Professor nao encontrado na equipe da igreja.", 400);
+  }
+}
+
+export async function loadEnrollmentResults(
+  client: PoolClient,
+  tenantId: string,
+  classId: string
+): Promise<EnrollmentResult[]> {
+  const rows = await client.query<{
+    enrollment_id: string;
+    participant_id: string;
+    participant_name: string;
+    status: EnrollmentStatus;
+    lessons_count: number;
+    present_count: number;
+    graded_modules: number;
+    average_grade: number | null;
+    final_grade: number | null;
+    completed_at: string | null;
+  }>(
+    `
+      SELECT
+        e.id AS enrollment_id,
+        e.participant_id,
+        p.full_name AS participant_name,
+        e.status,
+        lessons.total AS lessons_count,
+        attendance.present AS present_count,
+        grades.graded AS graded_modules,
+        grades.average::float AS average_grade,
+        e.final_grade::float AS final_grade,
+        e.completed_at::text
+      FROM school_enrollments e
+      JOIN participants p ON p.id = e.participant_id
+      CROSS JOIN LATERAL (
+        SELECT COUNT(*)::int AS total
+          FROM school_lessons l
+         WHERE l.class_id = e.class_id
+      ) lessons
+      CROSS JOIN LATERAL (
+        SELECT COUNT(*) FILTER (WHERE a.present)::int AS present
+          FROM school_lesson_attendance a
+         WHERE a.enrollment_id = e.id
+      ) attendance
+      CROSS JOIN LATERAL (
+        SELECT COUNT(*)::int AS graded, ROUND(AVG(g.grade), 2) AS average
+          FROM school_grades g
+         WHERE g.enrollment_id = e.id
+      ) grades
+      WHERE e.tenant_id = $1
+        AND e.class_id = $2
+      ORDER BY p.full_name;
+    `,
+    [tenantId, classId]
+  );
+
+  return rows.rows.map((row) => ({
+    enrollmentId: row.enrollment_id,
+    participantId: row.participant_id,
+    participantName: row.participant_name,
+    status: row.status,
+    lessonsCount: row.lessons_count,
+    presentCount: row.present_count,
+    attendancePercent:
+      row.lessons_count > 0 ? Math.round((row.present_count * 100) / row.lessons_count) : null,
+    gradedModules: row.graded_modules,
+    averageGrade: row.average_grade,
+    finalGrade: row.final_grade,
+    completedAt: row.completed_at
+  }));
+}
+
+export async function finishSchoolClass(
+  client: PoolClient,
+  input: {
+    tenantId: string;
+    classId: string;
+    courseId: string;
+    passingGrade: number;
+    minAttendancePercent: number;
+  }
+) {
+  const modules = await loadCourseModules(client, input.tenantId, input.courseId);
+  const results = (await loadEnrollmentResults(client, input.tenantId, input.classId)).filter(
+    (result) => result.status === "enrolled"
+  );
+
+  if (results.length === 0) {
+    throw new AppError("A turma nao possui alunos matriculados.", 409);
+  }
+  if (results[0].lessonsCount === 0) {
+    throw new AppError("Registre ao menos uma aula antes de encerrar a turma.", 409);
+  }
+  const missingGrades = results.filter((result) => result.gradedModules < modules.length);
+  if (missingGrades.length > 0) {
+    throw new AppError(
+      `Lance as notas de todos os modulos antes de encerrar a turma: ${missingGrades
+        .map((result) => result.participantName)
+        .join(", ")}.`,
+      409
+    );
+  }
+
+  const evaluated = results.map((result) => {
+    const passed =
+      (result.attendancePercent ?? 0) >= input.minAttendancePercent &&
+      (modules.length === 0 || (result.averageGrade ?? 0) >= input.passingGrade);
+    return { ...result, status: (passed ? "passed" : "failed") as EnrollmentStatus };
+  });
+
+  for (const result of evaluated) {
+    await client.query(
+      `
+        UPDATE school_enrollments
+           SET status = $3,
+               final_grade = $4,
+               attendance_percent = $5,
+               completed_at = NOW()
+         WHERE id = $1
+           AND tenant_id = $2;
+      `,
+      [
+        result.enrollmentId,
+        input.tenantId,
+        result.status,
+        result.averageGrade,
+        result.attendancePercent
+      ]
+    );
+  }
+
+  await client.query(
+    `
+      UPDATE school_classes
+         SET status = 'finished',
+             finished_at = NOW(),
+             ends_on = COALESCE(ends_on, GREATEST(CURRENT_DATE, starts_on))
+       WHERE id = $1
+         AND tenant_id = $2;
+    `,
+    [input.classId, input.tenantId]
+  );
+
+  return {
+    passed: evaluated.filter((result) => result.status === "passed").length,
+    failed: evaluated.filter((result) => result.status === "failed").length,
+    results: evaluated.map((result) => ({
+      enrollmentId: result.enrollmentId,
+      participantName: result.participantName,
+      status: result.status,
+      attendancePercent: result.attendancePercent,
+      finalGrade: result.averageGrade
+    }))
+  };
+}
@@ -0,0 +1,118 @@
+import { PoolClient } from "pg";
+import { AppError } from "../common/errors";
+
+export async function assertScopeTargets(
+  client: PoolClient,
+  tenantId: string,
+  networkIds: string[],
+  cellIds: string[],
+  unitIds: string[] = []
+): Promise<void> {
+  if (networkIds.length > 0) {
+    const networks = await client.query(
+      `
+        SELECT id
+          FROM church_networks
+         WHERE tenant_id = $1
+           AND id = ANY($2::uuid[]);
+      `,
+      [tenantId, networkIds]
+    );
+    if (networks.rowCount !== new Set(networkIds).size) {
+      throw new AppError("Redes invalidas para esta igreja.", 400);
+    }
+  }
+
+  if (cellIds.length > 0) {
+    const cells = await client.query(
+      `
+        SELECT id
+          FROM cells
+         WHERE tenant_id = $1
+           AND id = ANY($2::uuid[]);
+      `,
+      [tenantId, cellIds]
+    );
+    if (cells.rowCount !== new Set(cellIds).size) {
+      throw new AppError("Celulas invalidas para esta igreja.", 400);
+    }
+  }
+
+  if (unitIds.length > 0) {
+    const units = await client.query(
+      `
+        SELECT id
+          FROM org_units
+         WHERE tenant_id = $1
+           AND id = ANY($2::uuid[]);
+      `,
+      [tenantId, unitIds]
+    );
+    if (units.rowCount !== new Set(unitIds).size) {
+      throw new AppError("Unidades invalidas para esta igreja.", 400);
+    }
+  }
+}
+
+export async function replaceUserScopes(
+  client: PoolClient,
+  tenantId: string,
+  userId: string,
+  networkIds: string[],
+  cellIds: string[],
+  unitIds: string[]
+): Promise<void> {
+  await client.query(
+    `
+      DELETE FROM user_network_scopes
+       WHERE tenant_id = $1
+         AND user_id = $2
+         AND NOT (network_id = ANY($3::uuid[]));
+    `,
+    [tenantId, userId, networkIds]
+  );
+  await client.query(
+    `
+      INSERT INTO user_network_scopes (tenant_id, user_id, network_id)
+      SELECT $1, $2, UNNEST($3::uuid[])
+      ON CONFLICT DO NOTHING;
+    `,
+    [tenantId, userId, networkIds]
+  );
+
+  await client.query(
+    `
+      DELETE FROM user_cell_scopes
+       WHERE tenant_id = $1
+         AND user_id = $2
+         AND NOT (cell_id = ANY($3::uuid[]));
+    `,
+    [tenantId, userId, cellIds]
+  );
+  await client.query(
+    `
+      INSERT INTO user_cell_scopes (tenant_id, user_id, cell_id)
+      SELECT $1, $2, UNNEST($3::uuid[])
+      ON CONFLICT DO NOTHING;
+    `,
+    [tenantId, userId, cellIds]
+  );
+
+  await client.query(
+    `
+      DELETE FROM user_unit_scopes
+       WHERE tenant_id = $1
+         AND user_id = $2
+         AND NOT (org_unit_id = ANY($3::uuid[]));
+    `,
+    [tenantId, userId, unitIds]
+  );
+  await client.query(
+    `
+      INSERT INTO user_unit_scopes (tenant_id, user_id, org_unit_id)
+      SELECT $1, $2, UNNEST($3::uuid[])
+      ON CONFLICT DO NOTHING;
+    `,
+    [tenantId, userId, unitIds]
+  );
+}
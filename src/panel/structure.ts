@@ -0,0 +1,122 @@
+import { PoolClient } from "pg";
+import { z } from "zod";
+import { AppError } from "../common/errors";
+
+export const structureCodeSchema = z
+  .string()
+  .trim()
+  .min(2)
+  .max(30)
+  .regex(/^[A-Za-z0-9_-]+$/, "Use apenas letras, numeros, - e _.")
+  .transform((value) => value.toUpperCase());
+
+const codePrefixes = {
+  church_networks: "RED",
+  org_units: "UNI",
+  cells: "CEL"
+} as const;
+
+export async function nextStructureCode(
+  client: PoolClient,
+  tenantId: string,
+  table: keyof typeof codePrefixes
+): Promise<string> {
+  const prefix = codePrefixes[table];
+  const result = await client.query<{ next: number }>(
+    `
+      SELECT COALESCE(MAX(substring(code FROM $2)::int), 0) + 1 AS next
+        FROM ${table}
+       WHERE tenant_id = $1
+         AND code ~ $2;
+    `,
+    [tenantId, `^${prefix}-(\\d+)$`]
+  );
+
+  return `${prefix}-${String(result.rows[0].next).padStart(3, "0")}`;
+}
+
+export async function assertLeaderIsMember(
+  client: PoolClient,
+  tenantId: string,
+  userId: string
+): Promise<void> {
+  const member = await client.query(
+    `
+      SELECT 1
+        FROM tenant_members tm
+        JOIN users u ON u.id = tm.user_id
+       WHERE tm.tenant_id = $1
+         AND tm.user_id = $2
+         AND tm.is_active = TRUE
+         AND u.is_active = TRUE
+         AND u.deleted_at IS NULL
+       LIMIT 1;
+    `,
+    [tenantId, userId]
+  );
+
+  if (!member.rowCount) {
+    throw new AppError("O lider informado nao faz parte da equipe da igreja.", 400);
+  }
+}
+
+export async function grantLeaderCellScope(
+  client: PoolClient,
+  tenantId: string,
+  userId: string,
+  cellId: string
+): Promise<void> {
+  await client.query(
+    `
+      INSERT INTO user_cell_scopes (tenant_id, user_id, cell_id, granted_as_leader)
+      VALUES ($1, $2, $3, TRUE)
+      ON CONFLICT DO NOTHING;
+    `,
+    [tenantId, userId, cellId]
+  );
+}
+
+// Only scopes created by grantLeaderCellScope are removed; a scope assigned
+// explicitly through team management survives the leader change.
+export async function revokeLeaderCellScope(
+  client: PoolClient,
+  tenantId: string,
+  userId: string,
+  cellId: string
+): Promise<boolean> {
+  const result = await client.query(
+    `
+      DELETE FROM user_cell_scopes
+       WHERE tenant_id = $1
+         AND user_id = $2
+         AND cell_id = $3
+         AND granted_as_leader = TRUE;
+    `,
+    [tenantId, userId, cellId]
+  );
+  return result.rowCount === 1;
+}
+
+export async function assertCodeAvailable(
+  client: PoolClient,
+  tenantId: string,
+  table: keyof typeof codePrefixes,
+  code: string,
+  exceptId: string | null = null
+): Promise<void> {
+  const existing = await client.query(
+    `
+      SELECT 1
+        FROM ${table}
+       WHERE tenant_id = $1
+         AND upper(code) = upper($2)
+         AND ($3::uuid IS NULL OR id <> $3)
+       LIMIT 1;
+    `,
+    [tenantId, code, exceptId]
+  );
+
+  if (existing.rowCount) {
+    throw new AppError("Ja existe um cadastro com este codigo.", 409);
+  }
+}
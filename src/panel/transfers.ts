@@ -0,0 +1,296 @@
+import { PoolClient } from "pg";
+import { AppError } from "../common/errors";
+
+export type TransferInput = {
+  tenantId: string;
+  sourceCellId: string;
+  destinationCellId: string;
+  participantIds: string[];
+  userId: string;
+};
+
+export async function moveParticipants(
+  client: PoolClient,
+  input: TransferInput
+): Promise<string> {
+  const sourceRows = await client.query<{
+    participant_id: string;
+    type: "member" | "congregated" | "visitor";
+  }>(
+    `
+      SELECT participant_id, type::text AS type
+        FROM participant_cell_links
+       WHERE tenant_id = $1
+         AND cell_id = $2
+         AND participant_id = ANY($3::uuid[])
+         AND is_active = TRUE;
+    `,
+    [input.tenantId, input.sourceCellId, input.participantIds]
+  );
+
+  if (sourceRows.rowCount !== new Set(input.participantIds).size) {
+    throw new AppError("Participantes invalidos para a celula de origem.", 400);
+  }
+
+  const transferLog = await client.query<{ id: string }>(
+    `
+      INSERT INTO transfer_logs (
+        tenant_id,
+        source_cell_id,
+        destination_cell_id,
+        transferred_by_user_id
+      )
+      VALUES ($1, $2, $3, $4)
+      RETURNING id;
+    `,
+    [input.tenantId, input.sourceCellId, input.destinationCellId, input.userId]
+  );
+
+  for (const row of sourceRows.rows) {
+    await client.query(
+      `
+        UPDATE participant_cell_links
+           SET is_active = FALSE, updated_at = NOW()
+         WHERE participant_id = $1
+           AND cell_id = $2
+           AND tenant_id = $3
+           AND is_active = TRUE;
+      `,
+      [row.participant_id, input.sourceCellId, input.tenantId]
+    );
+
+    const previous = await client.query<{
+      type: "member" | "congregated" | "visitor";
+      is_active: boolean;
+    }>(
+      `
+        SELECT type::text AS type, is_active
+          FROM participant_cell_links
+         WHERE participant_id = $1
+           AND cell_id = $2
+           AND tenant_id = $3
+         LIMIT 1;
+      `,
+      [row.participant_id, input.destinationCellId, input.tenantId]
+    );
+    const previousLink = previous.rows[0] ?? null;
+
+    await client.query(
+      `
+        INSERT INTO participant_cell_links (
+          participant_id,
+          cell_id,
+          tenant_id,
+          type,
+          is_active
+        )
+        VALUES ($1, $2, $3, $4, TRUE)
+        ON CONFLICT (participant_id, cell_id)
+        DO UPDATE SET
+          type = EXCLUDED.type,
+          is_active = TRUE,
+          updated_at = NOW();
+      `,
+      [row.participant_id, input.destinationCellId, input.tenantId, row.type]
+    );
+
+    await client.query(
+      `
+        INSERT INTO transfer_log_participants (
+          transfer_log_id,
+          participant_id,
+          participant_type,
+          destination_link_created,
+          previous_destination_type,
+          previous_destination_active
+        )
+        VALUES ($1, $2, $3, $4, $5, $6);
+      `,
+      [
+        transferLog.rows[0].id,
+        row.participant_id,
+        row.type,
+        previousLink === null,
+        previousLink?.type ?? null,
+        previousLink?.is_active ?? null
+      ]
+    );
+  }
+
+  return transferLog.rows[0].id;
+}
+
+export type RevertTransferInput = {
+  tenantId: string;
+  transferId: string;
+  sourceCellId: string;
+  destinationCellId: string;
+  userId: string;
+};
+
+export async function revertTransfer(
+  client: PoolClient,
+  input: RevertTransferInput
+): Promise<string> {
+  const rows = await client.query<{
+    participant_id: string;
+    participant_type: "member" | "congregated" | "visitor" | null;
+    destination_link_created: boolean | null;
+    previous_destination_type: "member" | "congregated" | "visitor" | null;
+    previous_destination_active: boolean | null;
+    current_type: "member" | "congregated" | "visitor" | null;
+    unchanged: boolean;
+  }>(
+    `
+      SELECT
+        tlp.participant_id,
+        tlp.participant_type::text AS participant_type,
+        tlp.destination_link_created,
+        tlp.previous_destination_type::text AS previous_destination_type,
+        tlp.previous_destination_active,
+        dest.type::text AS current_type,
+        (
+          COALESCE(dest.is_active, FALSE)
+          AND (tlp.participant_type IS NULL OR dest.type = tlp.participant_type)
+          AND src.is_active = FALSE
+          AND p.is_active = TRUE
+          AND NOT EXISTS (
+            SELECT 1
+              FROM participant_cell_links other
+             WHERE other.participant_id = tlp.participant_id
+               AND other.cell_id <> $3
+               AND other.is_active = TRUE
+          )
+          AND NOT EXISTS (
+            SELECT 1
+              FROM transfer_log_participants later_p
+              JOIN transfer_logs later ON later.id = later_p.transfer_log_id
+             WHERE later_p.participant_id = tlp.participant_id
+               AND later.id <> tl.id
+               AND later.transferred_at > tl.transferred_at
+          )
+        ) AS unchanged
+      FROM transfer_log_participants tlp
+      JOIN transfer_logs tl ON tl.id = tlp.transfer_log_id
+      JOIN participants p ON p.id = tlp.participant_id
+      LEFT JOIN participant_cell_links dest
+        ON dest.participant_id = tlp.participant_id
+       AND dest.cell_id = $3
+      LEFT JOIN participant_cell_links src
+        ON src.participant_id = tlp.participant_id
+       AND src.cell_id = $4
+      WHERE tl.tenant_id = $1
+        AND tl.id = $2
+      FOR UPDATE OF tlp;
+    `,
+    [input.tenantId, input.transferId, input.destinationCellId, input.sourceCellId]
+  );
+
+  if (rows.rowCount === 0) {
+    throw new AppError("Transferencia sem participantes para reverter.", 409);
+  }
+  if (rows.rows.some((row) => !row.unchanged)) {
+    throw new AppError(
+      "Transferencia nao pode ser revertida: houve alteracoes posteriores nos participantes.",
+      409
+    );
+  }
+
+  const reversalLog = await client.query<{ id: string }>(
+    `
+      INSERT INTO transfer_logs (
+        tenant_id,
+        source_cell_id,
+        destination_cell_id,
+        transferred_by_user_id,
+        reverts_transfer_log_id
+      )
+      VALUES ($1, $2, $3, $4, $5)
+      RETURNING id;
+    `,
+    [
+      input.tenantId,
+      input.destinationCellId,
+      input.sourceCellId,
+      input.userId,
+      input.transferId
+    ]
+  );
+
+  for (const row of rows.rows) {
+    if (row.destination_link_created) {
+      await client.query(
+        `
+          DELETE FROM participant_cell_links
+           WHERE participant_id = $1
+             AND cell_id = $2
+             AND tenant_id = $3;
+        `,
+        [row.participant_id, input.destinationCellId, input.tenantId]
+      );
+    } else {
+      await client.query(
+        `
+          UPDATE participant_cell_links
+             SET type = COALESCE($4::participant_type, type),
+                 is_active = COALESCE($5::boolean, FALSE),
+                 updated_at = NOW()
+           WHERE participant_id = $1
+             AND cell_id = $2
+             AND tenant_id = $3;
+        `,
+        [
+          row.participant_id,
+          input.destinationCellId,
+          input.tenantId,
+          row.previous_destination_type,
+          row.previous_destination_active
+        ]
+      );
+    }
+
+    await client.query(
+      `
+        UPDATE participant_cell_links
+           SET is_active = TRUE, updated_at = NOW()
+         WHERE participant_id = $1
+           AND cell_id = $2
+           AND tenant_id = $3;
+      `,
+      [row.participant_id, input.sourceCellId, input.tenantId]
+    );
+
+    await client.query(
+      `
+        INSERT INTO transfer_log_participants (
+          transfer_log_id,
+          participant_id,
+          participant_type,
+          destination_link_created,
+          previous_destination_type,
+          previous_destination_active
+        )
+        VALUES ($1, $2, $3, FALSE, $4, FALSE);
+      `,
+      [
+        reversalLog.rows[0].id,
+        row.participant_id,
+        row.current_type,
+        row.participant_type ?? row.current_type
+      ]
+    );
+  }
+
+  await client.query(
+    `
+      UPDATE transfer_logs
+         SET reverted_at = NOW(),
+             reverted_by_user_id = $3
+       WHERE id = $1
+         AND tenant_id = $2;
+    `,
+    [input.transferId, input.tenantId, input.userId]
+  );
+
+  return reversalLog.rows[0].id;
+}
@@ -0,0 +1,151 @@
+import { PoolClient } from "pg";
+import { AppError } from "../common/errors";
+
+export const unitDescendantsCte = `
+  WITH RECURSIVE unit_tree AS (
+    SELECT u.id, u.network_id
+      FROM org_units u
+     WHERE u.tenant_id = $1
+       AND u.id = ANY($2::uuid[])
+       AND u.is_active = TRUE
+    UNION
+    SELECT child.id, child.network_id
+      FROM org_units child
+      JOIN unit_tree parent ON child.parent_id = parent.id
+     WHERE child.is_active = TRUE
+  )
+`;
+
+export async function resolveUnitScope(
+  client: PoolClient,
+  tenantId: string,
+  unitIds: string[]
+): Promise<{ networkIds: string[]; cellIds: string[] }> {
+  if (unitIds.length === 0) {
+    return { networkIds: [], cellIds: [] };
+  }
+
+  const result = await client.query<{ network_ids: string[]; cell_ids: string[] }>(
+    `
+      ${unitDescendantsCte}
+      SELECT
+        ARRAY(SELECT DISTINCT network_id FROM unit_tree) AS network_ids,
+        ARRAY(
+          SELECT c.id
+            FROM cells c
+           WHERE c.tenant_id = $1
+             AND c.org_unit_id IN (SELECT id FROM unit_tree)
+        ) AS cell_ids;
+    `,
+    [tenantId, unitIds]
+  );
+
+  return {
+    networkIds: result.rows[0].network_ids,
+    cellIds: result.rows[0].cell_ids
+  };
+}
+
+export async function grantSupervisorUnitScope(
+  client: PoolClient,
+  tenantId: string,
+  userId: string,
+  unitId: string
+): Promise<void> {
+  await client.query(
+    `
+      INSERT INTO user_unit_scopes (tenant_id, user_id, org_unit_id, granted_as_supervisor)
+      VALUES ($1, $2, $3, TRUE)
+      ON CONFLICT DO NOTHING;
+    `,
+    [tenantId, userId, unitId]
+  );
+}
+
+export async function revokeSupervisorUnitScope(
+  client: PoolClient,
+  tenantId: string,
+  userId: string,
+  unitId: string
+): Promise<boolean> {
+  const result = await client.query(
+    `
+      DELETE FROM user_unit_scopes
+       WHERE tenant_id = $1
+         AND user_id = $2
+         AND org_unit_id = $3
+         AND granted_as_supervisor = TRUE;
+    `,
+    [tenantId, userId, unitId]
+  );
+  return result.rowCount === 1;
+}
+
+export async function assertUnitParent(
+  client: PoolClient,
+  tenantId: string,
+  networkId: string,
+  parentId: string,
+  unitId: string | null = null
+): Promise<void> {
+  const parent = await client.query<{ network_id: string; is_active: boolean; cycle: boolean }>(
+    `
+      WITH RECURSIVE ancestors AS (
+        SELECT id, parent_id
+          FROM org_units
+         WHERE tenant_id = $1
+           AND id = $2
+        UNION
+        SELECT u.id, u.parent_id
+          FROM org_units u
+          JOIN ancestors a ON u.id = a.parent_id
+      )
+      SELECT
+        u.network_id,
+        u.is_active,
+        ($3::uuid IS NOT NULL AND EXISTS (SELECT 1 FROM ancestors WHERE id = $3)) AS cycle
+      FROM org_units u
+      WHERE u.tenant_id = $1
+        AND u.id = $2
+      LIMIT 1;
+    `,
+    [tenantId, parentId, unitId]
+  );
+
+  const row = parent.rows[0];
+  if (!row || !row.is_active) {
+    throw new AppError("Unidade superior nao encontrada ou inativa.", 400);
+  }
+  if (row.network_id !== networkId) {
+    throw new AppError("A unidade superior deve pertencer a mesma rede.", 400);
+  }
+  if (row.cycle) {
+    throw new AppError("Uma unidade nao pode ficar abaixo de si mesma.", 400);
+  }
+}
+
+export async function assertCellUnit(
+  client: PoolClient,
+  tenantId: string,
+  networkId: string,
+  unitId: string
+): Promise<void> {
+  const unit = await client.query<{ network_id: string; is_active: boolean }>(
+    `
+      SELECT network_id, is_active
+        FROM org_units
+       WHERE tenant_id = $1
+         AND id = $2
+       LIMIT 1;
+    `,
+    [tenantId, unitId]
+  );
+
+  const row = unit.rows[0];
+  if (!row || !row.is_active) {
+    throw new AppError("Unidade nao encontrada ou inativa.", 400);
+  }
+  if (row.network_id !== networkId) {
+    throw new AppError("A unidade deve pertencer a rede da celula.", 400);
+  }
+}
@@ -0,0 +1,102 @@
+import { Router } from "express";
+import { z } from "zod";
+import { asyncHandler } from "../common/async-handler";
+import { pool } from "../db/pool";
+import { AuditChanges } from "../lib/audit";
+import { requireAuth } from "../middlewares/auth.middleware";
+import { assertRole, loadAccessContext } from "../panel/access";
+
+const auditQuerySchema = z.object({
+  userId: z.string().uuid().optional(),
+  entityType: z.string().trim().max(60).optional(),
+  entityId: z.string().trim().max(120).optional(),
+  action: z.string().trim().max(80).optional(),
+  from: z.string().date().optional(),
+  to: z.string().date().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+export const auditRoutes = Router();
+
+auditRoutes.use(requireAuth);
+
+auditRoutes.get(
+  "/",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const filters = auditQuerySchema.parse(request.query);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertRole(ctx, ["admin_geral"]);
+
+      const rows = await client.query<{
+        id: string;
+        actor_user_id: string | null;
+        actor_name: string | null;
+        action: string;
+        entity_type: string;
+        entity_id: string | null;
+        changes: AuditChanges;
+        ip_address: string | null;
+        user_agent: string | null;
+        created_at: string;
+      }>(
+        `
+          SELECT
+            a.id,
+            a.actor_user_id,
+            u.full_name AS actor_name,
+            a.action,
+            a.entity_type,
+            a.entity_id,
+            a.changes,
+            a.ip_address,
+            a.user_agent,
+            a.created_at::text
+          FROM audit_logs a
+          LEFT JOIN users u ON u.id = a.actor_user_id
+          WHERE a.tenant_id = $1
+            AND ($2::uuid IS NULL OR a.actor_user_id = $2)
+            AND ($3::text IS NULL OR a.entity_type = $3)
+            AND ($4::text IS NULL OR a.entity_id = $4)
+            AND ($5::text IS NULL OR a.action = $5)
+            AND ($6::date IS NULL OR a.created_at >= $6::date)
+            AND ($7::date IS NULL OR a.created_at < $7::date + 1)
+          ORDER BY a.created_at DESC
+          LIMIT $8
+          OFFSET $9;
+        `,
+        [
+          ctx.tenantId,
+          filters.userId ?? null,
+          filters.entityType || null,
+          filters.entityId || null,
+          filters.action || null,
+          filters.from ?? null,
+          filters.to ?? null,
+          filters.limit,
+          filters.offset
+        ]
+      );
+
+      response.json({
+        rows: rows.rows.map((row) => ({
+          id: row.id,
+          actorUserId: row.actor_user_id,
+          actorName: row.actor_name,
+          action: row.action,
+          entityType: row.entity_type,
+          entityId: row.entity_id,
+          changes: row.changes,
+          ip: row.ip_address,
+          userAgent: row.user_agent,
+          createdAt: row.created_at
+        }))
+      });
+    } finally {
+      client.release();
+    }
+  })
+);
@@ -1,12 +1,22 @@
-import { PoolClient } from "pg";
-import { Router } from "express";
+import { randomBytes } from "crypto";
+import { Pool, PoolClient } from "pg";
+import { Request, Router } from "express";
 import { z } from "zod";
 import { asyncHandler } from "../common/async-handler";
 import { AppError } from "../common/errors";
+import { env } from "../config/env";
 import { pool } from "../db/pool";
-import { signAccessToken } from "../lib/jwt";
+import { recordAudit } from "../lib/audit";
+import { signAccessToken, signMfaChallengeToken, verifyMfaChallengeToken } from "../lib/jwt";
+import { loginLimiter } from "../lib/login-limiter";
+import { mailer } from "../lib/mail";
 import { hashPassword, verifyPassword } from "../lib/password";
+import { openSecret, sealSecret } from "../lib/secret-box";
+import { generateOpaqueToken, hashOpaqueToken } from "../lib/tokens";
+import { buildOtpauthUri, generateTotpSecret, verifyTotpCode } from "../lib/totp";
 import { requireAuth } from "../middlewares/auth.middleware";
+import { reportError } from "../middlewares/error.middleware";
+import { ensureConsolidationStages } from "../panel/consolidation";
 import { TenantRole } from "../types/auth";
 
 const registerSchema = z.object({
@@ -18,6 +28,52 @@ const registerSchema = z.object({
 
 const loginSchema = z.object({
   email: z.string().trim().email().max(160),
+  password: z.string().min(8).max(72),
+  tenantId: z.string().uuid().optional()
+});
+
+const switchTenantSchema = z.object({
+  tenantId: z.string().uuid()
+});
+
+const mfaCodeSchema = z.object({
+  code: z.string().trim().min(6).max(12)
+});
+
+const mfaLoginSchema = z
+  .object({
+    challengeToken: z.string().min(20),
+    code: z.string().trim().min(6).max(8).optional(),
+    recoveryCode: z.string().trim().min(10).max(16).optional()
+  })
+  .refine((data) => data.code || data.recoveryCode, {
+    message: "Informe o codigo do autenticador ou um codigo de recuperacao."
+  });
+
+const mfaChallengeSchema = z.object({
+  challengeToken: z.string().min(20)
+});
+
+const mfaEnableChallengeSchema = z.object({
+  challengeToken: z.string().min(20),
+  code: z.string().trim().min(6).max(8)
+});
+
+const refreshSchema = z.object({
+  refreshToken: z.string().min(20).max(200)
+});
+
+const acceptInvitationSchema = z.object({
+  name: z.string().trim().min(2).max(120).optional(),
+  password: z.string().min(8).max(72).optional()
+});
+
+const forgotPasswordSchema = z.object({
+  email: z.string().trim().email().max(160)
+});
+
+const resetPasswordSchema = z.object({
+  token: z.string().min(20).max(200),
   password: z.string().min(8).max(72)
 });
 
@@ -39,7 +95,20 @@ type MemberRole =
   | "pastor_presidente"
   | "pastor_rede"
   | "lider_celula"
-  | "secretaria";
+  | "secretaria"
+  | "supervisor";
+
+type PendingInvitationRow = {
+  id: string;
+  tenant_id: string;
+  tenant_name: string;
+  email: string;
+  role: MemberRole;
+  role_id: string | null;
+  role_name: string | null;
+  network_ids: string[];
+  cell_ids: string[];
+};
 
 type SessionRow = {
   user_id: string;
@@ -248,10 +317,40 @@ async function seedInitialTenantData(
     `,
     [tenantId, network.rows[0].id, cell.rows[0].id, userName, userId]
   );
+
+  await ensureConsolidationStages(client, tenantId);
+}
+
+async function listActiveMemberships(
+  client: Pool | PoolClient,
+  userId: string
+): Promise<Array<{ tenant_id: string; tenant_name: string; role: MemberRole }>> {
+  const result = await client.query<{
+    tenant_id: string;
+    tenant_name: string;
+    role: MemberRole;
+  }>(
+    `
+      SELECT
+        t.id AS tenant_id,
+        t.name AS tenant_name,
+        tm.role
+      FROM tenant_members tm
+      JOIN tenants t
+        ON t.id = tm.tenant_id
+       AND t.is_active = TRUE
+      WHERE tm.user_id = $1
+        AND tm.is_active = TRUE
+      ORDER BY tm.created_at ASC, t.name ASC;
+    `,
+    [userId]
+  );
+
+  return result.rows;
 }
 
 async function getActiveSessionRow(
-  client: PoolClient,
+  client: Pool | PoolClient,
   userId: string,
   tenantId: string
 ): Promise<SessionRow | null> {
@@ -287,6 +386,364 @@ async function getActiveSessionRow(
   return result.rows[0];
 }
 
+async function createUserSession(
+  db: Pool | PoolClient,
+  request: Request,
+  userId: string,
+  tenantId: string
+): Promise<{ sessionId: string; refreshToken: string }> {
+  const refreshToken = generateOpaqueToken();
+  const result = await db.query<{ id: string }>(
+    `
+      INSERT INTO user_sessions (
+        user_id,
+        tenant_id,
+        refresh_token_hash,
+        user_agent,
+        ip_address,
+        expires_at
+      )
+      VALUES ($1, $2, $3, $4, $5, NOW() + ($6::int * INTERVAL '1 day'))
+      RETURNING id;
+    `,
+    [
+      userId,
+      tenantId,
+      hashOpaqueToken(refreshToken),
+      request.get("user-agent")?.slice(0, 300) ?? null,
+      request.ip ?? null,
+      env.REFRESH_TOKEN_TTL_DAYS
+    ]
+  );
+
+  return { sessionId: result.rows[0].id, refreshToken };
+}
+
+async function recordLoginAttempt(
+  request: Request,
+  attempt: {
+    email: string;
+    success: boolean;
+    failureReason?: string;
+    userId?: string;
+    tenantId?: string;
+  }
+): Promise<void> {
+  await pool.query(
+    `
+      INSERT INTO login_history (
+        user_id,
+        tenant_id,
+        email,
+        success,
+        failure_reason,
+        ip_address,
+        user_agent
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7);
+    `,
+    [
+      attempt.userId ?? null,
+      attempt.tenantId ?? null,
+      attempt.email,
+      attempt.success,
+      attempt.failureReason ?? null,
+      request.ip ?? null,
+      request.get("user-agent")?.slice(0, 300) ?? null
+    ]
+  );
+}
+
+async function getMfaStatus(
+  db: Pool | PoolClient,
+  userId: string,
+  tenantId: string,
+  role: TenantRole
+): Promise<{ enabled: boolean; required: boolean }> {
+  const result = await db.query<{ enabled: boolean; required: boolean }>(
+    `
+      SELECT
+        EXISTS (
+          SELECT 1
+            FROM user_mfa
+           WHERE user_id = $1
+             AND enabled_at IS NOT NULL
+        ) AS enabled,
+        EXISTS (
+          SELECT 1
+            FROM tenant_mfa_required_roles
+           WHERE tenant_id = $2
+             AND role = $3
+        ) AS required;
+    `,
+    [userId, tenantId, role]
+  );
+
+  return result.rows[0];
+}
+
+async function verifyMfaCode(
+  db: Pool | PoolClient,
+  userId: string,
+  code: string
+): Promise<boolean> {
+  const result = await db.query<{ secret_encrypted: string; last_used_step: string | null }>(
+    `
+      SELECT secret_encrypted, last_used_step::text
+        FROM user_mfa
+       WHERE user_id = $1
+         AND enabled_at IS NOT NULL
+       LIMIT 1;
+    `,
+    [userId]
+  );
+
+  if (!result.rowCount) {
+    return false;
+  }
+
+  const step = verifyTotpCode(openSecret(result.rows[0].secret_encrypted), code);
+  const lastUsedStep = Number(result.rows[0].last_used_step ?? "-1");
+  if (step === null || step <= lastUsedStep) {
+    return false;
+  }
+
+  // Conditional so two concurrent requests with the same code cannot both pass.
+  const updated = await db.query(
+    `
+      UPDATE user_mfa
+         SET last_used_step = $1
+       WHERE user_id = $2
+         AND (last_used_step IS NULL OR last_used_step < $1);
+    `,
+    [step, userId]
+  );
+  return updated.rowCount === 1;
+}
+
+function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[^0-9a-f]/g, "");
+}
+
+async function consumeRecoveryCode(
+  db: Pool | PoolClient,
+  userId: string,
+  code: string
+): Promise<boolean> {
+  const result = await db.query(
+    `
+      UPDATE user_mfa_recovery_codes
+         SET used_at = NOW()
+       WHERE user_id = $1
+         AND code_hash = $2
+         AND used_at IS NULL;
+    `,
+    [userId, hashOpaqueToken(normalizeRecoveryCode(code))]
+  );
+
+  return Boolean(result.rowCount);
+}
+
+async function regenerateRecoveryCodes(client: PoolClient, userId: string): Promise<string[]> {
+  const codes = Array.from({ length: 10 }, () => {
+    const raw = randomBytes(5).toString("hex");
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+
+  await client.query("DELETE FROM user_mfa_recovery_codes WHERE user_id = $1;", [userId]);
+  for (const code of codes) {
+    await client.query(
+      "INSERT INTO user_mfa_recovery_codes (user_id, code_hash) VALUES ($1, $2);",
+      [userId, hashOpaqueToken(normalizeRecoveryCode(code))]
+    );
+  }
+
+  return codes;
+}
+
+async function startMfaEnrollment(
+  db: Pool | PoolClient,
+  userId: string,
+  email: string,
+  issuer: string
+): Promise<{ secret: string; otpauthUri: string }> {
+  const secret = generateTotpSecret();
+  const result = await db.query(
+    `
+      INSERT INTO user_mfa (user_id, secret_encrypted)
+      VALUES ($1, $2)
+      ON CONFLICT (user_id)
+      DO UPDATE SET
+        secret_encrypted = EXCLUDED.secret_encrypted,
+        last_used_step = NULL
+      WHERE user_mfa.enabled_at IS NULL;
+    `,
+    [userId, sealSecret(secret)]
+  );
+
+  if (!result.rowCount) {
+    throw new AppError("A verificacao em duas etapas ja esta ativa.", 409);
+  }
+
+  return { secret, otpauthUri: buildOtpauthUri(issuer, email, secret) };
+}
+
+async function confirmMfaEnrollment(
+  client: PoolClient,
+  userId: string,
+  code: string
+): Promise<string[]> {
+  const pending = await client.query<{ secret_encrypted: string }>(
+    `
+      SELECT secret_encrypted
+        FROM user_mfa
+       WHERE user_id = $1
+         AND enabled_at IS NULL
+       LIMIT 1
+       FOR UPDATE;
+    `,
+    [userId]
+  );
+
+  if (!pending.rowCount) {
+    throw new AppError("Nenhuma configuracao de verificacao em andamento.", 400);
+  }
+
+  const step = verifyTotpCode(openSecret(pending.rows[0].secret_encrypted), code);
+  if (step === null) {
+    throw new AppError("Codigo de verificacao invalido.", 400);
+  }
+
+  await client.query(
+    `
+      UPDATE user_mfa
+         SET enabled_at = NOW(),
+             last_used_step = $1
+       WHERE user_id = $2;
+    `,
+    [step, userId]
+  );
+
+  return regenerateRecoveryCodes(client, userId);
+}
+
+async function completeLogin(
+  db: Pool | PoolClient,
+  request: Request,
+  row: SessionRow
+) {
+  await loginLimiter.registerSuccess(row.email);
+  await recordLoginAttempt(request, {
+    email: row.email,
+    success: true,
+    userId: row.user_id,
+    tenantId: row.tenant_id
+  });
+
+  const normalizedRole = normalizeRole(row.role);
+  const session = await createUserSession(db, request, row.user_id, row.tenant_id);
+  const accessToken = signAccessToken({
+    userId: row.user_id,
+    tenantId: row.tenant_id,
+    role: normalizedRole,
+    sessionId: session.sessionId
+  });
+  const memberships = await listActiveMemberships(db, row.user_id);
+
+  return {
+    accessToken,
+    refreshToken: session.refreshToken,
+    user: {
+      id: row.user_id,
+      name: row.full_name,
+      email: row.email
+    },
+    tenant: {
+      id: row.tenant_id,
+      name: row.tenant_name
+    },
+    membership: {
+      role: normalizedRole
+    },
+    memberships: memberships.map((item) => ({
+      tenantId: item.tenant_id,
+      tenantName: item.tenant_name,
+      role: normalizeRole(item.role)
+    }))
+  };
+}
+
+async function startLoginOrChallenge(
+  db: Pool | PoolClient,
+  request: Request,
+  row: SessionRow
+) {
+  const mfa = await getMfaStatus(db, row.user_id, row.tenant_id, normalizeRole(row.role));
+
+  if (mfa.enabled) {
+    return {
+      mfaRequired: true,
+      challengeToken: signMfaChallengeToken({
+        userId: row.user_id,
+        tenantId: row.tenant_id,
+        purpose: "mfa_verify"
+      })
+    };
+  }
+
+  if (mfa.required) {
+    return {
+      mfaSetupRequired: true,
+      challengeToken: signMfaChallengeToken({
+        userId: row.user_id,
+        tenantId: row.tenant_id,
+        purpose: "mfa_setup"
+      })
+    };
+  }
+
+  return completeLogin(db, request, row);
+}
+
+async function findPendingInvitation(
+  client: PoolClient,
+  token: string,
+  forUpdate = false
+): Promise<PendingInvitationRow | null> {
+  const result = await client.query<PendingInvitationRow>(
+    `
+      SELECT
+        i.id,
+        i.tenant_id,
+        t.name AS tenant_name,
+        i.email,
+        i.role,
+        i.role_id,
+        r.name AS role_name,
+        i.network_ids,
+        i.cell_ids
+      FROM tenant_invitations i
+      JOIN tenants t
+        ON t.id = i.tenant_id
+       AND t.is_active = TRUE
+      LEFT JOIN tenant_roles r ON r.id = i.role_id
+      WHERE i.token_hash = $1
+        AND i.accepted_at IS NULL
+        AND i.revoked_at IS NULL
+        AND i.expires_at > NOW()
+      LIMIT 1
+      ${forUpdate ? "FOR UPDATE OF i" : ""};
+    `,
+    [hashOpaqueToken(token)]
+  );
+
+  if (!result.rowCount) {
+    return null;
+  }
+
+  return result.rows[0];
+}
+
 export const authRoutes = Router();
 
 authRoutes.post(
@@ -340,17 +797,39 @@ authRoutes.post(
         userResult.rows[0].email
       );
 
+      await recordAudit(client, request, {
+        tenantId: tenant.id,
+        actorUserId: userResult.rows[0].id,
+        action: "tenant.register",
+        entityType: "tenant",
+        entityId: tenant.id,
+        after: {
+          churchName: tenant.name,
+          ownerName: userResult.rows[0].full_name,
+          ownerEmail: userResult.rows[0].email
+        }
+      });
+
+      const session = await createUserSession(
+        client,
+        request,
+        userResult.rows[0].id,
+        tenant.id
+      );
+
       await client.query("COMMIT;");
 
       const accessToken = signAccessToken({
         userId: userResult.rows[0].id,
         tenantId: tenant.id,
-        role: "admin_geral"
+        role: "admin_geral",
+        sessionId: session.sessionId
       });
 
       response.status(201).json({
         message: "Cadastro realizado com sucesso.",
         accessToken,
+        refreshToken: session.refreshToken,
         user: {
           id: userResult.rows[0].id,
           name: userResult.rows[0].full_name,
@@ -378,6 +857,14 @@ authRoutes.post(
   asyncHandler(async (request, response) => {
     const payload = loginSchema.parse(request.body);
     const email = payload.email.toLowerCase();
+    const ip = request.ip ?? "unknown";
+
+    try {
+      await loginLimiter.assertAllowed(ip, email);
+    } catch (error) {
+      await recordLoginAttempt(request, { email, success: false, failureReason: "locked" });
+      throw error;
+    }
 
     const result = await pool.query<
       SessionRow & {
@@ -403,144 +890,1014 @@ authRoutes.post(
         WHERE lower(u.email) = lower($1)
           AND u.is_active = TRUE
           AND u.deleted_at IS NULL
-        ORDER BY tm.created_at ASC, t.name ASC
-        LIMIT 1;
+        ORDER BY tm.created_at ASC, t.name ASC;
       `,
       [email]
     );
 
     if (!result.rowCount) {
+      await loginLimiter.registerFailure(ip, email);
+      await recordLoginAttempt(request, {
+        email,
+        success: false,
+        failureReason: "unknown_email"
+      });
       throw new AppError("Credenciais invalidas.", 401);
     }
 
-    const row = result.rows[0];
-    const isValidPassword = await verifyPassword(payload.password, row.password_hash);
+    const isValidPassword = await verifyPassword(
+      payload.password,
+      result.rows[0].password_hash
+    );
 
     if (!isValidPassword) {
+      await loginLimiter.registerFailure(ip, email);
+      await recordLoginAttempt(request, {
+        email,
+        success: false,
+        failureReason: "invalid_password",
+        userId: result.rows[0].user_id
+      });
       throw new AppError("Credenciais invalidas.", 401);
     }
 
-    const normalizedRole = normalizeRole(row.role);
-    const accessToken = signAccessToken({
-      userId: row.user_id,
-      tenantId: row.tenant_id,
-      role: normalizedRole
-    });
+    const row = payload.tenantId
+      ? result.rows.find((item) => item.tenant_id === payload.tenantId)
+      : result.rows[0];
 
+    if (!row) {
+      await recordLoginAttempt(request, {
+        email,
+        success: false,
+        failureReason: "tenant_denied",
+        userId: result.rows[0].user_id
+      });
+      throw new AppError("Voce nao possui acesso a igreja informada.", 403);
+    }
+
+    const body = await startLoginOrChallenge(pool, request, row);
     response.status(200).json({
-      message: "Login realizado com sucesso.",
-      accessToken,
-      user: {
-        id: row.user_id,
-        name: row.full_name,
-        email: row.email
-      },
-      tenant: {
-        id: row.tenant_id,
-        name: row.tenant_name
-      },
-      membership: {
-        role: normalizedRole
-      }
+      message:
+        "accessToken" in body
+          ? "Login realizado com sucesso."
+          : "Verificacao em duas etapas necessaria.",
+      ...body
     });
   })
 );
 
-authRoutes.get(
-  "/me",
-  requireAuth,
+authRoutes.post(
+  "/login/mfa",
   asyncHandler(async (request, response) => {
-    const auth = request.auth!;
+    const payload = mfaLoginSchema.parse(request.body);
+    const challenge = verifyMfaChallengeToken(payload.challengeToken, "mfa_verify");
+    const ip = request.ip ?? "unknown";
     const client = await pool.connect();
     try {
-      const row = await getActiveSessionRow(client, auth.userId, auth.tenantId);
+      const row = await getActiveSessionRow(client, challenge.userId, challenge.tenantId);
       if (!row) {
-        throw new AppError("Conta nao encontrada para a igreja informada.", 404);
+        throw new AppError("Desafio de verificacao invalido.", 401);
       }
 
-      response.json({
-        user: {
-          id: row.user_id,
-          name: row.full_name,
-          email: row.email
-        },
-        tenant: {
-          id: row.tenant_id,
-          name: row.tenant_name
-        },
-        membership: {
-          role: normalizeRole(row.role)
-        }
-      });
+      await loginLimiter.assertAllowed(ip, row.email);
+
+      const isValid = payload.code
+        ? await verifyMfaCode(client, row.user_id, payload.code)
+        : await consumeRecoveryCode(client, row.user_id, payload.recoveryCode!);
+
+      if (!isValid) {
+        await loginLimiter.registerFailure(ip, row.email);
+        await recordLoginAttempt(request, {
+          email: row.email,
+          success: false,
+          failureReason: "invalid_mfa",
+          userId: row.user_id
+        });
+        throw new AppError("Codigo de verificacao invalido.", 401);
+      }
+
+      const body = await completeLogin(client, request, row);
+      response.json({ message: "Login realizado com sucesso.", ...body });
     } finally {
       client.release();
     }
   })
 );
 
-authRoutes.put(
-  "/me",
-  requireAuth,
+authRoutes.post(
+  "/login/mfa/setup",
   asyncHandler(async (request, response) => {
-    const payload = updateMeSchema.parse(request.body);
-    const auth = request.auth!;
-
-    const passwordHash = payload.password
-      ? await hashPassword(payload.password)
-      : null;
-
-    const result = await pool.query<{
-      id: string;
-      full_name: string;
-      email: string;
-    }>(
-      `
-        UPDATE users u
-           SET full_name = COALESCE($1, u.full_name),
-               password_hash = COALESCE($2, u.password_hash),
-               updated_at = NOW()
-         WHERE u.id = $3
-           AND u.deleted_at IS NULL
-           AND EXISTS (
-             SELECT 1
-               FROM tenant_members tm
-               JOIN tenants t
-                 ON t.id = tm.tenant_id
-              WHERE tm.user_id = u.id
-                AND tm.tenant_id = $4
-                AND tm.is_active = TRUE
-                AND t.is_active = TRUE
-           )
-         RETURNING id, full_name, email;
-      `,
-      [payload.name ?? null, passwordHash, auth.userId, auth.tenantId]
-    );
+    const payload = mfaChallengeSchema.parse(request.body);
+    const challenge = verifyMfaChallengeToken(payload.challengeToken, "mfa_setup");
+    const client = await pool.connect();
+    try {
+      const row = await getActiveSessionRow(client, challenge.userId, challenge.tenantId);
+      if (!row) {
+        throw new AppError("Desafio de verificacao invalido.", 401);
+      }
 
-    if (!result.rowCount) {
-      throw new AppError("Conta nao encontrada.", 404);
+      const enrollment = await startMfaEnrollment(client, row.user_id, row.email, row.tenant_name);
+      response.json(enrollment);
+    } finally {
+      client.release();
     }
+  })
+);
 
-    const row = result.rows[0];
-    response.json({
-      message: "Conta atualizada com sucesso.",
-      user: {
-        id: row.id,
-        name: row.full_name,
-        email: row.email
+authRoutes.post(
+  "/login/mfa/enable",
+  asyncHandler(async (request, response) => {
+    const payload = mfaEnableChallengeSchema.parse(request.body);
+    const challenge = verifyMfaChallengeToken(payload.challengeToken, "mfa_setup");
+    const client = await pool.connect();
+    try {
+      const row = await getActiveSessionRow(client, challenge.userId, challenge.tenantId);
+      if (!row) {
+        throw new AppError("Desafio de verificacao invalido.", 401);
       }
-    });
+
+      await client.query("BEGIN;");
+      const recoveryCodes = await confirmMfaEnrollment(client, row.user_id, payload.code);
+      await recordAudit(client, request, {
+        tenantId: row.tenant_id,
+        actorUserId: row.user_id,
+        action: "mfa.enable",
+        entityType: "user",
+        entityId: row.user_id,
+        before: { mfaEnabled: false },
+        after: { mfaEnabled: true }
+      });
+      await client.query("COMMIT;");
+
+      const body = await completeLogin(client, request, row);
+      response.json({
+        message: "Verificacao em duas etapas ativada.",
+        recoveryCodes,
+        ...body
+      });
+    } catch (error) {
+      await client.query("ROLLBACK;");
+      throw error;
+    } finally {
+      client.release();
+    }
   })
 );
 
-authRoutes.delete(
-  "/me",
+authRoutes.post(
+  "/mfa/setup",
   requireAuth,
   asyncHandler(async (request, response) => {
     const auth = request.auth!;
     const client = await pool.connect();
-
     try {
-      await client.query("BEGIN;");
+      const row = await getActiveSessionRow(client, auth.userId, auth.tenantId);
+      if (!row) {
+        throw new AppError("Conta nao encontrada.", 404);
+      }
+
+      const enrollment = await startMfaEnrollment(client, row.user_id, row.email, row.tenant_name);
+      response.json(enrollment);
+    } finally {
+      client.release();
+    }
+  })
+);
+
+authRoutes.post(
+  "/mfa/enable",
+  requireAuth,
+  asyncHandler(async (request, response) => {
+    const payload = mfaCodeSchema.parse(request.body);
+    const auth = request.auth!;
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN;");
+      const recoveryCodes = await confirmMfaEnrollment(client, auth.userId, payload.code);
+      await recordAudit(client, request, {
+        tenantId: auth.tenantId,
+        actorUserId: auth.userId,
+        action: "mfa.enable",
+        entityType: "user",
+        entityId: auth.userId,
+        before: { mfaEnabled: false },
+        after: { mfaEnabled: true }
+      });
+      await client.query("COMMIT;");
+      response.json({ message: "Verificacao em duas etapas ativada.", recoveryCodes });
+    } catch (error) {
+      await client.query("ROLLBACK;");
+      throw error;
+    } finally {
+      client.release();
+    }
+  })
+);
+
+authRoutes.post(
+  "/mfa/recovery-codes",
+  requireAuth,
+  asyncHandler(async (request, response) => {
+    const payload = mfaCodeSchema.parse(request.body);
+    const auth = request.auth!;
+    const client = await pool.connect();
+    try {
+      if (!(await verifyMfaCode(client, auth.userId, payload.code))) {
+        throw new AppError("Codigo de verificacao invalido.", 400);
+      }
+
+      await client.query("BEGIN;");
+      const recoveryCodes = await regenerateRecoveryCodes(client, auth.userId);
+      await recordAudit(client, request, {
+        tenantId: auth.tenantId,
+        actorUserId: auth.userId,
+        action: "mfa.recovery_codes_regenerate",
+        entityType: "user",
+        entityId: auth.userId,
+        after: { recoveryCodes: recoveryCodes.length }
+      });
+      await client.query("COMMIT;");
+      response.json({ message: "Novos codigos de recuperacao gerados.", recoveryCodes });
+    } catch (error) {
+      await client.query("ROLLBACK;");
+      throw error;
+    } finally {
+      client.release();
+    }
+  })
+);
+
+authRoutes.post(
+  "/mfa/disable",
+  requireAuth,
+  asyncHandler(async (request, response) => {
+    const payload = mfaCodeSchema.parse(request.body);
+    const auth = request.auth!;
+    const client = await pool.connect();
+    try {
+      const row = await getActiveSessionRow(client, auth.userId, auth.tenantId);
+      if (!row) {
+        throw new AppError("Conta nao encontrada.", 404);
+      }
+
+      const mfa = await getMfaStatus(client, row.user_id, row.tenant_id, normalizeRole(row.role));
+      if (mfa.required) {
+        throw new AppError("Sua igreja exige verificacao em duas etapas para o seu perfil.", 403);
+      }
+
+      const isValid =
+        (await verifyMfaCode(client, row.user_id, payload.code)) ||
+        (await consumeRecoveryCode(client, row.user_id, payload.code));
+      if (!isValid) {
+        throw new AppError("Codigo de verificacao invalido.", 400);
+      }
+
+      await client.query("BEGIN;");
+      await client.query("DELETE FROM user_mfa_recovery_codes WHERE user_id = $1;", [row.user_id]);
+      await client.query("DELETE FROM user_mfa WHERE user_id = $1;", [row.user_id]);
+      await recordAudit(client, request, {
+        tenantId: row.tenant_id,
+        actorUserId: row.user_id,
+        action: "mfa.disable",
+        entityType: "user",
+        entityId: row.user_id,
+        before: { mfaEnabled: true },
+        after: { mfaEnabled: false }
+      });
+      await client.query("COMMIT;");
+      response.status(204).send();
+    } catch (error) {
+      await client.query("ROLLBACK;");
+      throw error;
+    } finally {
+      client.release();
+    }
+  })
+);
+
+authRoutes.post(
+  "/refresh",
+  asyncHandler(async (request, response) => {
+    const payload = refreshSchema.parse(request.body);
+    const tokenHash = hashOpaqueToken(payload.refreshToken);
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN;");
+
+      const sessionResult = await client.query<{
+        id: string;
+        user_id: string;
+        tenant_id: string;
+      }>(
+        `
+          SELECT id, user_id, tenant_id
+            FROM user_sessions
+           WHERE refresh_token_hash = $1
+             AND revoked_at IS NULL
+             AND expires_at > NOW()
+           LIMIT 1
+           FOR UPDATE;
+        `,
+        [tokenHash]
+      );
+
+      if (!sessionResult.rowCount) {
+        await client.query(
+          `
+            UPDATE user_sessions
+               SET revoked_at = NOW()
+             WHERE previous_refresh_token_hash = $1
+               AND revoked_at IS NULL;
+          `,
+          [tokenHash]
+        );
+        await client.query("COMMIT;");
+        throw new AppError("Sessao invalida ou expirada.", 401);
+      }
+
+      const session = sessionResult.rows[0];
+      const row = await getActiveSessionRow(client, session.user_id, session.tenant_id);
+      const mfa = row
+        ? await getMfaStatus(client, row.user_id, row.tenant_id, normalizeRole(row.role))
+        : null;
+      if (!row || (mfa?.required && !mfa.enabled)) {
+        await client.query("UPDATE user_sessions SET revoked_at = NOW() WHERE id = $1;", [
+          session.id
+        ]);
+        await client.query("COMMIT;");
+        throw new AppError("Sessao invalida ou expirada.", 401);
+      }
+
+      const refreshToken = generateOpaqueToken();
+      await client.query(
+        `
+          UPDATE user_sessions
+             SET previous_refresh_token_hash = refresh_token_hash,
+                 refresh_token_hash = $1,
+                 user_agent = COALESCE($2, user_agent),
+                 ip_address = COALESCE($3, ip_address),
+                 last_seen_at = NOW()
+           WHERE id = $4;
+        `,
+        [
+          hashOpaqueToken(refreshToken),
+          request.get("user-agent")?.slice(0, 300) ?? null,
+          request.ip ?? null,
+          session.id
+        ]
+      );
+
+      await client.query("COMMIT;");
+
+      const normalizedRole = normalizeRole(row.role);
+      const accessToken = signAccessToken({
+        userId: row.user_id,
+        tenantId: row.tenant_id,
+        role: normalizedRole,
+        sessionId: session.id
+      });
+
+      response.json({
+        accessToken,
+        refreshToken,
+        tenant: {
+          id: row.tenant_id,
+          name: row.tenant_name
+        },
+        membership: {
+          role: normalizedRole
+        }
+      });
+    } catch (error) {
+      await client.query("ROLLBACK;");
+      throw error;
+    } finally {
+      client.release();
+    }
+  })
+);
+
+authRoutes.post(
+  "/logout",
+  requireAuth,
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    await pool.query(
+      "UPDATE user_sessions SET revoked_at = NOW() WHERE id = $1 AND revoked_at IS NULL;",
+      [auth.sessionId]
+    );
+    response.status(204).send();
+  })
+);
+
+authRoutes.post(
+  "/logout-all",
+  requireAuth,
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const revoked = await pool.query(
+      `
+        UPDATE user_sessions
+           SET revoked_at = NOW()
+         WHERE user_id = $1
+           AND revoked_at IS NULL;
+      `,
+      [auth.userId]
+    );
+    await recordAudit(pool, request, {
+      tenantId: auth.tenantId,
+      actorUserId: auth.userId,
+      action: "session.revoke_all",
+      entityType: "user",
+      entityId: auth.userId,
+      after: { revokedSessions: revoked.rowCount ?? 0 }
+    });
+    response.status(204).send();
+  })
+);
+
+authRoutes.delete(
+  "/sessions/:id",
+  requireAuth,
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const sessionId = z.string().uuid().parse(request.params.id);
+    const result = await pool.query(
+      `
+        UPDATE user_sessions
+           SET revoked_at = NOW()
+         WHERE id = $1
+           AND user_id = $2
+           AND revoked_at IS NULL;
+      `,
+      [sessionId, auth.userId]
+    );
+
+    if (!result.rowCount) {
+      throw new AppError("Sessao nao encontrada.", 404);
+    }
+
+    await recordAudit(pool, request, {
+      tenantId: auth.tenantId,
+      actorUserId: auth.userId,
+      action: "session.revoke",
+      entityType: "session",
+      entityId: sessionId,
+      before: { revoked: false },
+      after: { revoked: true }
+    });
+    response.status(204).send();
+  })
+);
+
+authRoutes.post(
+  "/switch-tenant",
+  requireAuth,
+  asyncHandler(async (request, response) => {
+    const payload = switchTenantSchema.parse(request.body);
+    const auth = request.auth!;
+    const client = await pool.connect();
+    try {
+      const row = await getActiveSessionRow(client, auth.userId, payload.tenantId);
+      if (!row) {
+        throw new AppError("Voce nao possui acesso a igreja informada.", 403);
+      }
+
+      const mfa = await getMfaStatus(client, row.user_id, row.tenant_id, normalizeRole(row.role));
+      if (mfa.required && !mfa.enabled) {
+        throw new AppError(
+          "Esta igreja exige verificacao em duas etapas. Ative-a antes de continuar.",
+          403
+        );
+      }
+
+      await client.query("UPDATE user_sessions SET tenant_id = $1 WHERE id = $2;", [
+        row.tenant_id,
+        auth.sessionId
+      ]);
+
+      const normalizedRole = normalizeRole(row.role);
+      const accessToken = signAccessToken({
+        userId: row.user_id,
+        tenantId: row.tenant_id,
+        role: normalizedRole,
+        sessionId: auth.sessionId
+      });
+
+      response.json({
+        message: "Igreja alterada com sucesso.",
+        accessToken,
+        user: {
+          id: row.user_id,
+          name: row.full_name,
+          email: row.email
+        },
+        tenant: {
+          id: row.tenant_id,
+          name: row.tenant_name
+        },
+        membership: {
+          role: normalizedRole
+        }
+      });
+    } finally {
+      client.release();
+    }
+  })
+);
+
+authRoutes.post(
+  "/password/forgot",
+  asyncHandler(async (request, response) => {
+    const payload = forgotPasswordSchema.parse(request.body);
+    const email = payload.email.toLowerCase();
+    const ip = request.ip ?? "unknown";
+
+    await loginLimiter.assertResetAllowed(ip, email);
+    await loginLimiter.registerResetRequest(ip, email);
+
+    // A single statement whether or not the account exists, and the e-mail is
+    // sent after responding, so response times do not reveal registered e-mails.
+    const token = generateOpaqueToken();
+    const userResult = await pool.query<{ id: string; full_name: string; email: string }>(
+      `
+        WITH target AS (
+          SELECT id, full_name, email
+            FROM users
+           WHERE lower(email) = lower($1)
+             AND is_active = TRUE
+             AND deleted_at IS NULL
+           LIMIT 1
+        ),
+        superseded AS (
+          UPDATE password_reset_tokens
+             SET used_at = NOW()
+           WHERE user_id IN (SELECT id FROM target)
+             AND used_at IS NULL
+        ),
+        created AS (
+          INSERT INTO password_reset_tokens (user_id, token_hash, expires_at, requested_ip)
+          SELECT id, $2, NOW() + ($3::int * INTERVAL '1 minute'), $4
+            FROM target
+        )
+        SELECT id, full_name, email
+          FROM target;
+      `,
+      [email, hashOpaqueToken(token), env.PASSWORD_RESET_TTL_MINUTES, request.ip ?? null]
+    );
+
+    response.status(202).json({
+      message: "Se o e-mail estiver cadastrado, enviaremos as instrucoes de recuperacao."
+    });
+
+    if (userResult.rowCount) {
+      const user = userResult.rows[0];
+      const resetUrl = `${env.APP_URL}/?reset=${encodeURIComponent(token)}`;
+      mailer
+        .send({
+          to: user.email,
+          subject: "Redefinicao de senha",
+          text: [
+            `Ola, ${user.full_name}.`,
+            "",
+            "Recebemos um pedido para redefinir sua senha. Acesse o link abaixo:",
+            resetUrl,
+            "",
+            `O link expira em ${env.PASSWORD_RESET_TTL_MINUTES} minutos e so pode ser usado uma vez.`,
+            "Se voce nao fez este pedido, ignore este e-mail."
+          ].join("\n")
+        })
+        .catch(reportError);
+    }
+  })
+);
+
+authRoutes.post(
+  "/password/reset",
+  asyncHandler(async (request, response) => {
+    const payload = resetPasswordSchema.parse(request.body);
+    const passwordHash = await hashPassword(payload.password);
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN;");
+
+      const tokenResult = await client.query<{ id: string; user_id: string }>(
+        `
+          SELECT prt.id, prt.user_id
+            FROM password_reset_tokens prt
+            JOIN users u
+              ON u.id = prt.user_id
+             AND u.is_active = TRUE
+             AND u.deleted_at IS NULL
+           WHERE prt.token_hash = $1
+             AND prt.used_at IS NULL
+             AND prt.expires_at > NOW()
+           LIMIT 1
+           FOR UPDATE OF prt;
+        `,
+        [hashOpaqueToken(payload.token)]
+      );
+
+      if (!tokenResult.rowCount) {
+        throw new AppError("Token invalido ou expirado.", 400);
+      }
+
+      const resetToken = tokenResult.rows[0];
+
+      await client.query(
+        "UPDATE password_reset_tokens SET used_at = NOW() WHERE id = $1;",
+        [resetToken.id]
+      );
+
+      await client.query(
+        `
+          UPDATE users
+             SET password_hash = $1,
+                 sessions_revoked_at = NOW(),
+                 updated_at = NOW()
+           WHERE id = $2;
+        `,
+        [passwordHash, resetToken.user_id]
+      );
+
+      await client.query(
+        `
+          UPDATE user_sessions
+             SET revoked_at = NOW()
+           WHERE user_id = $1
+             AND revoked_at IS NULL;
+        `,
+        [resetToken.user_id]
+      );
+
+      await recordAudit(client, request, {
+        tenantId: null,
+        actorUserId: resetToken.user_id,
+        action: "password.reset",
+        entityType: "user",
+        entityId: resetToken.user_id,
+        before: { passwordChanged: false },
+        after: { passwordChanged: true }
+      });
+
+      await client.query("COMMIT;");
+      response.json({ message: "Senha redefinida com sucesso. Entre novamente." });
+    } catch (error) {
+      await client.query("ROLLBACK;");
+      throw error;
+    } finally {
+      client.release();
+    }
+  })
+);
+
+authRoutes.get(
+  "/invitations/:token",
+  asyncHandler(async (request, response) => {
+    const client = await pool.connect();
+    try {
+      const invitation = await findPendingInvitation(client, String(request.params.token));
+      if (!invitation) {
+        throw new AppError("Convite invalido ou expirado.", 404);
+      }
+
+      const existingUser = await client.query(
+        "SELECT id FROM users WHERE lower(email) = lower($1) AND deleted_at IS NULL LIMIT 1;",
+        [invitation.email]
+      );
+
+      response.json({
+        email: invitation.email,
+        tenant: {
+          id: invitation.tenant_id,
+          name: invitation.tenant_name
+        },
+        membership: {
+          role: normalizeRole(invitation.role),
+          roleName: invitation.role_name
+        },
+        hasAccount: Boolean(existingUser.rowCount)
+      });
+    } finally {
+      client.release();
+    }
+  })
+);
+
+authRoutes.post(
+  "/invitations/:token/accept",
+  asyncHandler(async (request, response) => {
+    const payload = acceptInvitationSchema.parse(request.body);
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN;");
+
+      const invitation = await findPendingInvitation(client, String(request.params.token), true);
+      if (!invitation) {
+        throw new AppError("Convite invalido ou expirado.", 404);
+      }
+
+      const existingUser = await client.query<{
+        id: string;
+        full_name: string;
+        email: string;
+        password_hash: string;
+        is_active: boolean;
+      }>(
+        `
+          SELECT id, full_name, email, password_hash, is_active
+            FROM users
+           WHERE lower(email) = lower($1)
+             AND deleted_at IS NULL
+           LIMIT 1;
+        `,
+        [invitation.email]
+      );
+
+      let user: { id: string; full_name: string; email: string } | undefined =
+        existingUser.rows[0];
+      if (existingUser.rows[0]) {
+        const existing = existingUser.rows[0];
+        const ip = request.ip ?? "unknown";
+        await loginLimiter.assertAllowed(ip, existing.email);
+        if (!payload.password) {
+          throw new AppError("Informe a senha da sua conta para aceitar o convite.", 400);
+        }
+        if (!(await verifyPassword(payload.password, existing.password_hash))) {
+          await loginLimiter.registerFailure(ip, existing.email);
+          throw new AppError("Credenciais invalidas.", 401);
+        }
+        if (!existing.is_active) {
+          throw new AppError("Conta desativada. Fale com o administrador.", 403);
+        }
+      } else {
+        if (!payload.name || !payload.password) {
+          throw new AppError("Informe nome e senha para criar sua conta.", 400);
+        }
+
+        const createdUser = await client.query<{
+          id: string;
+          full_name: string;
+          email: string;
+        }>(
+          `
+            INSERT INTO users (full_name, email, password_hash)
+            VALUES ($1, $2, $3)
+            RETURNING id, full_name, email;
+          `,
+          [payload.name, invitation.email, await hashPassword(payload.password)]
+        );
+        user = createdUser.rows[0];
+      }
+
+      await client.query(
+        `
+          INSERT INTO tenant_members (tenant_id, user_id, role, role_id)
+          VALUES ($1, $2, $3, $4)
+          ON CONFLICT (tenant_id, user_id)
+          DO UPDATE SET
+            role = EXCLUDED.role,
+            role_id = EXCLUDED.role_id,
+            is_active = TRUE,
+            updated_at = NOW();
+        `,
+        [invitation.tenant_id, user.id, invitation.role, invitation.role_id]
+      );
+
+      await client.query(
+        `
+          INSERT INTO user_network_scopes (tenant_id, user_id, network_id)
+          SELECT $1, $2, n.id
+            FROM church_networks n
+           WHERE n.tenant_id = $1
+             AND n.id = ANY($3::uuid[])
+          ON CONFLICT DO NOTHING;
+        `,
+        [invitation.tenant_id, user.id, invitation.network_ids]
+      );
+
+      await client.query(
+        `
+          INSERT INTO user_cell_scopes (tenant_id, user_id, cell_id)
+          SELECT $1, $2, c.id
+            FROM cells c
+           WHERE c.tenant_id = $1
+             AND c.id = ANY($3::uuid[])
+          ON CONFLICT DO NOTHING;
+        `,
+        [invitation.tenant_id, user.id, invitation.cell_ids]
+      );
+
+      await client.query(
+        `
+          UPDATE tenant_invitations
+             SET accepted_at = NOW(),
+                 accepted_by_user_id = $1
+           WHERE id = $2;
+        `,
+        [user.id, invitation.id]
+      );
+
+      await recordAudit(client, request, {
+        tenantId: invitation.tenant_id,
+        actorUserId: user.id,
+        action: "invitation.accept",
+        entityType: "invitation",
+        entityId: invitation.id,
+        after: {
+          userId: user.id,
+          email: invitation.email,
+          role: invitation.role,
+          roleId: invitation.role_id
+        }
+      });
+
+      await client.query("COMMIT;");
+
+      const row = await getActiveSessionRow(client, user.id, invitation.tenant_id);
+      if (!row) {
+        throw new AppError("Conta nao encontrada para a igreja informada.", 404);
+      }
+
+      const body = await startLoginOrChallenge(client, request, row);
+      response.status(201).json({
+        message: "Convite aceito com sucesso.",
+        ...body
+      });
+    } catch (error) {
+      await client.query("ROLLBACK;");
+      throw error;
+    } finally {
+      client.release();
+    }
+  })
+);
+
+authRoutes.get(
+  "/me",
+  requireAuth,
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const client = await pool.connect();
+    try {
+      const row = await getActiveSessionRow(client, auth.userId, auth.tenantId);
+      if (!row) {
+        throw new AppError("Conta nao encontrada para a igreja informada.", 404);
+      }
+
+      const memberships = await listActiveMemberships(client, auth.userId);
+      const mfa = await getMfaStatus(client, row.user_id, row.tenant_id, normalizeRole(row.role));
+      const sessions = await client.query<{
+        id: string;
+        user_agent: string | null;
+        ip_address: string | null;
+        created_at: string;
+        last_seen_at: string;
+      }>(
+        `
+          SELECT id, user_agent, ip_address, created_at::text, last_seen_at::text
+            FROM user_sessions
+           WHERE user_id = $1
+             AND revoked_at IS NULL
+             AND expires_at > NOW()
+           ORDER BY last_seen_at DESC;
+        `,
+        [auth.userId]
+      );
+
+      response.json({
+        user: {
+          id: row.user_id,
+          name: row.full_name,
+          email: row.email
+        },
+        tenant: {
+          id: row.tenant_id,
+          name: row.tenant_name
+        },
+        membership: {
+          role: normalizeRole(row.role)
+        },
+        memberships: memberships.map((item) => ({
+          tenantId: item.tenant_id,
+          tenantName: item.tenant_name,
+          role: normalizeRole(item.role)
+        })),
+        sessions: sessions.rows.map((item) => ({
+          id: item.id,
+          device: item.user_agent,
+          ip: item.ip_address,
+          createdAt: item.created_at,
+          lastSeenAt: item.last_seen_at,
+          current: item.id === auth.sessionId
+        })),
+        mfa
+      });
+    } finally {
+      client.release();
+    }
+  })
+);
+
+authRoutes.put(
+  "/me",
+  requireAuth,
+  asyncHandler(async (request, response) => {
+    const payload = updateMeSchema.parse(request.body);
+    const auth = request.auth!;
+
+    const passwordHash = payload.password
+      ? await hashPassword(payload.password)
+      : null;
+
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN;");
+
+      const result = await client.query<{
+        id: string;
+        full_name: string;
+        email: string;
+        previous_name: string;
+      }>(
+        `
+          UPDATE users u
+             SET full_name = COALESCE($1, u.full_name),
+                 password_hash = COALESCE($2, u.password_hash),
+                 updated_at = NOW()
+            FROM (SELECT id, full_name FROM users WHERE id = $3) previous
+           WHERE u.id = previous.id
+             AND u.deleted_at IS NULL
+             AND EXISTS (
+               SELECT 1
+                 FROM tenant_members tm
+                 JOIN tenants t
+                   ON t.id = tm.tenant_id
+                WHERE tm.user_id = u.id
+                  AND tm.tenant_id = $4
+                  AND tm.is_active = TRUE
+                  AND t.is_active = TRUE
+             )
+           RETURNING u.id, u.full_name, u.email, previous.full_name AS previous_name;
+        `,
+        [payload.name ?? null, passwordHash, auth.userId, auth.tenantId]
+      );
+
+      if (!result.rowCount) {
+        throw new AppError("Conta nao encontrada.", 404);
+      }
+
+      if (passwordHash) {
+        await client.query(
+          `
+            UPDATE user_sessions
+               SET revoked_at = NOW()
+             WHERE user_id = $1
+               AND id <> $2
+               AND revoked_at IS NULL;
+          `,
+          [auth.userId, auth.sessionId]
+        );
+      }
+
+      const row = result.rows[0];
+      await recordAudit(client, request, {
+        tenantId: auth.tenantId,
+        actorUserId: auth.userId,
+        action: "account.update",
+        entityType: "user",
+        entityId: auth.userId,
+        before: { name: row.previous_name, passwordChanged: false },
+        after: { name: row.full_name, passwordChanged: Boolean(passwordHash) }
+      });
+      await client.query("COMMIT;");
+
+      response.json({
+        message: "Conta atualizada com sucesso.",
+        user: {
+          id: row.id,
+          name: row.full_name,
+          email: row.email
+        }
+      });
+    } catch (error) {
+      await client.query("ROLLBACK;");
+      throw error;
+    } finally {
+      client.release();
+    }
+  })
+);
+
+authRoutes.delete(
+  "/me",
+  requireAuth,
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const client = await pool.connect();
+
+    try {
+      await client.query("BEGIN;");
 
       const membershipUpdate = await client.query(
         `
@@ -573,6 +1930,17 @@ authRoutes.delete(
       );
 
       const total = Number(activeMemberships.rows[0]?.total ?? "0");
+      await client.query(
+        `
+          UPDATE user_sessions
+             SET revoked_at = NOW()
+           WHERE user_id = $1
+             AND ($2::boolean OR tenant_id = $3)
+             AND revoked_at IS NULL;
+        `,
+        [auth.userId, total === 0, auth.tenantId]
+      );
+
       if (total === 0) {
         await client.query(
           `
@@ -587,6 +1955,16 @@ authRoutes.delete(
         );
       }
 
+      await recordAudit(client, request, {
+        tenantId: auth.tenantId,
+        actorUserId: auth.userId,
+        action: total === 0 ? "account.delete" : "membership.leave",
+        entityType: "user",
+        entityId: auth.userId,
+        before: { membershipActive: true, accountActive: true },
+        after: { membershipActive: false, accountActive: total > 0 }
+      });
+
       await client.query("COMMIT;");
       response.status(204).send();
     } catch (error) {
@@ -0,0 +1,483 @@
+import { PoolClient } from "pg";
+import { Router } from "express";
+import { z } from "zod";
+import { asyncHandler } from "../common/async-handler";
+import { AppError } from "../common/errors";
+import { pool } from "../db/pool";
+import { recordAudit } from "../lib/audit";
+import { requireAuth } from "../middlewares/auth.middleware";
+import {
+  assertCellInScope,
+  assertPermission,
+  assertRole,
+  getVisibleCells,
+  loadAccessContext
+} from "../panel/access";
+import {
+  careAlertKinds,
+  careAlertStatuses,
+  CareAlertStatus,
+  careSettingsSchema,
+  evaluateCareAlerts,
+  loadCareSettings
+} from "../panel/care";
+
+const listAlertsQuerySchema = z.object({
+  status: z.enum([...careAlertStatuses, "active", "all"]).default("active"),
+  kind: z.enum(careAlertKinds).optional(),
+  cellId: z.string().uuid().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+const noteSchema = z.object({
+  note: z.string().trim().min(2).max(2000)
+});
+
+const closeSchema = z.object({
+  resolution: z.string().trim().min(2).max(2000).optional()
+});
+
+type AlertRow = {
+  id: string;
+  participant_id: string;
+  participant_name: string;
+  cell_id: string;
+  cell_name: string;
+  network_id: string;
+  kind: string;
+  status: CareAlertStatus;
+  details: Record<string, unknown>;
+  detected_at: string;
+  acknowledged_by_name: string | null;
+  acknowledged_at: string | null;
+  closed_by_name: string | null;
+  closed_at: string | null;
+  resolution: string | null;
+  notes_count: number;
+};
+
+const alertColumns = `
+  ca.id,
+  ca.participant_id,
+  p.full_name AS participant_name,
+  ca.cell_id,
+  c.name AS cell_name,
+  c.network_id,
+  ca.kind,
+  ca.status,
+  ca.details,
+  ca.detected_at::text,
+  au.full_name AS acknowledged_by_name,
+  ca.acknowledged_at::text,
+  cu.full_name AS closed_by_name,
+  ca.closed_at::text,
+  ca.resolution,
+  (
+    SELECT COUNT(*)::int
+      FROM care_alert_notes n
+     WHERE n.alert_id = ca.id
+  ) AS notes_count
+`;
+
+const alertJoins = `
+  JOIN participants p ON p.id = ca.participant_id
+  JOIN cells c ON c.id = ca.cell_id
+  LEFT JOIN users au ON au.id = ca.acknowledged_by_user_id
+  LEFT JOIN users cu ON cu.id = ca.closed_by_user_id
+`;
+
+function toAlert(row: AlertRow) {
+  return {
+    id: row.id,
+    participantId: row.participant_id,
+    participantName: row.participant_name,
+    cellId: row.cell_id,
+    cellName: row.cell_name,
+    kind: row.kind,
+    status: row.status,
+    details: row.details,
+    detectedAt: row.detected_at,
+    acknowledgedBy: row.acknowledged_by_name,
+    acknowledgedAt: row.acknowledged_at,
+    closedBy: row.closed_by_name,
+    closedAt: row.closed_at,
+    resolution: row.resolution,
+    notesCount: row.notes_count
+  };
+}
+
+async function findAlert(
+  client: PoolClient,
+  tenantId: string,
+  alertId: string,
+  forUpdate = false
+): Promise<AlertRow | null> {
+  const result = await client.query<AlertRow>(
+    `
+      SELECT ${alertColumns}
+        FROM care_alerts ca
+        ${alertJoins}
+       WHERE ca.tenant_id = $1
+         AND ca.id = $2
+       LIMIT 1
+       ${forUpdate ? "FOR UPDATE OF ca" : ""};
+    `,
+    [tenantId, alertId]
+  );
+
+  return result.rows[0] ?? null;
+}
+
+export const careRoutes = Router();
+
+careRoutes.use(requireAuth);
+
+careRoutes.get(
+  "/alerts",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const filters = listAlertsQuerySchema.parse(request.query);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "care", "view");
+      const cellIds = (await getVisibleCells(client, ctx)).map((cell) => cell.id);
+      const rows = await client.query<AlertRow & { total: string }>(
+        `
+          SELECT ${alertColumns}, COUNT(*) OVER()::text AS total
+            FROM care_alerts ca
+            ${alertJoins}
+           WHERE ca.tenant_id = $1
+             AND ca.cell_id = ANY($2::uuid[])
+             AND (
+               $3::text = 'all'
+               OR ($3::text = 'active' AND ca.status <> 'closed')
+               OR ca.status = $3
+             )
+             AND ($4::text IS NULL OR ca.kind = $4)
+             AND ($5::uuid IS NULL OR ca.cell_id = $5)
+           ORDER BY ca.detected_at DESC
+           LIMIT $6
+          OFFSET $7;
+        `,
+        [
+          ctx.tenantId,
+          cellIds,
+          filters.status,
+          filters.kind ?? null,
+          filters.cellId ?? null,
+          filters.limit,
+          filters.offset
+        ]
+      );
+
+      response.json({
+        total: Number(rows.rows[0]?.total ?? "0"),
+        rows: rows.rows.map(toAlert)
+      });
+    } finally {
+      client.release();
+    }
+  })
+);
+
+careRoutes.post(
+  "/alerts/evaluate",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "care", "create");
+      const cellIds = (await getVisibleCells(client, ctx)).map((cell) => cell.id);
+      const created = await evaluateCareAlerts(client, ctx.tenantId, cellIds);
+
+      response.json({ message: "Regras de cuidado avaliadas.", created });
+    } finally {
+      client.release();
+    }
+  })
+);
+
+careRoutes.get(
+  "/alerts/:id",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const alertId = z.string().uuid().parse(request.params.id);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "care", "view");
+      const alert = await findAlert(client, ctx.tenantId, alertId);
+      if (!alert) {
+        throw new AppError("Alerta nao encontrado.", 404);
+      }
+      assertCellInScope(ctx, { id: alert.cell_id, network_id: alert.network_id });
+
+      const notes = await client.query<{
+        id: string;
+        note: string;
+        author_name: string;
+        created_at: string;
+      }>(
+        `
+          SELECT n.id, n.note, u.full_name AS author_name, n.created_at::text
+            FROM care_alert_notes n
+            JOIN users u ON u.id = n.author_user_id
+           WHERE n.alert_id = $1
+             AND n.tenant_id = $2
+           ORDER BY n.created_at;
+        `,
+        [alert.id, ctx.tenantId]
+      );
+
+      response.json({
+        alert: toAlert(alert),
+        notes: notes.rows.map((row) => ({
+          id: row.id,
+          note: row.note,
+          author: row.author_name,
+          createdAt: row.created_at
+        }))
+      });
+    } finally {
+      client.release();
+    }
+  })
+);
+
+careRoutes.post(
+  "/alerts/:id/acknowledge",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const alertId = z.string().uuid().parse(request.params.id);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "care", "edit");
+
+      await client.query("BEGIN;");
+      const alert = await findAlert(client, ctx.tenantId, alertId, true);
+      if (!alert) {
+        throw new AppError("Alerta nao encontrado.", 404);
+      }
+      assertCellInScope(ctx, { id: alert.cell_id, network_id: alert.network_id });
+      if (alert.status !== "open") {
+        throw new AppError("Somente alertas abertos podem ser reconhecidos.", 409);
+      }
+
+      await client.query(
+        `
+          UPDATE care_alerts
+             SET status = 'acknowledged',
+                 acknowledged_by_user_id = $3,
+                 acknowledged_at = NOW()
+           WHERE id = $1
+             AND tenant_id = $2;
+        `,
+        [alert.id, ctx.tenantId, ctx.userId]
+      );
+      await recordAudit(client, request, {
+        tenantId: ctx.tenantId,
+        actorUserId: ctx.userId,
+        action: "care_alert.acknowledge",
+        entityType: "care_alert",
+        entityId: alert.id,
+        before: { status: alert.status },
+        after: { status: "acknowledged" }
+      });
+      await client.query("COMMIT;");
+
+      response.json({ message: "Alerta reconhecido." });
+    } catch (error) {
+      await client.query("ROLLBACK;");
+      throw error;
+    } finally {
+      client.release();
+    }
+  })
+);
+
+careRoutes.post(
+  "/alerts/:id/notes",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const alertId = z.string().uuid().parse(request.params.id);
+    const payload = noteSchema.parse(request.body);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "care", "edit");
+
+      await client.query("BEGIN;");
+      const alert = await findAlert(client, ctx.tenantId, alertId, true);
+      if (!alert) {
+        throw new AppError("Alerta nao encontrado.", 404);
+      }
+      assertCellInScope(ctx, { id: alert.cell_id, network_id: alert.network_id });
+      if (alert.status === "closed") {
+        throw new AppError("Alerta ja encerrado.", 409);
+      }
+
+      const created = await client.query<{ id: string; created_at: string }>(
+        `
+          INSERT INTO care_alert_notes (alert_id, tenant_id, author_user_id, note)
+          VALUES ($1, $2, $3, $4)
+          RETURNING id, created_at::text;
+        `,
+        [alert.id, ctx.tenantId, ctx.userId, payload.note]
+      );
+      await recordAudit(client, request, {
+        tenantId: ctx.tenantId,
+        actorUserId: ctx.userId,
+        action: "care_alert.note",
+        entityType: "care_alert",
+        entityId: alert.id,
+        after: { noteId: created.rows[0].id, note: payload.note }
+      });
+      await client.query("COMMIT;");
+
+      response.status(201).json({
+        message: "Anotacao registrada.",
+        id: created.rows[0].id,
+        createdAt: created.rows[0].created_at
+      });
+    } catch (error) {
+      await client.query("ROLLBACK;");
+      throw error;
+    } finally {
+      client.release();
+    }
+  })
+);
+
+careRoutes.post(
+  "/alerts/:id/close",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const alertId = z.string().uuid().parse(request.params.id);
+    const payload = closeSchema.parse(request.body ?? {});
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "care", "edit");
+
+      await client.query("BEGIN;");
+      const alert = await findAlert(client, ctx.tenantId, alertId, true);
+      if (!alert) {
+        throw new AppError("Alerta nao encontrado.", 404);
+      }
+      assertCellInScope(ctx, { id: alert.cell_id, network_id: alert.network_id });
+      if (alert.status === "closed") {
+        throw new AppError("Alerta ja encerrado.", 409);
+      }
+
+      await client.query(
+        `
+          UPDATE care_alerts
+             SET status = 'closed',
+                 closed_by_user_id = $3,
+                 closed_at = NOW(),
+                 resolution = $4
+           WHERE id = $1
+             AND tenant_id = $2;
+        `,
+        [alert.id, ctx.tenantId, ctx.userId, payload.resolution ?? null]
+      );
+      await recordAudit(client, request, {
+        tenantId: ctx.tenantId,
+        actorUserId: ctx.userId,
+        action: "care_alert.close",
+        entityType: "care_alert",
+        entityId: alert.id,
+        before: { status: alert.status },
+        after: { status: "closed", resolution: payload.resolution ?? null }
+      });
+      await client.query("COMMIT;");
+
+      response.json({ message: "Alerta encerrado." });
+    } catch (error) {
+      await client.query("ROLLBACK;");
+      throw error;
+    } finally {
+      client.release();
+    }
+  })
+);
+
+careRoutes.get(
+  "/settings",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "care", "view");
+      const settings = await loadCareSettings(client, ctx.tenantId);
+
+      response.json({ settings });
+    } finally {
+      client.release();
+    }
+  })
+);
+
+careRoutes.put(
+  "/settings",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const payload = careSettingsSchema.parse(request.body);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertRole(ctx, ["admin_geral"]);
+
+      await client.query("BEGIN;");
+      const before = await loadCareSettings(client, ctx.tenantId);
+      await client.query(
+        `
+          INSERT INTO tenant_care_settings (
+            tenant_id,
+            absence_threshold,
+            visitor_return_days,
+            regression_lookback_days,
+            updated_by_user_id
+          )
+          VALUES ($1, $2, $3, $4, $5)
+          ON CONFLICT (tenant_id)
+          DO UPDATE SET
+            absence_threshold = EXCLUDED.absence_threshold,
+            visitor_return_days = EXCLUDED.visitor_return_days,
+            regression_lookback_days = EXCLUDED.regression_lookback_days,
+            updated_by_user_id = EXCLUDED.updated_by_user_id,
+            updated_at = NOW();
+        `,
+        [
+          ctx.tenantId,
+          payload.absenceThreshold,
+          payload.visitorReturnDays,
+          payload.regressionLookbackDays,
+          ctx.userId
+        ]
+      );
+      await recordAudit(client, request, {
+        tenantId: ctx.tenantId,
+        actorUserId: ctx.userId,
+        action: "care_settings.update",
+        entityType: "tenant_care_settings",
+        entityId: ctx.tenantId,
+        before,
+        after: payload
+      });
+      await client.query("COMMIT;");
+
+      response.json({ message: "Parametros de cuidado atualizados.", settings: payload });
+    } catch (error) {
+      await client.query("ROLLBACK;");
+      throw error;
+    } finally {
+      client.release();
+    }
+  })
+);
@@ -0,0 +1,683 @@
+import { PoolClient } from "pg";
+import { Router } from "express";
+import { z } from "zod";
+import { asyncHandler } from "../common/async-handler";
+import { AppError } from "../common/errors";
+import { pool } from "../db/pool";
+import { recordAudit } from "../lib/audit";
+import { requireAuth } from "../middlewares/auth.middleware";
+import {
+  AccessContext,
+  assertCellInScope,
+  assertPermission,
+  getVisibleCells,
+  loadAccessContext
+} from "../panel/access";
+import { evaluateCareAlerts } from "../panel/care";
+
+const reportSchema = z.object({
+  cellId: z.string().uuid(),
+  meetingDate: z.string().date(),
+  presentParticipantIds: z.array(z.string().uuid()).default([]),
+  visitorsCount: z.coerce.number().int().min(0).max(1000).default(0),
+  offeringAmount: z.coerce.number().min(0).max(1000000).default(0),
+  lessonTitle: z.string().trim().min(2).max(200).optional(),
+  notes: z.string().trim().max(1000).optional()
+});
+
+const updateReportSchema = reportSchema.omit({ cellId: true });
+
+const listReportsQuerySchema = z.object({
+  cellId: z.string().uuid().optional(),
+  networkId: z.string().uuid().optional(),
+  from: z.string().date().optional(),
+  to: z.string().date().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+const pendingQuerySchema = z.object({
+  weekStart: z.string().date().optional(),
+  networkId: z.string().uuid().optional()
+});
+
+type ReportRow = {
+  id: string;
+  cell_id: string;
+  cell_name: string;
+  network_id: string;
+  network_name: string;
+  week_start: string;
+  meeting_date: string;
+  present_count: number;
+  visitors_count: number;
+  offering_amount: string;
+  lesson_title: string | null;
+  notes: string | null;
+  submitted_by_name: string;
+  created_at: string;
+  updated_at: string;
+};
+
+const reportColumns = `
+  r.id,
+  r.cell_id,
+  c.name AS cell_name,
+  c.network_id,
+  n.name AS network_name,
+  r.week_start::text,
+  r.meeting_date::text,
+  (
+    SELECT COUNT(*)::int
+      FROM cell_meeting_attendees a
+     WHERE a.report_id = r.id
+  ) AS present_count,
+  r.visitors_count,
+  r.offering_amount::text,
+  r.lesson_title,
+  r.notes,
+  su.full_name AS submitted_by_name,
+  r.created_at::text,
+  r.updated_at::text
+`;
+
+const reportJoins = `
+  JOIN cells c ON c.id = r.cell_id
+  JOIN church_networks n ON n.id = c.network_id
+  JOIN users su ON su.id = r.submitted_by_user_id
+`;
+
+function toReport(row: ReportRow) {
+  return {
+    id: row.id,
+    cellId: row.cell_id,
+    cellName: row.cell_name,
+    networkId: row.network_id,
+    networkName: row.network_name,
+    weekStart: row.week_start,
+    meetingDate: row.meeting_date,
+    presentCount: row.present_count,
+    visitorsCount: row.visitors_count,
+    totalAttendance: row.present_count + row.visitors_count,
+    offeringAmount: Number(row.offering_amount),
+    lessonTitle: row.lesson_title,
+    notes: row.notes,
+    submittedBy: row.submitted_by_name,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+function toAuditValues(row: ReportRow, presentParticipantIds: string[]) {
+  return {
+    cellId: row.cell_id,
+    meetingDate: row.meeting_date,
+    presentParticipantIds,
+    visitorsCount: row.visitors_count,
+    offeringAmount: Number(row.offering_amount),
+    lessonTitle: row.lesson_title,
+    notes: row.notes
+  };
+}
+
+async function getVisibleCellIds(
+  client: PoolClient,
+  ctx: AccessContext
+): Promise<string[] | null> {
+  if (ctx.scope === "all") {
+    return null;
+  }
+
+  const cells = await getVisibleCells(client, ctx);
+  return cells.map((cell) => cell.id);
+}
+
+async function findReport(
+  client: PoolClient,
+  tenantId: string,
+  reportId: string,
+  forUpdate = false
+): Promise<ReportRow | null> {
+  const result = await client.query<ReportRow>(
+    `
+      SELECT ${reportColumns}
+        FROM cell_meeting_reports r
+        ${reportJoins}
+       WHERE r.tenant_id = $1
+         AND r.id = $2
+       LIMIT 1
+       ${forUpdate ? "FOR UPDATE OF r" : ""};
+    `,
+    [tenantId, reportId]
+  );
+
+  return result.rows[0] ?? null;
+}
+
+async function listAttendeeIds(client: PoolClient, reportId: string): Promise<string[]> {
+  const result = await client.query<{ participant_id: string }>(
+    `
+      SELECT participant_id
+        FROM cell_meeting_attendees
+       WHERE report_id = $1
+       ORDER BY participant_id;
+    `,
+    [reportId]
+  );
+
+  return result.rows.map((row) => row.participant_id);
+}
+
+async function replaceAttendees(
+  client: PoolClient,
+  tenantId: string,
+  reportId: string,
+  cellId: string,
+  participantIds: string[]
+): Promise<void> {
+  const uniqueIds = Array.from(new Set(participantIds));
+  const linked = await client.query(
+    `
+      SELECT participant_id
+        FROM participant_cell_links
+       WHERE tenant_id = $1
+         AND cell_id = $2
+         AND participant_id = ANY($3::uuid[])
+         AND is_active = TRUE;
+    `,
+    [tenantId, cellId, uniqueIds]
+  );
+
+  if (linked.rowCount !== uniqueIds.length) {
+    throw new AppError("Participantes presentes devem estar vinculados a celula.", 400);
+  }
+
+  await client.query("DELETE FROM cell_meeting_attendees WHERE report_id = $1;", [reportId]);
+  await client.query(
+    `
+      INSERT INTO cell_meeting_attendees (report_id, participant_id, tenant_id)
+      SELECT $1, participant_id, $2
+        FROM unnest($3::uuid[]) AS participant_id;
+    `,
+    [reportId, tenantId, uniqueIds]
+  );
+}
+
+async function syncWeeklyAttendance(
+  client: PoolClient,
+  tenantId: string,
+  cellId: string,
+  weekStart: string
+): Promise<void> {
+  const synced = await client.query(
+    `
+      INSERT INTO attendance_entries (tenant_id, cell_id, week_start, total_attendance)
+      SELECT
+        r.tenant_id,
+        r.cell_id,
+        r.week_start,
+        r.visitors_count + (
+          SELECT COUNT(*)::int
+            FROM cell_meeting_attendees a
+           WHERE a.report_id = r.id
+        )
+      FROM cell_meeting_reports r
+      WHERE r.tenant_id = $1
+        AND r.cell_id = $2
+        AND r.week_start = $3
+      ON CONFLICT (tenant_id, cell_id, week_start)
+      DO UPDATE SET total_attendance = EXCLUDED.total_attendance;
+    `,
+    [tenantId, cellId, weekStart]
+  );
+
+  if (!synced.rowCount) {
+    await client.query(
+      `
+        DELETE FROM attendance_entries
+         WHERE tenant_id = $1
+           AND cell_id = $2
+           AND week_start = $3;
+      `,
+      [tenantId, cellId, weekStart]
+    );
+  }
+}
+
+async function assertWeekAvailable(
+  client: PoolClient,
+  tenantId: string,
+  cellId: string,
+  meetingDate: string,
+  exceptId: string | null = null
+): Promise<string> {
+  const result = await client.query<{ week_start: string; taken: boolean }>(
+    `
+      SELECT
+        date_trunc('week', $3::date)::date::text AS week_start,
+        EXISTS (
+          SELECT 1
+            FROM cell_meeting_reports
+           WHERE tenant_id = $1
+             AND cell_id = $2
+             AND week_start = date_trunc('week', $3::date)::date
+             AND ($4::uuid IS NULL OR id <> $4)
+        ) AS taken;
+    `,
+    [tenantId, cellId, meetingDate, exceptId]
+  );
+
+  if (result.rows[0].taken) {
+    throw new AppError("Ja existe um relatorio desta celula para a semana informada.", 409);
+  }
+
+  return result.rows[0].week_start;
+}
+
+export const cellReportRoutes = Router();
+
+cellReportRoutes.use(requireAuth);
+
+cellReportRoutes.get(
+  "/",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const filters = listReportsQuerySchema.parse(request.query);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "lider_celula", "view");
+      const visibleCellIds = await getVisibleCellIds(client, ctx);
+      const rows = await client.query<ReportRow & { total: string }>(
+        `
+          SELECT ${reportColumns}, COUNT(*) OVER()::text AS total
+            FROM cell_meeting_reports r
+            ${reportJoins}
+           WHERE r.tenant_id = $1
+             AND ($2::uuid[] IS NULL OR r.cell_id = ANY($2::uuid[]))
+             AND ($3::uuid IS NULL OR r.cell_id = $3)
+             AND ($4::uuid IS NULL OR c.network_id = $4)
+             AND ($5::date IS NULL OR r.meeting_date >= $5)
+             AND ($6::date IS NULL OR r.meeting_date <= $6)
+           ORDER BY r.week_start DESC, n.name, c.name
+           LIMIT $7
+          OFFSET $8;
+        `,
+        [
+          ctx.tenantId,
+          visibleCellIds,
+          filters.cellId ?? null,
+          filters.networkId ?? null,
+          filters.from ?? null,
+          filters.to ?? null,
+          filters.limit,
+          filters.offset
+        ]
+      );
+
+      response.json({
+        total: Number(rows.rows[0]?.total ?? "0"),
+        rows: rows.rows.map(toReport)
+      });
+    } finally {
+      client.release();
+    }
+  })
+);
+
+cellReportRoutes.get(
+  "/pending",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const filters = pendingQuerySchema.parse(request.query);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "pastor_rede", "view");
+      const visibleCellIds = await getVisibleCellIds(client, ctx);
+      const week = await client.query<{ week_start: string }>(
+        "SELECT date_trunc('week', COALESCE($1::date, CURRENT_DATE))::date::text AS week_start;",
+        [filters.weekStart ?? null]
+      );
+      const weekStart = week.rows[0].week_start;
+      const rows = await client.query<{
+        cell_id: string;
+        cell_name: string;
+        cell_code: string;
+        network_id: string;
+        network_name: string;
+        leader_name: string | null;
+        leader_email: string | null;
+        last_report_week: string | null;
+      }>(
+        `
+          SELECT
+            c.id AS cell_id,
+            c.name AS cell_name,
+            c.code AS cell_code,
+            c.network_id,
+            n.name AS network_name,
+            u.full_name AS leader_name,
+            u.email AS leader_email,
+            (
+              SELECT MAX(lr.week_start)::text
+                FROM cell_meeting_reports lr
+               WHERE lr.tenant_id = c.tenant_id
+                 AND lr.cell_id = c.id
+            ) AS last_report_week
+          FROM cells c
+          JOIN church_networks n ON n.id = c.network_id
+          LEFT JOIN users u ON u.id = c.leader_user_id
+          WHERE c.tenant_id = $1
+            AND c.is_active = TRUE
+            AND ($2::uuid[] IS NULL OR c.id = ANY($2::uuid[]))
+            AND ($3::uuid IS NULL OR c.network_id = $3)
+            AND NOT EXISTS (
+              SELECT 1
+                FROM cell_meeting_reports r
+               WHERE r.tenant_id = c.tenant_id
+                 AND r.cell_id = c.id
+                 AND r.week_start = $4
+            )
+          ORDER BY n.name, c.name;
+        `,
+        [ctx.tenantId, visibleCellIds, filters.networkId ?? null, weekStart]
+      );
+
+      response.json({
+        weekStart,
+        rows: rows.rows.map((row) => ({
+          cellId: row.cell_id,
+          cellName: row.cell_name,
+          cellCode: row.cell_code,
+          networkId: row.network_id,
+          networkName: row.network_name,
+          leaderName: row.leader_name,
+          leaderEmail: row.leader_email,
+          lastReportWeek: row.last_report_week
+        }))
+      });
+    } finally {
+      client.release();
+    }
+  })
+);
+
+cellReportRoutes.get(
+  "/:id",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const reportId = z.string().uuid().parse(request.params.id);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "lider_celula", "view");
+      const report = await findReport(client, ctx.tenantId, reportId);
+      if (!report) {
+        throw new AppError("Relatorio nao encontrado.", 404);
+      }
+      assertCellInScope(ctx, { id: report.cell_id, network_id: report.network_id });
+
+      const members = await client.query<{
+        participant_id: string;
+        full_name: string;
+        type: string;
+        present: boolean;
+      }>(
+        `
+          SELECT
+            p.id AS participant_id,
+            p.full_name,
+            pcl.type::text AS type,
+            (a.participant_id IS NOT NULL) AS present
+          FROM participant_cell_links pcl
+          JOIN participants p ON p.id = pcl.participant_id
+          LEFT JOIN cell_meeting_attendees a
+            ON a.report_id = $3
+           AND a.participant_id = p.id
+          WHERE pcl.tenant_id = $1
+            AND pcl.cell_id = $2
+            AND (pcl.is_active = TRUE OR a.participant_id IS NOT NULL)
+          ORDER BY p.full_name;
+        `,
+        [ctx.tenantId, report.cell_id, report.id]
+      );
+
+      response.json({
+        report: toReport(report),
+        attendance: members.rows.map((row) => ({
+          participantId: row.participant_id,
+          fullName: row.full_name,
+          type: row.type,
+          present: row.present
+        }))
+      });
+    } finally {
+      client.release();
+    }
+  })
+);
+
+cellReportRoutes.post(
+  "/",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const payload = reportSchema.parse(request.body);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "lider_celula", "create");
+
+      await client.query("BEGIN;");
+      const cell = await client.query<{ id: string; network_id: string; is_active: boolean }>(
+        `
+          SELECT id, network_id, is_active
+            FROM cells
+           WHERE id = $1
+             AND tenant_id = $2
+           LIMIT 1
+           FOR UPDATE;
+        `,
+        [payload.cellId, ctx.tenantId]
+      );
+      const target = cell.rows[0];
+      if (!target || !target.is_active) {
+        throw new AppError("Celula nao encontrada ou inativa.", 404);
+      }
+      assertCellInScope(ctx, target);
+
+      const weekStart = await assertWeekAvailable(
+        client,
+        ctx.tenantId,
+        target.id,
+        payload.meetingDate
+      );
+      const created = await client.query<{ id: string }>(
+        `
+          INSERT INTO cell_meeting_reports (
+            tenant_id,
+            cell_id,
+            week_start,
+            meeting_date,
+            visitors_count,
+            offering_amount,
+            lesson_title,
+            notes,
+            submitted_by_user_id
+          )
+          VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+          RETURNING id;
+        `,
+        [
+          ctx.tenantId,
+          target.id,
+          weekStart,
+          payload.meetingDate,
+          payload.visitorsCount,
+          payload.offeringAmount,
+          payload.lessonTitle ?? null,
+          payload.notes ?? null,
+          ctx.userId
+        ]
+      );
+      const reportId = created.rows[0].id;
+      await replaceAttendees(client, ctx.tenantId, reportId, target.id, payload.presentParticipantIds);
+      await syncWeeklyAttendance(client, ctx.tenantId, target.id, weekStart);
+      await evaluateCareAlerts(client, ctx.tenantId, [target.id]);
+
+      const report = (await findReport(client, ctx.tenantId, reportId))!;
+      await recordAudit(client, request, {
+        tenantId: ctx.tenantId,
+        actorUserId: ctx.userId,
+        action: "cell_report.create",
+        entityType: "cell_meeting_report",
+        entityId: reportId,
+        after: toAuditValues(report, await listAttendeeIds(client, reportId))
+      });
+      await client.query("COMMIT;");
+
+      response.status(201).json({
+        message: "Relatorio registrado.",
+        report: toReport(report)
+      });
+    } catch (error) {
+      await client.query("ROLLBACK;");
+      throw error;
+    } finally {
+      client.release();
+    }
+  })
+);
+
+cellReportRoutes.put(
+  "/:id",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const reportId = z.string().uuid().parse(request.params.id);
+    const payload = updateReportSchema.parse(request.body);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "lider_celula", "edit");
+
+      await client.query("BEGIN;");
+      const current = await findReport(client, ctx.tenantId, reportId, true);
+      if (!current) {
+        throw new AppError("Relatorio nao encontrado.", 404);
+      }
+      assertCellInScope(ctx, { id: current.cell_id, network_id: current.network_id });
+      const before = toAuditValues(current, await listAttendeeIds(client, reportId));
+
+      const weekStart = await assertWeekAvailable(
+        client,
+        ctx.tenantId,
+        current.cell_id,
+        payload.meetingDate,
+        reportId
+      );
+      await client.query(
+        `
+          UPDATE cell_meeting_reports
+             SET week_start = $3,
+                 meeting_date = $4,
+                 visitors_count = $5,
+                 offering_amount = $6,
+                 lesson_title = $7,
+                 notes = $8,
+                 updated_by_user_id = $9
+           WHERE id = $1
+             AND tenant_id = $2;
+        `,
+        [
+          reportId,
+          ctx.tenantId,
+          weekStart,
+          payload.meetingDate,
+          payload.visitorsCount,
+          payload.offeringAmount,
+          payload.lessonTitle ?? null,
+          payload.notes ?? null,
+          ctx.userId
+        ]
+      );
+      await replaceAttendees(
+        client,
+        ctx.tenantId,
+        reportId,
+        current.cell_id,
+        payload.presentParticipantIds
+      );
+      await syncWeeklyAttendance(client, ctx.tenantId, current.cell_id, weekStart);
+      if (weekStart !== current.week_start) {
+        await syncWeeklyAttendance(client, ctx.tenantId, current.cell_id, current.week_start);
+      }
+      await evaluateCareAlerts(client, ctx.tenantId, [current.cell_id]);
+
+      const report = (await findReport(client, ctx.tenantId, reportId))!;
+      await recordAudit(client, request, {
+        tenantId: ctx.tenantId,
+        actorUserId: ctx.userId,
+        action: "cell_report.update",
+        entityType: "cell_meeting_report",
+        entityId: reportId,
+        before,
+        after: toAuditValues(report, await listAttendeeIds(client, reportId))
+      });
+      await client.query("COMMIT;");
+
+      response.json({
+        message: "Relatorio atualizado.",
+        report: toReport(report)
+      });
+    } catch (error) {
+      await client.query("ROLLBACK;");
+      throw error;
+    } finally {
+      client.release();
+    }
+  })
+);
+
+cellReportRoutes.delete(
+  "/:id",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const reportId = z.string().uuid().parse(request.params.id);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "lider_celula", "delete");
+
+      await client.query("BEGIN;");
+      const current = await findReport(client, ctx.tenantId, reportId, true);
+      if (!current) {
+        throw new AppError("Relatorio nao encontrado.", 404);
+      }
+      assertCellInScope(ctx, { id: current.cell_id, network_id: current.network_id });
+      const before = toAuditValues(current, await listAttendeeIds(client, reportId));
+
+      await client.query("DELETE FROM cell_meeting_reports WHERE id = $1 AND tenant_id = $2;", [
+        reportId,
+        ctx.tenantId
+      ]);
+      await syncWeeklyAttendance(client, ctx.tenantId, current.cell_id, current.week_start);
+
+      await recordAudit(client, request, {
+        tenantId: ctx.tenantId,
+        actorUserId: ctx.userId,
+        action: "cell_report.delete",
+        entityType: "cell_meeting_report",
+        entityId: reportId,
+        before
+      });
+      await client.query("COMMIT;");
+
+      response.json({ message: "Relatorio removido." });
+    } catch (error) {
+      await client.query("ROLLBACK;");
+      throw error;
+    } finally {
+      client.release();
+    }
+  })
+);
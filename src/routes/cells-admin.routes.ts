@@ -0,0 +1,1234 @@
+import { PoolClient } from "pg";
+import { Router } from "express";
+import { z } from "zod";
+import { asyncHandler } from "../common/async-handler";
+import { AppError } from "../common/errors";
+import { pool } from "../db/pool";
+import { recordAudit } from "../lib/audit";
+import { requireAuth } from "../middlewares/auth.middleware";
+import {
+  AccessContext,
+  assertCellInScope,
+  assertNetworkInScope,
+  assertPermission,
+  getScopedCellIds,
+  loadAccessContext
+} from "../panel/access";
+import {
+  assertCodeAvailable,
+  assertLeaderIsMember,
+  grantLeaderCellScope,
+  nextStructureCode,
+  revokeLeaderCellScope,
+  structureCodeSchema
+} from "../panel/structure";
+import { moveParticipants } from "../panel/transfers";
+import {
+  assertCellUnit,
+  assertUnitParent,
+  grantSupervisorUnitScope,
+  revokeSupervisorUnitScope,
+  unitDescendantsCte
+} from "../panel/units";
+
+const activeFilterSchema = z.enum(["true", "false", "all"]).default("true");
+
+const listNetworksQuerySchema = z.object({
+  active: activeFilterSchema
+});
+
+const networkSchema = z.object({
+  name: z.string().trim().min(2).max(120),
+  code: structureCodeSchema.optional()
+});
+
+const updateNetworkSchema = z
+  .object({
+    name: z.string().trim().min(2).max(120).optional(),
+    code: structureCodeSchema.optional(),
+    isActive: z.boolean().optional()
+  })
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: "Informe ao menos um campo para atualizar."
+  });
+
+const listUnitsQuerySchema = z.object({
+  networkId: z.string().uuid().optional(),
+  active: activeFilterSchema
+});
+
+const unitSchema = z.object({
+  networkId: z.string().uuid(),
+  parentId: z.string().uuid().optional(),
+  levelName: z.string().trim().min(2).max(60),
+  name: z.string().trim().min(2).max(120),
+  code: structureCodeSchema.optional(),
+  supervisorUserId: z.string().uuid().optional()
+});
+
+const updateUnitSchema = z
+  .object({
+    parentId: z.string().uuid().nullable().optional(),
+    levelName: z.string().trim().min(2).max(60).optional(),
+    name: z.string().trim().min(2).max(120).optional(),
+    code: structureCodeSchema.optional(),
+    supervisorUserId: z.string().uuid().nullable().optional()
+  })
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: "Informe ao menos um campo para atualizar."
+  });
+
+const listCellsQuerySchema = z.object({
+  networkId: z.string().uuid().optional(),
+  active: activeFilterSchema,
+  q: z.string().trim().max(120).optional()
+});
+
+const cellSchema = z.object({
+  networkId: z.string().uuid(),
+  orgUnitId: z.string().uuid().optional(),
+  name: z.string().trim().min(2).max(120),
+  code: structureCodeSchema.optional(),
+  leaderUserId: z.string().uuid().optional(),
+  phone: z.string().trim().min(8).max(30).optional(),
+  email: z.string().trim().email().max(160).optional()
+});
+
+const updateCellSchema = z
+  .object({
+    networkId: z.string().uuid().optional(),
+    orgUnitId: z.string().uuid().nullable().optional(),
+    name: z.string().trim().min(2).max(120).optional(),
+    code: structureCodeSchema.optional(),
+    leaderUserId: z.string().uuid().nullable().optional(),
+    phone: z.string().trim().min(8).max(30).nullable().optional(),
+    email: z.string().trim().email().max(160).nullable().optional(),
+    isActive: z.boolean().optional()
+  })
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: "Informe ao menos um campo para atualizar."
+  });
+
+const deactivateCellSchema = z.object({
+  moveToCellId: z.string().uuid().optional()
+});
+
+type NetworkRow = {
+  id: string;
+  name: string;
+  code: string;
+  is_active: boolean;
+  created_at: string;
+  active_cells: number;
+  active_participants: number;
+};
+
+type UnitRow = {
+  id: string;
+  network_id: string;
+  network_name: string;
+  parent_id: string | null;
+  parent_name: string | null;
+  level_name: string;
+  name: string;
+  code: string;
+  supervisor_user_id: string | null;
+  supervisor_name: string | null;
+  is_active: boolean;
+  created_at: string;
+  active_children: number;
+  active_cells: number;
+};
+
+type CellRow = {
+  id: string;
+  network_id: string;
+  network_name: string;
+  org_unit_id: string | null;
+  org_unit_name: string | null;
+  name: string;
+  code: string;
+  leader_user_id: string | null;
+  leader_name: string | null;
+  phone: string | null;
+  email: string | null;
+  is_active: boolean;
+  created_at: string;
+  active_participants: number;
+};
+
+function toNetwork(row: NetworkRow) {
+  return {
+    id: row.id,
+    name: row.name,
+    code: row.code,
+    isActive: row.is_active,
+    createdAt: row.created_at,
+    activeCells: row.active_cells,
+    activeParticipants: row.active_participants
+  };
+}
+
+function toUnit(row: UnitRow) {
+  return {
+    id: row.id,
+    networkId: row.network_id,
+    networkName: row.network_name,
+    parentId: row.parent_id,
+    parentName: row.parent_name,
+    levelName: row.level_name,
+    name: row.name,
+    code: row.code,
+    supervisorUserId: row.supervisor_user_id,
+    supervisorName: row.supervisor_name,
+    isActive: row.is_active,
+    createdAt: row.created_at,
+    activeChildren: row.active_children,
+    activeCells: row.active_cells
+  };
+}
+
+function toCell(row: CellRow) {
+  return {
+    id: row.id,
+    networkId: row.network_id,
+    networkName: row.network_name,
+    orgUnitId: row.org_unit_id,
+    orgUnitName: row.org_unit_name,
+    name: row.name,
+    code: row.code,
+    leaderUserId: row.leader_user_id,
+    leaderName: row.leader_name,
+    phone: row.phone,
+    email: row.email,
+    isActive: row.is_active,
+    createdAt: row.created_at,
+    activeParticipants: row.active_participants
+  };
+}
+
+function toNetworkAudit(row: NetworkRow) {
+  return { name: row.name, code: row.code, isActive: row.is_active };
+}
+
+function toUnitAudit(row: UnitRow) {
+  return {
+    networkId: row.network_id,
+    parentId: row.parent_id,
+    levelName: row.level_name,
+    name: row.name,
+    code: row.code,
+    supervisorUserId: row.supervisor_user_id,
+    isActive: row.is_active
+  };
+}
+
+function toCellAudit(row: CellRow) {
+  return {
+    networkId: row.network_id,
+    orgUnitId: row.org_unit_id,
+    name: row.name,
+    code: row.code,
+    leaderUserId: row.leader_user_id,
+    phone: row.phone,
+    email: row.email,
+    isActive: row.is_active
+  };
+}
+
+async function listNetworks(
+  client: PoolClient,
+  ctx: AccessContext,
+  filters: { id?: string; active: boolean | null },
+  forUpdate = false
+): Promise<NetworkRow[]> {
+  const scopedCells = getScopedCellIds(ctx);
+  const result = await client.query<NetworkRow>(
+    `
+      SELECT
+        n.id,
+        n.name,
+        n.code,
+        n.is_active,
+        n.created_at::text,
+        (
+          SELECT COUNT(*)::int
+            FROM cells c
+           WHERE c.network_id = n.id
+             AND c.is_active = TRUE
+        ) AS active_cells,
+        (
+          SELECT COUNT(DISTINCT l.participant_id)::int
+            FROM participant_cell_links l
+            JOIN cells c ON c.id = l.cell_id
+           WHERE c.network_id = n.id
+             AND l.is_active = TRUE
+        ) AS active_participants
+      FROM church_networks n
+      WHERE n.tenant_id = $1
+        AND ($2::uuid IS NULL OR n.id = $2)
+        AND ($3::boolean IS NULL OR n.is_active = $3)
+        AND ($4::uuid[] IS NULL OR n.id = ANY($4::uuid[]))
+        AND (
+          $5::uuid[] IS NULL
+          OR EXISTS (
+            SELECT 1
+              FROM cells sc
+             WHERE sc.network_id = n.id
+               AND sc.id = ANY($5::uuid[])
+          )
+        )
+      ORDER BY n.name
+      ${forUpdate ? "FOR UPDATE OF n" : ""};
+    `,
+    [
+      ctx.tenantId,
+      filters.id ?? null,
+      filters.active,
+      ctx.scope === "network" ? ctx.networkIds : null,
+      scopedCells
+    ]
+  );
+
+  return result.rows;
+}
+
+async function listUnits(
+  client: PoolClient,
+  ctx: AccessContext,
+  filters: { id?: string; networkId?: string; active: boolean | null },
+  forUpdate = false
+): Promise<UnitRow[]> {
+  const result = await client.query<UnitRow>(
+    `
+      ${unitDescendantsCte}
+      SELECT
+        u.id,
+        u.network_id,
+        n.name AS network_name,
+        u.parent_id,
+        p.name AS parent_name,
+        u.level_name,
+        u.name,
+        u.code,
+        u.supervisor_user_id,
+        s.full_name AS supervisor_name,
+        u.is_active,
+        u.created_at::text,
+        (
+          SELECT COUNT(*)::int
+            FROM org_units child
+           WHERE child.parent_id = u.id
+             AND child.is_active = TRUE
+        ) AS active_children,
+        (
+          SELECT COUNT(*)::int
+            FROM cells c
+           WHERE c.org_unit_id = u.id
+             AND c.is_active = TRUE
+        ) AS active_cells
+      FROM org_units u
+      JOIN church_networks n ON n.id = u.network_id
+      LEFT JOIN org_units p ON p.id = u.parent_id
+      LEFT JOIN users s ON s.id = u.supervisor_user_id
+      WHERE u.tenant_id = $1
+        AND ($3::uuid IS NULL OR u.id = $3)
+        AND ($4::uuid IS NULL OR u.network_id = $4)
+        AND ($5::boolean IS NULL OR u.is_active = $5)
+        AND ($6::uuid[] IS NULL OR u.network_id = ANY($6::uuid[]))
+        AND (NOT $7::boolean OR u.id IN (SELECT id FROM unit_tree))
+      ORDER BY n.name, u.level_name, u.name
+      ${forUpdate ? "FOR UPDATE OF u" : ""};
+    `,
+    [
+      ctx.tenantId,
+      ctx.unitIds,
+      filters.id ?? null,
+      filters.networkId ?? null,
+      filters.active,
+      ctx.scope === "all" || ctx.scope === "supervisor" ? null : ctx.networkIds,
+      ctx.scope === "supervisor"
+    ]
+  );
+
+  return result.rows;
+}
+
+async function listCells(
+  client: PoolClient,
+  ctx: AccessContext,
+  filters: { id?: string; networkId?: string; active: boolean | null; q?: string },
+  forUpdate = false
+): Promise<CellRow[]> {
+  const result = await client.query<CellRow>(
+    `
+      SELECT
+        c.id,
+        c.network_id,
+        n.name AS network_name,
+        c.org_unit_id,
+        ou.name AS org_unit_name,
+        c.name,
+        c.code,
+        c.leader_user_id,
+        u.full_name AS leader_name,
+        c.phone,
+        c.email,
+        c.is_active,
+        c.created_at::text,
+        (
+          SELECT COUNT(*)::int
+            FROM participant_cell_links l
+           WHERE l.cell_id = c.id
+             AND l.is_active = TRUE
+        ) AS active_participants
+      FROM cells c
+      JOIN church_networks n ON n.id = c.network_id
+      LEFT JOIN org_units ou ON ou.id = c.org_unit_id
+      LEFT JOIN users u ON u.id = c.leader_user_id
+      WHERE c.tenant_id = $1
+        AND ($2::uuid IS NULL OR c.id = $2)
+        AND ($3::uuid IS NULL OR c.network_id = $3)
+        AND ($4::boolean IS NULL OR c.is_active = $4)
+        AND ($5::text IS NULL OR c.name ILIKE $5 OR c.code ILIKE $5)
+        AND ($6::uuid[] IS NULL OR c.network_id = ANY($6::uuid[]))
+        AND ($7::uuid[] IS NULL OR c.id = ANY($7::uuid[]))
+      ORDER BY n.name, c.name
+      ${forUpdate ? "FOR UPDATE OF c" : ""};
+    `,
+    [
+      ctx.tenantId,
+      filters.id ?? null,
+      filters.networkId ?? null,
+      filters.active,
+      filters.q ? `%${filters.q}%` : null,
+      ctx.scope === "network" ? ctx.networkIds : null,
+      getScopedCellIds(ctx)
+    ]
+  );
+
+  return result.rows;
+}
+
+function parseActiveFilter(value: "true" | "false" | "all"): boolean | null {
+  return value === "all" ? null : value === "true";
+}
+
+export const cellsAdminRoutes = Router();
+
+cellsAdminRoutes.use(requireAuth);
+
+cellsAdminRoutes.get(
+  "/networks",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const filters = listNetworksQuerySchema.parse(request.query);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "cells_admin", "view");
+      const networks = await listNetworks(client, ctx, {
+        active: parseActiveFilter(filters.active)
+      });
+      response.json({ networks: networks.map(toNetwork) });
+    } finally {
+      client.release();
+    }
+  })
+);
+
+cellsAdminRoutes.get(
+  "/networks/:id",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const networkId = z.string().uuid().parse(request.params.id);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "cells_admin", "view");
+      const [network] = await listNetworks(client, ctx, { id: networkId, active: null });
+      if (!network) {
+        throw new AppError("Rede nao encontrada.", 404);
+      }
+
+      const cells = await listCells(client, ctx, { networkId, active: null });
+      response.json({ network: toNetwork(network), cells: cells.map(toCell) });
+    } finally {
+      client.release();
+    }
+  })
+);
+
+cellsAdminRoutes.post(
+  "/networks",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const payload = networkSchema.parse(request.body);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "cells_admin", "create");
+      if (ctx.scope !== "all") {
+        throw new AppError("Apenas perfis com acesso a toda a igreja podem criar redes.", 403);
+      }
+
+      await client.query("BEGIN;");
+      const code = payload.code ?? (await nextStructureCode(client, ctx.tenantId, "church_networks"));
+      await assertCodeAvailable(client, ctx.tenantId, "church_networks", code);
+      const created = await client.query<{ id: string }>(
+        `
+          INSERT INTO church_networks (tenant_id, name, code)
+          VALUES ($1, $2, $3)
+          RETURNING id;
+        `,
+        [ctx.tenantId, payload.name, code]
+      );
+
+      const [network] = await listNetworks(client, ctx, { id: created.rows[0].id, active: null });
+      await recordAudit(client, request, {
+        tenantId: ctx.tenantId,
+        actorUserId: ctx.userId,
+        action: "network.create",
+        entityType: "network",
+        entityId: network.id,
+        after: toNetworkAudit(network)
+      });
+      await client.query("COMMIT;");
+
+      response.status(201).json({ message: "Rede criada.", network: toNetwork(network) });
+    } catch (error) {
+      await client.query("ROLLBACK;");
+      throw error;
+    } finally {
+      client.release();
+    }
+  })
+);
+
+cellsAdminRoutes.put(
+  "/networks/:id",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const networkId = z.string().uuid().parse(request.params.id);
+    const payload = updateNetworkSchema.parse(request.body);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "cells_admin", payload.isActive === false ? "delete" : "edit");
+      assertNetworkInScope(ctx, networkId);
+
+      await client.query("BEGIN;");
+      const [current] = await listNetworks(client, ctx, { id: networkId, active: null }, true);
+      if (!current) {
+        throw new AppError("Rede nao encontrada.", 404);
+      }
+      if (payload.code) {
+        await assertCodeAvailable(client, ctx.tenantId, "church_networks", payload.code, networkId);
+      }
+      if (payload.isActive === false && current.is_active && current.active_cells > 0) {
+        throw new AppError(
+          "Desative ou mova as celulas ativas desta rede antes de desativa-la.",
+          409
+        );
+      }
+
+      await client.query(
+        `
+          UPDATE church_networks
+             SET name = $1,
+                 code = $2,
+                 is_active = $3,
+                 updated_at = NOW()
+           WHERE id = $4
+             AND tenant_id = $5;
+        `,
+        [
+          payload.name ?? current.name,
+          payload.code ?? current.code,
+          payload.isActive ?? current.is_active,
+          networkId,
+          ctx.tenantId
+        ]
+      );
+
+      const [network] = await listNetworks(client, ctx, { id: networkId, active: null });
+      await recordAudit(client, request, {
+        tenantId: ctx.tenantId,
+        actorUserId: ctx.userId,
+        action: "network.update",
+        entityType: "network",
+        entityId: networkId,
+        before: toNetworkAudit(current),
+        after: toNetworkAudit(network)
+      });
+      await client.query("COMMIT;");
+
+      response.json({ message: "Rede atualizada.", network: toNetwork(network) });
+    } catch (error) {
+      await client.query("ROLLBACK;");
+      throw error;
+    } finally {
+      client.release();
+    }
+  })
+);
+
+cellsAdminRoutes.delete(
+  "/networks/:id",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const networkId = z.string().uuid().parse(request.params.id);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "cells_admin", "delete");
+      assertNetworkInScope(ctx, networkId);
+
+      await client.query("BEGIN;");
+      const [current] = await listNetworks(client, ctx, { id: networkId, active: true }, true);
+      if (!current) {
+        throw new AppError("Rede nao encontrada ou ja inativa.", 404);
+      }
+      if (current.active_cells > 0) {
+        throw new AppError(
+          "Desative ou mova as celulas ativas desta rede antes de desativa-la.",
+          409
+        );
+      }
+
+      await client.query(
+        `
+          UPDATE church_networks
+             SET is_active = FALSE,
+                 updated_at = NOW()
+           WHERE id = $1
+             AND tenant_id = $2;
+        `,
+        [networkId, ctx.tenantId]
+      );
+      await recordAudit(client, request, {
+        tenantId: ctx.tenantId,
+        actorUserId: ctx.userId,
+        action: "network.deactivate",
+        entityType: "network",
+        entityId: networkId,
+        before: { isActive: true },
+        after: { isActive: false }
+      });
+      await client.query("COMMIT;");
+
+      response.status(204).send();
+    } catch (error) {
+      await client.query("ROLLBACK;");
+      throw error;
+    } finally {
+      client.release();
+    }
+  })
+);
+
+cellsAdminRoutes.get(
+  "/units",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const filters = listUnitsQuerySchema.parse(request.query);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "cells_admin", "view");
+      const units = await listUnits(client, ctx, {
+        networkId: filters.networkId,
+        active: parseActiveFilter(filters.active)
+      });
+      response.json({ units: units.map(toUnit) });
+    } finally {
+      client.release();
+    }
+  })
+);
+
+cellsAdminRoutes.get(
+  "/units/:id",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const unitId = z.string().uuid().parse(request.params.id);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "cells_admin", "view");
+      const [unit] = await listUnits(client, ctx, { id: unitId, active: null });
+      if (!unit) {
+        throw new AppError("Unidade nao encontrada.", 404);
+      }
+
+      const children = await listUnits(client, ctx, { networkId: unit.network_id, active: null });
+      const cells = await listCells(client, ctx, { networkId: unit.network_id, active: null });
+      response.json({
+        unit: toUnit(unit),
+        children: children.filter((child) => child.parent_id === unit.id).map(toUnit),
+        cells: cells.filter((cell) => cell.org_unit_id === unit.id).map(toCell)
+      });
+    } finally {
+      client.release();
+    }
+  })
+);
+
+cellsAdminRoutes.post(
+  "/units",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const payload = unitSchema.parse(request.body);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "cells_admin", "create");
+      assertNetworkInScope(ctx, payload.networkId);
+
+      await client.query("BEGIN;");
+      const [network] = await listNetworks(client, ctx, { id: payload.networkId, active: true });
+      if (!network) {
+        throw new AppError("Rede nao encontrada ou inativa.", 400);
+      }
+      if (payload.parentId) {
+        await assertUnitParent(client, ctx.tenantId, payload.networkId, payload.parentId);
+      }
+      if (payload.supervisorUserId) {
+        await assertLeaderIsMember(client, ctx.tenantId, payload.supervisorUserId);
+      }
+
+      const code = payload.code ?? (await nextStructureCode(client, ctx.tenantId, "org_units"));
+      await assertCodeAvailable(client, ctx.tenantId, "org_units", code);
+      const created = await client.query<{ id: string }>(
+        `
+          INSERT INTO org_units (
+            tenant_id,
+            network_id,
+            parent_id,
+            level_name,
+            name,
+            code,
+            supervisor_user_id
+          )
+          VALUES ($1, $2, $3, $4, $5, $6, $7)
+          RETURNING id;
+        `,
+        [
+          ctx.tenantId,
+          payload.networkId,
+          payload.parentId ?? null,
+          payload.levelName,
+          payload.name,
+          code,
+          payload.supervisorUserId ?? null
+        ]
+      );
+
+      if (payload.supervisorUserId) {
+        await grantSupervisorUnitScope(
+          client,
+          ctx.tenantId,
+          payload.supervisorUserId,
+          created.rows[0].id
+        );
+      }
+
+      const [unit] = await listUnits(client, ctx, { id: created.rows[0].id, active: null });
+      await recordAudit(client, request, {
+        tenantId: ctx.tenantId,
+        actorUserId: ctx.userId,
+        action: "org_unit.create",
+        entityType: "org_unit",
+        entityId: unit.id,
+        after: toUnitAudit(unit)
+      });
+      await client.query("COMMIT;");
+
+      response.status(201).json({ message: "Unidade criada.", unit: toUnit(unit) });
+    } catch (error) {
+      await client.query("ROLLBACK;");
+      throw error;
+    } finally {
+      client.release();
+    }
+  })
+);
+
+cellsAdminRoutes.put(
+  "/units/:id",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const unitId = z.string().uuid().parse(request.params.id);
+    const payload = updateUnitSchema.parse(request.body);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "cells_admin", "edit");
+
+      await client.query("BEGIN;");
+      const [current] = await listUnits(client, ctx, { id: unitId, active: null }, true);
+      if (!current) {
+        throw new AppError("Unidade nao encontrada.", 404);
+      }
+      assertNetworkInScope(ctx, current.network_id);
+
+      if (payload.parentId && payload.parentId !== current.parent_id) {
+        await assertUnitParent(client, ctx.tenantId, current.network_id, payload.parentId, unitId);
+      }
+      if (payload.code) {
+        await assertCodeAvailable(client, ctx.tenantId, "org_units", payload.code, unitId);
+      }
+      if (payload.supervisorUserId) {
+        await assertLeaderIsMember(client, ctx.tenantId, payload.supervisorUserId);
+      }
+
+      await client.query(
+        `
+          UPDATE org_units
+             SET parent_id = $1,
+                 level_name = $2,
+                 name = $3,
+                 code = $4,
+                 supervisor_user_id = $5
+           WHERE id = $6
+             AND tenant_id = $7;
+        `,
+        [
+          payload.parentId === undefined ? current.parent_id : payload.parentId,
+          payload.levelName ?? current.level_name,
+          payload.name ?? current.name,
+          payload.code ?? current.code,
+          payload.supervisorUserId === undefined
+            ? current.supervisor_user_id
+            : payload.supervisorUserId,
+          unitId,
+          ctx.tenantId
+        ]
+      );
+
+      let revokedSupervisorScopeUserId: string | null = null;
+      if (
+        payload.supervisorUserId !== undefined &&
+        payload.supervisorUserId !== current.supervisor_user_id
+      ) {
+        if (payload.supervisorUserId) {
+          await grantSupervisorUnitScope(client, ctx.tenantId, payload.supervisorUserId, unitId);
+        }
+        if (
+          current.supervisor_user_id &&
+          (await revokeSupervisorUnitScope(
+            client,
+            ctx.tenantId,
+            current.supervisor_user_id,
+            unitId
+          ))
+        ) {
+          revokedSupervisorScopeUserId = current.supervisor_user_id;
+        }
+      }
+
+      const [unit] = await listUnits(client, ctx, { id: unitId, active: null });
+      await recordAudit(client, request, {
+        tenantId: ctx.tenantId,
+        actorUserId: ctx.userId,
+        action: "org_unit.update",
+        entityType: "org_unit",
+        entityId: unitId,
+        before: toUnitAudit(current),
+        after: { ...toUnitAudit(unit), revokedSupervisorScopeUserId }
+      });
+      await client.query("COMMIT;");
+
+      response.json({ message: "Unidade atualizada.", unit: toUnit(unit) });
+    } catch (error) {
+      await client.query("ROLLBACK;");
+      throw error;
+    } finally {
+      client.release();
+    }
+  })
+);
+
+cellsAdminRoutes.delete(
+  "/units/:id",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const unitId = z.string().uuid().parse(request.params.id);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "cells_admin", "delete");
+
+      await client.query("BEGIN;");
+      const [current] = await listUnits(client, ctx, { id: unitId, active: true }, true);
+      if (!current) {
+        throw new AppError("Unidade nao encontrada ou ja inativa.", 404);
+      }
+      assertNetworkInScope(ctx, current.network_id);
+      if (current.active_children > 0 || current.active_cells > 0) {
+        throw new AppError(
+          "Mova ou desative as unidades e celulas abaixo desta unidade antes de desativa-la.",
+          409
+        );
+      }
+
+      await client.query(
+        `
+          UPDATE org_units
+             SET is_active = FALSE
+           WHERE id = $1
+             AND tenant_id = $2;
+        `,
+        [unitId, ctx.tenantId]
+      );
+      await recordAudit(client, request, {
+        tenantId: ctx.tenantId,
+        actorUserId: ctx.userId,
+        action: "org_unit.deactivate",
+        entityType: "org_unit",
+        entityId: unitId,
+        before: { isActive: true },
+        after: { isActive: false }
+      });
+      await client.query("COMMIT;");
+
+      response.status(204).send();
+    } catch (error) {
+      await client.query("ROLLBACK;");
+      throw error;
+    } finally {
+      client.release();
+    }
+  })
+);
+
+cellsAdminRoutes.get(
+  "/cells",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const filters = listCellsQuerySchema.parse(request.query);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "cells_admin", "view");
+      const cells = await listCells(client, ctx, {
+        networkId: filters.networkId,
+        active: parseActiveFilter(filters.active),
+        q: filters.q
+      });
+      response.json({ cells: cells.map(toCell) });
+    } finally {
+      client.release();
+    }
+  })
+);
+
+cellsAdminRoutes.get(
+  "/cells/:id",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const cellId = z.string().uuid().parse(request.params.id);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "cells_admin", "view");
+      const [cell] = await listCells(client, ctx, { id: cellId, active: null });
+      if (!cell) {
+        throw new AppError("Celula nao encontrada.", 404);
+      }
+
+      response.json({ cell: toCell(cell) });
+    } finally {
+      client.release();
+    }
+  })
+);
+
+cellsAdminRoutes.post(
+  "/cells",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const payload = cellSchema.parse(request.body);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "cells_admin", "create");
+      assertNetworkInScope(ctx, payload.networkId);
+
+      await client.query("BEGIN;");
+      const [network] = await listNetworks(client, ctx, { id: payload.networkId, active: true });
+      if (!network) {
+        throw new AppError("Rede nao encontrada ou inativa.", 400);
+      }
+      if (payload.leaderUserId) {
+        await assertLeaderIsMember(client, ctx.tenantId, payload.leaderUserId);
+      }
+      if (payload.orgUnitId) {
+        await assertCellUnit(client, ctx.tenantId, payload.networkId, payload.orgUnitId);
+      }
+
+      const code = payload.code ?? (await nextStructureCode(client, ctx.tenantId, "cells"));
+      await assertCodeAvailable(client, ctx.tenantId, "cells", code);
+      const created = await client.query<{ id: string }>(
+        `
+          INSERT INTO cells (
+            tenant_id,
+            network_id,
+            org_unit_id,
+            name,
+            code,
+            leader_user_id,
+            phone,
+            email
+          )
+          VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+          RETURNING id;
+        `,
+        [
+          ctx.tenantId,
+          payload.networkId,
+          payload.orgUnitId ?? null,
+          payload.name,
+          code,
+          payload.leaderUserId ?? null,
+          payload.phone ?? null,
+          payload.email?.toLowerCase() ?? null
+        ]
+      );
+
+      if (payload.leaderUserId) {
+        await grantLeaderCellScope(client, ctx.tenantId, payload.leaderUserId, created.rows[0].id);
+      }
+
+      const [cell] = await listCells(client, ctx, { id: created.rows[0].id, active: null });
+      await recordAudit(client, request, {
+        tenantId: ctx.tenantId,
+        actorUserId: ctx.userId,
+        action: "cell.create",
+        entityType: "cell",
+        entityId: cell.id,
+        after: toCellAudit(cell)
+      });
+      await client.query("COMMIT;");
+
+      response.status(201).json({ message: "Celula criada.", cell: toCell(cell) });
+    } catch (error) {
+      await client.query("ROLLBACK;");
+      throw error;
+    } finally {
+      client.release();
+    }
+  })
+);
+
+cellsAdminRoutes.put(
+  "/cells/:id",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const cellId = z.string().uuid().parse(request.params.id);
+    const payload = updateCellSchema.parse(request.body);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "cells_admin", payload.isActive === false ? "delete" : "edit");
+
+      await client.query("BEGIN;");
+      const [current] = await listCells(client, ctx, { id: cellId, active: null }, true);
+      if (!current) {
+        throw new AppError("Celula nao encontrada.", 404);
+      }
+      assertCellInScope(ctx, current);
+
+      if (payload.networkId && payload.networkId !== current.network_id) {
+        assertNetworkInScope(ctx, payload.networkId);
+        const [network] = await listNetworks(client, ctx, { id: payload.networkId, active: true });
+        if (!network) {
+          throw new AppError("Rede nao encontrada ou inativa.", 400);
+        }
+      }
+      const networkId = payload.networkId ?? current.network_id;
+      const orgUnitId =
+        payload.orgUnitId === undefined
+          ? networkId === current.network_id
+            ? current.org_unit_id
+            : null
+          : payload.orgUnitId;
+      if (orgUnitId && orgUnitId !== current.org_unit_id) {
+        await assertCellUnit(client, ctx.tenantId, networkId, orgUnitId);
+      }
+      if (payload.code) {
+        await assertCodeAvailable(client, ctx.tenantId, "cells", payload.code, cellId);
+      }
+      if (payload.leaderUserId) {
+        await assertLeaderIsMember(client, ctx.tenantId, payload.leaderUserId);
+      }
+      if (payload.isActive === false && current.is_active && current.active_participants > 0) {
+        throw new AppError(
+          "A celula possui participantes ativos. Use a desativacao informando a celula de destino.",
+          409
+        );
+      }
+      if (payload.isActive && !current.is_active) {
+        const [network] = await listNetworks(client, ctx, {
+          id: networkId,
+          active: true
+        });
+        if (!network) {
+          throw new AppError("Reative a rede antes de reativar a celula.", 409);
+        }
+      }
+
+      await client.query(
+        `
+          UPDATE cells
+             SET network_id = $1,
+                 org_unit_id = $2,
+                 name = $3,
+                 code = $4,
+                 leader_user_id = $5,
+                 phone = $6,
+                 email = $7,
+                 is_active = $8,
+                 updated_at = NOW()
+           WHERE id = $9
+             AND tenant_id = $10;
+        `,
+        [
+          networkId,
+          orgUnitId,
+          payload.name ?? current.name,
+          payload.code ?? current.code,
+          payload.leaderUserId === undefined ? current.leader_user_id : payload.leaderUserId,
+          payload.phone === undefined ? current.phone : payload.phone,
+          payload.email === undefined ? current.email : payload.email?.toLowerCase() ?? null,
+          payload.isActive ?? current.is_active,
+          cellId,
+          ctx.tenantId
+        ]
+      );
+
+      let revokedLeaderScopeUserId: string | null = null;
+      if (
+        payload.leaderUserId !== undefined &&
+        payload.leaderUserId !== current.leader_user_id
+      ) {
+        if (payload.leaderUserId) {
+          await grantLeaderCellScope(client, ctx.tenantId, payload.leaderUserId, cellId);
+        }
+        if (
+          current.leader_user_id &&
+          (await revokeLeaderCellScope(client, ctx.tenantId, current.leader_user_id, cellId))
+        ) {
+          revokedLeaderScopeUserId = current.leader_user_id;
+        }
+      }
+
+      const [cell] = await listCells(client, ctx, { id: cellId, active: null });
+      await recordAudit(client, request, {
+        tenantId: ctx.tenantId,
+        actorUserId: ctx.userId,
+        action: "cell.update",
+        entityType: "cell",
+        entityId: cellId,
+        before: toCellAudit(current),
+        after: { ...toCellAudit(cell), revokedLeaderScopeUserId }
+      });
+      await client.query("COMMIT;");
+
+      response.json({ message: "Celula atualizada.", cell: toCell(cell) });
+    } catch (error) {
+      await client.query("ROLLBACK;");
+      throw error;
+    } finally {
+      client.release();
+    }
+  })
+);
+
+cellsAdminRoutes.delete(
+  "/cells/:id",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const cellId = z.string().uuid().parse(request.params.id);
+    const payload = deactivateCellSchema.parse(request.body ?? {});
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "cells_admin", "delete");
+
+      await client.query("BEGIN;");
+      const [current] = await listCells(client, ctx, { id: cellId, active: true }, true);
+      if (!current) {
+        throw new AppError("Celula nao encontrada ou ja inativa.", 404);
+      }
+      assertCellInScope(ctx, current);
+
+      let transferId: string | null = null;
+      if (current.active_participants > 0) {
+        if (!payload.moveToCellId) {
+          throw new AppError(
+            `A celula possui ${current.active_participants} participante(s) ativo(s). Informe moveToCellId para transferi-los antes de desativar.`,
+            409
+          );
+        }
+        if (payload.moveToCellId === cellId) {
+          throw new AppError("Origem e destino nao podem ser iguais.", 400);
+        }
+
+        const [destination] = await listCells(client, ctx, {
+          id: payload.moveToCellId,
+          active: true
+        });
+        if (!destination) {
+          throw new AppError("Celula de destino fora do seu escopo ou inativa.", 403);
+        }
+
+        const linked = await client.query<{ participant_id: string }>(
+          `
+            SELECT participant_id
+              FROM participant_cell_links
+             WHERE tenant_id = $1
+               AND cell_id = $2
+               AND is_active = TRUE;
+          `,
+          [ctx.tenantId, cellId]
+        );
+        transferId = await moveParticipants(client, {
+          tenantId: ctx.tenantId,
+          sourceCellId: cellId,
+          destinationCellId: destination.id,
+          participantIds: linked.rows.map((row) => row.participant_id),
+          userId: ctx.userId
+        });
+      }
+
+      await client.query(
+        `
+          UPDATE cells
+             SET is_active = FALSE,
+                 updated_at = NOW()
+           WHERE id = $1
+             AND tenant_id = $2;
+        `,
+        [cellId, ctx.tenantId]
+      );
+      await recordAudit(client, request, {
+        tenantId: ctx.tenantId,
+        actorUserId: ctx.userId,
+        action: "cell.deactivate",
+        entityType: "cell",
+        entityId: cellId,
+        before: { isActive: true, activeParticipants: current.active_participants },
+        after: { isActive: false, movedToCellId: payload.moveToCellId ?? null, transferId }
+      });
+      await client.query("COMMIT;");
+
+      response.json({ message: "Celula desativada.", transferId });
+    } catch (error) {
+      await client.query("ROLLBACK;");
+      throw error;
+    } finally {
+      client.release();
+    }
+  })
+);
@@ -0,0 +1,384 @@
+import { PoolClient } from "pg";
+import { Response, Router } from "express";
+import { z } from "zod";
+import { asyncHandler } from "../common/async-handler";
+import { AppError } from "../common/errors";
+import { pool } from "../db/pool";
+import { recordAudit } from "../lib/audit";
+import { writeZip } from "../lib/zip";
+import { requireAuth } from "../middlewares/auth.middleware";
+import {
+  AccessContext,
+  assertPermission,
+  assertRole,
+  getVisibleCells,
+  loadAccessContext
+} from "../panel/access";
+import {
+  assertCertificateStage,
+  CertificateData,
+  certificateFileName,
+  CertificateKind,
+  certificateKinds,
+  certificateModules,
+  certificateTemplateSchema,
+  defaultCertificateTemplates,
+  isMilestoneCertificate,
+  loadCertificateTemplate,
+  renderCertificates
+} from "../panel/certificates";
+import { canAccess } from "../panel/permissions";
+
+const batchQuerySchema = z.object({
+  format: z.enum(["pdf", "zip"]).default("pdf")
+});
+
+const milestoneQuerySchema = z.object({
+  milestone: z.enum(["encounter", "baptism"])
+});
+
+async function getVisibleCellIds(
+  client: PoolClient,
+  ctx: AccessContext
+): Promise<string[] | null> {
+  if (ctx.scope === "all") {
+    return null;
+  }
+
+  const cells = await getVisibleCells(client, ctx);
+  return cells.map((cell) => cell.id);
+}
+
+async function loadSchoolCertificates(
+  client: PoolClient,
+  tenantId: string,
+  filter: { classId?: string; enrollmentId?: string }
+): Promise<(CertificateData & { enrollmentId: string })[]> {
+  const rows = await client.query<{
+    enrollment_id: string;
+    participant_name: string;
+    course_name: string;
+    completed_on: string;
+  }>(
+    `
+      SELECT
+        e.id AS enrollment_id,
+        p.full_name AS participant_name,
+        sc.name AS course_name,
+        COALESCE(e.completed_at::date, cl.ends_on, CURRENT_DATE)::text AS completed_on
+      FROM school_enrollments e
+      JOIN participants p ON p.id = e.participant_id
+      JOIN school_classes cl ON cl.id = e.class_id
+      JOIN school_courses sc ON sc.id = cl.course_id
+      WHERE e.tenant_id = $1
+        AND e.status = 'passed'
+        AND ($2::uuid IS NULL OR e.class_id = $2)
+        AND ($3::uuid IS NULL OR e.id = $3)
+      ORDER BY p.full_name;
+    `,
+    [tenantId, filter.classId ?? null, filter.enrollmentId ?? null]
+  );
+
+  return rows.rows.map((row) => ({
+    enrollmentId: row.enrollment_id,
+    participantName: row.participant_name,
+    course: row.course_name,
+    date: row.completed_on
+  }));
+}
+
+function sendPdf(response: Response, fileName: string, content: Buffer): void {
+  response.setHeader("Content-Type", "application/pdf");
+  response.setHeader("Content-Disposition", `inline; filename="${fileName}"`);
+  response.send(content);
+}
+
+export const certificateRoutes = Router();
+
+certificateRoutes.use(requireAuth);
+
+certificateRoutes.get(
+  "/templates",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      const templates = [];
+      for (const kind of certificateKinds) {
+        if (canAccess(ctx.permissions, certificateModules[kind], "view")) {
+          templates.push({ kind, ...(await loadCertificateTemplate(client, ctx.tenantId, kind)) });
+        }
+      }
+
+      response.json({ templates });
+    } finally {
+      client.release();
+    }
+  })
+);
+
+certificateRoutes.put(
+  "/templates/:kind",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const kind = z.enum(certificateKinds).parse(request.params.kind);
+    const payload = certificateTemplateSchema.parse(request.body);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertRole(ctx, ["admin_geral"]);
+      if (!isMilestoneCertificate(kind) && payload.stageKey) {
+        throw new AppError("Este modelo de certificado nao usa etapa de consolidacao.", 400);
+      }
+      const template = {
+        ...payload,
+        stageKey: isMilestoneCertificate(kind)
+          ? payload.stageKey ?? defaultCertificateTemplates[kind].stageKey
+          : null
+      };
+
+      await client.query("BEGIN;");
+      if (template.stageKey) {
+        await assertCertificateStage(client, ctx.tenantId, template.stageKey);
+      }
+      const before = await loadCertificateTemplate(client, ctx.tenantId, kind);
+      await client.query(
+        `
+          INSERT INTO certificate_templates (
+            tenant_id,
+            kind,
+            title,
+            body,
+            signer_name,
+            signer_role,
+            stage_key,
+            updated_by_user_id
+          )
+          VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+          ON CONFLICT (tenant_id, kind)
+          DO UPDATE SET
+            title = EXCLUDED.title,
+            body = EXCLUDED.body,
+            signer_name = EXCLUDED.signer_name,
+            signer_role = EXCLUDED.signer_role,
+            stage_key = EXCLUDED.stage_key,
+            updated_by_user_id = EXCLUDED.updated_by_user_id,
+            updated_at = NOW();
+        `,
+        [
+          ctx.tenantId,
+          kind,
+          template.title,
+          template.body,
+          template.signerName,
+          template.signerRole,
+          template.stageKey,
+          ctx.userId
+        ]
+      );
+      await recordAudit(client, request, {
+        tenantId: ctx.tenantId,
+        actorUserId: ctx.userId,
+        action: "certificate_template.update",
+        entityType: "certificate_template",
+        entityId: ctx.tenantId,
+        before: { kind, ...before },
+        after: { kind, ...template }
+      });
+      await client.query("COMMIT;");
+
+      response.json({ message: "Modelo de certificado atualizado.", template: { kind, ...template } });
+    } catch (error) {
+      await client.query("ROLLBACK;");
+      throw error;
+    } finally {
+      client.release();
+    }
+  })
+);
+
+certificateRoutes.get(
+  "/templates/:kind/preview",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const kind = z.enum(certificateKinds).parse(request.params.kind);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, certificateModules[kind], "print");
+      const template = await loadCertificateTemplate(client, ctx.tenantId, kind);
+      const content = renderCertificates(template, ctx.tenantName, [
+        {
+          participantName: "Nome do Participante",
+          course: kind === "school_completion" ? "Nome do Curso" : "Nome da Etapa",
+          date: new Date().toISOString().slice(0, 10)
+        }
+      ]);
+
+      sendPdf(response, `modelo-${certificateFileName(kind, "exemplo")}`, content);
+    } finally {
+      client.release();
+    }
+  })
+);
+
+certificateRoutes.get(
+  "/school/enrollments/:id",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const enrollmentId = z.string().uuid().parse(request.params.id);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "leadership_school", "print");
+      const [certificate] = await loadSchoolCertificates(client, ctx.tenantId, { enrollmentId });
+      if (!certificate) {
+        throw new AppError("Matricula aprovada nao encontrada.", 404);
+      }
+
+      const template = await loadCertificateTemplate(client, ctx.tenantId, "school_completion");
+      sendPdf(
+        response,
+        certificateFileName("school_completion", certificate.participantName),
+        renderCertificates(template, ctx.tenantName, [certificate])
+      );
+    } finally {
+      client.release();
+    }
+  })
+);
+
+certificateRoutes.get(
+  "/school/classes/:id",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const classId = z.string().uuid().parse(request.params.id);
+    const { format } = batchQuerySchema.parse(request.query);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "leadership_school", "print");
+      const schoolClass = await client.query<{ name: string }>(
+        "SELECT name FROM school_classes WHERE tenant_id = $1 AND id = $2 LIMIT 1;",
+        [ctx.tenantId, classId]
+      );
+      if (!schoolClass.rowCount) {
+        throw new AppError("Turma nao encontrada.", 404);
+      }
+
+      const certificates = await loadSchoolCertificates(client, ctx.tenantId, { classId });
+      if (certificates.length === 0) {
+        throw new AppError("A turma nao possui alunos aprovados.", 409);
+      }
+
+      const template = await loadCertificateTemplate(client, ctx.tenantId, "school_completion");
+      const baseName = certificateFileName("school_completion", schoolClass.rows[0].name).replace(
+        /\.pdf$/,
+        ""
+      );
+      if (format === "pdf") {
+        sendPdf(
+          response,
+          `${baseName}.pdf`,
+          renderCertificates(template, ctx.tenantName, certificates)
+        );
+        return;
+      }
+
+      const files = certificates.map((certificate, index) => ({
+        name: `${String(index + 1).padStart(3, "0")}-${certificateFileName(
+          "school_completion",
+          certificate.participantName
+        )}`,
+        content: renderCertificates(template, ctx.tenantName, [certificate])
+      }));
+      response.setHeader("Content-Type", "application/zip");
+      response.setHeader("Content-Disposition", `attachment; filename="${baseName}.zip"`);
+      response.send(writeZip(files));
+    } finally {
+      client.release();
+    }
+  })
+);
+
+certificateRoutes.get(
+  "/consolidation/:id",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const consolidationId = z.string().uuid().parse(request.params.id);
+    const { milestone } = milestoneQuerySchema.parse(request.query);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "consolidation", "print");
+      const kind: CertificateKind = milestone;
+      const template = await loadCertificateTemplate(client, ctx.tenantId, kind);
+      const visibleCellIds = await getVisibleCellIds(client, ctx);
+      const record = await client.query<{
+        participant_name: string;
+        stage_label: string | null;
+        done: boolean | null;
+        completed_on: string | null;
+      }>(
+        `
+          SELECT
+            p.full_name AS participant_name,
+            st.label AS stage_label,
+            rs.done,
+            rs.completed_on::text
+          FROM consolidation_records cr
+          JOIN participants p ON p.id = cr.participant_id
+          LEFT JOIN consolidation_stages st
+            ON st.tenant_id = cr.tenant_id
+           AND st.key = $4
+          LEFT JOIN consolidation_record_stages rs
+            ON rs.consolidation_id = cr.id
+           AND rs.stage_id = st.id
+          WHERE cr.tenant_id = $1
+            AND cr.id = $2
+            AND (
+              $3::uuid[] IS NULL
+              OR EXISTS (
+                SELECT 1
+                  FROM participant_cell_links l
+                 WHERE l.participant_id = p.id
+                   AND l.is_active = TRUE
+                   AND l.cell_id = ANY($3::uuid[])
+              )
+            )
+          LIMIT 1;
+        `,
+        [ctx.tenantId, consolidationId, visibleCellIds, template.stageKey]
+      );
+      const row = record.rows[0];
+      if (!row) {
+        throw new AppError("Consolidacao nao encontrada.", 404);
+      }
+      if (!row.stage_label) {
+        throw new AppError(
+          `A etapa "${template.stageKey}" do modelo de certificado nao existe na consolidacao desta igreja. Escolha outra etapa no modelo.`,
+          409
+        );
+      }
+
+      if (!row.done) {
+        throw new AppError(`O participante ainda nao concluiu a etapa ${row.stage_label}.`, 409);
+      }
+
+      sendPdf(
+        response,
+        certificateFileName(kind, row.participant_name),
+        renderCertificates(template, ctx.tenantName, [
+          {
+            participantName: row.participant_name,
+            course: row.stage_label,
+            date: row.completed_on ?? new Date().toISOString().slice(0, 10)
+          }
+        ])
+      );
+    } finally {
+      client.release();
+    }
+  })
+);
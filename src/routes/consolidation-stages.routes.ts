@@ -0,0 +1,91 @@
+import { Router } from "express";
+import { z } from "zod";
+import { asyncHandler } from "../common/async-handler";
+import { pool } from "../db/pool";
+import { recordAudit } from "../lib/audit";
+import { requireAuth } from "../middlewares/auth.middleware";
+import { assertPermission, assertRole, loadAccessContext } from "../panel/access";
+import {
+  ConsolidationStage,
+  loadConsolidationStages,
+  replaceConsolidationStages,
+  stageDefinitionsSchema
+} from "../panel/consolidation";
+
+const listQuerySchema = z.object({
+  includeInactive: z
+    .enum(["true", "false"])
+    .default("false")
+    .transform((value) => value === "true")
+});
+
+const replaceSchema = z.object({
+  stages: stageDefinitionsSchema
+});
+
+function toDefinition(stage: ConsolidationStage) {
+  return {
+    key: stage.key,
+    label: stage.label,
+    requiresDate: stage.requiresDate,
+    prerequisiteKey: stage.prerequisiteKey,
+    isActive: stage.isActive
+  };
+}
+
+export const consolidationStageRoutes = Router();
+
+consolidationStageRoutes.use(requireAuth);
+
+consolidationStageRoutes.get(
+  "/",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const { includeInactive } = listQuerySchema.parse(request.query);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "consolidation", "view");
+      const stages = await loadConsolidationStages(client, ctx.tenantId, includeInactive);
+
+      response.json({ stages });
+    } finally {
+      client.release();
+    }
+  })
+);
+
+consolidationStageRoutes.put(
+  "/",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const payload = replaceSchema.parse(request.body);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertRole(ctx, ["admin_geral"]);
+
+      await client.query("BEGIN;");
+      const before = await loadConsolidationStages(client, ctx.tenantId, true);
+      await replaceConsolidationStages(client, ctx.tenantId, payload.stages);
+      const stages = await loadConsolidationStages(client, ctx.tenantId, true);
+      await recordAudit(client, request, {
+        tenantId: ctx.tenantId,
+        actorUserId: ctx.userId,
+        action: "consolidation_stages.update",
+        entityType: "consolidation_stages",
+        entityId: ctx.tenantId,
+        before: { stages: before.map(toDefinition) },
+        after: { stages: stages.map(toDefinition) }
+      });
+      await client.query("COMMIT;");
+
+      response.json({ message: "Etapas de consolidacao atualizadas.", stages });
+    } catch (error) {
+      await client.query("ROLLBACK;");
+      throw error;
+    } finally {
+      client.release();
+    }
+  })
+);
@@ -0,0 +1,526 @@
+import { PoolClient } from "pg";
+import { Router } from "express";
+import { z } from "zod";
+import { asyncHandler } from "../common/async-handler";
+import { AppError } from "../common/errors";
+import { pool } from "../db/pool";
+import { recordAudit } from "../lib/audit";
+import { requireAuth } from "../middlewares/auth.middleware";
+import {
+  AccessContext,
+  assertPermission,
+  getVisibleCells,
+  loadAccessContext
+} from "../panel/access";
+import {
+  assertNoDiscipleshipCycle,
+  buildDiscipleshipTree,
+  discipleshipColumns,
+  discipleshipJoins,
+  DiscipleshipRow,
+  discipleshipStatuses,
+  findDiscipleship,
+  listWithoutDiscipler,
+  toDiscipleship
+} from "../panel/discipleship";
+
+const participantTypes = ["member", "congregated", "visitor"] as const;
+
+const listDiscipleshipsQuerySchema = z.object({
+  status: z.enum(discipleshipStatuses).default("active"),
+  disciplerUserId: z.string().uuid().optional(),
+  disciplerParticipantId: z.string().uuid().optional(),
+  participantId: z.string().uuid().optional(),
+  cellId: z.string().uuid().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+const treeQuerySchema = z
+  .object({
+    leaderUserId: z.string().uuid().optional(),
+    leaderParticipantId: z.string().uuid().optional()
+  })
+  .refine((data) => !(data.leaderUserId && data.leaderParticipantId), {
+    message: "Informe apenas um lider."
+  });
+
+const withoutDisciplerQuerySchema = z.object({
+  cellId: z.string().uuid().optional(),
+  type: z.enum(participantTypes).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+const createDiscipleshipSchema = z
+  .object({
+    discipleId: z.string().uuid(),
+    disciplerParticipantId: z.string().uuid().optional(),
+    disciplerUserId: z.string().uuid().optional(),
+    startedOn: z.string().date().optional()
+  })
+  .refine((data) => Boolean(data.disciplerParticipantId) !== Boolean(data.disciplerUserId), {
+    message: "Informe o discipulador como participante ou como usuario."
+  });
+
+const endDiscipleshipSchema = z.object({
+  endedOn: z.string().date().optional(),
+  reason: z.string().trim().min(2).max(500).optional()
+});
+
+const meetingSchema = z.object({
+  metOn: z.string().date(),
+  notes: z.string().trim().min(2).max(4000)
+});
+
+async function getVisibleCellIds(
+  client: PoolClient,
+  ctx: AccessContext
+): Promise<string[] | null> {
+  if (ctx.scope === "all") {
+    return null;
+  }
+
+  const cells = await getVisibleCells(client, ctx);
+  return cells.map((cell) => cell.id);
+}
+
+export const discipleshipRoutes = Router();
+
+discipleshipRoutes.use(requireAuth);
+
+discipleshipRoutes.get(
+  "/",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const filters = listDiscipleshipsQuerySchema.parse(request.query);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "discipleship", "view");
+      const visibleCellIds = await getVisibleCellIds(client, ctx);
+      const rows = await client.query<DiscipleshipRow & { total: string }>(
+        `
+          SELECT ${discipleshipColumns}, COUNT(*) OVER()::text AS total
+            FROM discipleships d
+            ${discipleshipJoins}
+           WHERE d.tenant_id = $1
+             AND ($2::uuid[] IS NULL OR link.cell_id = ANY($2::uuid[]))
+             AND (
+               $3::text = 'all'
+               OR ($3::text = 'active' AND d.ended_on IS NULL)
+               OR ($3::text = 'ended' AND d.ended_on IS NOT NULL)
+             )
+             AND ($4::uuid IS NULL OR d.discipler_user_id = $4)
+             AND ($5::uuid IS NULL OR d.discipler_participant_id = $5)
+             AND (
+               $6::uuid IS NULL
+               OR d.disciple_participant_id = $6
+               OR d.discipler_participant_id = $6
+             )
+             AND ($7::uuid IS NULL OR link.cell_id = $7)
+           ORDER BY d.ended_on DESC NULLS FIRST, dp.full_name
+           LIMIT $8
+          OFFSET $9;
+        `,
+        [
+          ctx.tenantId,
+          visibleCellIds,
+          filters.status,
+          filters.disciplerUserId ?? null,
+          filters.disciplerParticipantId ?? null,
+          filters.participantId ?? null,
+          filters.cellId ?? null,
+          filters.limit,
+          filters.offset
+        ]
+      );
+
+      response.json({
+        total: Number(rows.rows[0]?.total ?? "0"),
+        rows: rows.rows.map(toDiscipleship)
+      });
+    } finally {
+      client.release();
+    }
+  })
+);
+
+discipleshipRoutes.get(
+  "/tree",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const filters = treeQuerySchema.parse(request.query);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "discipleship", "view");
+      const visibleCellIds = await getVisibleCellIds(client, ctx);
+      const leader = filters.leaderUserId
+        ? { kind: "user" as const, id: filters.leaderUserId }
+        : filters.leaderParticipantId
+          ? { kind: "participant" as const, id: filters.leaderParticipantId }
+          : undefined;
+      const roots = await buildDiscipleshipTree(client, ctx.tenantId, visibleCellIds, leader);
+      const withoutDiscipler = await listWithoutDiscipler(client, {
+        tenantId: ctx.tenantId,
+        visibleCellIds,
+        limit: 1,
+        offset: 0
+      });
+
+      response.json({ roots, withoutDisciplerCount: withoutDiscipler.total });
+    } finally {
+      client.release();
+    }
+  })
+);
+
+discipleshipRoutes.get(
+  "/without-discipler",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const filters = withoutDisciplerQuerySchema.parse(request.query);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "discipleship", "view");
+      const visibleCellIds = await getVisibleCellIds(client, ctx);
+      const result = await listWithoutDiscipler(client, {
+        tenantId: ctx.tenantId,
+        visibleCellIds,
+        cellId: filters.cellId,
+        type: filters.type,
+        limit: filters.limit,
+        offset: filters.offset
+      });
+
+      response.json(result);
+    } finally {
+      client.release();
+    }
+  })
+);
+
+discipleshipRoutes.post(
+  "/",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const payload = createDiscipleshipSchema.parse(request.body);
+    if (payload.disciplerParticipantId === payload.discipleId) {
+      throw new AppError("O participante nao pode discipular a si mesmo.", 400);
+    }
+
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "discipleship", "create");
+      const visibleCellIds = await getVisibleCellIds(client, ctx);
+
+      await client.query("BEGIN;");
+      const disciple = await client.query<{ id: string; full_name: string }>(
+        `
+          SELECT p.id, p.full_name
+            FROM participants p
+           WHERE p.tenant_id = $1
+             AND p.id = $2
+             AND p.is_active = TRUE
+             AND EXISTS (
+               SELECT 1
+                 FROM participant_cell_links l
+                WHERE l.participant_id = p.id
+                  AND l.is_active = TRUE
+                  AND ($3::uuid[] IS NULL OR l.cell_id = ANY($3::uuid[]))
+             )
+           LIMIT 1
+           FOR UPDATE OF p;
+        `,
+        [ctx.tenantId, payload.discipleId, visibleCellIds]
+      );
+      if (!disciple.rowCount) {
+        throw new AppError("Discipulo nao encontrado.", 404);
+      }
+
+      const discipler = payload.disciplerParticipantId
+        ? await client.query<{ full_name: string }>(
+            `
+              SELECT full_name
+                FROM participants
+               WHERE tenant_id = $1
+                 AND id = $2
+                 AND is_active = TRUE
+               LIMIT 1;
+            `,
+            [ctx.tenantId, payload.disciplerParticipantId]
+          )
+        : await client.query<{ full_name: string }>(
+            `
+              SELECT u.full_name
+                FROM tenant_members tm
+                JOIN users u ON u.id = tm.user_id
+               WHERE tm.tenant_id = $1
+                 AND tm.user_id = $2
+                 AND tm.is_active = TRUE
+                 AND u.is_active = TRUE
+                 AND u.deleted_at IS NULL
+               LIMIT 1;
+            `,
+            [ctx.tenantId, payload.disciplerUserId]
+          );
+      if (!discipler.rowCount) {
+        throw new AppError("Discipulador nao encontrado.", 404);
+      }
+
+      const current = await client.query(
+        `
+          SELECT 1
+            FROM discipleships
+           WHERE tenant_id = $1
+             AND disciple_participant_id = $2
+             AND ended_on IS NULL
+           LIMIT 1;
+        `,
+        [ctx.tenantId, payload.discipleId]
+      );
+      if (current.rowCount) {
+        throw new AppError("Participante ja possui discipulador. Encerre o discipulado atual antes.", 409);
+      }
+      if (payload.disciplerParticipantId) {
+        await assertNoDiscipleshipCycle(
+          client,
+          ctx.tenantId,
+          payload.discipleId,
+          payload.disciplerParticipantId
+        );
+      }
+
+      const created = await client.query<{ id: string; started_on: string }>(
+        `
+          INSERT INTO discipleships (
+            tenant_id,
+            disciple_participant_id,
+            discipler_participant_id,
+            discipler_user_id,
+            started_on,
+            created_by_user_id
+          )
+          VALUES ($1, $2, $3, $4, COALESCE($5::date, CURRENT_DATE), $6)
+          RETURNING id, started_on::text;
+        `,
+        [
+          ctx.tenantId,
+          payload.discipleId,
+          payload.disciplerParticipantId ?? null,
+          payload.disciplerUserId ?? null,
+          payload.startedOn ?? null,
+          ctx.userId
+        ]
+      );
+      await recordAudit(client, request, {
+        tenantId: ctx.tenantId,
+        actorUserId: ctx.userId,
+        action: "discipleship.create",
+        entityType: "discipleship",
+        entityId: created.rows[0].id,
+        after: {
+          discipleId: payload.discipleId,
+          discipleName: disciple.rows[0].full_name,
+          disciplerParticipantId: payload.disciplerParticipantId ?? null,
+          disciplerUserId: payload.disciplerUserId ?? null,
+          disciplerName: discipler.rows[0].full_name,
+          startedOn: created.rows[0].started_on
+        }
+      });
+      await client.query("COMMIT;");
+
+      response.status(201).json({
+        message: "Discipulado registrado.",
+        id: created.rows[0].id
+      });
+    } catch (error) {
+      await client.query("ROLLBACK;");
+      throw error;
+    } finally {
+      client.release();
+    }
+  })
+);
+
+discipleshipRoutes.get(
+  "/:id",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const discipleshipId = z.string().uuid().parse(request.params.id);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "discipleship", "view");
+      const visibleCellIds = await getVisibleCellIds(client, ctx);
+      const discipleship = await findDiscipleship(
+        client,
+        ctx.tenantId,
+        discipleshipId,
+        visibleCellIds
+      );
+      if (!discipleship) {
+        throw new AppError("Discipulado nao encontrado.", 404);
+      }
+
+      const meetings = await client.query<{
+        id: string;
+        met_on: string;
+        notes: string;
+        author_name: string;
+        created_at: string;
+      }>(
+        `
+          SELECT m.id, m.met_on::text, m.notes, u.full_name AS author_name, m.created_at::text
+            FROM discipleship_meetings m
+            JOIN users u ON u.id = m.author_user_id
+           WHERE m.discipleship_id = $1
+             AND m.tenant_id = $2
+           ORDER BY m.met_on DESC, m.created_at DESC;
+        `,
+        [discipleship.id, ctx.tenantId]
+      );
+
+      response.json({
+        discipleship: toDiscipleship(discipleship),
+        meetings: meetings.rows.map((row) => ({
+          id: row.id,
+          metOn: row.met_on,
+          notes: row.notes,
+          author: row.author_name,
+          createdAt: row.created_at
+        }))
+      });
+    } finally {
+      client.release();
+    }
+  })
+);
+
+discipleshipRoutes.post(
+  "/:id/meetings",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const discipleshipId = z.string().uuid().parse(request.params.id);
+    const payload = meetingSchema.parse(request.body);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "discipleship", "edit");
+      const visibleCellIds = await getVisibleCellIds(client, ctx);
+
+      await client.query("BEGIN;");
+      const discipleship = await findDiscipleship(
+        client,
+        ctx.tenantId,
+        discipleshipId,
+        visibleCellIds,
+        true
+      );
+      if (!discipleship) {
+        throw new AppError("Discipulado nao encontrado.", 404);
+      }
+      if (discipleship.ended_on) {
+        throw new AppError("Discipulado ja encerrado.", 409);
+      }
+      if (payload.metOn < discipleship.started_on) {
+        throw new AppError("O encontro nao pode ser anterior ao inicio do discipulado.", 400);
+      }
+
+      const created = await client.query<{ id: string; created_at: string }>(
+        `
+          INSERT INTO discipleship_meetings (discipleship_id, tenant_id, met_on, notes, author_user_id)
+          VALUES ($1, $2, $3, $4, $5)
+          RETURNING id, created_at::text;
+        `,
+        [discipleship.id, ctx.tenantId, payload.metOn, payload.notes, ctx.userId]
+      );
+      await recordAudit(client, request, {
+        tenantId: ctx.tenantId,
+        actorUserId: ctx.userId,
+        action: "discipleship.meeting",
+        entityType: "discipleship",
+        entityId: discipleship.id,
+        after: { meetingId: created.rows[0].id, metOn: payload.metOn, notes: payload.notes }
+      });
+      await client.query("COMMIT;");
+
+      response.status(201).json({
+        message: "Encontro registrado.",
+        id: created.rows[0].id,
+        createdAt: created.rows[0].created_at
+      });
+    } catch (error) {
+      await client.query("ROLLBACK;");
+      throw error;
+    } finally {
+      client.release();
+    }
+  })
+);
+
+discipleshipRoutes.post(
+  "/:id/end",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const discipleshipId = z.string().uuid().parse(request.params.id);
+    const payload = endDiscipleshipSchema.parse(request.body ?? {});
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "discipleship", "edit");
+      const visibleCellIds = await getVisibleCellIds(client, ctx);
+
+      await client.query("BEGIN;");
+      const discipleship = await findDiscipleship(
+        client,
+        ctx.tenantId,
+        discipleshipId,
+        visibleCellIds,
+        true
+      );
+      if (!discipleship) {
+        throw new AppError("Discipulado nao encontrado.", 404);
+      }
+      if (discipleship.ended_on) {
+        throw new AppError("Discipulado ja encerrado.", 409);
+      }
+      if (payload.endedOn && payload.endedOn < discipleship.started_on) {
+        throw new AppError("A data de encerramento nao pode ser anterior ao inicio.", 400);
+      }
+
+      const updated = await client.query<{ ended_on: string }>(
+        `
+          UPDATE discipleships
+             SET ended_on = COALESCE($3::date, GREATEST(CURRENT_DATE, started_on)),
+                 end_reason = $4,
+                 ended_by_user_id = $5
+           WHERE id = $1
+             AND tenant_id = $2
+          RETURNING ended_on::text;
+        `,
+        [discipleship.id, ctx.tenantId, payload.endedOn ?? null, payload.reason ?? null, ctx.userId]
+      );
+      await recordAudit(client, request, {
+        tenantId: ctx.tenantId,
+        actorUserId: ctx.userId,
+        action: "discipleship.end",
+        entityType: "discipleship",
+        entityId: discipleship.id,
+        before: { endedOn: null },
+        after: { endedOn: updated.rows[0].ended_on, reason: payload.reason ?? null }
+      });
+      await client.query("COMMIT;");
+
+      response.json({ message: "Discipulado encerrado.", endedOn: updated.rows[0].ended_on });
+    } catch (error) {
+      await client.query("ROLLBACK;");
+      throw error;
+    } finally {
+      client.release();
+    }
+  })
+);
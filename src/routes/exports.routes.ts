@@ -0,0 +1,91 @@
+import { Router } from "express";
+import { z } from "zod";
+import { asyncHandler } from "../common/async-handler";
+import { AppError } from "../common/errors";
+import { pool } from "../db/pool";
+import { renderTablePdf } from "../lib/pdf";
+import { writeCsv, writeXlsx } from "../lib/spreadsheet";
+import { requireAuth } from "../middlewares/auth.middleware";
+import { assertPermission, loadAccessContext } from "../panel/access";
+import { exportDatasets } from "../panel/exports";
+import { canAccess } from "../panel/permissions";
+
+const exportQuerySchema = z.object({
+  format: z.enum(["csv", "xlsx", "pdf"]).default("csv"),
+  name: z.string().trim().max(160).optional()
+});
+
+const contentTypes = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  pdf: "application/pdf"
+} as const;
+
+export const exportRoutes = Router();
+
+exportRoutes.use(requireAuth);
+
+exportRoutes.get(
+  "/",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      response.json({
+        datasets: exportDatasets
+          .map((dataset) => ({
+            key: dataset.key,
+            title: dataset.title,
+            canExport: canAccess(ctx.permissions, dataset.module(ctx), "export"),
+            canPrint: canAccess(ctx.permissions, dataset.module(ctx), "print")
+          }))
+          .filter((dataset) => dataset.canExport || dataset.canPrint)
+      });
+    } finally {
+      client.release();
+    }
+  })
+);
+
+exportRoutes.get(
+  "/:dataset",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const filters = exportQuerySchema.parse(request.query);
+    const dataset = exportDatasets.find((item) => item.key === request.params.dataset);
+    if (!dataset) {
+      throw new AppError("Exportacao nao encontrada.", 404);
+    }
+
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, dataset.module(ctx), filters.format === "pdf" ? "print" : "export");
+      const rows = await dataset.load(client, ctx, filters);
+      const generatedAt = new Date().toISOString().slice(0, 10);
+      const fileName = `${dataset.key}-${generatedAt}.${filters.format}`;
+
+      const body =
+        filters.format === "csv"
+          ? writeCsv([dataset.columns, ...rows])
+          : filters.format === "xlsx"
+            ? writeXlsx([dataset.columns, ...rows], dataset.title)
+            : renderTablePdf({
+                title: dataset.title,
+                subtitle: `${ctx.tenantName} - gerado em ${generatedAt} por ${ctx.userName}`,
+                columns: dataset.columns,
+                rows
+              });
+
+      response.setHeader("Content-Type", contentTypes[filters.format]);
+      response.setHeader(
+        "Content-Disposition",
+        `${filters.format === "pdf" ? "inline" : "attachment"}; filename="${fileName}"`
+      );
+      response.send(body);
+    } finally {
+      client.release();
+    }
+  })
+);
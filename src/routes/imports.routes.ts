@@ -0,0 +1,725 @@
+import { PoolClient } from "pg";
+import express, { Router } from "express";
+import { z } from "zod";
+import { asyncHandler } from "../common/async-handler";
+import { AppError } from "../common/errors";
+import { pool } from "../db/pool";
+import { recordAudit } from "../lib/audit";
+import { readSpreadsheet } from "../lib/spreadsheet";
+import { requireAuth } from "../middlewares/auth.middleware";
+import { AccessContext, assertPermission, getVisibleCells, loadAccessContext } from "../panel/access";
+import {
+  cellImportFields,
+  createImportBatch,
+  ImportRequest,
+  importRequestSchema,
+  ImportRowReport,
+  parseImportDate,
+  parseParticipantType,
+  participantImportFields,
+  readMappedRow,
+  resolveColumnMapping,
+  summarizeImport
+} from "../panel/imports";
+import {
+  grantLeaderCellScope,
+  nextStructureCode,
+  structureCodeSchema
+} from "../panel/structure";
+
+const listBatchesQuerySchema = z.object({
+  kind: z.enum(["participants", "cells"]).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+const emailSchema = z.string().email().max(160);
+const phoneSchema = z.string().min(8).max(30);
+
+type ParticipantImportRow = ImportRowReport & {
+  parsed: {
+    fullName: string;
+    email: string | null;
+    phoneHome: string | null;
+    phoneMobile: string | null;
+    birthDate: string | null;
+    cellId: string | null;
+    type: "member" | "congregated" | "visitor";
+  };
+};
+
+type CellImportRow = ImportRowReport & {
+  parsed: {
+    networkId: string | null;
+    networkKey: string;
+    networkName: string;
+    networkCode: string | null;
+    orgUnitId: string | null;
+    cellName: string;
+    cellCode: string | null;
+    leaderUserId: string | null;
+    phone: string | null;
+    email: string | null;
+  };
+};
+
+function digitsOnly(value: string | null): string | null {
+  const digits = value?.replace(/\D/g, "") ?? "";
+  return digits.length >= 8 ? digits : null;
+}
+
+function finishRow<T extends ImportRowReport>(row: T): T {
+  row.status = row.errors.length > 0 ? "invalid" : row.duplicates.length > 0 ? "duplicate" : "valid";
+  return row;
+}
+
+function toImportResponse(rows: ImportRowReport[]) {
+  return rows.map((row) => ({
+    line: row.line,
+    status: row.status,
+    errors: row.errors,
+    duplicates: row.duplicates,
+    values: row.values
+  }));
+}
+
+async function validateParticipantRows(
+  client: PoolClient,
+  ctx: AccessContext,
+  payload: ImportRequest
+): Promise<ParticipantImportRow[]> {
+  const sheet = readSpreadsheet(payload.format, payload.content);
+  const columns = resolveColumnMapping(sheet.header, participantImportFields, payload.mapping);
+  const cells = await getVisibleCells(client, ctx);
+  const cellsByCode = new Map(cells.map((cell) => [cell.code.toUpperCase(), cell.id]));
+
+  const rows: ParticipantImportRow[] = sheet.rows.map((sheetRow) => {
+    const values = readMappedRow(sheetRow.values, columns);
+    const errors: string[] = [];
+
+    if (values.fullName.length < 2 || values.fullName.length > 160) {
+      errors.push("Nome deve ter entre 2 e 160 caracteres.");
+    }
+    if (values.email && !emailSchema.safeParse(values.email).success) {
+      errors.push("Email invalido.");
+    }
+    if (values.phoneHome && !phoneSchema.safeParse(values.phoneHome).success) {
+      errors.push("Telefone invalido.");
+    }
+    if (values.phoneMobile && !phoneSchema.safeParse(values.phoneMobile).success) {
+      errors.push("Celular invalido.");
+    }
+    const birthDate = values.birthDate ? parseImportDate(values.birthDate) : null;
+    if (values.birthDate && !birthDate) {
+      errors.push("Data de nascimento invalida.");
+    }
+    const cellId = cellsByCode.get(values.cellCode.toUpperCase()) ?? null;
+    if (!cellId) {
+      errors.push("Celula nao encontrada ou fora do seu escopo.");
+    }
+    const type = parseParticipantType(values.type);
+    if (!type) {
+      errors.push("Categoria invalida. Use membro, congregado ou visitante.");
+    }
+
+    return {
+      line: sheetRow.line,
+      status: "valid",
+      errors,
+      duplicates: [],
+      values,
+      parsed: {
+        fullName: values.fullName,
+        email: values.email ? values.email.toLowerCase() : null,
+        phoneHome: values.phoneHome || null,
+        phoneMobile: values.phoneMobile || null,
+        birthDate,
+        cellId,
+        type: type ?? "visitor"
+      }
+    };
+  });
+
+  const seen = new Map<string, number>();
+  for (const row of rows) {
+    const keys = [
+      `name:${row.parsed.fullName.toLowerCase()}:${row.parsed.cellId}`,
+      row.parsed.email ? `email:${row.parsed.email}` : null,
+      digitsOnly(row.parsed.phoneMobile) ? `phone:${digitsOnly(row.parsed.phoneMobile)}` : null
+    ].filter((key): key is string => key !== null);
+    for (const key of keys) {
+      const firstLine = seen.get(key);
+      if (firstLine !== undefined) {
+        row.duplicates.push({ id: null, name: row.parsed.fullName, reason: `linha ${firstLine}` });
+        break;
+      }
+    }
+    for (const key of keys) {
+      if (!seen.has(key)) {
+        seen.set(key, row.line);
+      }
+    }
+  }
+
+  await client.query("SET LOCAL pg_trgm.similarity_threshold = 0.8;");
+  const existing = await client.query<{
+    idx: number;
+    id: string;
+    full_name: string;
+    reason: string;
+    visible: boolean;
+  }>(
+    `
+      WITH input AS (
+        SELECT
+          input.idx,
+          LOWER(input.name) AS name,
+          input.email,
+          ARRAY_REMOVE(ARRAY[input.mobile, input.home], NULL) AS phones
+        FROM UNNEST($2::text[], $3::text[], $4::text[], $5::text[])
+          WITH ORDINALITY AS input(name, email, mobile, home, idx)
+      ),
+      tenant_phones AS (
+        SELECT p.id, tenant_phone.phone
+          FROM participants p
+          CROSS JOIN UNNEST(
+            ARRAY[
+              REGEXP_REPLACE(COALESCE(p.phone_mobile, ''), '\\D', '', 'g'),
+              REGEXP_REPLACE(COALESCE(p.phone_home, ''), '\\D', '', 'g')
+            ]
+          ) AS tenant_phone(phone)
+         WHERE p.tenant_id = $1
+           AND tenant_phone.phone <> ''
+      ),
+      matches AS (
+        SELECT i.idx, p.id
+          FROM input i
+          JOIN participants p
+            ON p.tenant_id = $1
+           AND LOWER(p.email) = i.email
+        UNION
+        SELECT i.idx, p.id
+          FROM input i
+          JOIN participants p
+            ON p.tenant_id = $1
+           AND LOWER(p.full_name) % i.name
+        UNION
+        SELECT i.idx, t.id
+          FROM input i
+          CROSS JOIN UNNEST(i.phones) AS input_phone(phone)
+          JOIN tenant_phones t ON t.phone = input_phone.phone
+      )
+      SELECT
+        i.idx::int AS idx,
+        p.id,
+        p.full_name,
+        CASE
+          WHEN i.email IS NOT NULL AND LOWER(p.email) = i.email THEN 'email'
+          WHEN i.phones && ARRAY_REMOVE(
+            ARRAY[
+              NULLIF(REGEXP_REPLACE(COALESCE(p.phone_mobile, ''), '\\D', '', 'g'), ''),
+              NULLIF(REGEXP_REPLACE(COALESCE(p.phone_home, ''), '\\D', '', 'g'), '')
+            ],
+            NULL
+          ) THEN 'telefone'
+          ELSE 'nome'
+        END AS reason,
+        (
+          $6::uuid[] IS NULL
+          OR EXISTS (
+            SELECT 1
+              FROM participant_cell_links l
+             WHERE l.participant_id = p.id
+               AND l.is_active = TRUE
+               AND l.cell_id = ANY($6::uuid[])
+          )
+        ) AS visible
+      FROM matches m
+      JOIN input i ON i.idx = m.idx
+      JOIN participants p
+        ON p.id = m.id
+       AND p.is_active = TRUE
+       AND p.merged_into_participant_id IS NULL
+      ORDER BY i.idx, p.full_name;
+    `,
+    [
+      ctx.tenantId,
+      rows.map((row) => row.parsed.fullName),
+      rows.map((row) => row.parsed.email),
+      rows.map((row) => digitsOnly(row.parsed.phoneMobile)),
+      rows.map((row) => digitsOnly(row.parsed.phoneHome)),
+      ctx.scope === "all" ? null : cells.map((cell) => cell.id)
+    ]
+  );
+  // Matches outside the caller's cells still block the row, but without
+  // revealing who the existing participant is.
+  for (const match of existing.rows) {
+    rows[match.idx - 1].duplicates.push({
+      id: match.visible ? match.id : null,
+      name: match.visible ? match.full_name : "cadastro existente em outra celula",
+      reason: match.reason
+    });
+  }
+
+  return rows.map(finishRow);
+}
+
+async function validateCellRows(
+  client: PoolClient,
+  ctx: AccessContext,
+  payload: ImportRequest
+): Promise<CellImportRow[]> {
+  const sheet = readSpreadsheet(payload.format, payload.content);
+  const columns = resolveColumnMapping(sheet.header, cellImportFields, payload.mapping);
+
+  const networks = await client.query<{ id: string; name: string; code: string; is_active: boolean }>(
+    "SELECT id, name, code, is_active FROM church_networks WHERE tenant_id = $1;",
+    [ctx.tenantId]
+  );
+  const units = await client.query<{
+    id: string;
+    code: string;
+    network_id: string;
+    is_active: boolean;
+  }>(
+    "SELECT id, code, network_id, is_active FROM org_units WHERE tenant_id = $1;",
+    [ctx.tenantId]
+  );
+  const existingCells = await client.query<{ code: string; name: string; network_id: string }>(
+    "SELECT code, name, network_id FROM cells WHERE tenant_id = $1;",
+    [ctx.tenantId]
+  );
+  const leaders = await client.query<{ id: string; email: string }>(
+    `
+      SELECT u.id, LOWER(u.email) AS email
+        FROM tenant_members tm
+        JOIN users u ON u.id = tm.user_id
+       WHERE tm.tenant_id = $1
+         AND tm.is_active = TRUE
+         AND u.is_active = TRUE
+         AND u.deleted_at IS NULL;
+    `,
+    [ctx.tenantId]
+  );
+  const leadersByEmail = new Map(leaders.rows.map((leader) => [leader.email, leader.id]));
+  const cellCodes = new Set(existingCells.rows.map((cell) => cell.code.toUpperCase()));
+  const fileCodes = new Map<string, number>();
+  const fileNames = new Map<string, number>();
+
+  return sheet.rows.map((sheetRow) => {
+    const values = readMappedRow(sheetRow.values, columns);
+    const errors: string[] = [];
+    const duplicates: ImportRowReport["duplicates"] = [];
+
+    const parsedNetworkCode = values.networkCode
+      ? structureCodeSchema.safeParse(values.networkCode)
+      : null;
+    if (parsedNetworkCode && !parsedNetworkCode.success) {
+      errors.push("Codigo da rede invalido.");
+    }
+    const networkCode = parsedNetworkCode?.success ? parsedNetworkCode.data : null;
+    const network = networks.rows.find((item) =>
+      networkCode
+        ? item.code.toUpperCase() === networkCode
+        : item.name.toLowerCase() === values.networkName.toLowerCase()
+    );
+    if (!network && !values.networkName) {
+      errors.push("Informe o nome da rede para criar uma rede nova.");
+    } else if (!network && (values.networkName.length < 2 || values.networkName.length > 120)) {
+      errors.push("Nome da rede deve ter entre 2 e 120 caracteres.");
+    } else if (network && !network.is_active) {
+      errors.push("Rede inativa.");
+    }
+
+    const unit = values.unitCode
+      ? units.rows.find((item) => item.code.toUpperCase() === values.unitCode.toUpperCase())
+      : null;
+    if (values.unitCode && (!unit || !unit.is_active)) {
+      errors.push("Unidade nao encontrada ou inativa.");
+    } else if (unit && unit.network_id !== network?.id) {
+      errors.push("A unidade deve pertencer a rede da celula.");
+    }
+
+    if (values.cellName.length < 2 || values.cellName.length > 120) {
+      errors.push("Nome da celula deve ter entre 2 e 120 caracteres.");
+    }
+    const parsedCellCode = values.cellCode ? structureCodeSchema.safeParse(values.cellCode) : null;
+    if (parsedCellCode && !parsedCellCode.success) {
+      errors.push("Codigo da celula invalido.");
+    }
+    const cellCode = parsedCellCode?.success ? parsedCellCode.data : null;
+    if (cellCode && cellCodes.has(cellCode)) {
+      errors.push("Ja existe uma celula com este codigo.");
+    }
+    if (cellCode && fileCodes.has(cellCode)) {
+      errors.push(`Codigo repetido na linha ${fileCodes.get(cellCode)}.`);
+    }
+    if (cellCode) {
+      fileCodes.set(cellCode, sheetRow.line);
+    }
+
+    const networkKey = network?.id ?? `new:${networkCode ?? values.networkName.toLowerCase()}`;
+    const nameKey = `${networkKey}:${values.cellName.toLowerCase()}`;
+    if (
+      network &&
+      existingCells.rows.some(
+        (cell) =>
+          cell.network_id === network.id && cell.name.toLowerCase() === values.cellName.toLowerCase()
+      )
+    ) {
+      duplicates.push({ id: null, name: values.cellName, reason: "nome ja cadastrado na rede" });
+    } else if (fileNames.has(nameKey)) {
+      duplicates.push({
+        id: null,
+        name: values.cellName,
+        reason: `linha ${fileNames.get(nameKey)}`
+      });
+    }
+    fileNames.set(nameKey, fileNames.get(nameKey) ?? sheetRow.line);
+
+    const leaderUserId = values.leaderEmail
+      ? leadersByEmail.get(values.leaderEmail.toLowerCase()) ?? null
+      : null;
+    if (values.leaderEmail && !leaderUserId) {
+      errors.push("Lider nao faz parte da equipe da igreja.");
+    }
+    if (values.phone && !phoneSchema.safeParse(values.phone).success) {
+      errors.push("Telefone invalido.");
+    }
+    if (values.email && !emailSchema.safeParse(values.email).success) {
+      errors.push("Email invalido.");
+    }
+
+    return finishRow({
+      line: sheetRow.line,
+      status: "valid",
+      errors,
+      duplicates,
+      values,
+      parsed: {
+        networkId: network?.id ?? null,
+        networkKey,
+        networkName: values.networkName,
+        networkCode,
+        orgUnitId: unit?.id ?? null,
+        cellName: values.cellName,
+        cellCode,
+        leaderUserId,
+        phone: values.phone || null,
+        email: values.email ? values.email.toLowerCase() : null
+      }
+    });
+  });
+}
+
+function selectRowsToImport<T extends ImportRowReport>(rows: T[], payload: ImportRequest): T[] {
+  if (rows.some((row) => row.status === "invalid")) {
+    throw new AppError(
+      "A planilha possui linhas invalidas. Corrija e valide novamente antes de importar.",
+      422
+    );
+  }
+
+  return rows.filter((row) => row.status === "valid" || !payload.skipDuplicates);
+}
+
+export const importRoutes = Router();
+
+importRoutes.use(requireAuth);
+importRoutes.use(express.json({ limit: "10mb" }));
+
+importRoutes.get(
+  "/",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const filters = listBatchesQuerySchema.parse(request.query);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "participants", "create");
+      const rows = await client.query<{
+        id: string;
+        kind: string;
+        file_format: string;
+        file_name: string | null;
+        total_rows: number;
+        imported_rows: number;
+        skipped_rows: number;
+        created_by_name: string;
+        created_at: string;
+        total: string;
+      }>(
+        `
+          SELECT
+            b.id,
+            b.kind,
+            b.file_format,
+            b.file_name,
+            b.total_rows,
+            b.imported_rows,
+            b.skipped_rows,
+            u.full_name AS created_by_name,
+            b.created_at::text,
+            COUNT(*) OVER()::text AS total
+          FROM import_batches b
+          JOIN users u ON u.id = b.created_by_user_id
+          WHERE b.tenant_id = $1
+            AND ($2::text IS NULL OR b.kind = $2)
+          ORDER BY b.created_at DESC
+          LIMIT $3
+          OFFSET $4;
+        `,
+        [ctx.tenantId, filters.kind ?? null, filters.limit, filters.offset]
+      );
+
+      response.json({
+        total: Number(rows.rows[0]?.total ?? "0"),
+        rows: rows.rows.map((row) => ({
+          id: row.id,
+          kind: row.kind,
+          format: row.file_format,
+          fileName: row.file_name,
+          totalRows: row.total_rows,
+          importedRows: row.imported_rows,
+          skippedRows: row.skipped_rows,
+          createdBy: row.created_by_name,
+          createdAt: row.created_at
+        }))
+      });
+    } finally {
+      client.release();
+    }
+  })
+);
+
+importRoutes.post(
+  "/participants",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const payload = importRequestSchema.parse(request.body);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "participants", "create");
+      await client.query("BEGIN;");
+      const rows = await validateParticipantRows(client, ctx, payload);
+      const summary = summarizeImport(rows);
+
+      if (payload.dryRun) {
+        await client.query("ROLLBACK;");
+        response.json({ dryRun: true, summary, rows: toImportResponse(rows) });
+        return;
+      }
+
+      const selected = selectRowsToImport(rows, payload);
+      const participantIds: string[] = [];
+      for (const row of selected) {
+        const created = await client.query<{ id: string }>(
+          `
+            INSERT INTO participants (
+              tenant_id,
+              full_name,
+              email,
+              phone_home,
+              phone_mobile,
+              birth_date
+            )
+            VALUES ($1, $2, $3, $4, $5, $6)
+            RETURNING id;
+          `,
+          [
+            ctx.tenantId,
+            row.parsed.fullName,
+            row.parsed.email,
+            row.parsed.phoneHome,
+            row.parsed.phoneMobile,
+            row.parsed.birthDate
+          ]
+        );
+        const participantId = created.rows[0].id;
+
+        await client.query(
+          `
+            INSERT INTO participant_cell_links (
+              participant_id,
+              cell_id,
+              tenant_id,
+              type,
+              is_active
+            )
+            VALUES ($1, $2, $3, $4, TRUE);
+          `,
+          [participantId, row.parsed.cellId, ctx.tenantId, row.parsed.type]
+        );
+
+        await client.query(
+          `
+            INSERT INTO participant_status_history (
+              tenant_id,
+              participant_id,
+              from_type,
+              to_type,
+              changed_by_user_id,
+              notes
+            )
+            VALUES ($1, $2, NULL, $3, $4, 'Importacao');
+          `,
+          [ctx.tenantId, participantId, row.parsed.type, ctx.userId]
+        );
+        participantIds.push(participantId);
+      }
+
+      const batchId = await createImportBatch(client, {
+        tenantId: ctx.tenantId,
+        kind: "participants",
+        format: payload.format,
+        fileName: payload.fileName ?? null,
+        totalRows: rows.length,
+        importedRows: selected.length,
+        skippedRows: rows.length - selected.length,
+        userId: ctx.userId
+      });
+      await recordAudit(client, request, {
+        tenantId: ctx.tenantId,
+        actorUserId: ctx.userId,
+        action: "participant.import",
+        entityType: "import_batch",
+        entityId: batchId,
+        after: {
+          fileName: payload.fileName ?? null,
+          importedRows: selected.length,
+          skippedRows: rows.length - selected.length,
+          participantIds
+        }
+      });
+      await client.query("COMMIT;");
+
+      response.status(201).json({
+        message: `${selected.length} participante(s) importado(s).`,
+        batchId,
+        summary,
+        rows: toImportResponse(rows)
+      });
+    } catch (error) {
+      await client.query("ROLLBACK;");
+      throw error;
+    } finally {
+      client.release();
+    }
+  })
+);
+
+importRoutes.post(
+  "/cells",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const payload = importRequestSchema.parse(request.body);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "cells_admin", "create");
+      if (ctx.scope !== "all") {
+        throw new AppError("Apenas perfis com acesso a toda a igreja podem importar celulas.", 403);
+      }
+      const rows = await validateCellRows(client, ctx, payload);
+      const summary = summarizeImport(rows);
+
+      if (payload.dryRun) {
+        response.json({ dryRun: true, summary, rows: toImportResponse(rows) });
+        return;
+      }
+
+      const selected = selectRowsToImport(rows, payload);
+      await client.query("BEGIN;");
+      const createdNetworks = new Map<string, string>();
+      const cellIds: string[] = [];
+      for (const row of selected) {
+        let networkId = row.parsed.networkId ?? createdNetworks.get(row.parsed.networkKey);
+        if (!networkId) {
+          const code =
+            row.parsed.networkCode ?? (await nextStructureCode(client, ctx.tenantId, "church_networks"));
+          const network = await client.query<{ id: string }>(
+            `
+              INSERT INTO church_networks (tenant_id, name, code)
+              VALUES ($1, $2, $3)
+              RETURNING id;
+            `,
+            [ctx.tenantId, row.parsed.networkName, code]
+          );
+          networkId = network.rows[0].id;
+          createdNetworks.set(row.parsed.networkKey, networkId);
+        }
+
+        const code = row.parsed.cellCode ?? (await nextStructureCode(client, ctx.tenantId, "cells"));
+        const created = await client.query<{ id: string }>(
+          `
+            INSERT INTO cells (
+              tenant_id,
+              network_id,
+              org_unit_id,
+              name,
+              code,
+              leader_user_id,
+              phone,
+              email
+            )
+            VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+            RETURNING id;
+          `,
+          [
+            ctx.tenantId,
+            networkId,
+            row.parsed.orgUnitId,
+            row.parsed.cellName,
+            code,
+            row.parsed.leaderUserId,
+            row.parsed.phone,
+            row.parsed.email
+          ]
+        );
+        if (row.parsed.leaderUserId) {
+          await grantLeaderCellScope(client, ctx.tenantId, row.parsed.leaderUserId, created.rows[0].id);
+        }
+        cellIds.push(created.rows[0].id);
+      }
+
+      const batchId = await createImportBatch(client, {
+        tenantId: ctx.tenantId,
+        kind: "cells",
+        format: payload.format,
+        fileName: payload.fileName ?? null,
+        totalRows: rows.length,
+        importedRows: selected.length,
+        skippedRows: rows.length - selected.length,
+        userId: ctx.userId
+      });
+      await recordAudit(client, request, {
+        tenantId: ctx.tenantId,
+        actorUserId: ctx.userId,
+        action: "cell.import",
+        entityType: "import_batch",
+        entityId: batchId,
+        after: {
+          fileName: payload.fileName ?? null,
+          importedRows: selected.length,
+          skippedRows: rows.length - selected.length,
+          networkIds: Array.from(createdNetworks.values()),
+          cellIds
+        }
+      });
+      await client.query("COMMIT;");
+
+      response.status(201).json({
+        message: `${selected.length} celula(s) importada(s).`,
+        batchId,
+        summary,
+        rows: toImportResponse(rows)
+      });
+    } catch (error) {
+      await client.query("ROLLBACK;");
+      throw error;
+    } finally {
+      client.release();
+    }
+  })
+);
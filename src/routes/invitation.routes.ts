@@ -0,0 +1,392 @@
+import { Router } from "express";
+import { z } from "zod";
+import { asyncHandler } from "../common/async-handler";
+import { AppError } from "../common/errors";
+import { env } from "../config/env";
+import { pool } from "../db/pool";
+import { recordAudit } from "../lib/audit";
+import { mailer } from "../lib/mail";
+import { generateOpaqueToken, hashOpaqueToken } from "../lib/tokens";
+import { requireAuth } from "../middlewares/auth.middleware";
+import { reportError } from "../middlewares/error.middleware";
+import { AccessContext, assertPermission, loadAccessContext } from "../panel/access";
+import { coversRole, getRoleLabel, normalizePanelRole } from "../panel/permissions";
+import { findAssignableRole, resolveMemberRole } from "../panel/roles";
+import { assertScopeTargets } from "../panel/scopes";
+
+const createInvitationSchema = z.object({
+  email: z.string().trim().email().max(160),
+  role: z.string().trim().min(1).max(60),
+  networkIds: z.array(z.string().uuid()).default([]),
+  cellIds: z.array(z.string().uuid()).default([])
+});
+
+const invitationStatuses = ["pending", "expired", "accepted", "revoked"] as const;
+
+type InvitationRow = {
+  id: string;
+  email: string;
+  role: string;
+  role_key: string | null;
+  role_name: string | null;
+  network_ids: string[];
+  cell_ids: string[];
+  expires_at: string;
+  sent_count: number;
+  last_sent_at: string;
+  accepted_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+  invited_by_name: string;
+  status: (typeof invitationStatuses)[number];
+};
+
+function buildInviteUrl(token: string): string {
+  return `${env.APP_URL}/?invite=${encodeURIComponent(token)}`;
+}
+
+async function sendInvitationEmail(
+  ctx: AccessContext,
+  email: string,
+  token: string
+): Promise<void> {
+  try {
+    await mailer.send({
+      to: email,
+      subject: `Convite para ${ctx.tenantName}`,
+      text: [
+        "Ola.",
+        "",
+        `${ctx.userName} convidou voce para participar da equipe de ${ctx.tenantName}.`,
+        "Para aceitar o convite, acesse o link abaixo:",
+        buildInviteUrl(token),
+        "",
+        `O link expira em ${env.INVITATION_TTL_HOURS} horas e so pode ser usado uma vez.`,
+        "Se voce nao esperava este convite, ignore este e-mail."
+      ].join("\n")
+    });
+  } catch (error) {
+    reportError(error);
+  }
+}
+
+export const invitationRoutes = Router();
+
+invitationRoutes.use(requireAuth);
+
+invitationRoutes.get(
+  "/",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const status = z
+      .enum(invitationStatuses)
+      .optional()
+      .parse(request.query.status || undefined);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "team", "view");
+      const rows = await client.query<InvitationRow>(
+        `
+          SELECT *
+            FROM (
+              SELECT
+                i.id,
+                i.email,
+                i.role::text AS role,
+                r.key AS role_key,
+                r.name AS role_name,
+                i.network_ids,
+                i.cell_ids,
+                i.expires_at::text,
+                i.sent_count,
+                i.last_sent_at::text,
+                i.accepted_at::text,
+                i.revoked_at::text,
+                i.created_at::text,
+                u.full_name AS invited_by_name,
+                CASE
+                  WHEN i.accepted_at IS NOT NULL THEN 'accepted'
+                  WHEN i.revoked_at IS NOT NULL THEN 'revoked'
+                  WHEN i.expires_at <= NOW() THEN 'expired'
+                  ELSE 'pending'
+                END AS status
+              FROM tenant_invitations i
+              JOIN users u ON u.id = i.invited_by_user_id
+              LEFT JOIN tenant_roles r ON r.id = i.role_id
+              WHERE i.tenant_id = $1
+            ) invitations
+           WHERE ($2::text IS NULL OR status = $2)
+           ORDER BY created_at DESC
+           LIMIT 200;
+        `,
+        [ctx.tenantId, status ?? null]
+      );
+
+      response.json({
+        rows: rows.rows.map((row) => ({
+          id: row.id,
+          email: row.email,
+          role: row.role,
+          roleKey: row.role_key ?? row.role,
+          roleName: row.role_name ?? getRoleLabel(normalizePanelRole(row.role as never)),
+          networkIds: row.network_ids,
+          cellIds: row.cell_ids,
+          status: row.status,
+          expiresAt: row.expires_at,
+          sentCount: row.sent_count,
+          lastSentAt: row.last_sent_at,
+          acceptedAt: row.accepted_at,
+          revokedAt: row.revoked_at,
+          createdAt: row.created_at,
+          invitedBy: row.invited_by_name
+        }))
+      });
+    } finally {
+      client.release();
+    }
+  })
+);
+
+invitationRoutes.post(
+  "/",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const payload = createInvitationSchema.parse(request.body);
+    const email = payload.email.toLowerCase();
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "team", "create");
+      const role = await findAssignableRole(client, ctx.tenantId, payload.role);
+      if (!coversRole(ctx, role)) {
+        throw new AppError(
+          "Voce nao pode convidar para um perfil com permissoes acima das suas.",
+          403
+        );
+      }
+      await assertScopeTargets(client, ctx.tenantId, payload.networkIds, payload.cellIds);
+
+      const existingMember = await client.query(
+        `
+          SELECT 1
+            FROM users u
+            JOIN tenant_members tm
+              ON tm.user_id = u.id
+             AND tm.tenant_id = $1
+             AND tm.is_active = TRUE
+           WHERE lower(u.email) = lower($2)
+             AND u.deleted_at IS NULL
+           LIMIT 1;
+        `,
+        [ctx.tenantId, email]
+      );
+      if (existingMember.rowCount) {
+        throw new AppError("Este e-mail ja faz parte da igreja.", 409);
+      }
+
+      const token = generateOpaqueToken();
+
+      await client.query("BEGIN;");
+      await client.query(
+        `
+          UPDATE tenant_invitations
+             SET revoked_at = NOW()
+           WHERE tenant_id = $1
+             AND lower(email) = lower($2)
+             AND accepted_at IS NULL
+             AND revoked_at IS NULL;
+        `,
+        [ctx.tenantId, email]
+      );
+
+      const created = await client.query<{ id: string; expires_at: string }>(
+        `
+          INSERT INTO tenant_invitations (
+            tenant_id,
+            email,
+            role,
+            role_id,
+            network_ids,
+            cell_ids,
+            token_hash,
+            expires_at,
+            invited_by_user_id
+          )
+          VALUES (
+            $1, $2, $3, $4, $5::uuid[], $6::uuid[], $7,
+            NOW() + ($8::int * INTERVAL '1 hour'),
+            $9
+          )
+          RETURNING id, expires_at::text;
+        `,
+        [
+          ctx.tenantId,
+          email,
+          role.baseRole,
+          role.isSystem ? null : role.id,
+          payload.networkIds,
+          payload.cellIds,
+          hashOpaqueToken(token),
+          env.INVITATION_TTL_HOURS,
+          ctx.userId
+        ]
+      );
+      await recordAudit(client, request, {
+        tenantId: ctx.tenantId,
+        actorUserId: ctx.userId,
+        action: "invitation.create",
+        entityType: "invitation",
+        entityId: created.rows[0].id,
+        after: {
+          email,
+          roleKey: role.key,
+          networkIds: payload.networkIds,
+          cellIds: payload.cellIds
+        }
+      });
+      await client.query("COMMIT;");
+
+      await sendInvitationEmail(ctx, email, token);
+      response.status(201).json({
+        message: "Convite enviado.",
+        id: created.rows[0].id,
+        expiresAt: created.rows[0].expires_at
+      });
+    } catch (error) {
+      await client.query("ROLLBACK;");
+      throw error;
+    } finally {
+      client.release();
+    }
+  })
+);
+
+invitationRoutes.post(
+  "/:id/resend",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const invitationId = z.string().uuid().parse(request.params.id);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "team", "create");
+
+      await client.query("BEGIN;");
+      const invitation = await client.query<{ role: string; role_id: string | null }>(
+        `
+          SELECT role::text AS role, role_id
+            FROM tenant_invitations
+           WHERE id = $1
+             AND tenant_id = $2
+             AND accepted_at IS NULL
+             AND revoked_at IS NULL
+           LIMIT 1
+           FOR UPDATE;
+        `,
+        [invitationId, ctx.tenantId]
+      );
+      if (!invitation.rowCount) {
+        throw new AppError("Convite nao encontrado ou ja finalizado.", 404);
+      }
+      const role = await resolveMemberRole(
+        client,
+        ctx.tenantId,
+        normalizePanelRole(invitation.rows[0].role as never),
+        invitation.rows[0].role_id
+      );
+      if (!coversRole(ctx, role)) {
+        throw new AppError(
+          "Voce nao pode reenviar um convite para um perfil com permissoes acima das suas.",
+          403
+        );
+      }
+
+      const token = generateOpaqueToken();
+      const updated = await client.query<{ id: string; email: string; expires_at: string }>(
+        `
+          UPDATE tenant_invitations
+             SET token_hash = $1,
+                 expires_at = NOW() + ($2::int * INTERVAL '1 hour'),
+                 sent_count = sent_count + 1,
+                 last_sent_at = NOW()
+           WHERE id = $3
+             AND tenant_id = $4
+             AND accepted_at IS NULL
+             AND revoked_at IS NULL
+         RETURNING id, email, expires_at::text;
+        `,
+        [hashOpaqueToken(token), env.INVITATION_TTL_HOURS, invitationId, ctx.tenantId]
+      );
+
+      if (!updated.rowCount) {
+        throw new AppError("Convite nao encontrado ou ja finalizado.", 404);
+      }
+
+      await recordAudit(client, request, {
+        tenantId: ctx.tenantId,
+        actorUserId: ctx.userId,
+        action: "invitation.resend",
+        entityType: "invitation",
+        entityId: invitationId,
+        after: { expiresAt: updated.rows[0].expires_at }
+      });
+      await client.query("COMMIT;");
+
+      await sendInvitationEmail(ctx, updated.rows[0].email, token);
+      response.json({
+        message: "Convite reenviado.",
+        id: updated.rows[0].id,
+        expiresAt: updated.rows[0].expires_at
+      });
+    } catch (error) {
+      await client.query("ROLLBACK;");
+      throw error;
+    } finally {
+      client.release();
+    }
+  })
+);
+
+invitationRoutes.delete(
+  "/:id",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const invitationId = z.string().uuid().parse(request.params.id);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "team", "edit");
+
+      const revoked = await client.query(
+        `
+          UPDATE tenant_invitations
+             SET revoked_at = NOW()
+           WHERE id = $1
+             AND tenant_id = $2
+             AND accepted_at IS NULL
+             AND revoked_at IS NULL;
+        `,
+        [invitationId, ctx.tenantId]
+      );
+
+      if (!revoked.rowCount) {
+        throw new AppError("Convite nao encontrado ou ja finalizado.", 404);
+      }
+
+      await recordAudit(client, request, {
+        tenantId: ctx.tenantId,
+        actorUserId: ctx.userId,
+        action: "invitation.revoke",
+        entityType: "invitation",
+        entityId: invitationId,
+        before: { revoked: false },
+        after: { revoked: true }
+      });
+
+      response.status(204).send();
+    } finally {
+      client.release();
+    }
+  })
+);
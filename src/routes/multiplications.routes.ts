@@ -0,0 +1,526 @@
+import { Router } from "express";
+import { z } from "zod";
+import { asyncHandler } from "../common/async-handler";
+import { AppError } from "../common/errors";
+import { pool } from "../db/pool";
+import { recordAudit } from "../lib/audit";
+import { requireAuth } from "../middlewares/auth.middleware";
+import {
+  AccessContext,
+  assertCellInScope,
+  assertPermission,
+  getScopedCellIds,
+  loadAccessContext
+} from "../panel/access";
+import {
+  assertCodeAvailable,
+  assertLeaderIsMember,
+  grantLeaderCellScope,
+  nextStructureCode,
+  structureCodeSchema
+} from "../panel/structure";
+import { moveParticipants } from "../panel/transfers";
+
+const multiplicationSchema = z.object({
+  parentCellId: z.string().uuid(),
+  name: z.string().trim().min(2).max(120),
+  code: structureCodeSchema.optional(),
+  leaderUserId: z.string().uuid(),
+  phone: z.string().trim().min(8).max(30).optional(),
+  email: z.string().trim().email().max(160).optional(),
+  participantIds: z.array(z.string().uuid()).min(1),
+  multipliedOn: z.string().date().optional(),
+  notes: z.string().trim().max(1000).optional()
+});
+
+const listMultiplicationsQuerySchema = z.object({
+  networkId: z.string().uuid().optional(),
+  leaderUserId: z.string().uuid().optional(),
+  from: z.string().date().optional(),
+  to: z.string().date().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+const treeQuerySchema = z.object({
+  networkId: z.string().uuid().optional(),
+  includeInactive: z.enum(["true", "false"]).default("false")
+});
+
+const statsQuerySchema = z.object({
+  from: z.string().date().optional(),
+  to: z.string().date().optional()
+});
+
+type LineageNode = {
+  cellId: string;
+  name: string;
+  code: string;
+  leaderName: string | null;
+  isActive: boolean;
+  multipliedOn: string | null;
+  generation: number;
+  descendants: number;
+  children: LineageNode[];
+};
+
+function scopeParams(ctx: AccessContext): [string[] | null, string[] | null] {
+  return [
+    ctx.scope === "network" ? ctx.networkIds : null,
+    getScopedCellIds(ctx)
+  ];
+}
+
+function finalizeNode(node: LineageNode, generation: number): number {
+  node.generation = generation;
+  node.descendants = node.children.reduce(
+    (total, child) => total + 1 + finalizeNode(child, generation + 1),
+    0
+  );
+  return node.descendants;
+}
+
+export const multiplicationRoutes = Router();
+
+multiplicationRoutes.use(requireAuth);
+
+multiplicationRoutes.get(
+  "/",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const filters = listMultiplicationsQuerySchema.parse(request.query);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "cells_admin", "view");
+      const [networkIds, cellIds] = scopeParams(ctx);
+      const rows = await client.query<{
+        id: string;
+        network_id: string;
+        network_name: string;
+        parent_cell_id: string;
+        parent_cell_name: string;
+        child_cell_id: string;
+        child_cell_name: string;
+        parent_leader_name: string | null;
+        child_leader_name: string;
+        participants_moved: number;
+        multiplied_on: string;
+        notes: string | null;
+        created_by_name: string;
+        created_at: string;
+      }>(
+        `
+          SELECT
+            m.id,
+            m.network_id,
+            n.name AS network_name,
+            m.parent_cell_id,
+            pc.name AS parent_cell_name,
+            m.child_cell_id,
+            cc.name AS child_cell_name,
+            pl.full_name AS parent_leader_name,
+            cl.full_name AS child_leader_name,
+            m.participants_moved,
+            m.multiplied_on::text,
+            m.notes,
+            cu.full_name AS created_by_name,
+            m.created_at::text
+          FROM cell_multiplications m
+          JOIN church_networks n ON n.id = m.network_id
+          JOIN cells pc ON pc.id = m.parent_cell_id
+          JOIN cells cc ON cc.id = m.child_cell_id
+          LEFT JOIN users pl ON pl.id = m.parent_leader_user_id
+          JOIN users cl ON cl.id = m.child_leader_user_id
+          JOIN users cu ON cu.id = m.created_by_user_id
+          WHERE m.tenant_id = $1
+            AND ($2::uuid[] IS NULL OR m.network_id = ANY($2::uuid[]))
+            AND (
+              $3::uuid[] IS NULL
+              OR m.parent_cell_id = ANY($3::uuid[])
+              OR m.child_cell_id = ANY($3::uuid[])
+            )
+            AND ($4::uuid IS NULL OR m.network_id = $4)
+            AND ($5::uuid IS NULL OR m.parent_leader_user_id = $5 OR m.child_leader_user_id = $5)
+            AND ($6::date IS NULL OR m.multiplied_on >= $6)
+            AND ($7::date IS NULL OR m.multiplied_on <= $7)
+          ORDER BY m.multiplied_on DESC, m.created_at DESC
+          LIMIT $8
+          OFFSET $9;
+        `,
+        [
+          ctx.tenantId,
+          networkIds,
+          cellIds,
+          filters.networkId ?? null,
+          filters.leaderUserId ?? null,
+          filters.from ?? null,
+          filters.to ?? null,
+          filters.limit,
+          filters.offset
+        ]
+      );
+
+      response.json({
+        rows: rows.rows.map((row) => ({
+          id: row.id,
+          networkId: row.network_id,
+          networkName: row.network_name,
+          parentCellId: row.parent_cell_id,
+          parentCellName: row.parent_cell_name,
+          childCellId: row.child_cell_id,
+          childCellName: row.child_cell_name,
+          parentLeader: row.parent_leader_name,
+          childLeader: row.child_leader_name,
+          participantsMoved: row.participants_moved,
+          multipliedOn: row.multiplied_on,
+          notes: row.notes,
+          createdBy: row.created_by_name,
+          createdAt: row.created_at
+        }))
+      });
+    } finally {
+      client.release();
+    }
+  })
+);
+
+multiplicationRoutes.get(
+  "/tree",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const filters = treeQuerySchema.parse(request.query);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "cells_admin", "view");
+      const [networkIds, cellIds] = scopeParams(ctx);
+      const rows = await client.query<{
+        id: string;
+        name: string;
+        code: string;
+        network_id: string;
+        network_name: string;
+        leader_name: string | null;
+        is_active: boolean;
+        parent_cell_id: string | null;
+        multiplied_on: string | null;
+      }>(
+        `
+          SELECT
+            c.id,
+            c.name,
+            c.code,
+            c.network_id,
+            n.name AS network_name,
+            u.full_name AS leader_name,
+            c.is_active,
+            m.parent_cell_id,
+            m.multiplied_on::text
+          FROM cells c
+          JOIN church_networks n ON n.id = c.network_id
+          LEFT JOIN users u ON u.id = c.leader_user_id
+          LEFT JOIN cell_multiplications m ON m.child_cell_id = c.id
+          WHERE c.tenant_id = $1
+            AND ($2::uuid[] IS NULL OR c.network_id = ANY($2::uuid[]))
+            AND ($3::uuid[] IS NULL OR c.id = ANY($3::uuid[]))
+            AND ($4::uuid IS NULL OR c.network_id = $4)
+            AND ($5::boolean OR c.is_active = TRUE)
+          ORDER BY n.name, c.name;
+        `,
+        [
+          ctx.tenantId,
+          networkIds,
+          cellIds,
+          filters.networkId ?? null,
+          filters.includeInactive === "true"
+        ]
+      );
+
+      const nodes = new Map<string, LineageNode>();
+      for (const row of rows.rows) {
+        nodes.set(row.id, {
+          cellId: row.id,
+          name: row.name,
+          code: row.code,
+          leaderName: row.leader_name,
+          isActive: row.is_active,
+          multipliedOn: row.multiplied_on,
+          generation: 0,
+          descendants: 0,
+          children: []
+        });
+      }
+
+      const networks = new Map<string, { networkId: string; networkName: string; roots: LineageNode[] }>();
+      for (const row of rows.rows) {
+        const node = nodes.get(row.id)!;
+        const parent = row.parent_cell_id ? nodes.get(row.parent_cell_id) : undefined;
+        if (parent) {
+          parent.children.push(node);
+          continue;
+        }
+
+        const network = networks.get(row.network_id) ?? {
+          networkId: row.network_id,
+          networkName: row.network_name,
+          roots: []
+        };
+        network.roots.push(node);
+        networks.set(row.network_id, network);
+      }
+
+      const trees = Array.from(networks.values());
+      for (const tree of trees) {
+        for (const root of tree.roots) {
+          finalizeNode(root, 0);
+        }
+      }
+
+      response.json({ trees });
+    } finally {
+      client.release();
+    }
+  })
+);
+
+multiplicationRoutes.get(
+  "/stats",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const filters = statsQuerySchema.parse(request.query);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "cells_admin", "view");
+      const [networkIds, cellIds] = scopeParams(ctx);
+      const params = [
+        ctx.tenantId,
+        networkIds,
+        cellIds,
+        filters.from ?? null,
+        filters.to ?? null
+      ];
+      const scopedMultiplications = `
+        SELECT m.*
+          FROM cell_multiplications m
+         WHERE m.tenant_id = $1
+           AND ($2::uuid[] IS NULL OR m.network_id = ANY($2::uuid[]))
+           AND (
+             $3::uuid[] IS NULL
+             OR m.parent_cell_id = ANY($3::uuid[])
+             OR m.child_cell_id = ANY($3::uuid[])
+           )
+           AND ($4::date IS NULL OR m.multiplied_on >= $4)
+           AND ($5::date IS NULL OR m.multiplied_on <= $5)
+      `;
+
+      const byNetwork = await client.query<{
+        network_id: string;
+        network_name: string;
+        multiplications: number;
+        participants_moved: number;
+        last_multiplied_on: string;
+      }>(
+        `
+          SELECT
+            n.id AS network_id,
+            n.name AS network_name,
+            COUNT(*)::int AS multiplications,
+            SUM(m.participants_moved)::int AS participants_moved,
+            MAX(m.multiplied_on)::text AS last_multiplied_on
+          FROM (${scopedMultiplications}) m
+          JOIN church_networks n ON n.id = m.network_id
+          GROUP BY n.id, n.name
+          ORDER BY multiplications DESC, n.name;
+        `,
+        params
+      );
+
+      const byLeader = await client.query<{
+        leader_user_id: string;
+        leader_name: string;
+        multiplications: number;
+        participants_moved: number;
+        last_multiplied_on: string;
+      }>(
+        `
+          SELECT
+            u.id AS leader_user_id,
+            u.full_name AS leader_name,
+            COUNT(*)::int AS multiplications,
+            SUM(m.participants_moved)::int AS participants_moved,
+            MAX(m.multiplied_on)::text AS last_multiplied_on
+          FROM (${scopedMultiplications}) m
+          JOIN users u ON u.id = m.parent_leader_user_id
+          GROUP BY u.id, u.full_name
+          ORDER BY multiplications DESC, u.full_name;
+        `,
+        params
+      );
+
+      response.json({
+        byNetwork: byNetwork.rows.map((row) => ({
+          networkId: row.network_id,
+          networkName: row.network_name,
+          multiplications: row.multiplications,
+          participantsMoved: row.participants_moved,
+          lastMultipliedOn: row.last_multiplied_on
+        })),
+        byLeader: byLeader.rows.map((row) => ({
+          leaderUserId: row.leader_user_id,
+          leaderName: row.leader_name,
+          multiplications: row.multiplications,
+          participantsMoved: row.participants_moved,
+          lastMultipliedOn: row.last_multiplied_on
+        }))
+      });
+    } finally {
+      client.release();
+    }
+  })
+);
+
+multiplicationRoutes.post(
+  "/",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const payload = multiplicationSchema.parse(request.body);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "cells_admin", "create");
+
+      await client.query("BEGIN;");
+      const parent = await client.query<{
+        id: string;
+        network_id: string;
+        org_unit_id: string | null;
+        leader_user_id: string | null;
+        is_active: boolean;
+      }>(
+        `
+          SELECT id, network_id, org_unit_id, leader_user_id, is_active
+            FROM cells
+           WHERE id = $1
+             AND tenant_id = $2
+           LIMIT 1
+           FOR UPDATE;
+        `,
+        [payload.parentCellId, ctx.tenantId]
+      );
+      const parentCell = parent.rows[0];
+      if (!parentCell || !parentCell.is_active) {
+        throw new AppError("Celula de origem nao encontrada ou inativa.", 404);
+      }
+      assertCellInScope(ctx, parentCell);
+      await assertLeaderIsMember(client, ctx.tenantId, payload.leaderUserId);
+
+      const code = payload.code ?? (await nextStructureCode(client, ctx.tenantId, "cells"));
+      await assertCodeAvailable(client, ctx.tenantId, "cells", code);
+      const child = await client.query<{ id: string }>(
+        `
+          INSERT INTO cells (
+            tenant_id,
+            network_id,
+            org_unit_id,
+            name,
+            code,
+            leader_user_id,
+            phone,
+            email
+          )
+          VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+          RETURNING id;
+        `,
+        [
+          ctx.tenantId,
+          parentCell.network_id,
+          parentCell.org_unit_id,
+          payload.name,
+          code,
+          payload.leaderUserId,
+          payload.phone ?? null,
+          payload.email?.toLowerCase() ?? null
+        ]
+      );
+      const childCellId = child.rows[0].id;
+      await grantLeaderCellScope(client, ctx.tenantId, payload.leaderUserId, childCellId);
+
+      const transferId = await moveParticipants(client, {
+        tenantId: ctx.tenantId,
+        sourceCellId: parentCell.id,
+        destinationCellId: childCellId,
+        participantIds: payload.participantIds,
+        userId: ctx.userId
+      });
+
+      const participantsMoved = new Set(payload.participantIds).size;
+      const created = await client.query<{ id: string; multiplied_on: string }>(
+        `
+          INSERT INTO cell_multiplications (
+            tenant_id,
+            network_id,
+            parent_cell_id,
+            child_cell_id,
+            parent_leader_user_id,
+            child_leader_user_id,
+            transfer_log_id,
+            participants_moved,
+            multiplied_on,
+            notes,
+            created_by_user_id
+          )
+          VALUES ($1, $2, $3, $4, $5, $6, $7, $8, COALESCE($9::date, CURRENT_DATE), $10, $11)
+          RETURNING id, multiplied_on::text;
+        `,
+        [
+          ctx.tenantId,
+          parentCell.network_id,
+          parentCell.id,
+          childCellId,
+          parentCell.leader_user_id,
+          payload.leaderUserId,
+          transferId,
+          participantsMoved,
+          payload.multipliedOn ?? null,
+          payload.notes ?? null,
+          ctx.userId
+        ]
+      );
+
+      await recordAudit(client, request, {
+        tenantId: ctx.tenantId,
+        actorUserId: ctx.userId,
+        action: "cell.multiply",
+        entityType: "cell_multiplication",
+        entityId: created.rows[0].id,
+        after: {
+          parentCellId: parentCell.id,
+          childCellId,
+          childCellName: payload.name,
+          childCellCode: code,
+          leaderUserId: payload.leaderUserId,
+          participantIds: payload.participantIds,
+          multipliedOn: created.rows[0].multiplied_on
+        }
+      });
+      await client.query("COMMIT;");
+
+      response.status(201).json({
+        message: "Multiplicacao registrada.",
+        id: created.rows[0].id,
+        childCellId,
+        childCellCode: code,
+        transferId,
+        participantsMoved,
+        multipliedOn: created.rows[0].multiplied_on
+      });
+    } catch (error) {
+      await client.query("ROLLBACK;");
+      throw error;
+    } finally {
+      client.release();
+    }
+  })
+);
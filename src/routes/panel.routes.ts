@@ -4,47 +4,24 @@ import { z } from "zod";
 import { asyncHandler } from "../common/async-handler";
 import { AppError } from "../common/errors";
 import { pool } from "../db/pool";
+import { AuditValues, recordAudit } from "../lib/audit";
 import { requireAuth } from "../middlewares/auth.middleware";
+import { assertPermission, getVisibleCells, loadAccessContext } from "../panel/access";
+import {
+  loadConsolidationFunnel,
+  loadConsolidationProgress,
+  saveConsolidationProgress,
+  stageProgressSchema
+} from "../panel/consolidation";
+import { findDuplicateCandidates } from "../panel/duplicates";
 import {
-  ActionKey,
   canAccess,
-  getRolePermissions,
-  getRoleScope,
   ModuleKey,
   normalizePanelRole,
   PanelRole,
-  ScopeKind
+  PermissionMatrix
 } from "../panel/permissions";
 
-type AccessContext = {
-  userId: string;
-  userName: string;
-  userEmail: string;
-  tenantId: string;
-  tenantName: string;
-  role: PanelRole;
-  scope: ScopeKind;
-  networkIds: string[];
-  cellIds: string[];
-};
-
-type VisibleCell = {
-  id: string;
-  name: string;
-  code: string;
-  network_id: string;
-  network_name: string;
-  leader_name: string | null;
-  email: string | null;
-  phone: string | null;
-};
-
-const transferSchema = z.object({
-  sourceCellId: z.string().uuid(),
-  destinationCellId: z.string().uuid(),
-  participantIds: z.array(z.string().uuid()).min(1)
-});
-
 const saveNamesSchema = z.object({
   items: z
     .array(
@@ -90,211 +67,71 @@ const consolidationSchema = z.object({
   knownBy: z.enum(["tv", "radio", "friends", "cell", "other"]).default("friends"),
   knownByOther: z.string().trim().max(120).optional(),
   historyNote: z.string().trim().max(1500).optional(),
-  steps: z
-    .object({
-      acceptedInChurch: z.boolean().optional(),
-      acceptedInChurchDate: z.string().date().optional(),
-      fonoVisitDone: z.boolean().optional(),
-      fonoVisitDoneDate: z.string().date().optional(),
-      firstVisitDone: z.boolean().optional(),
-      firstVisitDoneDate: z.string().date().optional(),
-      preEncounterDone: z.boolean().optional(),
-      preEncounterDoneDate: z.string().date().optional(),
-      encounterDone: z.boolean().optional(),
-      encounterDoneDate: z.string().date().optional(),
-      postEncounterDone: z.boolean().optional(),
-      postEncounterDoneDate: z.string().date().optional(),
-      reencounterDone: z.boolean().optional(),
-      reencounterDoneDate: z.string().date().optional(),
-      consolidationDone: z.boolean().optional(),
-      consolidationDoneDate: z.string().date().optional(),
-      baptized: z.boolean().optional(),
-      baptizedDate: z.string().date().optional()
-    })
-    .optional()
+  stages: stageProgressSchema.optional()
 });
 
-function assertPermission(
-  ctx: AccessContext,
-  module: ModuleKey,
-  action: ActionKey
-): void {
-  if (!canAccess(ctx.role, module, action)) {
-    throw new AppError("Voce nao possui permissao para esta acao.", 403);
-  }
-}
-
-async function loadAccessContext(
-  client: PoolClient,
-  userId: string,
-  tenantId: string
-): Promise<AccessContext> {
-  const membership = await client.query<{
-    user_id: string;
-    full_name: string;
-    email: string;
-    tenant_id: string;
-    tenant_name: string;
-    role: string;
-  }>(
-    `
-      SELECT
-        u.id AS user_id,
-        u.full_name,
-        u.email,
-        t.id AS tenant_id,
-        t.name AS tenant_name,
-        tm.role::text AS role
-      FROM users u
-      JOIN tenant_members tm
-        ON tm.user_id = u.id
-       AND tm.tenant_id = $2
-       AND tm.is_active = TRUE
-      JOIN tenants t
-        ON t.id = tm.tenant_id
-       AND t.is_active = TRUE
-      WHERE u.id = $1
-        AND u.is_active = TRUE
-        AND u.deleted_at IS NULL
-      LIMIT 1;
-    `,
-    [userId, tenantId]
-  );
-
-  if (!membership.rowCount) {
-    throw new AppError("Sessao invalida para a igreja selecionada.", 401);
-  }
+const funnelQuerySchema = z.object({
+  from: z.string().date().optional(),
+  to: z.string().date().optional()
+});
 
-  const row = membership.rows[0];
-  const role = normalizePanelRole(row.role as never);
-  const scope = getRoleScope(role);
+type PresidentTreeRow = {
+  cell: string;
+  unitPath: string | null;
+  phone: string | null;
+  email: string | null;
+  members: number;
+  viewAction: string;
+  lessonAction: string;
+};
 
-  const networkRows =
-    scope === "network"
-      ? await client.query<{ network_id: string }>(
-          `
-            SELECT network_id
-              FROM user_network_scopes
-             WHERE tenant_id = $1
-               AND user_id = $2;
-          `,
-          [tenantId, userId]
-        )
-      : { rows: [] as { network_id: string }[] };
+type PresidentTreeUnit = {
+  unitId: string;
+  levelName: string;
+  name: string;
+  code: string;
+  supervisorName: string | null;
+  cellsCount: number;
+  cells: PresidentTreeRow[];
+  children: PresidentTreeUnit[];
+};
 
-  const cellRows =
-    scope === "cell"
-      ? await client.query<{ cell_id: string }>(
-          `
-            SELECT cell_id
-              FROM user_cell_scopes
-             WHERE tenant_id = $1
-               AND user_id = $2;
-          `,
-          [tenantId, userId]
-        )
-      : { rows: [] as { cell_id: string }[] };
-
-  return {
-    userId: row.user_id,
-    userName: row.full_name,
-    userEmail: row.email,
-    tenantId: row.tenant_id,
-    tenantName: row.tenant_name,
-    role,
-    scope,
-    networkIds: networkRows.rows.map((item) => item.network_id),
-    cellIds: cellRows.rows.map((item) => item.cell_id)
-  };
+function toShortCode(value: string): string {
+  return value.replace(/-/g, "").slice(0, 8).toUpperCase();
 }
 
-async function getVisibleCells(client: PoolClient, ctx: AccessContext): Promise<VisibleCell[]> {
-  if (ctx.scope === "network") {
-    if (ctx.networkIds.length === 0) {
-      return [];
-    }
-
-    const result = await client.query<VisibleCell>(
-      `
-        SELECT
-          c.id,
-          c.name,
-          c.code,
-          c.network_id,
-          n.name AS network_name,
-          u.full_name AS leader_name,
-          c.email,
-          c.phone
-        FROM cells c
-        JOIN church_networks n ON n.id = c.network_id
-        LEFT JOIN users u ON u.id = c.leader_user_id
-        WHERE c.tenant_id = $1
-          AND c.is_active = TRUE
-          AND c.network_id = ANY($2::uuid[])
-        ORDER BY n.name, c.name;
-      `,
-      [ctx.tenantId, ctx.networkIds]
-    );
-    return result.rows;
-  }
-
-  if (ctx.scope === "cell") {
-    if (ctx.cellIds.length === 0) {
-      return [];
-    }
-
-    const result = await client.query<VisibleCell>(
-      `
-        SELECT
-          c.id,
-          c.name,
-          c.code,
-          c.network_id,
-          n.name AS network_name,
-          u.full_name AS leader_name,
-          c.email,
-          c.phone
-        FROM cells c
-        JOIN church_networks n ON n.id = c.network_id
-        LEFT JOIN users u ON u.id = c.leader_user_id
-        WHERE c.tenant_id = $1
-          AND c.is_active = TRUE
-          AND c.id = ANY($2::uuid[])
-        ORDER BY n.name, c.name;
-      `,
-      [ctx.tenantId, ctx.cellIds]
-    );
-    return result.rows;
-  }
-
-  const result = await client.query<VisibleCell>(
+async function loadConsolidationSnapshot(
+  client: PoolClient,
+  tenantId: string,
+  consolidationId: string
+): Promise<AuditValues | null> {
+  const result = await client.query<{ snapshot: AuditValues }>(
     `
       SELECT
-        c.id,
-        c.name,
-        c.code,
-        c.network_id,
-        n.name AS network_name,
-        u.full_name AS leader_name,
-        c.email,
-        c.phone
-      FROM cells c
-      JOIN church_networks n ON n.id = c.network_id
-      LEFT JOIN users u ON u.id = c.leader_user_id
-      WHERE c.tenant_id = $1
-        AND c.is_active = TRUE
-      ORDER BY n.name, c.name;
+        (to_jsonb(r) - 'tenant_id' - 'created_at' - 'updated_at')
+        || jsonb_build_object('stages', COALESCE(stages.progress, '{}'::jsonb))
+        AS snapshot
+      FROM consolidation_records r
+      LEFT JOIN LATERAL (
+        SELECT jsonb_object_agg(
+                 st.key,
+                 jsonb_build_object('done', rs.done, 'completedOn', rs.completed_on)
+               ) AS progress
+          FROM consolidation_record_stages rs
+          JOIN consolidation_stages st ON st.id = rs.stage_id
+         WHERE rs.consolidation_id = r.id
+      ) stages ON TRUE
+      WHERE r.id = $1
+        AND r.tenant_id = $2
+      LIMIT 1;
     `,
-    [ctx.tenantId]
+    [consolidationId, tenantId]
   );
-  return result.rows;
-}
 
-function toShortCode(value: string): string {
-  return value.replace(/-/g, "").slice(0, 8).toUpperCase();
+  return result.rows[0]?.snapshot ?? null;
 }
 
-function buildMenu(role: PanelRole) {
+function buildMenu(role: PanelRole, permissions: PermissionMatrix) {
   const menu = [
     {
       key: "cells",
@@ -317,13 +154,25 @@ function buildMenu(role: PanelRole) {
     },
     { key: "discipleship", label: "Discipulado", icon: "users", children: [] },
     { key: "consolidation", label: "Consolidacao", icon: "clipboard", children: [] },
+    { key: "care", label: "Cuidado pastoral", icon: "heart", children: [] },
     {
       key: "leadership_school",
       label: "Escola de lideres",
       icon: "school",
       children: []
+    },
+    {
+      key: "team",
+      label: "Equipe",
+      icon: "user-check",
+      children: [
+        { key: "members", label: "Membros da equipe" },
+        { key: "invitations", label: "Convites" }
+      ]
     }
-  ];
+  ].filter(
+    (item) => item.key === "cells" || canAccess(permissions, item.key as ModuleKey, "view")
+  );
 
   if (role === "pastor_presidente") {
     return menu.map((item) =>
@@ -347,6 +196,19 @@ function buildMenu(role: PanelRole) {
     );
   }
 
+  if (role === "supervisor") {
+    return menu.map((item) =>
+      item.key === "cells"
+        ? {
+            ...item,
+            children: item.children.filter(
+              (child) => child.key === "pastor_rede" || child.key === "lider_celula"
+            )
+          }
+        : item
+    );
+  }
+
   if (role === "lider_celula") {
     return menu.map((item) =>
       item.key === "cells"
@@ -372,6 +234,25 @@ panelRoutes.get(
     const client = await pool.connect();
     try {
       const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      const tenants = await client.query<{
+        tenant_id: string;
+        tenant_name: string;
+        role: string;
+      }>(
+        `
+          SELECT t.id AS tenant_id, t.name AS tenant_name, tm.role::text AS role
+            FROM tenant_members tm
+            JOIN tenants t
+              ON t.id = tm.tenant_id
+             AND t.is_active = TRUE
+           WHERE tm.user_id = $1
+             AND tm.is_active = TRUE
+             AND tm.tenant_id <> $2
+           ORDER BY t.name;
+        `,
+        [ctx.userId, ctx.tenantId]
+      );
+
       response.json({
         user: {
           id: ctx.userId,
@@ -383,9 +264,16 @@ panelRoutes.get(
           name: ctx.tenantName
         },
         role: ctx.role,
+        roleKey: ctx.roleKey,
+        roleName: ctx.roleName,
         scope: ctx.scope,
-        permissions: getRolePermissions(ctx.role),
-        menu: buildMenu(ctx.role)
+        permissions: ctx.permissions,
+        menu: buildMenu(ctx.role, ctx.permissions),
+        availableTenants: tenants.rows.map((row) => ({
+          id: row.tenant_id,
+          name: row.tenant_name,
+          role: normalizePanelRole(row.role as never)
+        }))
       });
     } finally {
       client.release();
@@ -570,170 +458,6 @@ panelRoutes.get(
   })
 );
 
-panelRoutes.get(
-  "/transfers/context",
-  asyncHandler(async (request, response) => {
-    const auth = request.auth!;
-    const sourceCellId = request.query.sourceCellId
-      ? String(request.query.sourceCellId)
-      : null;
-    const client = await pool.connect();
-    try {
-      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
-      assertPermission(ctx, "cells_admin", "view");
-      const cells = await getVisibleCells(client, ctx);
-      const cellIds = new Set(cells.map((cell) => cell.id));
-
-      if (!sourceCellId) {
-        response.json({ cells, participants: [] });
-        return;
-      }
-
-      if (!cellIds.has(sourceCellId)) {
-        throw new AppError("Celula de origem fora do seu escopo.", 403);
-      }
-
-      const participants = await client.query<{
-        id: string;
-        full_name: string;
-        type: string;
-      }>(
-        `
-          SELECT p.id, p.full_name, pcl.type::text AS type
-            FROM participants p
-            JOIN participant_cell_links pcl
-              ON pcl.participant_id = p.id
-             AND pcl.is_active = TRUE
-           WHERE p.tenant_id = $1
-             AND pcl.cell_id = $2
-           ORDER BY p.full_name;
-        `,
-        [ctx.tenantId, sourceCellId]
-      );
-
-      response.json({
-        cells,
-        participants: participants.rows.map((row) => ({
-          id: row.id,
-          name: row.full_name,
-          type: row.type
-        }))
-      });
-    } finally {
-      client.release();
-    }
-  })
-);
-
-panelRoutes.post(
-  "/transfers",
-  asyncHandler(async (request, response) => {
-    const auth = request.auth!;
-    const payload = transferSchema.parse(request.body);
-    if (payload.sourceCellId === payload.destinationCellId) {
-      throw new AppError("Origem e destino nao podem ser iguais.", 400);
-    }
-
-    const client = await pool.connect();
-    try {
-      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
-      assertPermission(ctx, "cells_admin", "create");
-      const cells = await getVisibleCells(client, ctx);
-      const cellIds = new Set(cells.map((cell) => cell.id));
-
-      if (!cellIds.has(payload.sourceCellId) || !cellIds.has(payload.destinationCellId)) {
-        throw new AppError("Transferencia fora do seu escopo.", 403);
-      }
-
-      await client.query("BEGIN;");
-      const sourceRows = await client.query<{
-        participant_id: string;
-        type: "member" | "congregated" | "visitor";
-      }>(
-        `
-          SELECT participant_id, type::text AS type
-            FROM participant_cell_links
-           WHERE tenant_id = $1
-             AND cell_id = $2
-             AND participant_id = ANY($3::uuid[])
-             AND is_active = TRUE;
-        `,
-        [ctx.tenantId, payload.sourceCellId, payload.participantIds]
-      );
-
-      if (sourceRows.rowCount !== payload.participantIds.length) {
-        throw new AppError("Participantes invalidos para a celula de origem.", 400);
-      }
-
-      const transferLog = await client.query<{ id: string }>(
-        `
-          INSERT INTO transfer_logs (
-            tenant_id,
-            source_cell_id,
-            destination_cell_id,
-            transferred_by_user_id
-          )
-          VALUES ($1, $2, $3, $4)
-          RETURNING id;
-        `,
-        [ctx.tenantId, payload.sourceCellId, payload.destinationCellId, ctx.userId]
-      );
-
-      for (const row of sourceRows.rows) {
-        await client.query(
-          `
-            UPDATE participant_cell_links
-               SET is_active = FALSE, updated_at = NOW()
-             WHERE participant_id = $1
-               AND cell_id = $2
-               AND tenant_id = $3
-               AND is_active = TRUE;
-          `,
-          [row.participant_id, payload.sourceCellId, ctx.tenantId]
-        );
-
-        await client.query(
-          `
-            INSERT INTO participant_cell_links (
-              participant_id,
-              cell_id,
-              tenant_id,
-              type,
-              is_active
-            )
-            VALUES ($1, $2, $3, $4, TRUE)
-            ON CONFLICT (participant_id, cell_id)
-            DO UPDATE SET
-              type = EXCLUDED.type,
-              is_active = TRUE,
-              updated_at = NOW();
-          `,
-          [row.participant_id, payload.destinationCellId, ctx.tenantId, row.type]
-        );
-
-        await client.query(
-          `
-            INSERT INTO transfer_log_participants (transfer_log_id, participant_id)
-            VALUES ($1, $2);
-          `,
-          [transferLog.rows[0].id, row.participant_id]
-        );
-      }
-
-      await client.query("COMMIT;");
-      response.status(201).json({
-        message: "Transferencia realizada com sucesso.",
-        transferId: transferLog.rows[0].id
-      });
-    } catch (error) {
-      await client.query("ROLLBACK;");
-      throw error;
-    } finally {
-      client.release();
-    }
-  })
-);
-
 panelRoutes.get(
   "/config/module-names",
   asyncHandler(async (request, response) => {
@@ -782,7 +506,35 @@ panelRoutes.post(
       const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
       assertPermission(ctx, "cells_admin", "edit");
       await client.query("BEGIN;");
+      const currentLabels = await client.query<{ code: string; custom_label: string }>(
+        `
+          SELECT code, custom_label
+            FROM module_name_overrides
+           WHERE tenant_id = $1
+             AND code = ANY($2::text[])
+           FOR UPDATE;
+        `,
+        [ctx.tenantId, payload.items.map((item) => item.code)]
+      );
+      const labelsByCode = new Map(
+        currentLabels.rows.map((row) => [row.code, row.custom_label])
+      );
+
       for (const item of payload.items) {
+        const previousLabel = labelsByCode.get(item.code) ?? null;
+        const nextLabel = item.selected ? item.label : null;
+        if (previousLabel !== nextLabel) {
+          await recordAudit(client, request, {
+            tenantId: ctx.tenantId,
+            actorUserId: ctx.userId,
+            action: nextLabel ? "module_name.update" : "module_name.restore",
+            entityType: "module_name",
+            entityId: item.code,
+            before: { label: previousLabel },
+            after: { label: nextLabel }
+          });
+        }
+
         if (item.selected) {
           await client.query(
             `
@@ -832,15 +584,34 @@ panelRoutes.post(
     try {
       const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
       assertPermission(ctx, "cells_admin", "edit");
-      await client.query(
+      await client.query("BEGIN;");
+      const removed = await client.query<{ code: string; custom_label: string }>(
         `
           DELETE FROM module_name_overrides
            WHERE tenant_id = $1
-             AND code = ANY($2::text[]);
+             AND code = ANY($2::text[])
+          RETURNING code, custom_label;
         `,
         [ctx.tenantId, payload.codes]
       );
+
+      for (const row of removed.rows) {
+        await recordAudit(client, request, {
+          tenantId: ctx.tenantId,
+          actorUserId: ctx.userId,
+          action: "module_name.restore",
+          entityType: "module_name",
+          entityId: row.code,
+          before: { label: row.custom_label },
+          after: { label: null }
+        });
+      }
+
+      await client.query("COMMIT;");
       response.json({ message: "Padroes restaurados." });
+    } catch (error) {
+      await client.query("ROLLBACK;");
+      throw error;
     } finally {
       client.release();
     }
@@ -860,6 +631,7 @@ panelRoutes.get(
         network_name: string;
         cell_id: string;
         cell_name: string;
+        org_unit_id: string | null;
         phone: string | null;
         email: string | null;
         members: string;
@@ -870,6 +642,7 @@ panelRoutes.get(
             n.name AS network_name,
             c.id AS cell_id,
             c.name AS cell_name,
+            c.org_unit_id,
             c.phone,
             c.email,
             COUNT(pcl.participant_id)::text AS members
@@ -883,44 +656,115 @@ panelRoutes.get(
            AND pcl.type = 'member'
           WHERE n.tenant_id = $1
             AND n.is_active = TRUE
-          GROUP BY n.id, n.name, c.id, c.name, c.phone, c.email
+          GROUP BY n.id, n.name, c.id, c.name, c.org_unit_id, c.phone, c.email
           ORDER BY n.name, c.name;
         `,
         [ctx.tenantId]
       );
 
+      const units = await client.query<{
+        id: string;
+        network_id: string;
+        parent_id: string | null;
+        level_name: string;
+        name: string;
+        code: string;
+        supervisor_name: string | null;
+      }>(
+        `
+          SELECT
+            u.id,
+            u.network_id,
+            u.parent_id,
+            u.level_name,
+            u.name,
+            u.code,
+            s.full_name AS supervisor_name
+          FROM org_units u
+          LEFT JOIN users s ON s.id = u.supervisor_user_id
+          WHERE u.tenant_id = $1
+            AND u.is_active = TRUE
+          ORDER BY u.name;
+        `,
+        [ctx.tenantId]
+      );
+
+      const unitRows = new Map(units.rows.map((unit) => [unit.id, unit]));
+      const unitNodes = new Map<string, PresidentTreeUnit>(
+        units.rows.map((unit) => [
+          unit.id,
+          {
+            unitId: unit.id,
+            levelName: unit.level_name,
+            name: unit.name,
+            code: unit.code,
+            supervisorName: unit.supervisor_name,
+            cellsCount: 0,
+            cells: [],
+            children: []
+          }
+        ])
+      );
+      const unitPath = (unitId: string): string => {
+        const unit = unitRows.get(unitId)!;
+        return unit.parent_id && unitRows.has(unit.parent_id)
+          ? `${unitPath(unit.parent_id)} > ${unit.name}`
+          : unit.name;
+      };
+      const countCells = (node: PresidentTreeUnit): number => {
+        node.cellsCount =
+          node.cells.length + node.children.reduce((total, child) => total + countCells(child), 0);
+        return node.cellsCount;
+      };
+
       const groups = new Map<
         string,
         {
           networkId: string;
           networkName: string;
-          rows: Array<{
-            cell: string;
-            phone: string | null;
-            email: string | null;
-            members: number;
-            viewAction: string;
-            lessonAction: string;
-          }>;
+          rows: PresidentTreeRow[];
+          cells: PresidentTreeRow[];
+          units: PresidentTreeUnit[];
         }
       >();
+      const ensureGroup = (networkId: string, networkName: string) => {
+        if (!groups.has(networkId)) {
+          groups.set(networkId, { networkId, networkName, rows: [], cells: [], units: [] });
+        }
+        return groups.get(networkId)!;
+      };
 
       for (const row of rows.rows) {
-        if (!groups.has(row.network_id)) {
-          groups.set(row.network_id, {
-            networkId: row.network_id,
-            networkName: row.network_name,
-            rows: []
-          });
-        }
-        groups.get(row.network_id)!.rows.push({
+        const group = ensureGroup(row.network_id, row.network_name);
+        const unit = row.org_unit_id ? unitNodes.get(row.org_unit_id) : undefined;
+        const treeRow: PresidentTreeRow = {
           cell: row.cell_name,
+          unitPath: unit ? unitPath(unit.unitId) : null,
           phone: row.phone,
           email: row.email,
           members: Number(row.members),
           viewAction: `ver-${toShortCode(row.cell_id)}`,
           lessonAction: `licao-${toShortCode(row.cell_id)}`
-        });
+        };
+        group.rows.push(treeRow);
+        (unit ? unit.cells : group.cells).push(treeRow);
+      }
+
+      for (const unit of units.rows) {
+        const node = unitNodes.get(unit.id)!;
+        const parent = unit.parent_id ? unitNodes.get(unit.parent_id) : undefined;
+        if (parent) {
+          parent.children.push(node);
+          continue;
+        }
+        const group = groups.get(unit.network_id);
+        if (group) {
+          group.units.push(node);
+        }
+      }
+
+      for (const group of groups.values()) {
+        group.units.forEach(countCells);
       }
 
       response.json({
@@ -928,7 +772,9 @@ panelRoutes.get(
           networkId: group.networkId,
           networkName: group.networkName,
           cellsCount: group.rows.length,
-          rows: group.rows
+          rows: group.rows,
+          cells: group.cells,
+          units: group.units
         }))
       });
     } finally {
@@ -983,6 +829,7 @@ panelRoutes.post(
     try {
       const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
       assertPermission(ctx, "pastor_presidente", "create");
+      await client.query("BEGIN;");
       const created = await client.query<{ id: string }>(
         `
           INSERT INTO gd_controls (
@@ -1009,7 +856,26 @@ panelRoutes.post(
           ctx.userId
         ]
       );
+      await recordAudit(client, request, {
+        tenantId: ctx.tenantId,
+        actorUserId: ctx.userId,
+        action: "gd_control.create",
+        entityType: "gd_control",
+        entityId: created.rows[0].id,
+        after: {
+          networkId: payload.networkId ?? null,
+          cellId: payload.cellId ?? null,
+          meetingType: payload.meetingType,
+          leaderName: payload.leaderName,
+          meetingDate: payload.meetingDate,
+          meetingTime: payload.meetingTime ?? null
+        }
+      });
+      await client.query("COMMIT;");
       response.status(201).json({ message: "Registro GD criado.", id: created.rows[0].id });
+    } catch (error) {
+      await client.query("ROLLBACK;");
+      throw error;
     } finally {
       client.release();
     }
@@ -1026,7 +892,7 @@ panelRoutes.get(
       assertPermission(ctx, "pastor_rede", "view");
 
       const rows =
-        ctx.scope === "network"
+        ctx.scope === "network" || ctx.scope === "supervisor"
           ? await client.query<{
               leader_name: string;
               meeting_date: string;
@@ -1036,10 +902,13 @@ panelRoutes.get(
                 SELECT leader_name, meeting_date::text, meeting_time::text
                   FROM gd_controls
                  WHERE tenant_id = $1
-                   AND network_id = ANY($2::uuid[])
+                   AND (
+                     ($2::text = 'network' AND network_id = ANY($3::uuid[]))
+                     OR ($2::text = 'supervisor' AND cell_id = ANY($4::uuid[]))
+                   )
                  ORDER BY meeting_date DESC;
               `,
-              [ctx.tenantId, ctx.networkIds]
+              [ctx.tenantId, ctx.scope, ctx.networkIds, ctx.cellIds]
             )
           : await client.query<{
               leader_name: string;
@@ -1077,6 +946,7 @@ panelRoutes.post(
     try {
       const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
       assertPermission(ctx, "email", "create");
+      await client.query("BEGIN;");
       const created = await client.query<{ id: string }>(
         `
           INSERT INTO email_logs (
@@ -1102,7 +972,24 @@ panelRoutes.post(
           payload.attachmentName ?? null
         ]
       );
+      await recordAudit(client, request, {
+        tenantId: ctx.tenantId,
+        actorUserId: ctx.userId,
+        action: "email.send",
+        entityType: "email_log",
+        entityId: created.rows[0].id,
+        after: {
+          targetGroup: payload.targetGroup,
+          recipientsCount: payload.recipientsCount ?? 1,
+          subject: payload.subject,
+          attachmentName: payload.attachmentName ?? null
+        }
+      });
+      await client.query("COMMIT;");
       response.status(201).json({ message: "E-mail registrado.", id: created.rows[0].id });
+    } catch (error) {
+      await client.query("ROLLBACK;");
+      throw error;
     } finally {
       client.release();
     }
@@ -1239,7 +1126,7 @@ panelRoutes.post(
   "/leader/components/:participantId/promote",
   asyncHandler(async (request, response) => {
     const auth = request.auth!;
-    const participantId = request.params.participantId;
+    const participantId = z.string().uuid().parse(request.params.participantId);
     const payload = promoteSchema.parse(request.body);
     const client = await pool.connect();
     try {
@@ -1309,6 +1196,15 @@ panelRoutes.post(
         `,
         [ctx.tenantId, participantId, fromType, toType, ctx.userId]
       );
+      await recordAudit(client, request, {
+        tenantId: ctx.tenantId,
+        actorUserId: ctx.userId,
+        action: "participant.promote",
+        entityType: "participant",
+        entityId: participantId,
+        before: { cellId: payload.cellId, type: fromType },
+        after: { cellId: payload.cellId, type: toType }
+      });
       await client.query("COMMIT;");
 
       response.json({ message: "Categoria atualizada.", fromType, toType });
@@ -1406,11 +1302,42 @@ panelRoutes.get(
   })
 );
 
+panelRoutes.get(
+  "/consolidation/funnel",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const filters = funnelQuerySchema.parse(request.query);
+    const to = filters.to ?? new Date().toISOString().slice(0, 10);
+    const from =
+      filters.from ?? new Date(Date.parse(to) - 89 * 86400000).toISOString().slice(0, 10);
+    if (from > to) {
+      throw new AppError("Periodo invalido: a data inicial e posterior a final.", 400);
+    }
+
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "consolidation", "view");
+      const cells = await getVisibleCells(client, ctx);
+      const funnel = await loadConsolidationFunnel(client, {
+        tenantId: ctx.tenantId,
+        visibleCellIds: ctx.scope === "all" ? null : cells.map((cell) => cell.id),
+        from,
+        to
+      });
+
+      response.json(funnel);
+    } finally {
+      client.release();
+    }
+  })
+);
+
 panelRoutes.get(
   "/consolidation/:id",
   asyncHandler(async (request, response) => {
     const auth = request.auth!;
-    const consolidationId = request.params.id;
+    const consolidationId = z.string().uuid().parse(request.params.id);
     const client = await pool.connect();
     try {
       const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
@@ -1449,32 +1376,7 @@ panelRoutes.get(
         throw new AppError("Registro nao encontrado.", 404);
       }
 
-      const steps = await client.query(
-        `
-          SELECT
-            accepted_in_church,
-            accepted_in_church_date::text,
-            fono_visit_done,
-            fono_visit_done_date::text,
-            first_visit_done,
-            first_visit_done_date::text,
-            pre_encounter_done,
-            pre_encounter_done_date::text,
-            encounter_done,
-            encounter_done_date::text,
-            post_encounter_done,
-            post_encounter_done_date::text,
-            reencounter_done,
-            reencounter_done_date::text,
-            consolidation_done,
-            consolidation_done_date::text,
-            baptized,
-            baptized_date::text
-          FROM consolidation_steps
-          WHERE consolidation_id = $1;
-        `,
-        [consolidationId]
-      );
+      const stages = await loadConsolidationProgress(client, ctx.tenantId, consolidationId);
 
       const history = await client.query<{
         id: string;
@@ -1498,7 +1400,7 @@ panelRoutes.get(
 
       response.json({
         record: record.rows[0],
-        steps: steps.rows[0] ?? null,
+        stages,
         history: history.rows
       });
     } finally {
@@ -1524,6 +1426,7 @@ panelRoutes.post(
 
       await client.query("BEGIN;");
       let participantId = payload.participantId ?? null;
+      const createdFromName = !participantId;
       if (!participantId) {
         if (!payload.participantName) {
           throw new AppError("Informe o participante.", 400);
@@ -1579,57 +1482,13 @@ panelRoutes.post(
         ]
       );
 
-      if (payload.steps) {
-        await client.query(
-          `
-            INSERT INTO consolidation_steps (
-              consolidation_id,
-              accepted_in_church,
-              accepted_in_church_date,
-              fono_visit_done,
-              fono_visit_done_date,
-              first_visit_done,
-              first_visit_done_date,
-              pre_encounter_done,
-              pre_encounter_done_date,
-              encounter_done,
-              encounter_done_date,
-              post_encounter_done,
-              post_encounter_done_date,
-              reencounter_done,
-              reencounter_done_date,
-              consolidation_done,
-              consolidation_done_date,
-              baptized,
-              baptized_date
-            )
-            VALUES (
-              $1, $2, $3, $4, $5, $6, $7, $8, $9,
-              $10, $11, $12, $13, $14, $15, $16, $17, $18, $19
-            );
-          `,
-          [
-            created.rows[0].id,
-            payload.steps.acceptedInChurch ?? null,
-            payload.steps.acceptedInChurchDate ?? null,
-            payload.steps.fonoVisitDone ?? null,
-            payload.steps.fonoVisitDoneDate ?? null,
-            payload.steps.firstVisitDone ?? null,
-            payload.steps.firstVisitDoneDate ?? null,
-            payload.steps.preEncounterDone ?? null,
-            payload.steps.preEncounterDoneDate ?? null,
-            payload.steps.encounterDone ?? null,
-            payload.steps.encounterDoneDate ?? null,
-            payload.steps.postEncounterDone ?? null,
-            payload.steps.postEncounterDoneDate ?? null,
-            payload.steps.reencounterDone ?? null,
-            payload.steps.reencounterDoneDate ?? null,
-            payload.steps.consolidationDone ?? null,
-            payload.steps.consolidationDoneDate ?? null,
-            payload.steps.baptized ?? null,
-            payload.steps.baptizedDate ?? null
-          ]
-        );
+      if (payload.stages) {
+        await saveConsolidationProgress(client, {
+          tenantId: ctx.tenantId,
+          consolidationId: created.rows[0].id,
+          stages: payload.stages,
+          userId: ctx.userId
+        });
       }
 
       if (payload.historyNote) {
@@ -1647,8 +1506,32 @@ panelRoutes.post(
         );
       }
 
+      await recordAudit(client, request, {
+        tenantId: ctx.tenantId,
+        actorUserId: ctx.userId,
+        action: "consolidation.create",
+        entityType: "consolidation",
+        entityId: created.rows[0].id,
+        after: await loadConsolidationSnapshot(client, ctx.tenantId, created.rows[0].id)
+      });
+
+      const duplicates = createdFromName
+        ? await findDuplicateCandidates(client, {
+            tenantId: ctx.tenantId,
+            visibleCellIds: ctx.scope === "all" ? null : cellIds,
+            participantId,
+            minScore: 0.6,
+            limit: 5,
+            offset: 0
+          })
+        : null;
+
       await client.query("COMMIT;");
-      response.status(201).json({ message: "Consolidacao cadastrada.", id: created.rows[0].id });
+      response.status(201).json({
+        message: "Consolidacao cadastrada.",
+        id: created.rows[0].id,
+        duplicateCandidates: duplicates?.rows ?? []
+      });
     } catch (error) {
       await client.query("ROLLBACK;");
       throw error;
@@ -1662,23 +1545,14 @@ panelRoutes.put(
   "/consolidation/:id",
   asyncHandler(async (request, response) => {
     const auth = request.auth!;
-    const consolidationId = request.params.id;
+    const consolidationId = z.string().uuid().parse(request.params.id);
     const payload = consolidationSchema.parse(request.body);
     const client = await pool.connect();
     try {
       const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
       assertPermission(ctx, "consolidation", "edit");
-      const exists = await client.query(
-        `
-          SELECT 1
-            FROM consolidation_records
-           WHERE id = $1
-             AND tenant_id = $2
-           LIMIT 1;
-        `,
-        [consolidationId, ctx.tenantId]
-      );
-      if (!exists.rowCount) {
+      const before = await loadConsolidationSnapshot(client, ctx.tenantId, consolidationId);
+      if (!before) {
         throw new AppError("Registro nao encontrado.", 404);
       }
 
@@ -1704,78 +1578,13 @@ panelRoutes.put(
         ]
       );
 
-      if (payload.steps) {
-        await client.query(
-          `
-            INSERT INTO consolidation_steps (
-              consolidation_id,
-              accepted_in_church,
-              accepted_in_church_date,
-              fono_visit_done,
-              fono_visit_done_date,
-              first_visit_done,
-              first_visit_done_date,
-              pre_encounter_done,
-              pre_encounter_done_date,
-              encounter_done,
-              encounter_done_date,
-              post_encounter_done,
-              post_encounter_done_date,
-              reencounter_done,
-              reencounter_done_date,
-              consolidation_done,
-              consolidation_done_date,
-              baptized,
-              baptized_date
-            )
-            VALUES (
-              $1, $2, $3, $4, $5, $6, $7, $8, $9,
-              $10, $11, $12, $13, $14, $15, $16, $17, $18, $19
-            )
-            ON CONFLICT (consolidation_id)
-            DO UPDATE SET
-              accepted_in_church = EXCLUDED.accepted_in_church,
-              accepted_in_church_date = EXCLUDED.accepted_in_church_date,
-              fono_visit_done = EXCLUDED.fono_visit_done,
-              fono_visit_done_date = EXCLUDED.fono_visit_done_date,
-              first_visit_done = EXCLUDED.first_visit_done,
-              first_visit_done_date = EXCLUDED.first_visit_done_date,
-              pre_encounter_done = EXCLUDED.pre_encounter_done,
-              pre_encounter_done_date = EXCLUDED.pre_encounter_done_date,
-              encounter_done = EXCLUDED.encounter_done,
-              encounter_done_date = EXCLUDED.encounter_done_date,
-              post_encounter_done = EXCLUDED.post_encounter_done,
-              post_encounter_done_date = EXCLUDED.post_encounter_done_date,
-              reencounter_done = EXCLUDED.reencounter_done,
-              reencounter_done_date = EXCLUDED.reencounter_done_date,
-              consolidation_done = EXCLUDED.consolidation_done,
-              consolidation_done_date = EXCLUDED.consolidation_done_date,
-              baptized = EXCLUDED.baptized,
-              baptized_date = EXCLUDED.baptized_date,
-              updated_at = NOW();
-          `,
-          [
-            consolidationId,
-            payload.steps.acceptedInChurch ?? null,
-            payload.steps.acceptedInChurchDate ?? null,
-            payload.steps.fonoVisitDone ?? null,
-            payload.steps.fonoVisitDoneDate ?? null,
-            payload.steps.firstVisitDone ?? null,
-            payload.steps.firstVisitDoneDate ?? null,
-            payload.steps.preEncounterDone ?? null,
-            payload.steps.preEncounterDoneDate ?? null,
-            payload.steps.encounterDone ?? null,
-            payload.steps.encounterDoneDate ?? null,
-            payload.steps.postEncounterDone ?? null,
-            payload.steps.postEncounterDoneDate ?? null,
-            payload.steps.reencounterDone ?? null,
-            payload.steps.reencounterDoneDate ?? null,
-            payload.steps.consolidationDone ?? null,
-            payload.steps.consolidationDoneDate ?? null,
-            payload.steps.baptized ?? null,
-            payload.steps.baptizedDate ?? null
-          ]
-        );
+      if (payload.stages) {
+        await saveConsolidationProgress(client, {
+          tenantId: ctx.tenantId,
+          consolidationId,
+          stages: payload.stages,
+          userId: ctx.userId
+        });
       }
 
       if (payload.historyNote) {
@@ -1793,6 +1602,19 @@ panelRoutes.put(
         );
       }
 
+      await recordAudit(client, request, {
+        tenantId: ctx.tenantId,
+        actorUserId: ctx.userId,
+        action: "consolidation.update",
+        entityType: "consolidation",
+        entityId: consolidationId,
+        before,
+        after: {
+          ...(await loadConsolidationSnapshot(client, ctx.tenantId, consolidationId)),
+          ...(payload.historyNote ? { historyNote: payload.historyNote } : {})
+        }
+      });
+
       await client.query("COMMIT;");
       response.json({ message: "Consolidacao atualizada." });
     } catch (error) {
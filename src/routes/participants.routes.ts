@@ -0,0 +1,674 @@
+import { PoolClient } from "pg";
+import { Router } from "express";
+import { z } from "zod";
+import { asyncHandler } from "../common/async-handler";
+import { AppError } from "../common/errors";
+import { pool } from "../db/pool";
+import { recordAudit } from "../lib/audit";
+import { requireAuth } from "../middlewares/auth.middleware";
+import {
+  AccessContext,
+  assertPermission,
+  getVisibleCells,
+  loadAccessContext
+} from "../panel/access";
+import { findDuplicateCandidates, mergeParticipants, previewMerge } from "../panel/duplicates";
+
+const participantTypes = ["member", "congregated", "visitor"] as const;
+
+const listParticipantsQuerySchema = z.object({
+  q: z.string().trim().max(160).optional(),
+  cellId: z.string().uuid().optional(),
+  type: z.enum(participantTypes).optional(),
+  active: z.enum(["true", "false", "all"]).default("true"),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+const duplicatesQuerySchema = z.object({
+  participantId: z.string().uuid().optional(),
+  minScore: z.coerce.number().min(0.1).max(1).default(0.6),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+const mergeSchema = z.object({
+  survivorId: z.string().uuid(),
+  duplicateId: z.string().uuid()
+});
+
+const createParticipantSchema = z.object({
+  fullName: z.string().trim().min(2).max(160),
+  email: z.string().trim().email().max(160).optional(),
+  phoneHome: z.string().trim().min(8).max(30).optional(),
+  phoneMobile: z.string().trim().min(8).max(30).optional(),
+  birthDate: z.string().date().optional(),
+  cellId: z.string().uuid(),
+  type: z.enum(participantTypes).default("visitor"),
+  notes: z.string().trim().max(500).optional()
+});
+
+const updateParticipantSchema = z
+  .object({
+    fullName: z.string().trim().min(2).max(160).optional(),
+    email: z.string().trim().email().max(160).nullable().optional(),
+    phoneHome: z.string().trim().min(8).max(30).nullable().optional(),
+    phoneMobile: z.string().trim().min(8).max(30).nullable().optional(),
+    birthDate: z.string().date().nullable().optional()
+  })
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: "Informe ao menos um campo para atualizar."
+  });
+
+type ParticipantRow = {
+  id: string;
+  full_name: string;
+  email: string | null;
+  phone_home: string | null;
+  phone_mobile: string | null;
+  birth_date: string | null;
+  is_active: boolean;
+  deactivated_at: string | null;
+  merged_into_participant_id: string | null;
+  created_at: string;
+  cell_id: string | null;
+  cell_name: string | null;
+  type: (typeof participantTypes)[number] | null;
+};
+
+const participantColumns = `
+  p.id,
+  p.full_name,
+  p.email,
+  p.phone_home,
+  p.phone_mobile,
+  p.birth_date::text,
+  p.is_active,
+  p.deactivated_at::text,
+  p.merged_into_participant_id,
+  p.created_at::text,
+  link.cell_id,
+  c.name AS cell_name,
+  link.type
+`;
+
+const currentLinkJoin = `
+  LEFT JOIN LATERAL (
+    SELECT l.cell_id, l.type::text AS type
+      FROM participant_cell_links l
+     WHERE l.participant_id = p.id
+     ORDER BY l.is_active DESC, l.updated_at DESC
+     LIMIT 1
+  ) link ON TRUE
+  LEFT JOIN cells c ON c.id = link.cell_id
+`;
+
+function toParticipant(row: ParticipantRow) {
+  return {
+    id: row.id,
+    fullName: row.full_name,
+    email: row.email,
+    phoneHome: row.phone_home,
+    phoneMobile: row.phone_mobile,
+    birthDate: row.birth_date,
+    isActive: row.is_active,
+    deactivatedAt: row.deactivated_at,
+    mergedIntoParticipantId: row.merged_into_participant_id,
+    createdAt: row.created_at,
+    cellId: row.cell_id,
+    cellName: row.cell_name,
+    type: row.type
+  };
+}
+
+function toAuditValues(row: ParticipantRow) {
+  return {
+    fullName: row.full_name,
+    email: row.email,
+    phoneHome: row.phone_home,
+    phoneMobile: row.phone_mobile,
+    birthDate: row.birth_date,
+    isActive: row.is_active
+  };
+}
+
+async function getVisibleCellIds(
+  client: PoolClient,
+  ctx: AccessContext
+): Promise<string[] | null> {
+  if (ctx.scope === "all") {
+    return null;
+  }
+
+  const cells = await getVisibleCells(client, ctx);
+  return cells.map((cell) => cell.id);
+}
+
+async function findVisibleParticipant(
+  client: PoolClient,
+  ctx: AccessContext,
+  participantId: string,
+  forUpdate = false
+): Promise<ParticipantRow | null> {
+  const visibleCellIds = await getVisibleCellIds(client, ctx);
+  const result = await client.query<ParticipantRow>(
+    `
+      SELECT ${participantColumns}
+        FROM participants p
+        ${currentLinkJoin}
+       WHERE p.tenant_id = $1
+         AND p.id = $2
+         AND ($3::uuid[] IS NULL OR link.cell_id = ANY($3::uuid[]))
+       LIMIT 1
+       ${forUpdate ? "FOR UPDATE OF p" : ""};
+    `,
+    [ctx.tenantId, participantId, visibleCellIds]
+  );
+
+  return result.rows[0] ?? null;
+}
+
+export const participantRoutes = Router();
+
+participantRoutes.use(requireAuth);
+
+participantRoutes.get(
+  "/",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const filters = listParticipantsQuerySchema.parse(request.query);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "participants", "view");
+      const visibleCellIds = await getVisibleCellIds(client, ctx);
+      const rows = await client.query<ParticipantRow & { total: string }>(
+        `
+          SELECT ${participantColumns}, COUNT(*) OVER()::text AS total
+            FROM participants p
+            ${currentLinkJoin}
+           WHERE p.tenant_id = $1
+             AND ($2::uuid[] IS NULL OR link.cell_id = ANY($2::uuid[]))
+             AND ($3::uuid IS NULL OR link.cell_id = $3)
+             AND ($4::text IS NULL OR link.type = $4)
+             AND ($5::boolean IS NULL OR p.is_active = $5)
+             AND (
+               $6::text IS NULL
+               OR p.full_name ILIKE $6
+               OR p.email ILIKE $6
+               OR p.phone_mobile ILIKE $6
+               OR p.phone_home ILIKE $6
+             )
+           ORDER BY p.full_name
+           LIMIT $7
+          OFFSET $8;
+        `,
+        [
+          ctx.tenantId,
+          visibleCellIds,
+          filters.cellId ?? null,
+          filters.type ?? null,
+          filters.active === "all" ? null : filters.active === "true",
+          filters.q ? `%${filters.q}%` : null,
+          filters.limit,
+          filters.offset
+        ]
+      );
+
+      response.json({
+        total: Number(rows.rows[0]?.total ?? "0"),
+        rows: rows.rows.map(toParticipant)
+      });
+    } finally {
+      client.release();
+    }
+  })
+);
+
+participantRoutes.get(
+  "/duplicates",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const filters = duplicatesQuerySchema.parse(request.query);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "participants", "view");
+      const visibleCellIds = await getVisibleCellIds(client, ctx);
+      await client.query("BEGIN;");
+      const candidates = await findDuplicateCandidates(client, {
+        tenantId: ctx.tenantId,
+        visibleCellIds,
+        participantId: filters.participantId,
+        minScore: filters.minScore,
+        limit: filters.limit,
+        offset: filters.offset
+      });
+      await client.query("COMMIT;");
+
+      response.json(candidates);
+    } catch (error) {
+      await client.query("ROLLBACK;");
+      throw error;
+    } finally {
+      client.release();
+    }
+  })
+);
+
+participantRoutes.get(
+  "/merge/preview",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const payload = mergeSchema.parse(request.query);
+    if (payload.survivorId === payload.duplicateId) {
+      throw new AppError("Escolha dois cadastros diferentes para mesclar.", 400);
+    }
+
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "participants", "edit");
+      const survivor = await findVisibleParticipant(client, ctx, payload.survivorId);
+      const duplicate = await findVisibleParticipant(client, ctx, payload.duplicateId);
+      if (!survivor || !duplicate) {
+        throw new AppError("Participante nao encontrado.", 404);
+      }
+
+      const summary = await previewMerge(
+        client,
+        ctx.tenantId,
+        payload.survivorId,
+        payload.duplicateId
+      );
+
+      response.json({
+        survivor: toParticipant(survivor),
+        duplicate: toParticipant(duplicate),
+        summary
+      });
+    } finally {
+      client.release();
+    }
+  })
+);
+
+participantRoutes.post(
+  "/merge",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const payload = mergeSchema.parse(request.body);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "participants", "edit");
+      assertPermission(ctx, "participants", "delete");
+
+      await client.query("BEGIN;");
+      const survivor = await findVisibleParticipant(client, ctx, payload.survivorId, true);
+      const duplicate = await findVisibleParticipant(client, ctx, payload.duplicateId, true);
+      if (!survivor || !duplicate) {
+        throw new AppError("Participante nao encontrado.", 404);
+      }
+      if (!survivor.is_active) {
+        throw new AppError("O cadastro mantido precisa estar ativo.", 409);
+      }
+      if (duplicate.merged_into_participant_id) {
+        throw new AppError("Cadastro duplicado ja foi mesclado.", 409);
+      }
+
+      const summary = await mergeParticipants(
+        client,
+        ctx.tenantId,
+        payload.survivorId,
+        payload.duplicateId,
+        ctx.userId
+      );
+
+      const merged = await findVisibleParticipant(client, ctx, payload.survivorId);
+      await recordAudit(client, request, {
+        tenantId: ctx.tenantId,
+        actorUserId: ctx.userId,
+        action: "participant.merge",
+        entityType: "participant",
+        entityId: payload.survivorId,
+        before: {
+          survivor: toAuditValues(survivor),
+          duplicate: { id: duplicate.id, ...toAuditValues(duplicate) }
+        },
+        after: {
+          survivor: toAuditValues(merged!),
+          duplicateId: duplicate.id,
+          moved: summary
+        }
+      });
+      await client.query("COMMIT;");
+
+      response.json({
+        message: "Cadastros mesclados.",
+        participant: toParticipant(merged!),
+        summary
+      });
+    } catch (error) {
+      await client.query("ROLLBACK;");
+      throw error;
+    } finally {
+      client.release();
+    }
+  })
+);
+
+participantRoutes.get(
+  "/:id",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const participantId = z.string().uuid().parse(request.params.id);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "participants", "view");
+      const participant = await findVisibleParticipant(client, ctx, participantId);
+      if (!participant) {
+        throw new AppError("Participante nao encontrado.", 404);
+      }
+
+      const links = await client.query<{
+        cell_id: string;
+        cell_name: string;
+        network_name: string;
+        type: string;
+        is_active: boolean;
+        created_at: string;
+        updated_at: string;
+      }>(
+        `
+          SELECT
+            l.cell_id,
+            c.name AS cell_name,
+            n.name AS network_name,
+            l.type::text AS type,
+            l.is_active,
+            l.created_at::text,
+            l.updated_at::text
+          FROM participant_cell_links l
+          JOIN cells c ON c.id = l.cell_id
+          JOIN church_networks n ON n.id = c.network_id
+          WHERE l.tenant_id = $1
+            AND l.participant_id = $2
+          ORDER BY l.is_active DESC, l.updated_at DESC;
+        `,
+        [ctx.tenantId, participantId]
+      );
+
+      const history = await client.query<{
+        id: string;
+        from_type: string | null;
+        to_type: string;
+        changed_at: string;
+        changed_by_name: string;
+        notes: string | null;
+      }>(
+        `
+          SELECT
+            h.id,
+            h.from_type::text AS from_type,
+            h.to_type::text AS to_type,
+            h.changed_at::text,
+            u.full_name AS changed_by_name,
+            h.notes
+          FROM participant_status_history h
+          JOIN users u ON u.id = h.changed_by_user_id
+          WHERE h.tenant_id = $1
+            AND h.participant_id = $2
+          ORDER BY h.changed_at DESC;
+        `,
+        [ctx.tenantId, participantId]
+      );
+
+      response.json({
+        participant: toParticipant(participant),
+        links: links.rows.map((row) => ({
+          cellId: row.cell_id,
+          cellName: row.cell_name,
+          networkName: row.network_name,
+          type: row.type,
+          isActive: row.is_active,
+          createdAt: row.created_at,
+          updatedAt: row.updated_at
+        })),
+        history: history.rows.map((row) => ({
+          id: row.id,
+          fromType: row.from_type,
+          toType: row.to_type,
+          changedAt: row.changed_at,
+          changedBy: row.changed_by_name,
+          notes: row.notes
+        }))
+      });
+    } finally {
+      client.release();
+    }
+  })
+);
+
+participantRoutes.post(
+  "/",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const payload = createParticipantSchema.parse(request.body);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "participants", "create");
+      const cells = await getVisibleCells(client, ctx);
+      if (!cells.some((cell) => cell.id === payload.cellId)) {
+        throw new AppError("Celula fora do seu escopo.", 403);
+      }
+
+      await client.query("BEGIN;");
+      const created = await client.query<{ id: string }>(
+        `
+          INSERT INTO participants (
+            tenant_id,
+            full_name,
+            email,
+            phone_home,
+            phone_mobile,
+            birth_date
+          )
+          VALUES ($1, $2, $3, $4, $5, $6)
+          RETURNING id;
+        `,
+        [
+          ctx.tenantId,
+          payload.fullName,
+          payload.email?.toLowerCase() ?? null,
+          payload.phoneHome ?? null,
+          payload.phoneMobile ?? null,
+          payload.birthDate ?? null
+        ]
+      );
+      const participantId = created.rows[0].id;
+
+      await client.query(
+        `
+          INSERT INTO participant_cell_links (
+            participant_id,
+            cell_id,
+            tenant_id,
+            type,
+            is_active
+          )
+          VALUES ($1, $2, $3, $4, TRUE);
+        `,
+        [participantId, payload.cellId, ctx.tenantId, payload.type]
+      );
+
+      await client.query(
+        `
+          INSERT INTO participant_status_history (
+            tenant_id,
+            participant_id,
+            from_type,
+            to_type,
+            changed_by_user_id,
+            notes
+          )
+          VALUES ($1, $2, NULL, $3, $4, $5);
+        `,
+        [ctx.tenantId, participantId, payload.type, ctx.userId, payload.notes ?? "Cadastro"]
+      );
+
+      const participant = await findVisibleParticipant(client, ctx, participantId);
+      await recordAudit(client, request, {
+        tenantId: ctx.tenantId,
+        actorUserId: ctx.userId,
+        action: "participant.create",
+        entityType: "participant",
+        entityId: participantId,
+        after: {
+          ...toAuditValues(participant!),
+          cellId: payload.cellId,
+          type: payload.type
+        }
+      });
+      await client.query("COMMIT;");
+
+      response.status(201).json({
+        message: "Participante cadastrado.",
+        participant: toParticipant(participant!)
+      });
+    } catch (error) {
+      await client.query("ROLLBACK;");
+      throw error;
+    } finally {
+      client.release();
+    }
+  })
+);
+
+participantRoutes.put(
+  "/:id",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const participantId = z.string().uuid().parse(request.params.id);
+    const payload = updateParticipantSchema.parse(request.body);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "participants", "edit");
+
+      await client.query("BEGIN;");
+      const current = await findVisibleParticipant(client, ctx, participantId, true);
+      if (!current) {
+        throw new AppError("Participante nao encontrado.", 404);
+      }
+
+      await client.query(
+        `
+          UPDATE participants
+             SET full_name = $1,
+                 email = $2,
+                 phone_home = $3,
+                 phone_mobile = $4,
+                 birth_date = $5,
+                 updated_at = NOW()
+           WHERE id = $6
+             AND tenant_id = $7;
+        `,
+        [
+          payload.fullName ?? current.full_name,
+          payload.email === undefined ? current.email : payload.email?.toLowerCase() ?? null,
+          payload.phoneHome === undefined ? current.phone_home : payload.phoneHome,
+          payload.phoneMobile === undefined ? current.phone_mobile : payload.phoneMobile,
+          payload.birthDate === undefined ? current.birth_date : payload.birthDate,
+          participantId,
+          ctx.tenantId
+        ]
+      );
+
+      const updated = await findVisibleParticipant(client, ctx, participantId);
+      await recordAudit(client, request, {
+        tenantId: ctx.tenantId,
+        actorUserId: ctx.userId,
+        action: "participant.update",
+        entityType: "participant",
+        entityId: participantId,
+        before: toAuditValues(current),
+        after: toAuditValues(updated!)
+      });
+      await client.query("COMMIT;");
+
+      response.json({ message: "Participante atualizado.", participant: toParticipant(updated!) });
+    } catch (error) {
+      await client.query("ROLLBACK;");
+      throw error;
+    } finally {
+      client.release();
+    }
+  })
+);
+
+participantRoutes.delete(
+  "/:id",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const participantId = z.string().uuid().parse(request.params.id);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "participants", "delete");
+
+      await client.query("BEGIN;");
+      const current = await findVisibleParticipant(client, ctx, participantId, true);
+      if (!current) {
+        throw new AppError("Participante nao encontrado.", 404);
+      }
+      if (!current.is_active) {
+        throw new AppError("Participante ja esta inativo.", 409);
+      }
+
+      await client.query(
+        `
+          UPDATE participants
+             SET is_active = FALSE,
+                 deactivated_at = NOW(),
+                 updated_at = NOW()
+           WHERE id = $1
+             AND tenant_id = $2;
+        `,
+        [participantId, ctx.tenantId]
+      );
+
+      await client.query(
+        `
+          UPDATE participant_cell_links
+             SET is_active = FALSE,
+                 updated_at = NOW()
+           WHERE participant_id = $1
+             AND tenant_id = $2
+             AND is_active = TRUE;
+        `,
+        [participantId, ctx.tenantId]
+      );
+
+      await recordAudit(client, request, {
+        tenantId: ctx.tenantId,
+        actorUserId: ctx.userId,
+        action: "participant.deactivate",
+        entityType: "participant",
+        entityId: participantId,
+        before: { isActive: true, cellId: current.cell_id },
+        after: { isActive: false, cellId: null }
+      });
+      await client.query("COMMIT;");
+
+      response.status(204).send();
+    } catch (error) {
+      await client.query("ROLLBACK;");
+      throw error;
+    } finally {
+      client.release();
+    }
+  })
+);
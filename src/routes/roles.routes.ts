@@ -0,0 +1,469 @@
+import { Router } from "express";
+import { z } from "zod";
+import { asyncHandler } from "../common/async-handler";
+import { AppError } from "../common/errors";
+import { pool } from "../db/pool";
+import { recordAudit } from "../lib/audit";
+import { requireAuth } from "../middlewares/auth.middleware";
+import { AccessContext, assertPermission, loadAccessContext } from "../panel/access";
+import {
+  actionKeys,
+  coversRole,
+  getRoleLabel,
+  isPanelRole,
+  moduleKeys,
+  normalizePanelRole,
+  panelRoles,
+  PanelRole,
+  PermissionMatrix,
+  permissionMatrixSchema,
+  ScopeKind,
+  scopeKinds
+} from "../panel/permissions";
+import { findTenantRole, listTenantRoles, TenantRoleDefinition } from "../panel/roles";
+import { tenantRoles } from "../types/auth";
+
+const roleKeySchema = z
+  .string()
+  .trim()
+  .min(2)
+  .max(60)
+  .regex(/^[a-z0-9_]+$/, "Use apenas letras minusculas, numeros e _.");
+
+const createRoleSchema = z.object({
+  key: roleKeySchema.optional(),
+  name: z.string().trim().min(2).max(120),
+  baseRole: z.enum(panelRoles),
+  scope: z.enum(scopeKinds),
+  permissions: permissionMatrixSchema
+});
+
+const updateRoleSchema = z
+  .object({
+    name: z.string().trim().min(2).max(120).optional(),
+    baseRole: z.enum(panelRoles).optional(),
+    scope: z.enum(scopeKinds).optional(),
+    permissions: permissionMatrixSchema.optional()
+  })
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: "Informe ao menos um campo para atualizar."
+  });
+
+const validateMatrixSchema = z.object({
+  permissions: z.unknown()
+});
+
+function toRoleKey(value: string): string {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .slice(0, 60);
+}
+
+function toRoleResponse(role: TenantRoleDefinition, membersCount = 0) {
+  return {
+    id: role.id,
+    key: role.key,
+    name: role.name,
+    baseRole: role.baseRole,
+    scope: role.scope,
+    permissions: role.permissions,
+    isSystem: role.isSystem,
+    isCustomized: role.isCustomized,
+    membersCount
+  };
+}
+
+function assertCanManageRole(
+  ctx: AccessContext,
+  role: { baseRole: PanelRole; scope: ScopeKind; permissions: PermissionMatrix }
+): void {
+  if (ctx.role !== "admin_geral" || !coversRole(ctx, role)) {
+    throw new AppError("Voce nao pode gerenciar um perfil com permissoes acima das suas.", 403);
+  }
+}
+
+export const roleRoutes = Router();
+
+roleRoutes.use(requireAuth);
+
+roleRoutes.get(
+  "/",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "team", "view");
+      const roles = await listTenantRoles(client, ctx.tenantId);
+      const counts = await client.query<{ role: string; role_key: string | null; total: string }>(
+        `
+          SELECT tm.role::text AS role, r.key AS role_key, COUNT(*)::text AS total
+            FROM tenant_members tm
+            LEFT JOIN tenant_roles r ON r.id = tm.role_id
+           WHERE tm.tenant_id = $1
+             AND tm.is_active = TRUE
+           GROUP BY tm.role, r.key;
+        `,
+        [ctx.tenantId]
+      );
+
+      const totals = new Map<string, number>();
+      for (const row of counts.rows) {
+        const key = row.role_key ?? normalizePanelRole(row.role as never);
+        totals.set(key, (totals.get(key) ?? 0) + Number(row.total));
+      }
+
+      response.json({
+        roles: roles.map((role) => toRoleResponse(role, totals.get(role.key) ?? 0))
+      });
+    } finally {
+      client.release();
+    }
+  })
+);
+
+roleRoutes.get(
+  "/catalog",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "team", "view");
+      response.json({
+        modules: moduleKeys,
+        actions: actionKeys,
+        scopes: scopeKinds,
+        baseRoles: panelRoles.map((role) => ({ key: role, name: getRoleLabel(role) }))
+      });
+    } finally {
+      client.release();
+    }
+  })
+);
+
+roleRoutes.post(
+  "/validate",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const payload = validateMatrixSchema.parse(request.body);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "team", "view");
+    } finally {
+      client.release();
+    }
+
+    const result = permissionMatrixSchema.safeParse(payload.permissions);
+    if (!result.success) {
+      response.json({ valid: false, issues: result.error.flatten() });
+      return;
+    }
+
+    response.json({ valid: true, permissions: result.data });
+  })
+);
+
+roleRoutes.get(
+  "/:key",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const key = roleKeySchema.parse(request.params.key);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "team", "view");
+      const role = await findTenantRole(client, ctx.tenantId, key);
+      if (!role) {
+        throw new AppError("Perfil nao encontrado.", 404);
+      }
+
+      response.json({ role: toRoleResponse(role) });
+    } finally {
+      client.release();
+    }
+  })
+);
+
+roleRoutes.post(
+  "/",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const payload = createRoleSchema.parse(request.body);
+    const key = payload.key ?? toRoleKey(payload.name);
+    if (key.length < 2) {
+      throw new AppError("Informe uma chave valida para o perfil.", 400);
+    }
+    if ((tenantRoles as readonly string[]).includes(key)) {
+      throw new AppError("Esta chave e reservada para os perfis padrao.", 409);
+    }
+
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "team", "create");
+      assertCanManageRole(ctx, payload);
+
+      const created = await client.query<{ id: string }>(
+        `
+          INSERT INTO tenant_roles (
+            tenant_id,
+            key,
+            name,
+            base_role,
+            scope,
+            permissions,
+            created_by_user_id,
+            updated_by_user_id
+          )
+          VALUES ($1, $2, $3, $4, $5, $6::jsonb, $7, $7)
+          ON CONFLICT (tenant_id, key) DO NOTHING
+          RETURNING id;
+        `,
+        [
+          ctx.tenantId,
+          key,
+          payload.name,
+          payload.baseRole,
+          payload.scope,
+          JSON.stringify(payload.permissions),
+          ctx.userId
+        ]
+      );
+
+      if (!created.rowCount) {
+        throw new AppError("Ja existe um perfil com esta chave.", 409);
+      }
+
+      await recordAudit(client, request, {
+        tenantId: ctx.tenantId,
+        actorUserId: ctx.userId,
+        action: "role.create",
+        entityType: "role",
+        entityId: key,
+        after: {
+          name: payload.name,
+          baseRole: payload.baseRole,
+          scope: payload.scope,
+          permissions: payload.permissions
+        }
+      });
+
+      const role = await findTenantRole(client, ctx.tenantId, key);
+      response.status(201).json({ message: "Perfil criado.", role: toRoleResponse(role!) });
+    } finally {
+      client.release();
+    }
+  })
+);
+
+roleRoutes.put(
+  "/:key",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const key = roleKeySchema.parse(request.params.key);
+    const payload = updateRoleSchema.parse(request.body);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "team", "edit");
+      if (key === "admin_geral") {
+        throw new AppError("O perfil admin geral nao pode ser alterado.", 403);
+      }
+
+      await client.query("BEGIN;");
+      const current = await findTenantRole(client, ctx.tenantId, key, true);
+      if (!current) {
+        throw new AppError("Perfil nao encontrado.", 404);
+      }
+      if (current.isSystem && payload.baseRole && payload.baseRole !== current.baseRole) {
+        throw new AppError("O perfil base de um perfil padrao nao pode ser alterado.", 400);
+      }
+
+      const baseRole = payload.baseRole ?? current.baseRole;
+      assertCanManageRole(ctx, current);
+      assertCanManageRole(ctx, {
+        baseRole,
+        scope: payload.scope ?? current.scope,
+        permissions: payload.permissions ?? current.permissions
+      });
+      await client.query(
+        `
+          INSERT INTO tenant_roles (
+            tenant_id,
+            key,
+            name,
+            base_role,
+            scope,
+            permissions,
+            is_system,
+            created_by_user_id,
+            updated_by_user_id
+          )
+          VALUES ($1, $2, $3, $4, $5, $6::jsonb, $7, $8, $8)
+          ON CONFLICT (tenant_id, key)
+          DO UPDATE SET
+            name = EXCLUDED.name,
+            base_role = EXCLUDED.base_role,
+            scope = EXCLUDED.scope,
+            permissions = EXCLUDED.permissions,
+            updated_by_user_id = EXCLUDED.updated_by_user_id,
+            updated_at = NOW();
+        `,
+        [
+          ctx.tenantId,
+          key,
+          payload.name ?? current.name,
+          baseRole,
+          payload.scope ?? current.scope,
+          JSON.stringify(payload.permissions ?? current.permissions),
+          current.isSystem,
+          ctx.userId
+        ]
+      );
+
+      if (current.id && baseRole !== current.baseRole) {
+        await client.query(
+          `
+            UPDATE tenant_members
+               SET role = $1,
+                   updated_at = NOW()
+             WHERE tenant_id = $2
+               AND role_id = $3;
+          `,
+          [baseRole, ctx.tenantId, current.id]
+        );
+        await client.query(
+          `
+            UPDATE tenant_invitations
+               SET role = $1
+             WHERE tenant_id = $2
+               AND role_id = $3;
+          `,
+          [baseRole, ctx.tenantId, current.id]
+        );
+      }
+
+      await recordAudit(client, request, {
+        tenantId: ctx.tenantId,
+        actorUserId: ctx.userId,
+        action: "role.update",
+        entityType: "role",
+        entityId: key,
+        before: {
+          name: current.name,
+          baseRole: current.baseRole,
+          scope: current.scope,
+          permissions: current.permissions
+        },
+        after: {
+          name: payload.name ?? current.name,
+          baseRole,
+          scope: payload.scope ?? current.scope,
+          permissions: payload.permissions ?? current.permissions
+        }
+      });
+
+      await client.query("COMMIT;");
+
+      const role = await findTenantRole(client, ctx.tenantId, key);
+      response.json({ message: "Perfil atualizado.", role: toRoleResponse(role!) });
+    } catch (error) {
+      await client.query("ROLLBACK;");
+      throw error;
+    } finally {
+      client.release();
+    }
+  })
+);
+
+roleRoutes.delete(
+  "/:key",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const key = roleKeySchema.parse(request.params.key);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "team", "delete");
+
+      await client.query("BEGIN;");
+      const current = await findTenantRole(client, ctx.tenantId, key, true);
+      if (!current || !current.id) {
+        throw new AppError(
+          isPanelRole(key) ? "Este perfil padrao ja usa as permissoes originais." : "Perfil nao encontrado.",
+          404
+        );
+      }
+      assertCanManageRole(ctx, current);
+
+      // Members and pending invitations would otherwise fall back to the full
+      // matrix of the base role, so they are never silently detached.
+      let revokedInvitations = 0;
+      if (!current.isSystem) {
+        const assigned = await client.query(
+          `
+            SELECT 1
+              FROM tenant_members
+             WHERE tenant_id = $1
+               AND role_id = $2
+             LIMIT 1;
+          `,
+          [ctx.tenantId, current.id]
+        );
+        if (assigned.rowCount) {
+          throw new AppError(
+            "Reatribua os membros deste perfil, inclusive os inativos, antes de exclui-lo.",
+            409
+          );
+        }
+
+        const revoked = await client.query(
+          `
+            UPDATE tenant_invitations
+               SET revoked_at = NOW()
+             WHERE tenant_id = $1
+               AND role_id = $2
+               AND accepted_at IS NULL
+               AND revoked_at IS NULL;
+          `,
+          [ctx.tenantId, current.id]
+        );
+        revokedInvitations = revoked.rowCount ?? 0;
+        await client.query(
+          "UPDATE tenant_invitations SET role_id = NULL WHERE tenant_id = $1 AND role_id = $2;",
+          [ctx.tenantId, current.id]
+        );
+      }
+
+      await client.query("DELETE FROM tenant_roles WHERE id = $1;", [current.id]);
+      await recordAudit(client, request, {
+        tenantId: ctx.tenantId,
+        actorUserId: ctx.userId,
+        action: current.isSystem ? "role.reset" : "role.delete",
+        entityType: "role",
+        entityId: key,
+        before: {
+          name: current.name,
+          baseRole: current.baseRole,
+          scope: current.scope,
+          permissions: current.permissions
+        },
+        after: current.isSystem ? null : { revokedInvitations }
+      });
+      await client.query("COMMIT;");
+
+      response.status(204).send();
+    } catch (error) {
+      await client.query("ROLLBACK;");
+      throw error;
+    } finally {
+      client.release();
+    }
+  })
+);
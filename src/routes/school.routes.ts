@@ -0,0 +1,1334 @@
+import { PoolClient } from "pg";
+import { Router } from "express";
+import { z } from "zod";
+import { asyncHandler } from "../common/async-handler";
+import { AppError } from "../common/errors";
+import { pool } from "../db/pool";
+import { recordAudit } from "../lib/audit";
+import { requireAuth } from "../middlewares/auth.middleware";
+import {
+  AccessContext,
+  assertPermission,
+  getVisibleCells,
+  loadAccessContext
+} from "../panel/access";
+import {
+  assertActiveMembers,
+  finishSchoolClass,
+  loadCourseModules,
+  loadEnrollmentResults,
+  SchoolClassStatus,
+  schoolClassStatuses
+} from "../panel/school";
+
+const moduleSchema = z.object({
+  id: z.string().uuid().optional(),
+  title: z.string().trim().min(2).max(160),
+  description: z.string().trim().max(2000).optional()
+});
+
+const listCoursesQuerySchema = z.object({
+  active: z.enum(["true", "false", "all"]).default("true")
+});
+
+const createCourseSchema = z.object({
+  name: z.string().trim().min(2).max(160),
+  description: z.string().trim().max(2000).optional(),
+  passingGrade: z.coerce.number().min(0).max(10).default(7),
+  minAttendancePercent: z.coerce.number().int().min(0).max(100).default(75),
+  modules: z.array(moduleSchema.omit({ id: true })).min(1).max(50)
+});
+
+const updateCourseSchema = z
+  .object({
+    name: z.string().trim().min(2).max(160).optional(),
+    description: z.string().trim().max(2000).nullable().optional(),
+    passingGrade: z.coerce.number().min(0).max(10).optional(),
+    minAttendancePercent: z.coerce.number().int().min(0).max(100).optional(),
+    isActive: z.boolean().optional(),
+    modules: z.array(moduleSchema).min(1).max(50).optional()
+  })
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: "Informe ao menos um campo para atualizar."
+  });
+
+const timeSchema = z.string().regex(/^\d{2}:\d{2}$/);
+
+const listClassesQuerySchema = z.object({
+  courseId: z.string().uuid().optional(),
+  status: z.enum(schoolClassStatuses).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+const createClassSchema = z.object({
+  courseId: z.string().uuid(),
+  name: z.string().trim().min(2).max(160),
+  teacherUserIds: z.array(z.string().uuid()).max(10).default([]),
+  startsOn: z.string().date(),
+  endsOn: z.string().date().optional(),
+  weekday: z.coerce.number().int().min(0).max(6).optional(),
+  startTime: timeSchema.optional(),
+  location: z.string().trim().max(160).optional()
+});
+
+const updateClassSchema = z
+  .object({
+    name: z.string().trim().min(2).max(160).optional(),
+    teacherUserIds: z.array(z.string().uuid()).max(10).optional(),
+    startsOn: z.string().date().optional(),
+    endsOn: z.string().date().nullable().optional(),
+    weekday: z.coerce.number().int().min(0).max(6).nullable().optional(),
+    startTime: timeSchema.nullable().optional(),
+    location: z.string().trim().max(160).nullable().optional(),
+    status: z.enum(["planned", "in_progress", "cancelled"]).optional()
+  })
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: "Informe ao menos um campo para atualizar."
+  });
+
+const enrollSchema = z.object({
+  participantIds: z.array(z.string().uuid()).min(1).max(200)
+});
+
+const attendanceItemSchema = z.object({
+  enrollmentId: z.string().uuid(),
+  present: z.boolean()
+});
+
+const lessonSchema = z.object({
+  lessonDate: z.string().date(),
+  moduleId: z.string().uuid().optional(),
+  topic: z.string().trim().max(200).optional(),
+  attendance: z.array(attendanceItemSchema).max(500).default([])
+});
+
+const attendanceSchema = z.object({
+  attendance: z.array(attendanceItemSchema).min(1).max(500)
+});
+
+const gradesSchema = z.object({
+  grades: z
+    .array(
+      z.object({
+        enrollmentId: z.string().uuid(),
+        moduleId: z.string().uuid(),
+        grade: z.coerce.number().min(0).max(10)
+      })
+    )
+    .min(1)
+    .max(2000)
+});
+
+const readyToLeadQuerySchema = z.object({
+  courseId: z.string().uuid().optional(),
+  cellId: z.string().uuid().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+type CourseRow = {
+  id: string;
+  name: string;
+  description: string | null;
+  passing_grade: number;
+  min_attendance_percent: number;
+  is_active: boolean;
+  created_at: string;
+};
+
+type ClassRow = {
+  id: string;
+  course_id: string;
+  course_name: string;
+  passing_grade: number;
+  min_attendance_percent: number;
+  name: string;
+  status: SchoolClassStatus;
+  starts_on: string;
+  ends_on: string | null;
+  weekday: number | null;
+  start_time: string | null;
+  location: string | null;
+  finished_at: string | null;
+  teachers: { id: string; name: string }[];
+  enrollments_count: number;
+};
+
+const courseColumns = `
+  sc.id,
+  sc.name,
+  sc.description,
+  sc.passing_grade::float AS passing_grade,
+  sc.min_attendance_percent,
+  sc.is_active,
+  sc.created_at::text
+`;
+
+const classColumns = `
+  cl.id,
+  cl.course_id,
+  sc.name AS course_name,
+  sc.passing_grade::float AS passing_grade,
+  sc.min_attendance_percent,
+  cl.name,
+  cl.status,
+  cl.starts_on::text,
+  cl.ends_on::text,
+  cl.weekday,
+  to_char(cl.start_time, 'HH24:MI') AS start_time,
+  cl.location,
+  cl.finished_at::text,
+  COALESCE(
+    (
+      SELECT json_agg(json_build_object('id', u.id, 'name', u.full_name) ORDER BY u.full_name)
+        FROM school_class_teachers t
+        JOIN users u ON u.id = t.user_id
+       WHERE t.class_id = cl.id
+    ),
+    '[]'::json
+  ) AS teachers,
+  (
+    SELECT COUNT(*)::int
+      FROM school_enrollments e
+     WHERE e.class_id = cl.id
+       AND e.status <> 'dropped'
+  ) AS enrollments_count
+`;
+
+function toCourse(row: CourseRow) {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    passingGrade: row.passing_grade,
+    minAttendancePercent: row.min_attendance_percent,
+    isActive: row.is_active,
+    createdAt: row.created_at
+  };
+}
+
+function toClass(row: ClassRow) {
+  return {
+    id: row.id,
+    courseId: row.course_id,
+    courseName: row.course_name,
+    name: row.name,
+    status: row.status,
+    startsOn: row.starts_on,
+    endsOn: row.ends_on,
+    weekday: row.weekday,
+    startTime: row.start_time,
+    location: row.location,
+    finishedAt: row.finished_at,
+    teachers: row.teachers,
+    enrollmentsCount: row.enrollments_count
+  };
+}
+
+async function findCourse(
+  client: PoolClient,
+  tenantId: string,
+  courseId: string,
+  forUpdate = false
+): Promise<CourseRow | null> {
+  const result = await client.query<CourseRow>(
+    `
+      SELECT ${courseColumns}
+        FROM school_courses sc
+       WHERE sc.tenant_id = $1
+         AND sc.id = $2
+       LIMIT 1
+       ${forUpdate ? "FOR UPDATE OF sc" : ""};
+    `,
+    [tenantId, courseId]
+  );
+
+  return result.rows[0] ?? null;
+}
+
+async function findClass(
+  client: PoolClient,
+  tenantId: string,
+  classId: string,
+  forUpdate = false
+): Promise<ClassRow | null> {
+  const result = await client.query<ClassRow>(
+    `
+      SELECT ${classColumns}
+        FROM school_classes cl
+        JOIN school_courses sc ON sc.id = cl.course_id
+       WHERE cl.tenant_id = $1
+         AND cl.id = $2
+       LIMIT 1
+       ${forUpdate ? "FOR UPDATE OF cl" : ""};
+    `,
+    [tenantId, classId]
+  );
+
+  return result.rows[0] ?? null;
+}
+
+function assertClassOpen(schoolClass: ClassRow): void {
+  if (schoolClass.status === "finished" || schoolClass.status === "cancelled") {
+    throw new AppError("Turma encerrada ou cancelada.", 409);
+  }
+}
+
+async function getVisibleCellIds(
+  client: PoolClient,
+  ctx: AccessContext
+): Promise<string[] | null> {
+  if (ctx.scope === "all") {
+    return null;
+  }
+
+  const cells = await getVisibleCells(client, ctx);
+  return cells.map((cell) => cell.id);
+}
+
+async function assertClassEnrollments(
+  client: PoolClient,
+  classId: string,
+  enrollmentIds: string[]
+): Promise<void> {
+  const rows = await client.query<{ total: number }>(
+    `
+      SELECT COUNT(*)::int AS total
+        FROM school_enrollments
+       WHERE class_id = $1
+         AND id = ANY($2::uuid[])
+         AND status = 'enrolled';
+    `,
+    [classId, enrollmentIds]
+  );
+
+  if (rows.rows[0].total !== new Set(enrollmentIds).size) {
+    throw new AppError("Matricula nao encontrada nesta turma.", 400);
+  }
+}
+
+async function saveLessonAttendance(
+  client: PoolClient,
+  classId: string,
+  lessonId: string,
+  attendance: z.infer<typeof attendanceItemSchema>[]
+): Promise<void> {
+  if (attendance.length === 0) {
+    return;
+  }
+
+  await assertClassEnrollments(
+    client,
+    classId,
+    attendance.map((item) => item.enrollmentId)
+  );
+  await client.query(
+    `
+      INSERT INTO school_lesson_attendance (lesson_id, enrollment_id, present)
+      SELECT $1, item.enrollment_id, item.present
+        FROM UNNEST($2::uuid[], $3::boolean[]) AS item(enrollment_id, present)
+      ON CONFLICT (lesson_id, enrollment_id)
+      DO UPDATE SET present = EXCLUDED.present;
+    `,
+    [
+      lessonId,
+      attendance.map((item) => item.enrollmentId),
+      attendance.map((item) => item.present)
+    ]
+  );
+}
+
+async function replaceClassTeachers(
+  client: PoolClient,
+  tenantId: string,
+  classId: string,
+  teacherUserIds: string[]
+): Promise<void> {
+  await assertActiveMembers(client, tenantId, teacherUserIds);
+  await client.query("DELETE FROM school_class_teachers WHERE class_id = $1;", [classId]);
+  await client.query(
+    `
+      INSERT INTO school_class_teachers (class_id, user_id)
+      SELECT $1, UNNEST($2::uuid[])
+      ON CONFLICT DO NOTHING;
+    `,
+    [classId, teacherUserIds]
+  );
+}
+
+export const schoolRoutes = Router();
+
+schoolRoutes.use(requireAuth);
+
+schoolRoutes.get(
+  "/courses",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const filters = listCoursesQuerySchema.parse(request.query);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "leadership_school", "view");
+      const rows = await client.query<CourseRow & { modules_count: number }>(
+        `
+          SELECT
+            ${courseColumns},
+            (
+              SELECT COUNT(*)::int
+                FROM school_course_modules m
+               WHERE m.course_id = sc.id
+            ) AS modules_count
+          FROM school_courses sc
+          WHERE sc.tenant_id = $1
+            AND ($2::boolean IS NULL OR sc.is_active = $2)
+          ORDER BY sc.name;
+        `,
+        [ctx.tenantId, filters.active === "all" ? null : filters.active === "true"]
+      );
+
+      response.json({
+        courses: rows.rows.map((row) => ({ ...toCourse(row), modulesCount: row.modules_count }))
+      });
+    } finally {
+      client.release();
+    }
+  })
+);
+
+schoolRoutes.get(
+  "/courses/:id",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const courseId = z.string().uuid().parse(request.params.id);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "leadership_school", "view");
+      const course = await findCourse(client, ctx.tenantId, courseId);
+      if (!course) {
+        throw new AppError("Curso nao encontrado.", 404);
+      }
+
+      response.json({
+        course: toCourse(course),
+        modules: await loadCourseModules(client, ctx.tenantId, course.id)
+      });
+    } finally {
+      client.release();
+    }
+  })
+);
+
+schoolRoutes.post(
+  "/courses",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const payload = createCourseSchema.parse(request.body);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "leadership_school", "create");
+
+      await client.query("BEGIN;");
+      const duplicate = await client.query(
+        "SELECT 1 FROM school_courses WHERE tenant_id = $1 AND LOWER(name) = LOWER($2) LIMIT 1;",
+        [ctx.tenantId, payload.name]
+      );
+      if (duplicate.rowCount) {
+        throw new AppError("Ja existe um curso com este nome.", 409);
+      }
+
+      const created = await client.query<{ id: string }>(
+        `
+          INSERT INTO school_courses (
+            tenant_id,
+            name,
+            description,
+            passing_grade,
+            min_attendance_percent,
+            created_by_user_id
+          )
+          VALUES ($1, $2, $3, $4, $5, $6)
+          RETURNING id;
+        `,
+        [
+          ctx.tenantId,
+          payload.name,
+          payload.description ?? null,
+          payload.passingGrade,
+          payload.minAttendancePercent,
+          ctx.userId
+        ]
+      );
+      const courseId = created.rows[0].id;
+      for (const [index, item] of payload.modules.entries()) {
+        await client.query(
+          `
+            INSERT INTO school_course_modules (course_id, tenant_id, position, title, description)
+            VALUES ($1, $2, $3, $4, $5);
+          `,
+          [courseId, ctx.tenantId, index + 1, item.title, item.description ?? null]
+        );
+      }
+      await recordAudit(client, request, {
+        tenantId: ctx.tenantId,
+        actorUserId: ctx.userId,
+        action: "school_course.create",
+        entityType: "school_course",
+        entityId: courseId,
+        after: payload
+      });
+      await client.query("COMMIT;");
+
+      response.status(201).json({ message: "Curso cadastrado.", id: courseId });
+    } catch (error) {
+      await client.query("ROLLBACK;");
+      throw error;
+    } finally {
+      client.release();
+    }
+  })
+);
+
+schoolRoutes.put(
+  "/courses/:id",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const courseId = z.string().uuid().parse(request.params.id);
+    const payload = updateCourseSchema.parse(request.body);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "leadership_school", "edit");
+
+      await client.query("BEGIN;");
+      const course = await findCourse(client, ctx.tenantId, courseId, true);
+      if (!course) {
+        throw new AppError("Curso nao encontrado.", 404);
+      }
+      if (payload.name) {
+        const duplicate = await client.query(
+          `
+            SELECT 1
+              FROM school_courses
+             WHERE tenant_id = $1
+               AND LOWER(name) = LOWER($2)
+               AND id <> $3
+             LIMIT 1;
+          `,
+          [ctx.tenantId, payload.name, course.id]
+        );
+        if (duplicate.rowCount) {
+          throw new AppError("Ja existe um curso com este nome.", 409);
+        }
+      }
+
+      const modulesBefore = await loadCourseModules(client, ctx.tenantId, course.id);
+      if (payload.modules) {
+        const keptIds = payload.modules.flatMap((item) => (item.id ? [item.id] : []));
+        if (keptIds.some((id) => !modulesBefore.some((item) => item.id === id))) {
+          throw new AppError("Modulo nao pertence a este curso.", 400);
+        }
+        const removedIds = modulesBefore
+          .filter((item) => !keptIds.includes(item.id))
+          .map((item) => item.id);
+        if (removedIds.length > 0) {
+          const used = await client.query(
+            `
+              SELECT 1 FROM school_lessons WHERE module_id = ANY($1::uuid[])
+              UNION ALL
+              SELECT 1 FROM school_grades WHERE module_id = ANY($1::uuid[])
+              LIMIT 1;
+            `,
+            [removedIds]
+          );
+          if (used.rowCount) {
+            throw new AppError("Modulo com aulas ou notas registradas nao pode ser removido.", 409);
+          }
+          await client.query("DELETE FROM school_course_modules WHERE id = ANY($1::uuid[]);", [
+            removedIds
+          ]);
+        }
+
+        for (const [index, item] of payload.modules.entries()) {
+          if (item.id) {
+            await client.query(
+              `
+                UPDATE school_course_modules
+                   SET position = $3,
+                       title = $4,
+                       description = $5
+                 WHERE id = $1
+                   AND course_id = $2;
+              `,
+              [item.id, course.id, index + 1, item.title, item.description ?? null]
+            );
+          } else {
+            await client.query(
+              `
+                INSERT INTO school_course_modules (course_id, tenant_id, position, title, description)
+                VALUES ($1, $2, $3, $4, $5);
+              `,
+              [course.id, ctx.tenantId, index + 1, item.title, item.description ?? null]
+            );
+          }
+        }
+      }
+
+      await client.query(
+        `
+          UPDATE school_courses
+             SET name = COALESCE($3, name),
+                 description = CASE WHEN $4::boolean THEN $5 ELSE description END,
+                 passing_grade = COALESCE($6, passing_grade),
+                 min_attendance_percent = COALESCE($7, min_attendance_percent),
+                 is_active = COALESCE($8, is_active)
+           WHERE id = $1
+             AND tenant_id = $2;
+        `,
+        [
+          course.id,
+          ctx.tenantId,
+          payload.name ?? null,
+          payload.description !== undefined,
+          payload.description ?? null,
+          payload.passingGrade ?? null,
+          payload.minAttendancePercent ?? null,
+          payload.isActive ?? null
+        ]
+      );
+
+      const updated = await findCourse(client, ctx.tenantId, course.id);
+      const modulesAfter = await loadCourseModules(client, ctx.tenantId, course.id);
+      await recordAudit(client, request, {
+        tenantId: ctx.tenantId,
+        actorUserId: ctx.userId,
+        action: "school_course.update",
+        entityType: "school_course",
+        entityId: course.id,
+        before: { ...toCourse(course), modules: modulesBefore },
+        after: { ...toCourse(updated!), modules: modulesAfter }
+      });
+      await client.query("COMMIT;");
+
+      response.json({
+        message: "Curso atualizado.",
+        course: toCourse(updated!),
+        modules: modulesAfter
+      });
+    } catch (error) {
+      await client.query("ROLLBACK;");
+      throw error;
+    } finally {
+      client.release();
+    }
+  })
+);
+
+schoolRoutes.get(
+  "/classes",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const filters = listClassesQuerySchema.parse(request.query);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "leadership_school", "view");
+      const rows = await client.query<ClassRow & { total: string }>(
+        `
+          SELECT ${classColumns}, COUNT(*) OVER()::text AS total
+            FROM school_classes cl
+            JOIN school_courses sc ON sc.id = cl.course_id
+           WHERE cl.tenant_id = $1
+             AND ($2::uuid IS NULL OR cl.course_id = $2)
+             AND ($3::text IS NULL OR cl.status = $3)
+           ORDER BY cl.starts_on DESC, cl.name
+           LIMIT $4
+          OFFSET $5;
+        `,
+        [
+          ctx.tenantId,
+          filters.courseId ?? null,
+          filters.status ?? null,
+          filters.limit,
+          filters.offset
+        ]
+      );
+
+      response.json({
+        total: Number(rows.rows[0]?.total ?? "0"),
+        rows: rows.rows.map(toClass)
+      });
+    } finally {
+      client.release();
+    }
+  })
+);
+
+schoolRoutes.get(
+  "/classes/:id",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const classId = z.string().uuid().parse(request.params.id);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "leadership_school", "view");
+      const schoolClass = await findClass(client, ctx.tenantId, classId);
+      if (!schoolClass) {
+        throw new AppError("Turma nao encontrada.", 404);
+      }
+
+      const lessons = await client.query<{
+        id: string;
+        lesson_date: string;
+        module_id: string | null;
+        module_title: string | null;
+        topic: string | null;
+        present_count: number;
+        absent_count: number;
+      }>(
+        `
+          SELECT
+            l.id,
+            l.lesson_date::text,
+            l.module_id,
+            m.title AS module_title,
+            l.topic,
+            COUNT(a.enrollment_id) FILTER (WHERE a.present)::int AS present_count,
+            COUNT(a.enrollment_id) FILTER (WHERE NOT a.present)::int AS absent_count
+          FROM school_lessons l
+          LEFT JOIN school_course_modules m ON m.id = l.module_id
+          LEFT JOIN school_lesson_attendance a ON a.lesson_id = l.id
+          WHERE l.class_id = $1
+            AND l.tenant_id = $2
+          GROUP BY l.id, m.title
+          ORDER BY l.lesson_date, l.created_at;
+        `,
+        [schoolClass.id, ctx.tenantId]
+      );
+
+      response.json({
+        class: toClass(schoolClass),
+        criteria: {
+          passingGrade: schoolClass.passing_grade,
+          minAttendancePercent: schoolClass.min_attendance_percent
+        },
+        modules: await loadCourseModules(client, ctx.tenantId, schoolClass.course_id),
+        lessons: lessons.rows.map((row) => ({
+          id: row.id,
+          lessonDate: row.lesson_date,
+          moduleId: row.module_id,
+          moduleTitle: row.module_title,
+          topic: row.topic,
+          presentCount: row.present_count,
+          absentCount: row.absent_count
+        })),
+        enrollments: await loadEnrollmentResults(client, ctx.tenantId, schoolClass.id)
+      });
+    } finally {
+      client.release();
+    }
+  })
+);
+
+schoolRoutes.post(
+  "/classes",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const payload = createClassSchema.parse(request.body);
+    if (payload.endsOn && payload.endsOn < payload.startsOn) {
+      throw new AppError("A data de termino nao pode ser anterior ao inicio.", 400);
+    }
+
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "leadership_school", "create");
+
+      await client.query("BEGIN;");
+      const course = await findCourse(client, ctx.tenantId, payload.courseId);
+      if (!course) {
+        throw new AppError("Curso nao encontrado.", 404);
+      }
+      if (!course.is_active) {
+        throw new AppError("Curso inativo nao aceita novas turmas.", 409);
+      }
+
+      const created = await client.query<{ id: string }>(
+        `
+          INSERT INTO school_classes (
+            tenant_id,
+            course_id,
+            name,
+            starts_on,
+            ends_on,
+            weekday,
+            start_time,
+            location,
+            created_by_user_id
+          )
+          VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+          RETURNING id;
+        `,
+        [
+          ctx.tenantId,
+          course.id,
+          payload.name,
+          payload.startsOn,
+          payload.endsOn ?? null,
+          payload.weekday ?? null,
+          payload.startTime ?? null,
+          payload.location ?? null,
+          ctx.userId
+        ]
+      );
+      const classId = created.rows[0].id;
+      await replaceClassTeachers(client, ctx.tenantId, classId, payload.teacherUserIds);
+      await recordAudit(client, request, {
+        tenantId: ctx.tenantId,
+        actorUserId: ctx.userId,
+        action: "school_class.create",
+        entityType: "school_class",
+        entityId: classId,
+        after: payload
+      });
+      await client.query("COMMIT;");
+
+      response.status(201).json({ message: "Turma cadastrada.", id: classId });
+    } catch (error) {
+      await client.query("ROLLBACK;");
+      throw error;
+    } finally {
+      client.release();
+    }
+  })
+);
+
+schoolRoutes.put(
+  "/classes/:id",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const classId = z.string().uuid().parse(request.params.id);
+    const payload = updateClassSchema.parse(request.body);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "leadership_school", "edit");
+
+      await client.query("BEGIN;");
+      const schoolClass = await findClass(client, ctx.tenantId, classId, true);
+      if (!schoolClass) {
+        throw new AppError("Turma nao encontrada.", 404);
+      }
+      assertClassOpen(schoolClass);
+      const startsOn = payload.startsOn ?? schoolClass.starts_on;
+      const endsOn = payload.endsOn === undefined ? schoolClass.ends_on : payload.endsOn;
+      if (endsOn && endsOn < startsOn) {
+        throw new AppError("A data de termino nao pode ser anterior ao inicio.", 400);
+      }
+
+      await client.query(
+        `
+          UPDATE school_classes
+             SET name = COALESCE($3, name),
+                 starts_on = $4,
+                 ends_on = $5,
+                 weekday = CASE WHEN $6::boolean THEN $7 ELSE weekday END,
+                 start_time = CASE WHEN $8::boolean THEN $9::time ELSE start_time END,
+                 location = CASE WHEN $10::boolean THEN $11 ELSE location END,
+                 status = COALESCE($12, status)
+           WHERE id = $1
+             AND tenant_id = $2;
+        `,
+        [
+          schoolClass.id,
+          ctx.tenantId,
+          payload.name ?? null,
+          startsOn,
+          endsOn,
+          payload.weekday !== undefined,
+          payload.weekday ?? null,
+          payload.startTime !== undefined,
+          payload.startTime ?? null,
+          payload.location !== undefined,
+          payload.location ?? null,
+          payload.status ?? null
+        ]
+      );
+      if (payload.teacherUserIds) {
+        await replaceClassTeachers(client, ctx.tenantId, schoolClass.id, payload.teacherUserIds);
+      }
+
+      const updated = await findClass(client, ctx.tenantId, schoolClass.id);
+      await recordAudit(client, request, {
+        tenantId: ctx.tenantId,
+        actorUserId: ctx.userId,
+        action: payload.status === "cancelled" ? "school_class.cancel" : "school_class.update",
+        entityType: "school_class",
+        entityId: schoolClass.id,
+        before: toClass(schoolClass),
+        after: toClass(updated!)
+      });
+      await client.query("COMMIT;");
+
+      response.json({ message: "Turma atualizada.", class: toClass(updated!) });
+    } catch (error) {
+      await client.query("ROLLBACK;");
+      throw error;
+    } finally {
+      client.release();
+    }
+  })
+);
+
+schoolRoutes.post(
+  "/classes/:id/enrollments",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const classId = z.string().uuid().parse(request.params.id);
+    const payload = enrollSchema.parse(request.body);
+    const participantIds = [...new Set(payload.participantIds)];
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "leadership_school", "create");
+      const visibleCellIds = await getVisibleCellIds(client, ctx);
+
+      await client.query("BEGIN;");
+      const schoolClass = await findClass(client, ctx.tenantId, classId, true);
+      if (!schoolClass) {
+        throw new AppError("Turma nao encontrada.", 404);
+      }
+      assertClassOpen(schoolClass);
+
+      const participants = await client.query<{ id: string }>(
+        `
+          SELECT p.id
+            FROM participants p
+           WHERE p.tenant_id = $1
+             AND p.id = ANY($2::uuid[])
+             AND p.is_active = TRUE
+             AND EXISTS (
+               SELECT 1
+                 FROM participant_cell_links l
+                WHERE l.participant_id = p.id
+                  AND l.is_active = TRUE
+                  AND ($3::uuid[] IS NULL OR l.cell_id = ANY($3::uuid[]))
+             );
+        `,
+        [ctx.tenantId, participantIds, visibleCellIds]
+      );
+      if (participants.rowCount !== participantIds.length) {
+        throw new AppError("Participante nao encontrado ou fora do seu escopo.", 404);
+      }
+
+      const enrolled = await client.query<{ id: string; participant_id: string }>(
+        `
+          INSERT INTO school_enrollments (tenant_id, class_id, participant_id, enrolled_by_user_id)
+          SELECT $1, $2, UNNEST($3::uuid[]), $4
+          ON CONFLICT (class_id, participant_id)
+          DO UPDATE SET
+            status = 'enrolled',
+            enrolled_by_user_id = EXCLUDED.enrolled_by_user_id
+          WHERE school_enrollments.status = 'dropped'
+          RETURNING id, participant_id;
+        `,
+        [ctx.tenantId, schoolClass.id, participantIds, ctx.userId]
+      );
+      await recordAudit(client, request, {
+        tenantId: ctx.tenantId,
+        actorUserId: ctx.userId,
+        action: "school_class.enroll",
+        entityType: "school_class",
+        entityId: schoolClass.id,
+        after: { participantIds: enrolled.rows.map((row) => row.participant_id) }
+      });
+      await client.query("COMMIT;");
+
+      response.status(201).json({
+        message: "Matriculas registradas.",
+        enrolled: enrolled.rowCount,
+        alreadyEnrolled: participantIds.length - (enrolled.rowCount ?? 0)
+      });
+    } catch (error) {
+      await client.query("ROLLBACK;");
+      throw error;
+    } finally {
+      client.release();
+    }
+  })
+);
+
+schoolRoutes.post(
+  "/classes/:id/enrollments/:enrollmentId/drop",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const classId = z.string().uuid().parse(request.params.id);
+    const enrollmentId = z.string().uuid().parse(request.params.enrollmentId);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "leadership_school", "edit");
+
+      await client.query("BEGIN;");
+      const schoolClass = await findClass(client, ctx.tenantId, classId, true);
+      if (!schoolClass) {
+        throw new AppError("Turma nao encontrada.", 404);
+      }
+      assertClassOpen(schoolClass);
+
+      const dropped = await client.query<{ participant_id: string }>(
+        `
+          UPDATE school_enrollments
+             SET status = 'dropped'
+           WHERE id = $1
+             AND class_id = $2
+             AND status = 'enrolled'
+          RETURNING participant_id;
+        `,
+        [enrollmentId, schoolClass.id]
+      );
+      if (!dropped.rowCount) {
+        throw new AppError("Matricula ativa nao encontrada nesta turma.", 404);
+      }
+      await recordAudit(client, request, {
+        tenantId: ctx.tenantId,
+        actorUserId: ctx.userId,
+        action: "school_enrollment.drop",
+        entityType: "school_enrollment",
+        entityId: enrollmentId,
+        before: { status: "enrolled" },
+        after: { status: "dropped", participantId: dropped.rows[0].participant_id }
+      });
+      await client.query("COMMIT;");
+
+      response.json({ message: "Matricula cancelada." });
+    } catch (error) {
+      await client.query("ROLLBACK;");
+      throw error;
+    } finally {
+      client.release();
+    }
+  })
+);
+
+schoolRoutes.post(
+  "/classes/:id/lessons",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const classId = z.string().uuid().parse(request.params.id);
+    const payload = lessonSchema.parse(request.body);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "leadership_school", "edit");
+
+      await client.query("BEGIN;");
+      const schoolClass = await findClass(client, ctx.tenantId, classId, true);
+      if (!schoolClass) {
+        throw new AppError("Turma nao encontrada.", 404);
+      }
+      assertClassOpen(schoolClass);
+      if (payload.lessonDate < schoolClass.starts_on) {
+        throw new AppError("A aula nao pode ser anterior ao inicio da turma.", 400);
+      }
+      if (payload.moduleId) {
+        const modules = await loadCourseModules(client, ctx.tenantId, schoolClass.course_id);
+        if (!modules.some((item) => item.id === payload.moduleId)) {
+          throw new AppError("Modulo nao pertence ao curso desta turma.", 400);
+        }
+      }
+
+      const created = await client.query<{ id: string }>(
+        `
+          INSERT INTO school_lessons (
+            tenant_id,
+            class_id,
+            module_id,
+            lesson_date,
+            topic,
+            recorded_by_user_id
+          )
+          VALUES ($1, $2, $3, $4, $5, $6)
+          RETURNING id;
+        `,
+        [
+          ctx.tenantId,
+          schoolClass.id,
+          payload.moduleId ?? null,
+          payload.lessonDate,
+          payload.topic ?? null,
+          ctx.userId
+        ]
+      );
+      const lessonId = created.rows[0].id;
+      await saveLessonAttendance(client, schoolClass.id, lessonId, payload.attendance);
+      if (schoolClass.status === "planned") {
+        await client.query("UPDATE school_classes SET status = 'in_progress' WHERE id = $1;", [
+          schoolClass.id
+        ]);
+      }
+      await recordAudit(client, request, {
+        tenantId: ctx.tenantId,
+        actorUserId: ctx.userId,
+        action: "school_lesson.create",
+        entityType: "school_lesson",
+        entityId: lessonId,
+        after: { classId: schoolClass.id, ...payload }
+      });
+      await client.query("COMMIT;");
+
+      response.status(201).json({ message: "Aula registrada.", id: lessonId });
+    } catch (error) {
+      await client.query("ROLLBACK;");
+      throw error;
+    } finally {
+      client.release();
+    }
+  })
+);
+
+schoolRoutes.put(
+  "/classes/:id/lessons/:lessonId/attendance",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const classId = z.string().uuid().parse(request.params.id);
+    const lessonId = z.string().uuid().parse(request.params.lessonId);
+    const payload = attendanceSchema.parse(request.body);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "leadership_school", "edit");
+
+      await client.query("BEGIN;");
+      const schoolClass = await findClass(client, ctx.tenantId, classId, true);
+      if (!schoolClass) {
+        throw new AppError("Turma nao encontrada.", 404);
+      }
+      assertClassOpen(schoolClass);
+      const lesson = await client.query(
+        "SELECT 1 FROM school_lessons WHERE id = $1 AND class_id = $2 LIMIT 1;",
+        [lessonId, schoolClass.id]
+      );
+      if (!lesson.rowCount) {
+        throw new AppError("Aula nao encontrada.", 404);
+      }
+
+      await saveLessonAttendance(client, schoolClass.id, lessonId, payload.attendance);
+      await recordAudit(client, request, {
+        tenantId: ctx.tenantId,
+        actorUserId: ctx.userId,
+        action: "school_lesson.attendance",
+        entityType: "school_lesson",
+        entityId: lessonId,
+        after: payload
+      });
+      await client.query("COMMIT;");
+
+      response.json({ message: "Frequencia atualizada." });
+    } catch (error) {
+      await client.query("ROLLBACK;");
+      throw error;
+    } finally {
+      client.release();
+    }
+  })
+);
+
+schoolRoutes.put(
+  "/classes/:id/grades",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const classId = z.string().uuid().parse(request.params.id);
+    const payload = gradesSchema.parse(request.body);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "leadership_school", "edit");
+
+      await client.query("BEGIN;");
+      const schoolClass = await findClass(client, ctx.tenantId, classId, true);
+      if (!schoolClass) {
+        throw new AppError("Turma nao encontrada.", 404);
+      }
+      assertClassOpen(schoolClass);
+      const modules = await loadCourseModules(client, ctx.tenantId, schoolClass.course_id);
+      if (payload.grades.some((item) => !modules.some((module) => module.id === item.moduleId))) {
+        throw new AppError("Modulo nao pertence ao curso desta turma.", 400);
+      }
+      await assertClassEnrollments(
+        client,
+        schoolClass.id,
+        payload.grades.map((item) => item.enrollmentId)
+      );
+
+      await client.query(
+        `
+          INSERT INTO school_grades (enrollment_id, module_id, grade, graded_by_user_id)
+          SELECT item.enrollment_id, item.module_id, item.grade, $4
+            FROM UNNEST($1::uuid[], $2::uuid[], $3::numeric[]) AS item(enrollment_id, module_id, grade)
+          ON CONFLICT (enrollment_id, module_id)
+          DO UPDATE SET
+            grade = EXCLUDED.grade,
+            graded_by_user_id = EXCLUDED.graded_by_user_id,
+            updated_at = NOW();
+        `,
+        [
+          payload.grades.map((item) => item.enrollmentId),
+          payload.grades.map((item) => item.moduleId),
+          payload.grades.map((item) => item.grade),
+          ctx.userId
+        ]
+      );
+      await recordAudit(client, request, {
+        tenantId: ctx.tenantId,
+        actorUserId: ctx.userId,
+        action: "school_class.grades",
+        entityType: "school_class",
+        entityId: schoolClass.id,
+        after: payload
+      });
+      await client.query("COMMIT;");
+
+      response.json({ message: "Notas registradas.", count: payload.grades.length });
+    } catch (error) {
+      await client.query("ROLLBACK;");
+      throw error;
+    } finally {
+      client.release();
+    }
+  })
+);
+
+schoolRoutes.post(
+  "/classes/:id/finish",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const classId = z.string().uuid().parse(request.params.id);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "leadership_school", "edit");
+
+      await client.query("BEGIN;");
+      const schoolClass = await findClass(client, ctx.tenantId, classId, true);
+      if (!schoolClass) {
+        throw new AppError("Turma nao encontrada.", 404);
+      }
+      assertClassOpen(schoolClass);
+
+      const outcome = await finishSchoolClass(client, {
+        tenantId: ctx.tenantId,
+        classId: schoolClass.id,
+        courseId: schoolClass.course_id,
+        passingGrade: schoolClass.passing_grade,
+        minAttendancePercent: schoolClass.min_attendance_percent
+      });
+      await recordAudit(client, request, {
+        tenantId: ctx.tenantId,
+        actorUserId: ctx.userId,
+        action: "school_class.finish",
+        entityType: "school_class",
+        entityId: schoolClass.id,
+        before: { status: schoolClass.status },
+        after: { status: "finished", passed: outcome.passed, failed: outcome.failed }
+      });
+      await client.query("COMMIT;");
+
+      response.json({ message: "Turma encerrada.", ...outcome });
+    } catch (error) {
+      await client.query("ROLLBACK;");
+      throw error;
+    } finally {
+      client.release();
+    }
+  })
+);
+
+schoolRoutes.get(
+  "/ready-to-lead",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const filters = readyToLeadQuerySchema.parse(request.query);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "leadership_school", "view");
+      const visibleCellIds = await getVisibleCellIds(client, ctx);
+      const rows = await client.query<{
+        id: string;
+        full_name: string;
+        cell_id: string;
+        cell_name: string;
+        courses: string[];
+        completed_at: string;
+        total: string;
+      }>(
+        `
+          SELECT
+            p.id,
+            p.full_name,
+            link.cell_id,
+            c.name AS cell_name,
+            done.courses,
+            done.completed_at,
+            COUNT(*) OVER()::text AS total
+          FROM participants p
+          JOIN LATERAL (
+            SELECT l.cell_id, l.type
+              FROM participant_cell_links l
+             WHERE l.participant_id = p.id
+               AND l.is_active = TRUE
+             ORDER BY l.updated_at DESC
+             LIMIT 1
+          ) link ON TRUE
+          JOIN cells c ON c.id = link.cell_id
+          JOIN LATERAL (
+            SELECT
+              ARRAY_AGG(DISTINCT sc.name ORDER BY sc.name) AS courses,
+              MAX(e.completed_at)::text AS completed_at
+              FROM school_enrollments e
+              JOIN school_classes cl ON cl.id = e.class_id
+              JOIN school_courses sc ON sc.id = cl.course_id
+             WHERE e.tenant_id = p.tenant_id
+               AND e.participant_id = p.id
+               AND e.status = 'passed'
+               AND ($4::uuid IS NULL OR sc.id = $4)
+          ) done ON done.courses IS NOT NULL
+          WHERE p.tenant_id = $1
+            AND p.is_active = TRUE
+            AND link.type = 'member'
+            AND ($2::uuid[] IS NULL OR link.cell_id = ANY($2::uuid[]))
+            AND ($3::uuid IS NULL OR link.cell_id = $3)
+          ORDER BY done.completed_at DESC, p.full_name
+          LIMIT $5
+         OFFSET $6;
+        `,
+        [
+          ctx.tenantId,
+          visibleCellIds,
+          filters.cellId ?? null,
+          filters.courseId ?? null,
+          filters.limit,
+          filters.offset
+        ]
+      );
+
+      response.json({
+        total: Number(rows.rows[0]?.total ?? "0"),
+        rows: rows.rows.map((row) => ({
+          participantId: row.id,
+          name: row.full_name,
+          cellId: row.cell_id,
+          cellName: row.cell_name,
+          courses: row.courses,
+          completedAt: row.completed_at
+        }))
+      });
+    } finally {
+      client.release();
+    }
+  })
+);
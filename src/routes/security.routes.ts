@@ -0,0 +1,218 @@
+import { Router } from "express";
+import { z } from "zod";
+import { asyncHandler } from "../common/async-handler";
+import { pool } from "../db/pool";
+import { recordAudit } from "../lib/audit";
+import { requireAuth } from "../middlewares/auth.middleware";
+import { assertRole, loadAccessContext } from "../panel/access";
+import { panelRoles } from "../panel/permissions";
+
+const loginHistoryQuerySchema = z.object({
+  userId: z.string().uuid().optional(),
+  email: z.string().trim().max(160).optional(),
+  success: z.enum(["true", "false"]).optional(),
+  from: z.string().date().optional(),
+  to: z.string().date().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+const mfaPolicySchema = z.object({
+  roles: z.array(z.enum(panelRoles))
+});
+
+export const securityRoutes = Router();
+
+securityRoutes.use(requireAuth);
+
+securityRoutes.get(
+  "/login-history",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const filters = loginHistoryQuerySchema.parse(request.query);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertRole(ctx, ["admin_geral"]);
+
+      const rows = await client.query<{
+        id: string;
+        user_id: string | null;
+        user_name: string | null;
+        email: string;
+        success: boolean;
+        failure_reason: string | null;
+        ip_address: string | null;
+        user_agent: string | null;
+        created_at: string;
+      }>(
+        `
+          SELECT
+            lh.id,
+            lh.user_id,
+            u.full_name AS user_name,
+            lh.email,
+            lh.success,
+            lh.failure_reason,
+            lh.ip_address,
+            lh.user_agent,
+            lh.created_at::text
+          FROM login_history lh
+          JOIN users u ON u.id = lh.user_id
+          JOIN tenant_members tm
+            ON tm.user_id = lh.user_id
+           AND tm.tenant_id = $1
+          WHERE (lh.tenant_id = $1 OR lh.tenant_id IS NULL)
+            AND ($2::uuid IS NULL OR lh.user_id = $2)
+            AND ($3::text IS NULL OR lh.email ILIKE $3)
+            AND ($4::boolean IS NULL OR lh.success = $4)
+            AND ($5::date IS NULL OR lh.created_at >= $5::date)
+            AND ($6::date IS NULL OR lh.created_at < $6::date + 1)
+          ORDER BY lh.created_at DESC
+          LIMIT $7
+          OFFSET $8;
+        `,
+        [
+          ctx.tenantId,
+          filters.userId ?? null,
+          filters.email ? `%${filters.email}%` : null,
+          filters.success ? filters.success === "true" : null,
+          filters.from ?? null,
+          filters.to ?? null,
+          filters.limit,
+          filters.offset
+        ]
+      );
+
+      response.json({
+        rows: rows.rows.map((row) => ({
+          id: row.id,
+          userId: row.user_id,
+          userName: row.user_name,
+          email: row.email,
+          success: row.success,
+          failureReason: row.failure_reason,
+          ip: row.ip_address,
+          userAgent: row.user_agent,
+          createdAt: row.created_at
+        }))
+      });
+    } finally {
+      client.release();
+    }
+  })
+);
+
+securityRoutes.get(
+  "/mfa-policy",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertRole(ctx, ["admin_geral"]);
+      const rows = await client.query<{ role: string }>(
+        `
+          SELECT role::text
+            FROM tenant_mfa_required_roles
+           WHERE tenant_id = $1
+           ORDER BY role;
+        `,
+        [ctx.tenantId]
+      );
+
+      response.json({ roles: rows.rows.map((row) => row.role) });
+    } finally {
+      client.release();
+    }
+  })
+);
+
+securityRoutes.put(
+  "/mfa-policy",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const payload = mfaPolicySchema.parse(request.body);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertRole(ctx, ["admin_geral"]);
+      await client.query("BEGIN;");
+      const previous = await client.query<{ role: string }>(
+        `
+          SELECT role::text
+            FROM tenant_mfa_required_roles
+           WHERE tenant_id = $1
+           ORDER BY role;
+        `,
+        [ctx.tenantId]
+      );
+      await client.query(
+        `
+          DELETE FROM tenant_mfa_required_roles
+           WHERE tenant_id = $1
+             AND NOT (role::text = ANY($2::text[]));
+        `,
+        [ctx.tenantId, payload.roles]
+      );
+      for (const role of new Set(payload.roles)) {
+        await client.query(
+          `
+            INSERT INTO tenant_mfa_required_roles (tenant_id, role, updated_by_user_id)
+            VALUES ($1, $2, $3)
+            ON CONFLICT (tenant_id, role) DO NOTHING;
+          `,
+          [ctx.tenantId, role, ctx.userId]
+        );
+      }
+      const revoked = await client.query(
+        `
+          UPDATE user_sessions s
+             SET revoked_at = NOW()
+            FROM tenant_members tm
+           WHERE s.tenant_id = $1
+             AND s.revoked_at IS NULL
+             AND tm.tenant_id = s.tenant_id
+             AND tm.user_id = s.user_id
+             AND (
+               CASE
+                 WHEN tm.role::text IN ('owner', 'admin') THEN 'admin_geral'
+                 WHEN tm.role::text = 'leader' THEN 'lider_celula'
+                 ELSE tm.role::text
+               END
+             ) = ANY($2::text[])
+             AND NOT EXISTS (
+               SELECT 1
+                 FROM user_mfa m
+                WHERE m.user_id = s.user_id
+                  AND m.enabled_at IS NOT NULL
+             );
+        `,
+        [ctx.tenantId, payload.roles]
+      );
+      await recordAudit(client, request, {
+        tenantId: ctx.tenantId,
+        actorUserId: ctx.userId,
+        action: "mfa_policy.update",
+        entityType: "mfa_policy",
+        entityId: ctx.tenantId,
+        before: { roles: previous.rows.map((row) => row.role) },
+        after: {
+          roles: Array.from(new Set(payload.roles)).sort(),
+          revokedSessions: revoked.rowCount ?? 0
+        }
+      });
+      await client.query("COMMIT;");
+      response.json({
+        message: "Politica de verificacao em duas etapas salva.",
+        roles: payload.roles,
+        revokedSessions: revoked.rowCount ?? 0
+      });
+    } catch (error) {
+      await client.query("ROLLBACK;");
+      throw error;
+    } finally {
+      client.release();
+    }
+  })
+);
@@ -0,0 +1,447 @@
+import { PoolClient } from "pg";
+import { Router } from "express";
+import { z } from "zod";
+import { asyncHandler } from "../common/async-handler";
+import { AppError } from "../common/errors";
+import { pool } from "../db/pool";
+import { recordAudit } from "../lib/audit";
+import { requireAuth } from "../middlewares/auth.middleware";
+import { AccessContext, assertPermission, loadAccessContext } from "../panel/access";
+import {
+  coversRole,
+  getRoleLabel,
+  grantsBuiltInRole,
+  normalizePanelRole
+} from "../panel/permissions";
+import { findAssignableRole, resolveMemberRole, TenantRoleDefinition } from "../panel/roles";
+import { assertScopeTargets, replaceUserScopes } from "../panel/scopes";
+
+const listTeamQuerySchema = z.object({
+  role: z.string().trim().max(60).optional(),
+  active: z.enum(["true", "false"]).optional(),
+  q: z.string().trim().max(160).optional()
+});
+
+const updateMemberSchema = z
+  .object({
+    role: z.string().trim().min(1).max(60).optional(),
+    isActive: z.boolean().optional()
+  })
+  .refine((data) => data.role !== undefined || data.isActive !== undefined, {
+    message: "Informe ao menos um campo para atualizar."
+  });
+
+const updateScopesSchema = z.object({
+  networkIds: z.array(z.string().uuid()),
+  cellIds: z.array(z.string().uuid()),
+  unitIds: z.array(z.string().uuid()).optional()
+});
+
+type TeamMemberRow = {
+  user_id: string;
+  full_name: string;
+  email: string;
+  role: string;
+  role_id: string | null;
+  role_key: string | null;
+  role_name: string | null;
+  is_active: boolean;
+  created_at: string;
+  network_ids: string[];
+  unit_ids: string[];
+  cell_ids: string[];
+};
+
+const adminRoles = ["admin_geral", "owner", "admin"];
+
+function toTeamMember(row: TeamMemberRow) {
+  const role = normalizePanelRole(row.role as never);
+  return {
+    userId: row.user_id,
+    name: row.full_name,
+    email: row.email,
+    role,
+    roleKey: row.role_key ?? role,
+    roleName: row.role_name ?? getRoleLabel(role),
+    isActive: row.is_active,
+    createdAt: row.created_at,
+    networkIds: row.network_ids,
+    unitIds: row.unit_ids,
+    cellIds: row.cell_ids
+  };
+}
+
+async function findTeamMember(
+  client: PoolClient,
+  tenantId: string,
+  userId: string,
+  forUpdate = false
+): Promise<TeamMemberRow | null> {
+  const result = await client.query<TeamMemberRow>(
+    `
+      SELECT
+        u.id AS user_id,
+        u.full_name,
+        u.email,
+        tm.role::text AS role,
+        tm.role_id,
+        r.key AS role_key,
+        r.name AS role_name,
+        tm.is_active,
+        tm.created_at::text,
+        ARRAY(
+          SELECT network_id
+            FROM user_network_scopes
+           WHERE tenant_id = tm.tenant_id
+             AND user_id = tm.user_id
+        ) AS network_ids,
+        ARRAY(
+          SELECT org_unit_id
+            FROM user_unit_scopes
+           WHERE tenant_id = tm.tenant_id
+             AND user_id = tm.user_id
+        ) AS unit_ids,
+        ARRAY(
+          SELECT cell_id
+            FROM user_cell_scopes
+           WHERE tenant_id = tm.tenant_id
+             AND user_id = tm.user_id
+        ) AS cell_ids
+      FROM tenant_members tm
+      JOIN users u ON u.id = tm.user_id
+      LEFT JOIN tenant_roles r
+        ON r.tenant_id = tm.tenant_id
+       AND (r.id = tm.role_id OR (tm.role_id IS NULL AND r.is_system = TRUE AND r.key = tm.role::text))
+      WHERE tm.tenant_id = $1
+        AND tm.user_id = $2
+        AND u.deleted_at IS NULL
+      LIMIT 1
+      ${forUpdate ? "FOR UPDATE OF tm" : ""};
+    `,
+    [tenantId, userId]
+  );
+
+  return result.rows[0] ?? null;
+}
+
+async function assertCanManage(
+  client: PoolClient,
+  ctx: AccessContext,
+  member: TeamMemberRow
+): Promise<void> {
+  const role = await resolveMemberRole(
+    client,
+    ctx.tenantId,
+    normalizePanelRole(member.role as never),
+    member.role_id
+  );
+  if (!coversRole(ctx, role)) {
+    throw new AppError("Voce nao pode alterar um membro com perfil acima do seu.", 403);
+  }
+}
+
+function isEffectiveAdmin(role: TenantRoleDefinition): boolean {
+  return grantsBuiltInRole(
+    { role: role.baseRole, scope: role.scope, permissions: role.permissions },
+    "admin_geral"
+  );
+}
+
+// Only members whose effective matrix still grants full admin access count;
+// a custom role built on admin_geral with a stripped matrix does not.
+async function assertKeepsAnAdmin(
+  client: PoolClient,
+  tenantId: string,
+  userId: string
+): Promise<void> {
+  const admins = await client.query<{ user_id: string; role: string; role_id: string | null }>(
+    `
+      SELECT user_id, role::text AS role, role_id
+        FROM tenant_members
+       WHERE tenant_id = $1
+         AND is_active = TRUE
+         AND role::text = ANY($2::text[])
+       FOR UPDATE;
+    `,
+    [tenantId, adminRoles]
+  );
+
+  for (const row of admins.rows) {
+    if (row.user_id === userId) {
+      continue;
+    }
+    const role = await resolveMemberRole(
+      client,
+      tenantId,
+      normalizePanelRole(row.role as never),
+      row.role_id
+    );
+    if (isEffectiveAdmin(role)) {
+      return;
+    }
+  }
+
+  throw new AppError("A igreja precisa manter ao menos um admin geral ativo.", 409);
+}
+
+export const teamRoutes = Router();
+
+teamRoutes.use(requireAuth);
+
+teamRoutes.get(
+  "/",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const filters = listTeamQuerySchema.parse(request.query);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "team", "view");
+      const rows = await client.query<TeamMemberRow>(
+        `
+          SELECT
+            u.id AS user_id,
+            u.full_name,
+            u.email,
+            tm.role::text AS role,
+            r.key AS role_key,
+            r.name AS role_name,
+            tm.is_active,
+            tm.created_at::text,
+            ARRAY(
+              SELECT network_id
+                FROM user_network_scopes
+               WHERE tenant_id = tm.tenant_id
+                 AND user_id = tm.user_id
+            ) AS network_ids,
+            ARRAY(
+              SELECT org_unit_id
+                FROM user_unit_scopes
+               WHERE tenant_id = tm.tenant_id
+                 AND user_id = tm.user_id
+            ) AS unit_ids,
+            ARRAY(
+              SELECT cell_id
+                FROM user_cell_scopes
+               WHERE tenant_id = tm.tenant_id
+                 AND user_id = tm.user_id
+            ) AS cell_ids
+          FROM tenant_members tm
+          JOIN users u ON u.id = tm.user_id
+          LEFT JOIN tenant_roles r
+            ON r.tenant_id = tm.tenant_id
+           AND (r.id = tm.role_id OR (tm.role_id IS NULL AND r.is_system = TRUE AND r.key = tm.role::text))
+          WHERE tm.tenant_id = $1
+            AND u.deleted_at IS NULL
+            AND ($2::boolean IS NULL OR tm.is_active = $2)
+            AND ($3::text IS NULL OR u.full_name ILIKE $3 OR u.email ILIKE $3)
+          ORDER BY u.full_name;
+        `,
+        [
+          ctx.tenantId,
+          filters.active ? filters.active === "true" : null,
+          filters.q ? `%${filters.q}%` : null
+        ]
+      );
+
+      const members = rows.rows.map(toTeamMember);
+      response.json({
+        members: filters.role
+          ? members.filter((member) => member.roleKey === filters.role)
+          : members
+      });
+    } finally {
+      client.release();
+    }
+  })
+);
+
+teamRoutes.get(
+  "/:userId",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const userId = z.string().uuid().parse(request.params.userId);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "team", "view");
+      const member = await findTeamMember(client, ctx.tenantId, userId);
+      if (!member) {
+        throw new AppError("Membro nao encontrado.", 404);
+      }
+
+      response.json({ member: toTeamMember(member) });
+    } finally {
+      client.release();
+    }
+  })
+);
+
+teamRoutes.patch(
+  "/:userId",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const userId = z.string().uuid().parse(request.params.userId);
+    const payload = updateMemberSchema.parse(request.body);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "team", "edit");
+
+      await client.query("BEGIN;");
+      const member = await findTeamMember(client, ctx.tenantId, userId, true);
+      if (!member) {
+        throw new AppError("Membro nao encontrado.", 404);
+      }
+
+      const currentRole = normalizePanelRole(member.role as never);
+      const target = payload.role
+        ? await findAssignableRole(client, ctx.tenantId, payload.role)
+        : null;
+      const nextRole = target?.baseRole ?? currentRole;
+      const nextActive = payload.isActive ?? member.is_active;
+      await assertCanManage(client, ctx, member);
+
+      if (target && !coversRole(ctx, target)) {
+        throw new AppError("Voce nao pode atribuir um perfil com permissoes acima das suas.", 403);
+      }
+      const changesRole = target !== null && target.key !== (member.role_key ?? currentRole);
+      if (userId === ctx.userId && (changesRole || !nextActive)) {
+        throw new AppError(
+          "Voce nao pode alterar seu proprio perfil nem desativar a si mesmo.",
+          403
+        );
+      }
+
+      const currentDefinition = await resolveMemberRole(
+        client,
+        ctx.tenantId,
+        currentRole,
+        member.role_id
+      );
+      const losesAdmin =
+        isEffectiveAdmin(currentDefinition) &&
+        member.is_active &&
+        (!isEffectiveAdmin(target ?? currentDefinition) || !nextActive);
+      if (losesAdmin) {
+        await assertKeepsAnAdmin(client, ctx.tenantId, userId);
+      }
+
+      await client.query(
+        `
+          UPDATE tenant_members
+             SET role = $1,
+                 role_id = CASE WHEN $2::boolean THEN $3::uuid ELSE role_id END,
+                 is_active = $4,
+                 updated_at = NOW()
+           WHERE tenant_id = $5
+             AND user_id = $6;
+        `,
+        [
+          nextRole,
+          target !== null,
+          target && !target.isSystem ? target.id : null,
+          nextActive,
+          ctx.tenantId,
+          userId
+        ]
+      );
+
+      await recordAudit(client, request, {
+        tenantId: ctx.tenantId,
+        actorUserId: ctx.userId,
+        action: "team_member.update",
+        entityType: "team_member",
+        entityId: userId,
+        before: { roleKey: member.role_key ?? currentRole, isActive: member.is_active },
+        after: { roleKey: target?.key ?? member.role_key ?? currentRole, isActive: nextActive }
+      });
+
+      if (member.is_active && !nextActive) {
+        await client.query(
+          `
+            UPDATE user_sessions
+               SET revoked_at = NOW()
+             WHERE user_id = $1
+               AND tenant_id = $2
+               AND revoked_at IS NULL;
+          `,
+          [userId, ctx.tenantId]
+        );
+      }
+
+      await client.query("COMMIT;");
+
+      const updated = await findTeamMember(client, ctx.tenantId, userId);
+      response.json({ message: "Membro atualizado.", member: toTeamMember(updated!) });
+    } catch (error) {
+      await client.query("ROLLBACK;");
+      throw error;
+    } finally {
+      client.release();
+    }
+  })
+);
+
+teamRoutes.put(
+  "/:userId/scopes",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const userId = z.string().uuid().parse(request.params.userId);
+    const payload = updateScopesSchema.parse(request.body);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "team", "edit");
+      if (userId === ctx.userId) {
+        throw new AppError("Voce nao pode alterar seu proprio escopo.", 403);
+      }
+      await assertScopeTargets(
+        client,
+        ctx.tenantId,
+        payload.networkIds,
+        payload.cellIds,
+        payload.unitIds ?? []
+      );
+
+      await client.query("BEGIN;");
+      const member = await findTeamMember(client, ctx.tenantId, userId, true);
+      if (!member) {
+        throw new AppError("Membro nao encontrado.", 404);
+      }
+      await assertCanManage(client, ctx, member);
+
+      const unitIds = payload.unitIds ?? member.unit_ids;
+      await replaceUserScopes(
+        client,
+        ctx.tenantId,
+        userId,
+        payload.networkIds,
+        payload.cellIds,
+        unitIds
+      );
+      await recordAudit(client, request, {
+        tenantId: ctx.tenantId,
+        actorUserId: ctx.userId,
+        action: "team_member.scopes_update",
+        entityType: "team_member",
+        entityId: userId,
+        before: {
+          networkIds: member.network_ids,
+          unitIds: member.unit_ids,
+          cellIds: member.cell_ids
+        },
+        after: { networkIds: payload.networkIds, unitIds, cellIds: payload.cellIds }
+      });
+      await client.query("COMMIT;");
+
+      const updated = await findTeamMember(client, ctx.tenantId, userId);
+      response.json({ message: "Escopo atualizado.", member: toTeamMember(updated!) });
+    } catch (error) {
+      await client.query("ROLLBACK;");
+      throw error;
+    } finally {
+      client.release();
+    }
+  })
+);
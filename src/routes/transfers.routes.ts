@@ -0,0 +1,886 @@
+import { PoolClient } from "pg";
+import { Router } from "express";
+import { z } from "zod";
+import { asyncHandler } from "../common/async-handler";
+import { AppError } from "../common/errors";
+import { pool } from "../db/pool";
+import { recordAudit } from "../lib/audit";
+import { requireAuth } from "../middlewares/auth.middleware";
+import {
+  AccessContext,
+  assertCellInScope,
+  assertPermission,
+  getVisibleCells,
+  loadAccessContext
+} from "../panel/access";
+import { canAccess } from "../panel/permissions";
+import { moveParticipants, revertTransfer } from "../panel/transfers";
+
+const transferSchema = z.object({
+  sourceCellId: z.string().uuid(),
+  destinationCellId: z.string().uuid(),
+  participantIds: z.array(z.string().uuid()).min(1),
+  reason: z.string().trim().max(1000).optional()
+});
+
+const listTransfersQuerySchema = z.object({
+  cellId: z.string().uuid().optional(),
+  userId: z.string().uuid().optional(),
+  from: z.string().date().optional(),
+  to: z.string().date().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+const listRequestsQuerySchema = z.object({
+  status: z.enum(["pending", "approved", "rejected", "all"]).default("pending"),
+  direction: z.enum(["incoming", "outgoing", "all"]).default("all"),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+const decisionSchema = z.object({
+  note: z.string().trim().max(1000).optional()
+});
+
+type TransferLogRow = {
+  id: string;
+  source_cell_id: string;
+  source_cell_name: string;
+  source_network_id: string;
+  source_is_active: boolean;
+  destination_cell_id: string;
+  destination_cell_name: string;
+  destination_network_id: string;
+  transferred_by_user_id: string;
+  transferred_by_name: string;
+  transferred_at: string;
+  reverts_transfer_log_id: string | null;
+  reverted_at: string | null;
+  reverted_by_name: string | null;
+  multiplication_id: string | null;
+  participants_count: number;
+};
+
+const transferColumns = `
+  tl.id,
+  tl.source_cell_id,
+  sc.name AS source_cell_name,
+  sc.network_id AS source_network_id,
+  sc.is_active AS source_is_active,
+  tl.destination_cell_id,
+  dc.name AS destination_cell_name,
+  dc.network_id AS destination_network_id,
+  tl.transferred_by_user_id,
+  tu.full_name AS transferred_by_name,
+  tl.transferred_at::text,
+  tl.reverts_transfer_log_id,
+  tl.reverted_at::text,
+  vu.full_name AS reverted_by_name,
+  (
+    SELECT m.id
+      FROM cell_multiplications m
+     WHERE m.transfer_log_id = tl.id
+     LIMIT 1
+  ) AS multiplication_id,
+  (
+    SELECT COUNT(*)::int
+      FROM transfer_log_participants tlp
+     WHERE tlp.transfer_log_id = tl.id
+  ) AS participants_count
+`;
+
+const transferJoins = `
+  JOIN cells sc ON sc.id = tl.source_cell_id
+  JOIN cells dc ON dc.id = tl.destination_cell_id
+  JOIN users tu ON tu.id = tl.transferred_by_user_id
+  LEFT JOIN users vu ON vu.id = tl.reverted_by_user_id
+`;
+
+function toTransfer(row: TransferLogRow) {
+  return {
+    id: row.id,
+    sourceCellId: row.source_cell_id,
+    sourceCellName: row.source_cell_name,
+    destinationCellId: row.destination_cell_id,
+    destinationCellName: row.destination_cell_name,
+    transferredByUserId: row.transferred_by_user_id,
+    transferredBy: row.transferred_by_name,
+    transferredAt: row.transferred_at,
+    revertsTransferId: row.reverts_transfer_log_id,
+    revertedAt: row.reverted_at,
+    revertedBy: row.reverted_by_name,
+    multiplicationId: row.multiplication_id,
+    participantsCount: row.participants_count
+  };
+}
+
+async function findTransfer(
+  client: PoolClient,
+  tenantId: string,
+  transferId: string,
+  forUpdate = false
+): Promise<TransferLogRow | null> {
+  const result = await client.query<TransferLogRow>(
+    `
+      SELECT ${transferColumns}
+        FROM transfer_logs tl
+        ${transferJoins}
+       WHERE tl.tenant_id = $1
+         AND tl.id = $2
+       LIMIT 1
+       ${forUpdate ? "FOR UPDATE OF tl" : ""};
+    `,
+    [tenantId, transferId]
+  );
+
+  return result.rows[0] ?? null;
+}
+
+function assertTransferInScope(ctx: AccessContext, row: TransferLogRow): void {
+  try {
+    assertCellInScope(ctx, { id: row.source_cell_id, network_id: row.source_network_id });
+  } catch {
+    assertCellInScope(ctx, { id: row.destination_cell_id, network_id: row.destination_network_id });
+  }
+}
+
+type TransferRequestRow = {
+  id: string;
+  source_cell_id: string;
+  source_cell_name: string;
+  source_network_id: string;
+  destination_cell_id: string;
+  destination_cell_name: string;
+  destination_network_id: string;
+  status: "pending" | "approved" | "rejected";
+  reason: string | null;
+  requested_by_user_id: string;
+  requested_by_name: string;
+  decided_by_name: string | null;
+  decided_at: string | null;
+  decision_note: string | null;
+  transfer_log_id: string | null;
+  created_at: string;
+  participants_count: number;
+};
+
+const requestColumns = `
+  r.id,
+  r.source_cell_id,
+  sc.name AS source_cell_name,
+  sc.network_id AS source_network_id,
+  r.destination_cell_id,
+  dc.name AS destination_cell_name,
+  dc.network_id AS destination_network_id,
+  r.status,
+  r.reason,
+  r.requested_by_user_id,
+  ru.full_name AS requested_by_name,
+  du.full_name AS decided_by_name,
+  r.decided_at::text,
+  r.decision_note,
+  r.transfer_log_id,
+  r.created_at::text,
+  (
+    SELECT COUNT(*)::int
+      FROM transfer_request_participants rp
+     WHERE rp.request_id = r.id
+  ) AS participants_count
+`;
+
+const requestJoins = `
+  JOIN cells sc ON sc.id = r.source_cell_id
+  JOIN cells dc ON dc.id = r.destination_cell_id
+  JOIN users ru ON ru.id = r.requested_by_user_id
+  LEFT JOIN users du ON du.id = r.decided_by_user_id
+`;
+
+function toTransferRequest(row: TransferRequestRow) {
+  return {
+    id: row.id,
+    sourceCellId: row.source_cell_id,
+    sourceCellName: row.source_cell_name,
+    destinationCellId: row.destination_cell_id,
+    destinationCellName: row.destination_cell_name,
+    status: row.status,
+    reason: row.reason,
+    requestedBy: row.requested_by_name,
+    decidedBy: row.decided_by_name,
+    decidedAt: row.decided_at,
+    decisionNote: row.decision_note,
+    transferId: row.transfer_log_id,
+    createdAt: row.created_at,
+    participantsCount: row.participants_count
+  };
+}
+
+async function findTransferRequest(
+  client: PoolClient,
+  tenantId: string,
+  requestId: string,
+  forUpdate = false
+): Promise<TransferRequestRow | null> {
+  const result = await client.query<TransferRequestRow>(
+    `
+      SELECT ${requestColumns}
+        FROM transfer_requests r
+        ${requestJoins}
+       WHERE r.tenant_id = $1
+         AND r.id = $2
+       LIMIT 1
+       ${forUpdate ? "FOR UPDATE OF r" : ""};
+    `,
+    [tenantId, requestId]
+  );
+
+  return result.rows[0] ?? null;
+}
+
+function assertCanViewRequest(ctx: AccessContext, row: TransferRequestRow): void {
+  if (row.requested_by_user_id === ctx.userId) {
+    return;
+  }
+
+  try {
+    assertCellInScope(ctx, { id: row.destination_cell_id, network_id: row.destination_network_id });
+  } catch {
+    assertCellInScope(ctx, { id: row.source_cell_id, network_id: row.source_network_id });
+  }
+}
+
+export const transferRoutes = Router();
+
+transferRoutes.use(requireAuth);
+
+transferRoutes.get(
+  "/context",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const sourceCellId = request.query.sourceCellId
+      ? String(request.query.sourceCellId)
+      : null;
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "cells_admin", "view");
+      const cells = await getVisibleCells(client, ctx);
+      const cellIds = new Set(cells.map((cell) => cell.id));
+      const destinations = await client.query<{
+        id: string;
+        name: string;
+        code: string;
+        network_name: string;
+      }>(
+        `
+          SELECT c.id, c.name, c.code, n.name AS network_name
+            FROM cells c
+            JOIN church_networks n ON n.id = c.network_id
+           WHERE c.tenant_id = $1
+             AND c.is_active = TRUE
+           ORDER BY n.name, c.name;
+        `,
+        [ctx.tenantId]
+      );
+      const destinationCells = destinations.rows.map((row) => ({
+        id: row.id,
+        name: row.name,
+        code: row.code,
+        networkName: row.network_name,
+        requiresApproval:
+          !cellIds.has(row.id) || !canAccess(ctx.permissions, "cells_admin", "create")
+      }));
+
+      if (!sourceCellId) {
+        response.json({ cells, destinations: destinationCells, participants: [] });
+        return;
+      }
+
+      if (!cellIds.has(sourceCellId)) {
+        throw new AppError("Celula de origem fora do seu escopo.", 403);
+      }
+
+      const participants = await client.query<{
+        id: string;
+        full_name: string;
+        type: string;
+      }>(
+        `
+          SELECT p.id, p.full_name, pcl.type::text AS type
+            FROM participants p
+            JOIN participant_cell_links pcl
+              ON pcl.participant_id = p.id
+             AND pcl.is_active = TRUE
+           WHERE p.tenant_id = $1
+             AND pcl.cell_id = $2
+           ORDER BY p.full_name;
+        `,
+        [ctx.tenantId, sourceCellId]
+      );
+
+      response.json({
+        cells,
+        destinations: destinationCells,
+        participants: participants.rows.map((row) => ({
+          id: row.id,
+          name: row.full_name,
+          type: row.type
+        }))
+      });
+    } finally {
+      client.release();
+    }
+  })
+);
+
+transferRoutes.post(
+  "/",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const payload = transferSchema.parse(request.body);
+    if (payload.sourceCellId === payload.destinationCellId) {
+      throw new AppError("Origem e destino nao podem ser iguais.", 400);
+    }
+
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      const cells = await getVisibleCells(client, ctx);
+      const cellIds = new Set(cells.map((cell) => cell.id));
+
+      if (!cellIds.has(payload.sourceCellId)) {
+        throw new AppError("Transferencia fora do seu escopo.", 403);
+      }
+
+      if (
+        cellIds.has(payload.destinationCellId) &&
+        canAccess(ctx.permissions, "cells_admin", "create")
+      ) {
+        await client.query("BEGIN;");
+        const transferId = await moveParticipants(client, {
+          tenantId: ctx.tenantId,
+          sourceCellId: payload.sourceCellId,
+          destinationCellId: payload.destinationCellId,
+          participantIds: payload.participantIds,
+          userId: ctx.userId
+        });
+
+        await recordAudit(client, request, {
+          tenantId: ctx.tenantId,
+          actorUserId: ctx.userId,
+          action: "transfer.create",
+          entityType: "transfer",
+          entityId: transferId,
+          after: {
+            sourceCellId: payload.sourceCellId,
+            destinationCellId: payload.destinationCellId,
+            participantIds: payload.participantIds
+          }
+        });
+
+        await client.query("COMMIT;");
+        response.status(201).json({
+          message: "Transferencia realizada com sucesso.",
+          status: "approved",
+          transferId
+        });
+        return;
+      }
+
+      assertPermission(ctx, "participants", "edit");
+      await client.query("BEGIN;");
+      const destination = await client.query(
+        `
+          SELECT 1
+            FROM cells
+           WHERE id = $1
+             AND tenant_id = $2
+             AND is_active = TRUE
+           LIMIT 1;
+        `,
+        [payload.destinationCellId, ctx.tenantId]
+      );
+      if (!destination.rowCount) {
+        throw new AppError("Celula de destino nao encontrada ou inativa.", 400);
+      }
+
+      const participantIds = Array.from(new Set(payload.participantIds));
+      const linked = await client.query(
+        `
+          SELECT participant_id
+            FROM participant_cell_links
+           WHERE tenant_id = $1
+             AND cell_id = $2
+             AND participant_id = ANY($3::uuid[])
+             AND is_active = TRUE;
+        `,
+        [ctx.tenantId, payload.sourceCellId, participantIds]
+      );
+      if (linked.rowCount !== participantIds.length) {
+        throw new AppError("Participantes invalidos para a celula de origem.", 400);
+      }
+
+      const pending = await client.query(
+        `
+          SELECT 1
+            FROM transfer_request_participants rp
+            JOIN transfer_requests r ON r.id = rp.request_id
+           WHERE r.tenant_id = $1
+             AND r.status = 'pending'
+             AND rp.participant_id = ANY($2::uuid[])
+           LIMIT 1;
+        `,
+        [ctx.tenantId, participantIds]
+      );
+      if (pending.rowCount) {
+        throw new AppError("Ja existe uma solicitacao pendente para algum dos participantes.", 409);
+      }
+
+      const created = await client.query<{ id: string }>(
+        `
+          INSERT INTO transfer_requests (
+            tenant_id,
+            source_cell_id,
+            destination_cell_id,
+            reason,
+            requested_by_user_id
+          )
+          VALUES ($1, $2, $3, $4, $5)
+          RETURNING id;
+        `,
+        [
+          ctx.tenantId,
+          payload.sourceCellId,
+          payload.destinationCellId,
+          payload.reason ?? null,
+          ctx.userId
+        ]
+      );
+      const requestId = created.rows[0].id;
+      await client.query(
+        `
+          INSERT INTO transfer_request_participants (request_id, participant_id)
+          SELECT $1, UNNEST($2::uuid[]);
+        `,
+        [requestId, participantIds]
+      );
+
+      await recordAudit(client, request, {
+        tenantId: ctx.tenantId,
+        actorUserId: ctx.userId,
+        action: "transfer_request.create",
+        entityType: "transfer_request",
+        entityId: requestId,
+        after: {
+          sourceCellId: payload.sourceCellId,
+          destinationCellId: payload.destinationCellId,
+          participantIds,
+          reason: payload.reason ?? null
+        }
+      });
+      await client.query("COMMIT;");
+
+      response.status(202).json({
+        message: "Solicitacao de transferencia enviada para aprovacao.",
+        status: "pending",
+        requestId
+      });
+    } catch (error) {
+      await client.query("ROLLBACK;");
+      throw error;
+    } finally {
+      client.release();
+    }
+  })
+);
+
+transferRoutes.get(
+  "/requests",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const filters = listRequestsQuerySchema.parse(request.query);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "participants", "view");
+      const visibleCellIds =
+        ctx.scope === "all" ? null : (await getVisibleCells(client, ctx)).map((cell) => cell.id);
+      const rows = await client.query<TransferRequestRow & { total: string }>(
+        `
+          SELECT ${requestColumns}, COUNT(*) OVER()::text AS total
+            FROM transfer_requests r
+            ${requestJoins}
+           WHERE r.tenant_id = $1
+             AND ($2::text = 'all' OR r.status = $2)
+             AND (
+               ($3::text IN ('incoming', 'all')
+                 AND ($4::uuid[] IS NULL OR r.destination_cell_id = ANY($4::uuid[])))
+               OR ($3::text IN ('outgoing', 'all')
+                 AND (
+                   r.requested_by_user_id = $5
+                   OR $4::uuid[] IS NULL
+                   OR r.source_cell_id = ANY($4::uuid[])
+                 ))
+             )
+           ORDER BY r.created_at DESC
+           LIMIT $6
+          OFFSET $7;
+        `,
+        [
+          ctx.tenantId,
+          filters.status,
+          filters.direction,
+          visibleCellIds,
+          ctx.userId,
+          filters.limit,
+          filters.offset
+        ]
+      );
+
+      response.json({
+        total: Number(rows.rows[0]?.total ?? "0"),
+        rows: rows.rows.map(toTransferRequest)
+      });
+    } finally {
+      client.release();
+    }
+  })
+);
+
+transferRoutes.get(
+  "/requests/:id",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const requestId = z.string().uuid().parse(request.params.id);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "participants", "view");
+      const row = await findTransferRequest(client, ctx.tenantId, requestId);
+      if (!row) {
+        throw new AppError("Solicitacao nao encontrada.", 404);
+      }
+      assertCanViewRequest(ctx, row);
+
+      const participants = await client.query<{ id: string; full_name: string }>(
+        `
+          SELECT p.id, p.full_name
+            FROM transfer_request_participants rp
+            JOIN participants p ON p.id = rp.participant_id
+           WHERE rp.request_id = $1
+           ORDER BY p.full_name;
+        `,
+        [row.id]
+      );
+
+      response.json({
+        request: toTransferRequest(row),
+        participants: participants.rows.map((participant) => ({
+          id: participant.id,
+          name: participant.full_name
+        }))
+      });
+    } finally {
+      client.release();
+    }
+  })
+);
+
+transferRoutes.post(
+  "/requests/:id/approve",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const requestId = z.string().uuid().parse(request.params.id);
+    const payload = decisionSchema.parse(request.body ?? {});
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "participants", "edit");
+
+      await client.query("BEGIN;");
+      const row = await findTransferRequest(client, ctx.tenantId, requestId, true);
+      if (!row) {
+        throw new AppError("Solicitacao nao encontrada.", 404);
+      }
+      assertCellInScope(ctx, { id: row.destination_cell_id, network_id: row.destination_network_id });
+      if (row.status !== "pending") {
+        throw new AppError("Solicitacao ja foi decidida.", 409);
+      }
+
+      const destination = await client.query(
+        `
+          SELECT 1
+            FROM cells
+           WHERE id = $1
+             AND tenant_id = $2
+             AND is_active = TRUE
+           LIMIT 1
+           FOR SHARE;
+        `,
+        [row.destination_cell_id, ctx.tenantId]
+      );
+      if (!destination.rowCount) {
+        throw new AppError("Celula de destino foi desativada depois da solicitacao.", 409);
+      }
+
+      const participants = await client.query<{ participant_id: string }>(
+        "SELECT participant_id FROM transfer_request_participants WHERE request_id = $1;",
+        [row.id]
+      );
+      const transferId = await moveParticipants(client, {
+        tenantId: ctx.tenantId,
+        sourceCellId: row.source_cell_id,
+        destinationCellId: row.destination_cell_id,
+        participantIds: participants.rows.map((participant) => participant.participant_id),
+        userId: ctx.userId
+      });
+
+      await client.query(
+        `
+          UPDATE transfer_requests
+             SET status = 'approved',
+                 decided_by_user_id = $3,
+                 decided_at = NOW(),
+                 decision_note = $4,
+                 transfer_log_id = $5
+           WHERE id = $1
+             AND tenant_id = $2;
+        `,
+        [row.id, ctx.tenantId, ctx.userId, payload.note ?? null, transferId]
+      );
+      await recordAudit(client, request, {
+        tenantId: ctx.tenantId,
+        actorUserId: ctx.userId,
+        action: "transfer_request.approve",
+        entityType: "transfer_request",
+        entityId: row.id,
+        before: { status: row.status },
+        after: { status: "approved", transferId, note: payload.note ?? null }
+      });
+      await client.query("COMMIT;");
+
+      response.json({ message: "Transferencia aprovada e realizada.", transferId });
+    } catch (error) {
+      await client.query("ROLLBACK;");
+      throw error;
+    } finally {
+      client.release();
+    }
+  })
+);
+
+transferRoutes.post(
+  "/requests/:id/reject",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const requestId = z.string().uuid().parse(request.params.id);
+    const payload = decisionSchema.parse(request.body ?? {});
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "participants", "edit");
+
+      await client.query("BEGIN;");
+      const row = await findTransferRequest(client, ctx.tenantId, requestId, true);
+      if (!row) {
+        throw new AppError("Solicitacao nao encontrada.", 404);
+      }
+      assertCellInScope(ctx, { id: row.destination_cell_id, network_id: row.destination_network_id });
+      if (row.status !== "pending") {
+        throw new AppError("Solicitacao ja foi decidida.", 409);
+      }
+
+      await client.query(
+        `
+          UPDATE transfer_requests
+             SET status = 'rejected',
+                 decided_by_user_id = $3,
+                 decided_at = NOW(),
+                 decision_note = $4
+           WHERE id = $1
+             AND tenant_id = $2;
+        `,
+        [row.id, ctx.tenantId, ctx.userId, payload.note ?? null]
+      );
+      await recordAudit(client, request, {
+        tenantId: ctx.tenantId,
+        actorUserId: ctx.userId,
+        action: "transfer_request.reject",
+        entityType: "transfer_request",
+        entityId: row.id,
+        before: { status: row.status },
+        after: { status: "rejected", note: payload.note ?? null }
+      });
+      await client.query("COMMIT;");
+
+      response.json({ message: "Solicitacao recusada." });
+    } catch (error) {
+      await client.query("ROLLBACK;");
+      throw error;
+    } finally {
+      client.release();
+    }
+  })
+);
+
+transferRoutes.get(
+  "/",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const filters = listTransfersQuerySchema.parse(request.query);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "cells_admin", "view");
+      const visibleCellIds =
+        ctx.scope === "all" ? null : (await getVisibleCells(client, ctx)).map((cell) => cell.id);
+      const rows = await client.query<TransferLogRow & { total: string }>(
+        `
+          SELECT ${transferColumns}, COUNT(*) OVER()::text AS total
+            FROM transfer_logs tl
+            ${transferJoins}
+           WHERE tl.tenant_id = $1
+             AND (
+               $2::uuid[] IS NULL
+               OR tl.source_cell_id = ANY($2::uuid[])
+               OR tl.destination_cell_id = ANY($2::uuid[])
+             )
+             AND ($3::uuid IS NULL OR tl.source_cell_id = $3 OR tl.destination_cell_id = $3)
+             AND ($4::uuid IS NULL OR tl.transferred_by_user_id = $4)
+             AND ($5::date IS NULL OR tl.transferred_at >= $5::date)
+             AND ($6::date IS NULL OR tl.transferred_at < $6::date + 1)
+           ORDER BY tl.transferred_at DESC
+           LIMIT $7
+          OFFSET $8;
+        `,
+        [
+          ctx.tenantId,
+          visibleCellIds,
+          filters.cellId ?? null,
+          filters.userId ?? null,
+          filters.from ?? null,
+          filters.to ?? null,
+          filters.limit,
+          filters.offset
+        ]
+      );
+
+      response.json({
+        total: Number(rows.rows[0]?.total ?? "0"),
+        rows: rows.rows.map(toTransfer)
+      });
+    } finally {
+      client.release();
+    }
+  })
+);
+
+transferRoutes.get(
+  "/:id",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const transferId = z.string().uuid().parse(request.params.id);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "cells_admin", "view");
+      const row = await findTransfer(client, ctx.tenantId, transferId);
+      if (!row) {
+        throw new AppError("Transferencia nao encontrada.", 404);
+      }
+      assertTransferInScope(ctx, row);
+
+      const participants = await client.query<{
+        id: string;
+        full_name: string;
+        type: string | null;
+      }>(
+        `
+          SELECT p.id, p.full_name, tlp.participant_type::text AS type
+            FROM transfer_log_participants tlp
+            JOIN participants p ON p.id = tlp.participant_id
+           WHERE tlp.transfer_log_id = $1
+           ORDER BY p.full_name;
+        `,
+        [row.id]
+      );
+      const reversal = await client.query<{ id: string }>(
+        "SELECT id FROM transfer_logs WHERE reverts_transfer_log_id = $1 LIMIT 1;",
+        [row.id]
+      );
+
+      response.json({
+        transfer: {
+          ...toTransfer(row),
+          revertedByTransferId: reversal.rows[0]?.id ?? null
+        },
+        participants: participants.rows.map((participant) => ({
+          id: participant.id,
+          name: participant.full_name,
+          type: participant.type
+        }))
+      });
+    } finally {
+      client.release();
+    }
+  })
+);
+
+transferRoutes.post(
+  "/:id/revert",
+  asyncHandler(async (request, response) => {
+    const auth = request.auth!;
+    const transferId = z.string().uuid().parse(request.params.id);
+    const client = await pool.connect();
+    try {
+      const ctx = await loadAccessContext(client, auth.userId, auth.tenantId);
+      assertPermission(ctx, "cells_admin", "create");
+
+      await client.query("BEGIN;");
+      const row = await findTransfer(client, ctx.tenantId, transferId, true);
+      if (!row) {
+        throw new AppError("Transferencia nao encontrada.", 404);
+      }
+      assertCellInScope(ctx, { id: row.source_cell_id, network_id: row.source_network_id });
+      assertCellInScope(ctx, { id: row.destination_cell_id, network_id: row.destination_network_id });
+      if (row.reverted_at) {
+        throw new AppError("Transferencia ja foi revertida.", 409);
+      }
+      if (row.reverts_transfer_log_id) {
+        throw new AppError("Uma reversao nao pode ser revertida.", 409);
+      }
+      if (row.multiplication_id) {
+        throw new AppError("Transferencias de multiplicacao nao podem ser revertidas.", 409);
+      }
+      if (!row.source_is_active) {
+        throw new AppError("Celula de origem esta inativa.", 409);
+      }
+
+      const reversalId = await revertTransfer(client, {
+        tenantId: ctx.tenantId,
+        transferId: row.id,
+        sourceCellId: row.source_cell_id,
+        destinationCellId: row.destination_cell_id,
+        userId: ctx.userId
+      });
+
+      await recordAudit(client, request, {
+        tenantId: ctx.tenantId,
+        actorUserId: ctx.userId,
+        action: "transfer.revert",
+        entityType: "transfer",
+        entityId: row.id,
+        before: { revertedAt: null },
+        after: { reversalTransferId: reversalId }
+      });
+      await client.query("COMMIT;");
+
+      response.json({ message: "Transferencia revertida.", transferId: reversalId });
+    } catch (error) {
+      await client.query("ROLLBACK;");
+      throw error;
+    } finally {
+      client.release();
+    }
+  })
+);
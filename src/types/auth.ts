@@ -7,7 +7,8 @@ export const tenantRoles = [
   "pastor_presidente",
   "pastor_rede",
   "lider_celula",
-  "secretaria"
+  "secretaria",
+  "supervisor"
 ] as const;
 export type TenantRole = (typeof tenantRoles)[number];
 
@@ -15,4 +16,17 @@ export type AuthPayload = {
   userId: string;
   tenantId: string;
   role: TenantRole;
+  sessionId: string;
+};
+
+export type AccessTokenClaims = AuthPayload & {
+  issuedAt: number;
+};
+
+export type MfaChallengePurpose = "mfa_verify" | "mfa_setup";
+
+export type MfaChallengePayload = {
+  userId: string;
+  tenantId: string;
+  purpose: MfaChallengePurpose;
 };